@@ -0,0 +1,55 @@
+/**
+ * Agent runner limits for tool-calling loops
+ */
+
+export const agentRunnerConfig = {
+  // Model turns that may request tools before a final answer is forced
+  maxToolIterations: parseInt(process.env.AGENT_MAX_TOOL_ITERATIONS || '5'),
+  // Per tool call
+  toolTimeoutMs: parseInt(process.env.AGENT_TOOL_TIMEOUT_MS || '15000'),
+  // Tool output is truncated to this many characters before going back to the model
+  maxToolResultChars: 8000,
+  // Tool arguments filled in from the request, never by the model (prevents acting on another user's data)
+  injectedToolArgs: ['userId'],
+  // Tools offered to chat, debates and workflow steps without an approval before them.
+  // Anything else (placing orders) needs `toolAccess: 'all'`, which only approval-gated steps pass.
+  readOnlyTools: [
+    'market-data',
+    'parallel-search',
+    'portfolio-analysis',
+    'technical-analysis',
+    'fundamental-analysis',
+    'quant-analysis',
+    'technical-indicators',
+    'order-flow',
+    'risk-management',
+    'portfolio-optimization',
+    'asset-allocation',
+    'retirement-planning',
+    'tax-optimization',
+    'risk-assessment',
+    'hedging',
+    'stress-testing',
+    'volatility-analysis',
+    'correlation-analysis',
+    'economic-data',
+    'sector-analysis',
+    'policy-analysis',
+    'market-cycle',
+    'plaid-integration',
+  ],
+  // Read-only callers may only use these actions of tools that can also change things
+  readOnlyToolActions: {
+    'plaid-integration': ['getAccounts', 'getTransactions', 'getHoldings'],
+  } as Record<string, [string, ...string[]]>,
+};
+
+/**
+ * Structured (JSON) agent output
+ */
+export const structuredOutputConfig = {
+  // Extra calls made when the model's JSON fails schema validation
+  maxRepairAttempts: parseInt(process.env.AGENT_OUTPUT_REPAIR_ATTEMPTS || '2'),
+  // Validation issues quoted back to the model per repair attempt
+  maxIssuesReported: 10,
+};
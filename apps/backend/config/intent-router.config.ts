@@ -0,0 +1,72 @@
+import type { AssistantType } from './prompt-templates.config';
+
+/**
+ * Intent router: decides between starting a workflow and answering in chat,
+ * and which assistant answers, by embedding similarity to example requests
+ */
+
+export const intentRouterConfig = {
+  // Similarity to a workflow's closest trigger needed to start it instead of answering in chat
+  workflowThreshold: parseFloat(process.env.INTENT_WORKFLOW_THRESHOLD || '0.6'),
+  // Below this no assistant stands out and the general assistant answers
+  assistantThreshold: 0.35,
+  // Messages that ask for "a workflow" start the default one when none is close enough
+  explicitWorkflowPattern: /\b(workflow|multi[- ]agent)\b/i,
+
+  // The LLM picks between the top intents when their scores are this close
+  tiebreak: {
+    enabled: process.env.INTENT_LLM_TIEBREAK !== 'false',
+    margin: 0.05,
+    maxCandidates: 3,
+    maxTokens: 200,
+  },
+
+  // Every decision goes to intent_decisions, where it can be labeled for offline evaluation
+  logDecisions: process.env.INTENT_LOG_DECISIONS !== 'false',
+
+  // Plain chat examples per assistant; workflows use the triggers in their definitions
+  assistantExamples: {
+    general: [
+      'what is a bond',
+      'explain compound interest',
+      'difference between a roth and traditional ira',
+      'how does the stock market work',
+      'what does expense ratio mean',
+    ],
+    analyst: [
+      'what are apple earnings expectations',
+      'is nvidia overvalued on its p/e ratio',
+      'compare microsoft and google fundamentals',
+      'what is the price target for tesla',
+      'how did amazon revenue grow last quarter',
+    ],
+    trader: [
+      'where is support and resistance on spy',
+      'is tsla breaking out on the chart',
+      'what does the rsi say about qqq',
+      'set a stop loss for my swing trade',
+      'good entry point for aapl',
+    ],
+    advisor: [
+      'how much should i save for retirement',
+      'should i pay off debt or invest',
+      'how do i start investing with 1000 dollars',
+      'which index funds should i hold',
+      'how much emergency fund do i need',
+    ],
+    riskManager: [
+      'how volatile is my position in tesla',
+      'what is my maximum drawdown',
+      'how do i size my positions',
+      'what is value at risk',
+      'am i too concentrated in tech stocks',
+    ],
+    economist: [
+      'will the fed cut interest rates',
+      'how does inflation affect stocks',
+      'what does the jobs report mean for markets',
+      'is a recession likely this year',
+      'how do tariffs affect the economy',
+    ],
+  } as Record<AssistantType, string[]>,
+};
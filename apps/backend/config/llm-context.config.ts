@@ -0,0 +1,42 @@
+/**
+ * Context window sizes and conversation history limits
+ */
+
+// Total context window (prompt + completion) in tokens, keyed by model name
+export const modelContextWindows: Record<string, number> = {
+  // Groq
+  'llama-3.3-70b-versatile': 131072,
+  'llama-3.1-70b-versatile': 131072,
+  'llama-3.1-8b-instant': 131072,
+  'mixtral-8x7b-32768': 32768,
+  // Azure model router
+  'model-router': 128000,
+  // OpenAI
+  'gpt-4-turbo-preview': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-4': 8192,
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+  'gpt-3.5-turbo': 16385,
+  // Anthropic
+  'claude-3-5-sonnet-latest': 200000,
+  'claude-3-5-haiku-latest': 200000,
+  'claude-3-opus-latest': 200000,
+  // Local mock
+  none: 8192,
+};
+
+// Conservative default for models missing from the table
+export const defaultContextWindow = 8192;
+
+export const conversationConfig = {
+  // Upper bound on history sent per request, whatever the model allows (keeps cost predictable)
+  maxHistoryTokens: parseInt(process.env.CHAT_HISTORY_MAX_TOKENS || '6000'),
+  // Most recent messages loaded from chat_messages per request
+  maxHistoryMessages: 100,
+  // When history overflows, older turns are folded into the summary until
+  // the remainder uses at most this share of the history budget
+  keepRatioAfterSummary: 0.6,
+  // Length cap for the rolling summary
+  summaryMaxTokens: 400,
+};
@@ -0,0 +1,54 @@
+/**
+ * LLM pricing and budget configuration used for usage accounting
+ */
+
+export interface ModelPricing {
+  /** USD per 1M prompt tokens */
+  input: number;
+  /** USD per 1M completion tokens */
+  output: number;
+}
+
+// USD per 1M tokens, keyed by the model name reported by the provider adapter
+export const modelPricing: Record<string, ModelPricing> = {
+  // Groq
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'mixtral-8x7b-32768': { input: 0.24, output: 0.24 },
+  // Azure model router (billed roughly at GPT-4o rates)
+  'model-router': { input: 2.5, output: 10 },
+  // OpenAI
+  'gpt-4-turbo-preview': { input: 10, output: 30 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  // Anthropic
+  'claude-3-5-sonnet-latest': { input: 3, output: 15 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'claude-3-opus-latest': { input: 15, output: 75 },
+  // Local mock
+  none: { input: 0, output: 0 },
+};
+
+// Applied to models missing from the table so unknown models are never free
+export const defaultModelPricing: ModelPricing = { input: 2.5, output: 10 };
+
+export type BudgetAction = 'reject' | 'downgrade';
+
+export const budgetConfig = {
+  // Defaults for users without a row in llm_budgets (0 = unlimited)
+  dailyLimitUsd: parseFloat(process.env.LLM_DAILY_BUDGET_USD || '0'),
+  monthlyLimitUsd: parseFloat(process.env.LLM_MONTHLY_BUDGET_USD || '0'),
+  onExceeded: (process.env.LLM_BUDGET_ACTION || 'downgrade') as BudgetAction,
+  // Cheaper target used when a budget is exhausted and the action is 'downgrade';
+  // the cheapest available model is used instead while its provider is unavailable
+  downgradeTo: {
+    provider: process.env.LLM_BUDGET_DOWNGRADE_PROVIDER || 'groq',
+    model: process.env.LLM_BUDGET_DOWNGRADE_MODEL || 'llama-3.1-8b-instant',
+  },
+  // How long budget totals are cached in memory between database reads
+  cacheTtlMs: 60 * 1000,
+};
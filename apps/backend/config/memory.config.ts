@@ -0,0 +1,30 @@
+/**
+ * Long-term user memory (agent_memory)
+ */
+
+export const MEMORY_CATEGORIES = ['goal', 'risk_tolerance', 'holding', 'preference'] as const;
+export type MemoryCategory = typeof MEMORY_CATEGORIES[number];
+
+export const memoryConfig = {
+  enabled: process.env.MEMORY_ENABLED !== 'false',
+  // Size of agent_memory.embedding
+  embeddingDimensions: 1536,
+  maxMemoriesPerUser: 200,
+  maxTextLength: 300,
+
+  extraction: {
+    // Messages without first-person wording rarely state durable facts; skip the model call
+    cuePattern: /\b(i|i'm|i've|i'd|me|my|we|we're|our)\b/i,
+    minMessageLength: 15,
+    minConfidence: parseFloat(process.env.MEMORY_MIN_CONFIDENCE || '0.6'),
+    maxPerMessage: 5,
+    maxTokens: 500,
+  },
+
+  recall: {
+    limit: 6,
+    minSimilarity: parseFloat(process.env.MEMORY_MIN_SIMILARITY || '0.25'),
+    // Always recalled, whatever the question
+    pinnedCategories: ['risk_tolerance'] as MemoryCategory[],
+  },
+};
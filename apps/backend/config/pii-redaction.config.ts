@@ -0,0 +1,37 @@
+/**
+ * PII redaction applied to every prompt before it reaches an LLM provider
+ */
+
+export type PiiType = 'email' | 'ssn' | 'card' | 'routing' | 'account' | 'phone' | 'address';
+
+export const piiRedactionConfig = {
+  enabled: process.env.PII_REDACTION_ENABLED !== 'false',
+
+  // Detection order; earlier types win when matches overlap
+  types: ['email', 'ssn', 'card', 'routing', 'account', 'phone', 'address'] as PiiType[],
+
+  // Placeholder labels, e.g. [EMAIL_1]
+  placeholderLabels: {
+    email: 'EMAIL',
+    ssn: 'SSN',
+    card: 'CARD',
+    routing: 'ROUTING_NUMBER',
+    account: 'ACCOUNT_NUMBER',
+    phone: 'PHONE',
+    address: 'ADDRESS',
+  } as Record<PiiType, string>,
+
+  // security_events severity per request, from the most sensitive type found
+  severity: {
+    ssn: 'high',
+    card: 'high',
+    account: 'medium',
+    routing: 'medium',
+    email: 'low',
+    phone: 'low',
+    address: 'low',
+  } as Record<PiiType, 'low' | 'medium' | 'high'>,
+
+  // Write a security_events row for each request that had redactions
+  logEvents: process.env.PII_REDACTION_LOG_EVENTS !== 'false',
+};
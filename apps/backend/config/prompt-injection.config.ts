@@ -0,0 +1,134 @@
+/**
+ * Prompt-injection screening of user messages and tool outputs
+ */
+
+export type InjectionCategory =
+  | 'instruction_override'
+  | 'system_prompt_request'
+  | 'role_spoofing'
+  | 'exfiltration'
+  | 'tool_hijack'
+  | 'hidden_text';
+
+export type InjectionSource = 'user' | 'tool';
+
+/**
+ * block: reject a user message / withhold a tool result entirely
+ * neutralize: cut the suspicious spans out and continue
+ * warn: log the incident and pass the text through unchanged
+ */
+export type InjectionAction = 'block' | 'neutralize' | 'warn';
+
+export interface InjectionRule {
+  id: string;
+  category: InjectionCategory;
+  pattern: RegExp;
+  /** 0-1; scores of matching rules combine as 1 - Π(1 - weight) */
+  weight: number;
+}
+
+export const promptInjectionConfig = {
+  enabled: process.env.PROMPT_INJECTION_DETECTION_ENABLED !== 'false',
+  // Texts scoring at or above this are incidents and get the route's action
+  threshold: parseFloat(process.env.PROMPT_INJECTION_THRESHOLD || '0.5'),
+
+  // Policy per route (the metering feature for tool outputs); unknown routes use `default`
+  routes: {
+    default: { user: 'warn', tool: 'neutralize' },
+    chat: { user: (process.env.PROMPT_INJECTION_CHAT_ACTION || 'block') as InjectionAction, tool: 'neutralize' },
+    // Workflow agents read news and filings, so tool outputs are withheld outright
+    agent: { user: 'neutralize', tool: 'block' },
+    workflow: { user: 'neutralize', tool: 'block' },
+  } as Record<string, Record<InjectionSource, InjectionAction>>,
+
+  replacement: '[removed: suspected prompt injection]',
+  // Characters of each matched span kept in security_events
+  maxExcerptChars: 120,
+
+  rules: [
+    {
+      id: 'ignore-instructions',
+      category: 'instruction_override',
+      pattern: /\b(ignore|disregard|forget|override|bypass)\b[^.\n]{0,40}?\b(previous|prior|above|earlier|all|any|your|the|these)\b[^.\n]{0,20}?\b(instructions?|prompts?|directives|guardrails|system message)\b/gi,
+      weight: 0.7,
+    },
+    {
+      id: 'new-instructions',
+      category: 'instruction_override',
+      pattern: /\b(new|updated|real) (system )?instructions?\s*:/gi,
+      weight: 0.5,
+    },
+    {
+      id: 'persona-switch',
+      category: 'instruction_override',
+      pattern: /\b(you are now|from now on,? you (are|will)|pretend (to be|you are)|act as)\b[^.\n]{0,60}?\b(without (any )?(restrictions|limits|filters|rules)|unrestricted|unfiltered)/gi,
+      weight: 0.5,
+    },
+    {
+      id: 'jailbreak-mode',
+      category: 'instruction_override',
+      pattern: /\b(developer|god|jailbreak|DAN) mode\b|\bjailbreak(ed|ing)?\b/gi,
+      weight: 0.6,
+    },
+    {
+      id: 'reveal-system-prompt',
+      category: 'system_prompt_request',
+      pattern: /\b(reveal|show|print|repeat|output|display|leak|dump|tell me)\b[^.\n]{0,30}?\b(system prompt|system message|initial prompt|hidden (prompt|instructions)|(original|initial|hidden|secret) instructions|instructions you were given)\b/gi,
+      weight: 0.7,
+    },
+    {
+      id: 'ask-instructions',
+      category: 'system_prompt_request',
+      pattern: /\bwhat (were|are) your (original |initial |system |hidden )?(instructions|rules|prompt)\b/gi,
+      weight: 0.5,
+    },
+    {
+      id: 'chat-markup',
+      category: 'role_spoofing',
+      pattern: /<\|im_(start|end)\|>|\[\/?INST\]|<\/?(system|assistant)>|^#{2,}\s*(system|instructions?)\b/gim,
+      weight: 0.6,
+    },
+    {
+      id: 'role-prefix',
+      category: 'role_spoofing',
+      pattern: /^\s*(system|assistant)\s*:/gim,
+      weight: 0.4,
+    },
+    {
+      id: 'markdown-image-beacon',
+      category: 'exfiltration',
+      pattern: /!\[[^\]]*\]\(\s*https?:\/\/[^)\s]*\?[^)\s]*\)/gi,
+      weight: 0.7,
+    },
+    {
+      id: 'send-to-url',
+      category: 'exfiltration',
+      pattern: /\b(send|post|upload|forward|exfiltrate|transmit|append)\b[^.\n]{0,60}?\b(to|at)\s+(https?:\/\/|www\.)\S+/gi,
+      weight: 0.6,
+    },
+    {
+      id: 'url-with-secrets',
+      category: 'exfiltration',
+      pattern: /https?:\/\/\S+[?&]\S*\b(prompt|secret|token|api_?key|password|ssn|account|history|conversation)=\S*/gi,
+      weight: 0.5,
+    },
+    {
+      id: 'tool-hijack',
+      category: 'tool_hijack',
+      pattern: /\b(call|invoke|use|run)\b[^.\n]{0,20}?\b(tool|function)\b[^.\n]{0,40}?\b(transfer|send|delete|withdraw|wire|sell all)\b/gi,
+      weight: 0.5,
+    },
+    {
+      id: 'zero-width',
+      category: 'hidden_text',
+      pattern: /[\u200B-\u200D\u2060\uFEFF]+/g,
+      weight: 0.3,
+    },
+    {
+      id: 'html-comment',
+      category: 'hidden_text',
+      pattern: /<!--[\s\S]*?-->/g,
+      weight: 0.2,
+    },
+  ] as InjectionRule[],
+};
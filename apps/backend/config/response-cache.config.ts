@@ -0,0 +1,52 @@
+/**
+ * Response cache for repeated, non-personal questions
+ */
+
+export type CacheIntent = 'definition' | 'education' | 'general';
+
+export const responseCacheConfig = {
+  enabled: process.env.LLM_RESPONSE_CACHE_ENABLED !== 'false',
+  keyPrefix: 'llmcache',
+
+  // Near-duplicate lookup by embedding similarity (off: exact normalized match only)
+  semantic: {
+    enabled: process.env.LLM_SEMANTIC_CACHE_ENABLED === 'true',
+    similarityThreshold: parseFloat(process.env.LLM_SEMANTIC_CACHE_THRESHOLD || '0.92'),
+    // Most recent entries compared per assistant type + model
+    maxCandidates: 200,
+  },
+
+  // Seconds; definitions rarely change, general answers may drift
+  intentTtls: {
+    definition: 7 * 24 * 60 * 60,
+    education: 24 * 60 * 60,
+    general: 60 * 60,
+  } as Record<CacheIntent, number>,
+
+  intentPatterns: {
+    definition: [/^(what is|what's|what are|define|meaning of|definition of)\b/, /\bdifference between\b/],
+    education: [/^(how (do|does|can|should)|why (do|does|is|are)|explain|when should)\b/],
+  } as Record<Exclude<CacheIntent, 'general'>, RegExp[]>,
+
+  // Anything user-specific or time-sensitive always goes to the model
+  bypassPatterns: [
+    /\b(my|mine|i have|i own|i hold|i'm holding|our|should i|can i afford)\b/i,
+    /\b(portfolio|account|balance|holdings?|positions?|transactions?)\b/i,
+    /\b(price|quote|trading at|today|tonight|tomorrow|yesterday|now|current(ly)?|latest|recent|this (week|month|quarter|year)|right now)\b/i,
+    /\$[A-Za-z]{1,5}\b/, // $AAPL
+    // Upper-case tickers (AAPL, TSLA), but not common acronyms like IRA or ETF
+    /\b(?!(?:IRA|ETF|ESG|ROI|APR|APY|CD|HSA|FSA|FDIC|SEC|GDP|CPI|PCE|REIT|IPO|EPS|FICO|RMD|AMT|LLC|USD)\b)[A-Z]{2,5}\b/,
+    /\b(19|20)\d{2}\b/, // Years
+  ],
+
+  // Answers longer than this are not worth storing
+  maxResponseChars: 20000,
+};
+
+export const embeddingConfig = {
+  // 'openai' when OPENAI_API_KEY is set, otherwise the local hashing model
+  provider: process.env.EMBEDDING_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'local'),
+  openaiModel: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+  // Dimensions of the local hashing model
+  localDimensions: 512,
+};
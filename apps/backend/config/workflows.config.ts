@@ -0,0 +1,102 @@
+import path from 'path';
+
+/**
+ * Declarative workflow definitions (workflows/*.json)
+ */
+
+export const workflowsConfig = {
+  // Motia runs from apps/backend
+  directory: process.env.WORKFLOWS_DIR || path.join(process.cwd(), 'workflows'),
+  // Re-read definitions when a file changes; never in production or tests
+  hotReload: process.env.NODE_ENV !== 'production' && process.env.NODE_ENV !== 'test' &&
+    process.env.WORKFLOWS_HOT_RELOAD !== 'false',
+  // Editors write files in several chunks; wait for them to settle
+  reloadDebounceMs: 200,
+  // Started when a message asks for "a workflow" without matching any triggers
+  defaultWorkflowId: process.env.WORKFLOW_DEFAULT_ID || 'portfolioAnalysis',
+  defaultTimeoutMs: 10 * 60 * 1000,
+
+  // Step defaults; definitions can override timeoutMs, maxRetries and retryBackoffMs per step
+  steps: {
+    timeoutMs: parseInt(process.env.WORKFLOW_STEP_TIMEOUT_MS || String(2 * 60 * 1000)),
+    maxRetries: 2,
+    // Doubled after every failed attempt, up to maxBackoffMs
+    retryBackoffMs: 1000,
+    maxBackoffMs: 30 * 1000,
+  },
+
+  // Approval steps reject when the user has not decided within this time
+  approvals: {
+    timeoutMs: parseInt(process.env.WORKFLOW_APPROVAL_TIMEOUT_MS || String(30 * 60 * 1000)),
+  },
+
+  // Debate steps: participants argue for several rounds, then a judge gives the verdict
+  debate: {
+    defaultRounds: 3,
+    maxRounds: 5,
+    minParticipants: 2,
+    // Debates whose participants are chosen from the request are padded to this many
+    defaultParticipants: 3,
+    // From round 2 on, stop once no stance changed and no confidence moved more than this
+    convergenceDelta: 0.1,
+  },
+
+  // Market data definitions prefetch for their `symbols` input, once per run
+  marketData: {
+    // Further symbols are left to the agents' own tools
+    maxSymbols: 5,
+    historyDays: 30,
+    // Per symbol and kind; agents start without the data that timed out
+    timeoutMs: parseInt(process.env.WORKFLOW_MARKET_DATA_TIMEOUT_MS || String(10 * 1000)),
+  },
+
+  // Reports downloaded from GET /api/workflow/:id/export
+  export: {
+    brandName: process.env.REPORT_BRAND_NAME || 'Fin Agent',
+    // Headings, table headers and charts
+    accentColor: process.env.REPORT_ACCENT_COLOR || '#2563eb',
+    disclaimer: 'Generated by AI agents for information only; not financial advice. ' +
+      'Consult a qualified professional before acting on it.',
+  },
+
+  // Duration and cost estimates from the step telemetry of recent runs (needs Supabase)
+  estimates: {
+    windowDays: parseInt(process.env.WORKFLOW_ESTIMATE_WINDOW_DAYS || '30'),
+    // Steps with fewer completed runs use the agent's numbers across workflows, then the defaults
+    minSamples: 3,
+    // Percentiles are re-read from the database after this long
+    cacheTtlMs: 5 * 60 * 1000,
+    // Per LLM call, for steps without history; debates make one per turn plus the judge's
+    defaults: {
+      callDurationMs: 15 * 1000,
+      promptTokens: 3000,
+      completionTokens: 800,
+      // First in the default provider order
+      model: 'llama-3.3-70b-versatile',
+      // The p90 of a default estimate, as a multiple of its p50
+      spread: 2,
+    },
+  },
+
+  // Runs orphaned by a restart (active in workflow_runs but idle or missing from state)
+  recovery: {
+    enabled: process.env.WORKFLOW_RECOVERY_ENABLED !== 'false',
+    // No step started or finished for this long (and none is within its own time limit): the process running it is assumed gone
+    staleAfterMs: parseInt(process.env.WORKFLOW_STALE_AFTER_MS || String(5 * 60 * 1000)),
+    // Resumes per run before it is failed instead
+    maxAttempts: 2,
+    batchSize: 50,
+  },
+
+  // Recurring runs users schedule with cron expressions in their timezone
+  schedules: {
+    enabled: process.env.WORKFLOW_SCHEDULES_ENABLED !== 'false',
+    maxPerUser: 20,
+    // Schedules may not fire more often than this
+    minIntervalMs: 60 * 60 * 1000,
+    // Runs missed while the scheduler was down are merged into one; ones older than this are dropped
+    catchUpWindowMs: parseInt(process.env.WORKFLOW_SCHEDULE_CATCH_UP_MS || String(12 * 60 * 60 * 1000)),
+    // Due schedules started per scheduler tick
+    batchSize: 50,
+  },
+};
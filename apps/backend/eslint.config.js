@@ -10,6 +10,8 @@ module.exports = [
         console: 'readonly',
         process: 'readonly',
         Buffer: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
         __dirname: 'readonly',
         __filename: 'readonly',
         exports: 'writable',
@@ -42,6 +44,21 @@ module.exports = [
       'no-unused-vars': 'off', // Turn off base rule for TypeScript files
     },
   },
+  {
+    files: ['tests/**/*.ts'],
+    languageOptions: {
+      globals: {
+        describe: 'readonly',
+        it: 'readonly',
+        expect: 'readonly',
+        jest: 'readonly',
+        beforeEach: 'readonly',
+        afterEach: 'readonly',
+        beforeAll: 'readonly',
+        afterAll: 'readonly',
+      },
+    },
+  },
   {
     ignores: [
       'node_modules/**',
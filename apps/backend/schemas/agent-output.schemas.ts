@@ -0,0 +1,150 @@
+import { z } from 'zod';
+
+/**
+ * Structured output each workflow agent must return. Reports are rendered
+ * from these objects, so every number the user sees comes from the model's
+ * answer rather than from a template.
+ */
+
+export const metricSchema = z.object({
+  label: z.string().describe('e.g. "P/E ratio", "1Y return"'),
+  value: z.number(),
+  unit: z.enum(['%', 'USD', 'x', 'bps', 'ratio', 'count']).describe('Unit of value; % values are percentages, e.g. 12.5'),
+  period: z.string().optional().describe('e.g. "YTD", "1Y", "Q3 2024"'),
+  context: z.string().optional().describe('One short note, e.g. "above sector average"'),
+});
+
+export const recommendationSchema = z.object({
+  action: z.string().describe('What to do, in one sentence'),
+  rationale: z.string(),
+  confidence: z.number().min(0).max(1).describe('0 to 1'),
+  timeframe: z.enum(['immediate', 'short-term', 'medium-term', 'long-term']).optional(),
+});
+
+export const riskSchema = z.object({
+  title: z.string(),
+  severity: z.enum(['low', 'medium', 'high']),
+  description: z.string(),
+  mitigation: z.string().optional(),
+});
+
+export const allocationSchema = z.object({
+  assetClass: z.string(),
+  currentPct: z.number().min(0).max(100).optional(),
+  targetPct: z.number().min(0).max(100),
+});
+
+/** Fields every agent returns */
+export const baseAgentOutputSchema = z.object({
+  summary: z.string().min(1).describe('Two to four sentences answering the task'),
+  metrics: z.array(metricSchema),
+  recommendations: z.array(recommendationSchema),
+  risks: z.array(riskSchema),
+});
+
+export const analystOutputSchema = baseAgentOutputSchema.extend({
+  valuation: z.string().optional().describe('Fundamental and valuation assessment'),
+});
+
+export const traderOutputSchema = baseAgentOutputSchema.extend({
+  signals: z.array(z.object({
+    symbol: z.string(),
+    direction: z.enum(['buy', 'sell', 'hold']),
+    entry: z.number().optional(),
+    stopLoss: z.number().optional(),
+    target: z.number().optional(),
+  })),
+});
+
+export const advisorOutputSchema = baseAgentOutputSchema.extend({
+  allocation: z.array(allocationSchema),
+});
+
+export const riskManagerOutputSchema = baseAgentOutputSchema.extend({
+  stressTests: z.array(z.object({
+    scenario: z.string(),
+    impactPct: z.number().describe('Estimated portfolio change in %, negative for losses'),
+  })),
+});
+
+export const economistOutputSchema = baseAgentOutputSchema.extend({
+  scenarios: z.array(z.object({
+    name: z.string(),
+    probability: z.number().min(0).max(1),
+    description: z.string(),
+  })),
+});
+
+/** An order a step proposes; approval steps pass the approved ones on as they are */
+export const orderSchema = z.object({
+  symbol: z.string().min(1),
+  side: z.enum(['buy', 'sell']),
+  quantity: z.number().positive().describe('Shares'),
+  orderType: z.enum(['market', 'limit', 'stop', 'stop_limit']),
+  limitPrice: z.number().positive().optional().describe('Required for limit and stop_limit orders'),
+  stopPrice: z.number().positive().optional().describe('Required for stop and stop_limit orders'),
+});
+
+/** For steps whose orders are placed once the user approves them */
+export const orderPlanOutputSchema = baseAgentOutputSchema.extend({
+  orders: z.array(orderSchema).describe('Every order to place; nothing else is placed'),
+});
+
+export const agentOutputSchemas = {
+  analyst: analystOutputSchema,
+  trader: traderOutputSchema,
+  advisor: advisorOutputSchema,
+  riskManager: riskManagerOutputSchema,
+  economist: economistOutputSchema,
+  orderPlan: orderPlanOutputSchema,
+};
+
+export const DEBATE_STANCES = ['bull', 'bear', 'neutral'] as const;
+
+/** One participant's turn in a debate round */
+export const debateArgumentSchema = z.object({
+  stance: z.enum(DEBATE_STANCES).describe('Your position on the question this round'),
+  confidence: z.number().min(0).max(1).describe('0 to 1, how sure you are of your stance'),
+  argument: z.string().min(1).describe('Your case in one short paragraph'),
+  keyPoints: z.array(z.string()).describe('Two to four points supporting your stance'),
+  rebuttals: z.array(z.object({
+    participant: z.string().describe('Agent whose argument you answer, e.g. "economist"'),
+    point: z.string().describe('Why their argument is wrong or incomplete'),
+  })).describe('Empty in the first round'),
+});
+
+/** The judge's verdict; the debate step's output */
+export const debateVerdictSchema = baseAgentOutputSchema.extend({
+  verdict: z.enum(DEBATE_STANCES),
+  confidence: z.number().min(0).max(1).describe('0 to 1, how clearly the debate supports the verdict'),
+  scores: z.array(z.object({
+    participant: z.string(),
+    score: z.number().min(0).max(10).describe('0 to 10 for evidence, reasoning and rebuttals'),
+    strongestPoint: z.string(),
+    weakestPoint: z.string().optional(),
+  })),
+});
+
+export function getAgentOutputSchema(agent: string): z.ZodObject<z.ZodRawShape> {
+  return agentOutputSchemas[agent as keyof typeof agentOutputSchemas] || baseAgentOutputSchema;
+}
+
+// Type exports
+export type Metric = z.infer<typeof metricSchema>;
+export type Recommendation = z.infer<typeof recommendationSchema>;
+export type Risk = z.infer<typeof riskSchema>;
+export type Allocation = z.infer<typeof allocationSchema>;
+export type BaseAgentOutput = z.infer<typeof baseAgentOutputSchema>;
+export type AnalystOutput = z.infer<typeof analystOutputSchema>;
+export type TraderOutput = z.infer<typeof traderOutputSchema>;
+export type AdvisorOutput = z.infer<typeof advisorOutputSchema>;
+export type RiskManagerOutput = z.infer<typeof riskManagerOutputSchema>;
+export type EconomistOutput = z.infer<typeof economistOutputSchema>;
+export type Order = z.infer<typeof orderSchema>;
+export type OrderPlanOutput = z.infer<typeof orderPlanOutputSchema>;
+export type DebateStance = typeof DEBATE_STANCES[number];
+export type DebateArgument = z.infer<typeof debateArgumentSchema>;
+export type DebateVerdict = z.infer<typeof debateVerdictSchema>;
+/** Any agent's output; role-specific fields are optional here */
+export type AgentOutput = BaseAgentOutput &
+  Partial<Omit<AnalystOutput & TraderOutput & AdvisorOutput & RiskManagerOutput & EconomistOutput & OrderPlanOutput & DebateVerdict, keyof BaseAgentOutput>>;
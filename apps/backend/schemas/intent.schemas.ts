@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+/**
+ * The model's pick when the intent router's closest matches are too close to call
+ */
+
+export const intentTiebreakSchema = z.object({
+  intent: z.string().describe('Id of the chosen option, e.g. "workflow:portfolioAnalysis" or "chat:economist"'),
+  confidence: z.number().min(0).max(1),
+});
+
+export type IntentTiebreak = z.infer<typeof intentTiebreakSchema>;
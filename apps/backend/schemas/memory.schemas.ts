@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { MEMORY_CATEGORIES, memoryConfig } from '../config/memory.config';
+
+/**
+ * Durable facts the model extracts from a user's chat message
+ */
+
+export const extractedMemorySchema = z.object({
+  category: z.enum(MEMORY_CATEGORIES),
+  key: z.string().min(1).max(60)
+    .describe('Stable identifier within the category: ticker for holdings ("AAPL"), "overall" for risk tolerance, short snake_case topic otherwise ("house_down_payment")'),
+  text: z.string().min(3).max(memoryConfig.maxTextLength)
+    .describe('The fact in third person, e.g. "Saving $60k for a house down payment by 2027"'),
+  confidence: z.number().min(0).max(1).describe('How clearly the user stated it, 0 to 1'),
+});
+
+export const memoryExtractionSchema = z.object({
+  memories: z.array(extractedMemorySchema).max(memoryConfig.extraction.maxPerMessage),
+});
+
+export type ExtractedMemory = z.infer<typeof extractedMemorySchema>;
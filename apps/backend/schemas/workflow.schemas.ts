@@ -0,0 +1,161 @@
+import { z } from 'zod';
+import { ASSISTANT_TYPES } from '../config/prompt-templates.config';
+import { agentOutputSchemas, debateVerdictSchema, getAgentOutputSchema } from './agent-output.schemas';
+import { workflowsConfig } from '../config/workflows.config';
+import { getTemplateVariables } from '../services/prompt-registry.service';
+import { findConditionErrors, type ConditionScope } from '../services/workflow-conditions';
+import { APPROVAL_AGENT, DEBATE_AGENT, findGraphErrors, getDependencySteps, isApprovalGated, toGraphSteps } from '../services/workflow-graph';
+
+/**
+ * Workflow definitions loaded from workflows/*.json. Bump `version` whenever
+ * a definition changes; runs record the version they started with.
+ */
+
+const AGENT_OUTPUT_SCHEMAS = Object.keys(agentOutputSchemas) as [keyof typeof agentOutputSchemas, ...Array<keyof typeof agentOutputSchemas>];
+
+export const workflowInputSchema = z.object({
+  type: z.enum(['string', 'number', 'boolean', 'string[]']),
+  description: z.string(),
+  required: z.boolean().default(false),
+  enum: z.array(z.string()).optional(),
+  default: z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]).optional(),
+});
+
+export const workflowStepFallbackSchema = z.discriminatedUnion('type', [
+  // One more attempt on another provider (and optionally model)
+  z.object({ type: z.literal('model'), provider: z.string().min(1), model: z.string().min(1).optional() }),
+  // Continue without the step; the executive summary lists it as missing
+  z.object({ type: z.literal('skip'), note: z.string().optional() }),
+]);
+
+export const workflowStepDebateSchema = z.object({
+  // Rounds of arguments and rebuttals; the debate may converge and end sooner
+  rounds: z.number().int().min(1).max(workflowsConfig.debate.maxRounds).default(workflowsConfig.debate.defaultRounds),
+  // Omitted = chosen from the request (see selectDebateParticipants)
+  participants: z.array(z.enum(ASSISTANT_TYPES)).min(workflowsConfig.debate.minParticipants).optional(),
+});
+
+export const workflowStepSchema = z.object({
+  id: z.string().regex(/^[a-z][a-zA-Z0-9-]*$/, 'Step ids are kebab or camel case, e.g. "risk-review"'),
+  // 'approval' steps ask the user to approve the results of their dependencies;
+  // 'debate' steps have several agents argue the task and a judge give the verdict
+  type: z.enum(['agent', 'approval', 'debate']).default('agent'),
+  agent: z.enum(ASSISTANT_TYPES).optional(),
+  // For approval steps, what the user is asked to approve
+  task: z.string().min(1),
+  // Steps that must finish first; omitted = the previous step, [] = start right away
+  dependsOn: z.array(z.string()).optional(),
+  // Per attempt for agent steps; for approval steps, how long to wait before rejecting
+  timeoutMs: z.number().int().positive().optional(),
+  // Extra attempts after an error or timeout, waiting retryBackoffMs (doubling) in between
+  maxRetries: z.number().int().min(0).max(5).optional(),
+  retryBackoffMs: z.number().int().positive().optional(),
+  // Once every attempt failed; without a fallback the run fails at this step
+  fallback: workflowStepFallbackSchema.optional(),
+  // Structured output the agent must return; defaults to the agent's own schema
+  outputSchema: z.enum(AGENT_OUTPUT_SCHEMAS).optional(),
+  // Run only if this condition on earlier outputs holds, e.g. 'metric(metrics, "risk score") > 7'
+  when: z.string().min(1).optional(),
+  // End the workflow after this step (skipping what has not started) if this holds
+  endIf: z.string().min(1).optional(),
+  // Debate steps only
+  debate: workflowStepDebateSchema.optional(),
+}).superRefine((step, ctx) => {
+  if (step.type === 'agent' && !step.agent) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['agent'], message: 'Agent steps need an agent' });
+  }
+  if (step.type !== 'debate' && step.debate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['debate'], message: 'Only debate steps take debate settings' });
+  }
+  if (step.type === 'debate') {
+    const agentOnly = (['agent', 'outputSchema'] as const).filter(field => step[field] !== undefined);
+    if (agentOnly.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Debate steps do not take ${agentOnly.join(', ')} (set debate.participants)` });
+    }
+  }
+  if (step.type !== 'approval') return;
+
+  const agentOnly = (['agent', 'maxRetries', 'retryBackoffMs', 'fallback', 'outputSchema', 'when', 'endIf'] as const).filter(field => step[field] !== undefined);
+  if (agentOnly.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Approval steps do not take ${agentOnly.join(', ')}` });
+  }
+}).transform(step => ({
+  ...step,
+  agent: step.agent ?? (step.type === 'debate' ? DEBATE_AGENT : APPROVAL_AGENT),
+  debate: step.type === 'debate' ? step.debate ?? workflowStepDebateSchema.parse({}) : undefined,
+}));
+
+export const workflowDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z][a-zA-Z0-9]*$/, 'Workflow ids are camel case, e.g. "portfolioAnalysis"'),
+  version: z.number().int().positive(),
+  name: z.string().min(1),
+  description: z.string(),
+  // Example requests, lower-cased; the intent router starts the workflow for messages close to one
+  triggers: z.array(z.string().min(1).transform(trigger => trigger.toLowerCase())),
+  // Values callers pass in `context`; step tasks may use them as {{name}} or {{#name}}...{{/name}}
+  inputs: z.record(workflowInputSchema).default({}),
+  // Market data fetched for the `symbols` input before the agents start, and given to every agent
+  prefetch: z.array(z.enum(['quote', 'history'])).default([]),
+  steps: z.array(workflowStepSchema).min(1),
+  timeoutMs: z.number().int().positive().default(workflowsConfig.defaultTimeoutMs),
+  output: z.object({
+    // Finish with an executive summary synthesizing every step
+    summary: z.boolean().default(true),
+  }).default({}),
+}).superRefine((definition, ctx) => {
+  const seen = new Set<string>();
+  definition.steps.forEach((step, index) => {
+    if (seen.has(step.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', index, 'id'], message: `Duplicate step id "${step.id}"` });
+    }
+    seen.add(step.id);
+
+    const undeclared = getTemplateVariables(step.task).filter(name => !definition.inputs[name]);
+    if (undeclared.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', index, 'task'], message: `Task uses undeclared inputs: ${undeclared.join(', ')}` });
+    }
+  });
+  if (definition.prefetch.length > 0 && definition.inputs.symbols?.type !== 'string[]') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['prefetch'], message: 'Prefetching market data needs a "symbols" input of type string[]' });
+  }
+  for (const message of findGraphErrors(definition.steps)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps'], message });
+  }
+  const steps = toGraphSteps(definition.steps);
+  const outputFields = (step: typeof steps[number]) =>
+    step.type === 'approval'
+      ? []
+      : Object.keys(step.type === 'debate' ? debateVerdictSchema.shape : getAgentOutputSchema(step.outputSchema || step.agent).shape);
+
+  steps.forEach((step, index) => {
+    if (step.type === 'approval' && step.dependsOn.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', index, 'dependsOn'], message: 'Approval steps need a step whose results they approve' });
+    }
+    // Running a step after an approval again would repeat what it did, e.g. place the orders twice
+    if (isApprovalGated(steps, step.id)) {
+      if (step.maxRetries) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', index, 'maxRetries'], message: 'Steps after an approval run once: maxRetries must be 0' });
+      }
+      if (step.fallback) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', index, 'fallback'], message: 'Steps after an approval run once: they take no fallback' });
+      }
+    }
+
+    // Conditions may only read steps that have finished when they are checked
+    const scope: ConditionScope = new Map(getDependencySteps(steps, step.id).map(dependency => [dependency.id, outputFields(dependency)]));
+    for (const field of ['when', 'endIf'] as const) {
+      const condition = step[field];
+      if (!condition) continue;
+      if (field === 'endIf') scope.set(step.id, outputFields(step));
+      for (const message of findConditionErrors(condition, scope)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', index, field], message });
+      }
+    }
+  });
+}).transform(definition => ({ ...definition, steps: toGraphSteps(definition.steps) }));
+
+export type WorkflowInput = z.infer<typeof workflowInputSchema>;
+export type WorkflowDefinition = z.infer<typeof workflowDefinitionSchema>;
+export type WorkflowStep = WorkflowDefinition['steps'][number];
+export type WorkflowStepFallback = z.infer<typeof workflowStepFallbackSchema>;
+export type WorkflowStepDebate = z.infer<typeof workflowStepDebateSchema>;
@@ -0,0 +1,232 @@
+import type { AgentToolEvent } from './agent-runner.service';
+
+/**
+ * Progress of a workflow agent derived from what it is actually doing: tool
+ * calls, streamed tokens and completed sections of its JSON answer. Agents
+ * answer in JSON, so the text shown while streaming is the string values
+ * read so far rather than the raw JSON.
+ */
+
+export type AgentProgressKind =
+  | 'tool_call'
+  | 'tool_result'
+  | 'tokens'
+  | 'section'
+  | 'retry'
+  | 'fallback'
+  // Debate steps: a participant's argument, a finished round, the judge's verdict
+  | 'debate_turn'
+  | 'debate_round'
+  | 'debate_verdict'
+  // Steps after an order approval: each approved order as it is placed
+  | 'order';
+
+export interface AgentProgressEvent {
+  kind: AgentProgressKind;
+  /** Human readable, e.g. "Fetched AAPL quote" or "Finished risks" */
+  message: string;
+  /** 0-100, from the share of expected sections completed */
+  progress?: number;
+  data?: Record<string, unknown>;
+}
+
+export interface AgentProgressOptions {
+  /** Top-level keys of the expected JSON answer, in schema order */
+  sections?: string[];
+  /** Streamed text is published at most this often */
+  flushIntervalMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Readable text and completed top-level keys of a JSON object streamed in chunks
+ */
+export class PartialJsonText {
+  text = '';
+  readonly completedSections: string[] = [];
+  private plain: boolean | undefined;
+  /** Open objects and arrays; objects track whether a key comes next */
+  private containers: Array<{ object: boolean; expectKey: boolean }> = [];
+  private inString = false;
+  private escaped = false;
+  private stringRole: 'section' | 'key' | 'value' = 'value';
+  private key = '';
+  private section: string | undefined;
+
+  /** Top-level key whose value is being streamed */
+  get currentSection(): string | undefined {
+    return this.section;
+  }
+
+  /**
+   * Feed a chunk; returns the sections it completed
+   */
+  push(chunk: string): string[] {
+    const completed: string[] = [];
+    for (const char of chunk) {
+      if (this.plain === undefined) {
+        if (/\s/.test(char)) continue;
+        // Providers that ignore JSON mode stream prose; show it as is
+        this.plain = char !== '{';
+      }
+      if (this.plain) {
+        this.text += char;
+        continue;
+      }
+
+      if (this.inString) {
+        this.readStringChar(char);
+        continue;
+      }
+
+      const current = this.containers[this.containers.length - 1];
+      if (char === '"') {
+        this.inString = true;
+        this.stringRole = current?.object && current.expectKey
+          ? (this.containers.length === 1 ? 'section' : 'key')
+          : 'value';
+        if (this.stringRole === 'section') this.key = '';
+        if (this.stringRole === 'value' && this.text && !this.text.endsWith('\n')) this.text += '\n';
+      } else if (char === '{' || char === '[') {
+        this.containers.push({ object: char === '{', expectKey: char === '{' });
+      } else if (char === '}' || char === ']') {
+        this.containers.pop();
+        if (this.containers.length === 0) this.closeSection(completed);
+      } else if (char === ':' && current?.object) {
+        current.expectKey = false;
+        if (this.containers.length === 1) this.section = this.key;
+      } else if (char === ',' && current?.object) {
+        current.expectKey = true;
+        if (this.containers.length === 1) this.closeSection(completed);
+      }
+    }
+    return completed;
+  }
+
+  private readStringChar(char: string): void {
+    let value = char;
+    if (this.escaped) {
+      this.escaped = false;
+      value = char === 'n' ? '\n' : char === 't' ? '\t' : char;
+    } else if (char === '\\') {
+      this.escaped = true;
+      return;
+    } else if (char === '"') {
+      this.inString = false;
+      return;
+    }
+
+    if (this.stringRole === 'section') this.key += value;
+    else if (this.stringRole === 'value') this.text += value;
+  }
+
+  private closeSection(completed: string[]): void {
+    if (this.section !== undefined) {
+      this.completedSections.push(this.section);
+      completed.push(this.section);
+      this.section = undefined;
+    }
+  }
+}
+
+/**
+ * Turns one agent step's tokens and tool events into throttled progress
+ * events. Each attempt (retries, JSON repairs) gets its own callbacks, so
+ * tokens an aborted attempt emits before its stream closes never show up.
+ */
+export class AgentProgressReporter {
+  private stream = new PartialJsonText();
+  private attempt = 0;
+  private tokens = 0;
+  private lastFlush = 0;
+  private pending = false;
+  private readonly flushIntervalMs: number;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly publish: (event: AgentProgressEvent) => Promise<void>,
+    private readonly options: AgentProgressOptions = {}
+  ) {
+    this.flushIntervalMs = options.flushIntervalMs ?? 250;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Start streaming over; the callbacks of earlier attempts are ignored from now on
+   */
+  startAttempt(): { onToken: (token: string) => Promise<void>; onToolEvent: (event: AgentToolEvent) => Promise<void> } {
+    const attempt = ++this.attempt;
+    this.stream = new PartialJsonText();
+    this.tokens = 0;
+    this.lastFlush = 0;
+    this.pending = false;
+
+    return {
+      onToken: async token => {
+        if (attempt === this.attempt) await this.onToken(token);
+      },
+      onToolEvent: async event => {
+        if (attempt === this.attempt) await this.onToolEvent(event);
+      },
+    };
+  }
+
+  private async onToken(token: string): Promise<void> {
+    this.tokens++;
+    const completed = this.stream.push(token);
+    this.pending = true;
+
+    for (const section of completed) {
+      await this.flush();
+      await this.publish({
+        kind: 'section',
+        message: `Finished ${humanize(section)}`,
+        progress: this.getProgress(),
+        data: { section, completedSections: [...this.stream.completedSections] },
+      });
+    }
+    if (this.now() - this.lastFlush >= this.flushIntervalMs) await this.flush();
+  }
+
+  private async onToolEvent(event: AgentToolEvent): Promise<void> {
+    await this.publish({
+      kind: event.type,
+      message: event.summary,
+      data: {
+        toolCallId: event.toolCallId,
+        tool: event.tool,
+        args: event.args,
+        error: event.error,
+        durationMs: event.durationMs,
+      },
+    });
+  }
+
+  /**
+   * Publish the text streamed so far, if anything arrived since the last flush
+   */
+  async flush(): Promise<void> {
+    if (!this.pending) return;
+    this.pending = false;
+    this.lastFlush = this.now();
+
+    const section = this.stream.currentSection;
+    await this.publish({
+      kind: 'tokens',
+      message: section ? `Writing ${humanize(section)}...` : 'Writing...',
+      progress: this.getProgress(),
+      data: { text: this.stream.text, tokens: this.tokens },
+    });
+  }
+
+  private getProgress(): number | undefined {
+    const sections = this.options.sections;
+    if (!sections?.length) return undefined;
+    const done = sections.filter(name => this.stream.completedSections.includes(name)).length;
+    return Math.min(95, Math.round(5 + (90 * done) / sections.length));
+  }
+}
+
+function humanize(key: string): string {
+  return key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
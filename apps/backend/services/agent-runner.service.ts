@@ -0,0 +1,385 @@
+import { setTimeout, clearTimeout } from 'timers';
+import { z } from 'zod';
+import type { Agent } from '@mastra/core';
+import { selectAgent } from '../src/mastra/agents';
+import { agentRunnerConfig } from '../config/agents.config';
+import { llmService as defaultLLMService, LLMService, type LLMMessage, type LLMMetering, type LLMResponse } from './llm-service';
+import type { LLMRequest, LLMStreamCallback, LLMTokenUsage, LLMToolCall, LLMToolDefinition } from './llm-providers';
+import { promptRegistry, type PromptVariables } from './prompt-registry.service';
+import { responseCache, type CacheHit } from './response-cache.service';
+import { promptInjectionService } from './prompt-injection.service';
+import { zodToJsonSchema, type JsonSchema } from './tool-schema';
+
+export interface AgentToolEvent {
+  type: 'tool_call' | 'tool_result';
+  agent: string;
+  toolCallId: string;
+  tool: string;
+  args: Record<string, unknown>;
+  /** Human readable, e.g. "Fetched AAPL quote" */
+  summary: string;
+  iteration: number;
+  result?: unknown;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface AgentRunOptions {
+  /** Full prompt, including the system message */
+  messages: LLMMessage[];
+  metering?: LLMMetering;
+  temperature?: number;
+  maxTokens?: number;
+  maxIterations?: number;
+  onToolEvent?: (event: AgentToolEvent) => Promise<void> | void;
+  /** Stream the answer token by token */
+  onToken?: LLMStreamCallback;
+  /** Format of the final answer; tool calls are unaffected */
+  responseFormat?: LLMRequest['responseFormat'];
+  /** Provider (and model) to try first, e.g. a workflow step's fallback */
+  provider?: LLMRequest['provider'];
+  model?: LLMRequest['model'];
+  /** Instance to use when the caller needs stream/provider-switch callbacks */
+  llm?: LLMService;
+  /** Serve and store single-turn answers through the response cache */
+  cacheable?: boolean;
+  /**
+   * 'read-only' (default) offers only tools without side effects; 'all' adds
+   * trading and is reserved for workflow steps that run after a user approval
+   */
+  toolAccess?: ToolAccess;
+  /** Aborts the model call in flight and stops before the next turn or tool call */
+  signal?: AbortSignal;
+}
+
+export type ToolAccess = 'read-only' | 'all';
+
+export interface AgentRunResult extends LLMResponse {
+  agentName: string;
+  /** Completed tool calls, in execution order */
+  toolResults: AgentToolEvent[];
+  iterations: number;
+  hitIterationLimit: boolean;
+  /** Set when the answer came from the response cache */
+  cacheHit?: Pick<CacheHit, 'similarity' | 'cachedAt'>;
+}
+
+type AgentTool = {
+  id: string;
+  description: string;
+  inputSchema?: any;
+  execute?: (args: { context: any; abortSignal?: AbortSignal }) => Promise<unknown>;
+};
+
+/**
+ * Runs a Mastra agent's instructions and tools through LLMService with
+ * OpenAI-style function calling: the model may request tools, results are
+ * fed back, and the loop repeats until it answers or the iteration cap is hit.
+ */
+export class AgentRunner {
+  /**
+   * Live system prompt for an agent from the prompt registry
+   */
+  async getInstructions(agentId: string, variables: PromptVariables = {}): Promise<string> {
+    return promptRegistry.renderAgentPrompt(agentId, variables);
+  }
+
+  async getTools(agentId: string, access: ToolAccess = 'read-only'): Promise<Record<string, AgentTool>> {
+    const tools = (await selectAgent(agentId).getTools()) as Record<string, AgentTool>;
+    if (access === 'all') {
+      return tools;
+    }
+
+    const { readOnlyTools, readOnlyToolActions } = agentRunnerConfig;
+    return Object.fromEntries(Object.entries(tools)
+      .filter(([, tool]) => readOnlyTools.includes(tool.id))
+      .map(([name, tool]) => {
+        const actions = readOnlyToolActions[tool.id];
+        // Narrowing the schema hides the other actions from the model and rejects them if requested anyway
+        return [name, actions && tool.inputSchema?.extend
+          ? { ...tool, inputSchema: tool.inputSchema.extend({ action: z.enum(actions) }) }
+          : tool];
+      }));
+  }
+
+  /**
+   * Function definitions for the agent's tools, without injected arguments
+   */
+  getToolDefinitions(tools: Record<string, AgentTool>): LLMToolDefinition[] {
+    return Object.values(tools).map(tool => {
+      const parameters = tool.inputSchema ? zodToJsonSchema(tool.inputSchema) : { type: 'object', properties: {} };
+      return {
+        name: tool.id,
+        description: tool.description,
+        parameters: omitInjectedArgs(parameters),
+      };
+    });
+  }
+
+  async run(agentId: string, options: AgentRunOptions): Promise<AgentRunResult> {
+    const agent: Agent = selectAgent(agentId);
+    const llm = options.llm || defaultLLMService;
+    const maxIterations = options.maxIterations ?? agentRunnerConfig.maxToolIterations;
+    const tools = await this.getTools(agentId, options.toolAccess);
+    const definitions = this.getToolDefinitions(tools);
+    const messages = [...options.messages];
+    const toolResults: AgentToolEvent[] = [];
+    const totals = { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, estimated: false };
+
+    // Lookups and stores share one key: the model the head of the chain runs
+    const expected = options.cacheable ? llm.getProviderChain(options.provider)[0] : undefined;
+    const cacheScope = expected
+      ? {
+        agentId,
+        model: (expected.name === options.provider && options.model) || expected.defaultModel,
+        messages: options.messages,
+      }
+      : undefined;
+    if (cacheScope) {
+      const hit = await responseCache.lookup(cacheScope);
+      if (hit) {
+        if (options.onToken) await options.onToken(hit.content, { provider: hit.provider, model: hit.model });
+        return {
+          content: hit.content,
+          provider: hit.provider,
+          model: hit.model,
+          usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          tokensUsed: 0,
+          costUsd: 0,
+          agentName: agent.name,
+          toolResults,
+          iterations: 0,
+          hitIterationLimit: false,
+          cacheHit: { similarity: hit.similarity, cachedAt: hit.cachedAt },
+        };
+      }
+    }
+
+    for (let iteration = 1; ; iteration++) {
+      options.signal?.throwIfAborted();
+      const offerTools = definitions.length > 0 && iteration <= maxIterations;
+      if (!offerTools && toolResults.length > 0) {
+        messages.push({
+          role: 'system',
+          content: 'Tool limit reached. Answer now using the information gathered so far.',
+        });
+      }
+
+      const request = {
+        messages,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        metering: options.metering,
+        tools: offerTools ? definitions : undefined,
+        responseFormat: options.responseFormat,
+        provider: options.provider,
+        model: options.model,
+        signal: options.signal,
+      };
+      const response = options.onToken
+        ? await llm.stream(request, options.onToken)
+        : await llm.complete(request);
+
+      addUsage(totals, response.usage, response.costUsd);
+
+      if (!offerTools || !response.toolCalls?.length) {
+        // Fallback and budget-downgraded answers would be served as the expected model's
+        if (cacheScope && response.provider === expected?.name && !response.downgraded) {
+          void responseCache.store(cacheScope, response, { usedTools: toolResults.length > 0 });
+        }
+        return {
+          ...response,
+          usage: {
+            promptTokens: totals.promptTokens,
+            completionTokens: totals.completionTokens,
+            totalTokens: totals.totalTokens,
+            estimated: totals.estimated || undefined,
+          },
+          tokensUsed: totals.totalTokens,
+          costUsd: Math.round(totals.costUsd * 1_000_000) / 1_000_000,
+          toolCalls: undefined,
+          agentName: agent.name,
+          toolResults,
+          iterations: iteration,
+          hitIterationLimit: !offerTools && toolResults.length > 0,
+        };
+      }
+
+      messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+
+      // Calls requested in the same turn are independent
+      const results = await Promise.all(response.toolCalls.map(call =>
+        this.executeToolCall(agentId, tools[call.name], call, iteration, options)
+      ));
+
+      for (const result of results) {
+        toolResults.push(result);
+        messages.push({ role: 'tool', toolCallId: result.toolCallId, content: await this.screenToolResult(result, options) });
+      }
+    }
+  }
+
+  /**
+   * An earlier run's tool results as one system message, so a call without
+   * tools (a JSON repair) answers from the same data instead of fetching it again
+   */
+  async toolResultsMessage(
+    results: AgentToolEvent[],
+    options: Pick<AgentRunOptions, 'metering'> = {}
+  ): Promise<LLMMessage | undefined> {
+    if (results.length === 0) {
+      return undefined;
+    }
+
+    const lines = await Promise.all(results.map(async result =>
+      `${result.tool} (${result.summary}): ${await this.screenToolResult(result, options)}`
+    ));
+    return { role: 'system', content: `Tool results gathered for this answer:\n${lines.join('\n')}` };
+  }
+
+  /**
+   * Tool output as prompt text; third-party content (news, filings, merchant
+   * names) is screened for injected instructions first
+   */
+  private async screenToolResult(event: AgentToolEvent, options: Pick<AgentRunOptions, 'metering'>): Promise<string> {
+    const screened = await promptInjectionService.screen(formatToolResult(event), {
+      source: 'tool',
+      route: options.metering?.feature,
+      userId: options.metering?.userId,
+      tool: event.tool,
+    });
+    return screened.text;
+  }
+
+  private async executeToolCall(
+    agentId: string,
+    tool: AgentTool | undefined,
+    call: LLMToolCall,
+    iteration: number,
+    options: AgentRunOptions
+  ): Promise<AgentToolEvent> {
+    let args: Record<string, unknown> = {};
+    const base = { agent: agentId, toolCallId: call.id, tool: call.name, iteration };
+
+    try {
+      args = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch {
+      return { ...base, type: 'tool_result', args, summary: `Could not parse arguments for ${call.name}`, error: 'Arguments are not valid JSON' };
+    }
+
+    const injected: Record<string, unknown> = { userId: options.metering?.userId };
+    for (const key of agentRunnerConfig.injectedToolArgs) {
+      if (injected[key] !== undefined) args[key] = injected[key];
+    }
+
+    await options.onToolEvent?.({ ...base, type: 'tool_call', args, summary: describeToolCall(call.name, args, false) });
+
+    const startedAt = Date.now();
+    const finish = (outcome: { result?: unknown; error?: string }): AgentToolEvent => ({
+      ...base,
+      type: 'tool_result',
+      args,
+      summary: outcome.error
+        ? `${describeToolCall(call.name, args, false)} failed`
+        : describeToolCall(call.name, args, true),
+      durationMs: Date.now() - startedAt,
+      ...outcome,
+    });
+
+    let event: AgentToolEvent;
+    if (!tool?.execute) {
+      event = finish({ error: `Unknown tool: ${call.name}` });
+    } else {
+      const parsed = tool.inputSchema ? tool.inputSchema.safeParse(args) : { success: true, data: args };
+      if (!parsed.success) {
+        const issues = parsed.error.errors.map((e: any) => `${e.path.join('.') || 'input'}: ${e.message}`).join('; ');
+        event = finish({ error: `Invalid arguments: ${issues}` });
+      } else {
+        try {
+          options.signal?.throwIfAborted();
+          const result = await withTimeout(
+            tool.execute({ context: parsed.data, abortSignal: options.signal }),
+            agentRunnerConfig.toolTimeoutMs,
+            options.signal
+          );
+          event = finish({ result });
+        } catch (error) {
+          event = finish({ error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    await options.onToolEvent?.(event);
+    return event;
+  }
+}
+
+function omitInjectedArgs(schema: JsonSchema): JsonSchema {
+  const properties = { ...(schema.properties as Record<string, JsonSchema> | undefined) };
+  const required = (schema.required as string[] | undefined)?.filter(key => !agentRunnerConfig.injectedToolArgs.includes(key));
+  agentRunnerConfig.injectedToolArgs.forEach(key => delete properties[key]);
+
+  return {
+    ...schema,
+    properties,
+    ...(required && { required }),
+  };
+}
+
+function addUsage(
+  totals: { promptTokens: number; completionTokens: number; totalTokens: number; costUsd: number; estimated: boolean },
+  usage: LLMTokenUsage | undefined,
+  costUsd: number | undefined
+): void {
+  totals.promptTokens += usage?.promptTokens || 0;
+  totals.completionTokens += usage?.completionTokens || 0;
+  totals.totalTokens += usage?.totalTokens || 0;
+  totals.costUsd += costUsd || 0;
+  totals.estimated = totals.estimated || !!usage?.estimated;
+}
+
+function formatToolResult(event: AgentToolEvent): string {
+  const payload = event.error ? { error: event.error } : event.result ?? null;
+  const json = JSON.stringify(payload);
+  return json.length > agentRunnerConfig.maxToolResultChars
+    ? `${json.slice(0, agentRunnerConfig.maxToolResultChars)}... [truncated]`
+    : json;
+}
+
+/**
+ * Short status line for the UI, e.g. "Fetching AAPL quote" / "Fetched AAPL quote"
+ */
+export function describeToolCall(tool: string, args: Record<string, any>, done: boolean): string {
+  if (tool === 'market-data' && args.symbol) {
+    return `${done ? 'Fetched' : 'Fetching'} ${String(args.symbol).toUpperCase()} ${args.dataType || 'data'}`;
+  }
+
+  const subject = args.symbol || args.query || args.portfolioId ||
+    (Array.isArray(args.assets) && args.assets.join(', ')) ||
+    (Array.isArray(args.sectors) && args.sectors.join(', '));
+  const name = tool.replace(/-/g, ' ');
+  return `${done ? 'Ran' : 'Running'} ${name}${subject ? ` for ${subject}` : ''}`;
+}
+
+/**
+ * Tools that ignore `abortSignal` are still abandoned as soon as the run is aborted
+ */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Tool timed out after ${timeoutMs}ms`)), timeoutMs);
+    onAbort = () => reject(signal?.reason ?? new Error('Aborted'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Singleton instance
+export const agentRunner = new AgentRunner();
@@ -169,6 +169,13 @@ export class AzureOpenAIService {
   getClient(): OpenAI {
     return this.client;
   }
+
+  /**
+   * Deployment name every request is routed to
+   */
+  getDeploymentName(): string {
+    return this.deploymentName;
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,227 @@
+/**
+ * Rolling-window circuit breaker used to route around degraded LLM providers.
+ *
+ * closed    -> requests flow, outcomes are sampled over `windowMs`
+ * open      -> requests are skipped until `openDurationMs` has elapsed
+ * half-open -> a limited number of probe requests decide whether to close or re-open
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Rolling window for error rate and latency statistics */
+  windowMs: number;
+  /** Minimum samples in the window before the breaker may trip */
+  minRequests: number;
+  /** Error rate (0-1) at which the breaker trips */
+  errorRateThreshold: number;
+  /** Average latency at which the breaker trips, even if calls succeed */
+  latencyThresholdMs: number;
+  /** How long the breaker stays open before allowing a probe */
+  openDurationMs: number;
+  /** Concurrent probe requests allowed while half-open */
+  halfOpenMaxProbes: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  healthScore: number;
+  requests: number;
+  failures: number;
+  errorRate: number;
+  avgLatencyMs: number;
+  lastError?: string;
+  openedAt?: string;
+  nextProbeAt?: string;
+}
+
+interface Sample {
+  at: number;
+  ok: boolean;
+  latencyMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  windowMs: 60_000,
+  minRequests: 5,
+  errorRateThreshold: 0.5,
+  latencyThresholdMs: 20_000,
+  openDurationMs: 30_000,
+  halfOpenMaxProbes: 1,
+};
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private samples: Sample[] = [];
+  private openedAt: number | null = null;
+  private probesInFlight = 0;
+  private lastError?: string;
+  private readonly options: CircuitBreakerOptions;
+
+  constructor(
+    readonly name: string,
+    options: Partial<CircuitBreakerOptions> = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  getState(): CircuitState {
+    this.refreshState();
+    return this.state;
+  }
+
+  /**
+   * Whether a request could be sent right now (does not reserve a probe slot)
+   */
+  isAvailable(): boolean {
+    this.refreshState();
+    if (this.state === 'closed') return true;
+    if (this.state === 'half-open') return this.probesInFlight < this.options.halfOpenMaxProbes;
+    return false;
+  }
+
+  /**
+   * Reserve permission to send a request. Half-open breakers hand out a
+   * limited number of probe slots; the caller must record the outcome.
+   */
+  tryAcquire(): boolean {
+    if (!this.isAvailable()) return false;
+    if (this.state === 'half-open') {
+      this.probesInFlight++;
+    }
+    return true;
+  }
+
+  /**
+   * Hand back a slot from tryAcquire without an outcome, e.g. when the caller
+   * cancelled the request; cancellations say nothing about the provider
+   */
+  release(): void {
+    if (this.state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+    }
+  }
+
+  recordSuccess(latencyMs: number): void {
+    if (this.state === 'half-open') {
+      // Probe succeeded - start over with a clean window
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.close();
+    }
+    this.addSample(true, latencyMs);
+    this.evaluate();
+  }
+
+  recordFailure(latencyMs: number, error?: unknown): void {
+    this.lastError = error instanceof Error ? error.message : error ? String(error) : undefined;
+
+    if (this.state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.addSample(false, latencyMs);
+      this.open();
+      return;
+    }
+
+    this.addSample(false, latencyMs);
+    this.evaluate();
+  }
+
+  /**
+   * 0 (unusable) to 1 (perfect), combining error rate and latency
+   */
+  getHealthScore(): number {
+    this.refreshState();
+    if (this.state === 'open') return 0;
+
+    const { errorRate, avgLatencyMs, requests } = this.getStats();
+    if (requests === 0) return this.state === 'half-open' ? 0.5 : 1;
+
+    const latencyPenalty = Math.min(avgLatencyMs / this.options.latencyThresholdMs, 1) * 0.5;
+    const score = (1 - errorRate) * (1 - latencyPenalty);
+    return Math.round(score * 100) / 100;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    const { requests, failures, errorRate, avgLatencyMs } = this.getStats();
+    const state = this.getState();
+
+    return {
+      name: this.name,
+      state,
+      healthScore: this.getHealthScore(),
+      requests,
+      failures,
+      errorRate: Math.round(errorRate * 100) / 100,
+      avgLatencyMs: Math.round(avgLatencyMs),
+      lastError: this.lastError,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : undefined,
+      nextProbeAt: state === 'open' && this.openedAt
+        ? new Date(this.openedAt + this.options.openDurationMs).toISOString()
+        : undefined,
+    };
+  }
+
+  reset(): void {
+    this.close();
+    this.lastError = undefined;
+  }
+
+  private getStats() {
+    this.prune();
+    const requests = this.samples.length;
+    const failures = this.samples.filter(s => !s.ok).length;
+    const totalLatency = this.samples.reduce((sum, s) => sum + s.latencyMs, 0);
+
+    return {
+      requests,
+      failures,
+      errorRate: requests > 0 ? failures / requests : 0,
+      avgLatencyMs: requests > 0 ? totalLatency / requests : 0,
+    };
+  }
+
+  private evaluate(): void {
+    if (this.state !== 'closed') return;
+
+    const { requests, errorRate, avgLatencyMs } = this.getStats();
+    if (requests < this.options.minRequests) return;
+
+    if (errorRate >= this.options.errorRateThreshold || avgLatencyMs >= this.options.latencyThresholdMs) {
+      this.open();
+    }
+  }
+
+  private refreshState(): void {
+    if (this.state === 'open' && this.openedAt !== null &&
+        this.now() - this.openedAt >= this.options.openDurationMs) {
+      this.state = 'half-open';
+      this.probesInFlight = 0;
+    }
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = this.now();
+  }
+
+  private close(): void {
+    this.state = 'closed';
+    this.openedAt = null;
+    this.probesInFlight = 0;
+    this.samples = [];
+  }
+
+  private addSample(ok: boolean, latencyMs: number): void {
+    this.samples.push({ at: this.now(), ok, latencyMs });
+    this.prune();
+  }
+
+  private prune(): void {
+    const cutoff = this.now() - this.options.windowMs;
+    while (this.samples.length > 0 && this.samples[0].at < cutoff) {
+      this.samples.shift();
+    }
+  }
+}
@@ -0,0 +1,250 @@
+import { getSupabaseAdmin } from './supabase-admin';
+import { llmService, type LLMMessage, type LLMMetering } from './llm-service';
+import { usageService } from './usage.service';
+import { errorService, ErrorCode } from './error.service';
+import {
+  conversationConfig,
+  defaultContextWindow,
+  modelContextWindows,
+} from '../config/llm-context.config';
+
+export interface StoredChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+}
+
+export interface ConversationContext {
+  /** System prompt, optional summary, prior turns and the current message */
+  messages: LLMMessage[];
+  summary?: string;
+  /** Prior turns sent verbatim */
+  historyMessages: number;
+  historyTokens: number;
+  /** Turns folded into the summary during this request */
+  summarizedMessages: number;
+}
+
+interface BuildContextOptions {
+  /** History is only loaded from sessions this user owns */
+  userId: string;
+  sessionId?: string;
+  systemPrompt: string;
+  message: string;
+  /** Model the request is expected to run on, used to size the window */
+  model?: string;
+  /** Tokens reserved for the completion */
+  maxTokens: number;
+  metering?: LLMMetering;
+}
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and a financial assistant.
+Merge the existing summary with the new turns into one updated summary.
+Keep every ticker, company, account, number, date, goal and preference the user mentioned, and any conclusions or recommendations given.
+Refer to things by name (never "it" or "that stock") so later questions can be resolved from the summary alone.
+Write plain prose, no preamble.`;
+
+/**
+ * Builds multi-turn prompts from `chat_messages`. The newest turns are sent
+ * verbatim within a model-specific token budget; older turns are folded into
+ * a rolling summary stored on `chat_metadata`.
+ */
+export class ConversationContextService {
+  /**
+   * Tokens available for prior turns once the system prompt, summary,
+   * current message and completion are accounted for
+   */
+  getHistoryBudget(model: string | undefined, fixedTokens: number, maxTokens: number): number {
+    const window = (model && modelContextWindows[model]) || defaultContextWindow;
+    return Math.max(0, Math.min(conversationConfig.maxHistoryTokens, window - fixedTokens - maxTokens));
+  }
+
+  /**
+   * Split history into turns that fit the budget (newest first) and older
+   * turns that must be summarized. On overflow, enough extra turns are folded
+   * in that the summary is not regenerated on every following message.
+   */
+  fitHistory<T extends { role: string; content: string }>(history: T[], budget: number): { keep: T[]; overflow: T[] } {
+    const tokens = history.map(message => usageService.estimateTokens(message.content));
+    const total = tokens.reduce((sum, count) => sum + count, 0);
+    if (total <= budget) {
+      return { keep: history, overflow: [] };
+    }
+
+    const target = Math.floor(budget * conversationConfig.keepRatioAfterSummary);
+    let used = 0;
+    let start = history.length;
+    while (start > 0 && used + tokens[start - 1] <= target) {
+      used += tokens[start - 1];
+      start--;
+    }
+
+    // Never start the kept history with an assistant reply to a dropped question
+    while (start < history.length && history[start].role === 'assistant') {
+      start++;
+    }
+
+    return { keep: history.slice(start), overflow: history.slice(0, start) };
+  }
+
+  async buildContext(options: BuildContextOptions): Promise<ConversationContext> {
+    const { userId, sessionId, systemPrompt, message, model, maxTokens } = options;
+    const current: LLMMessage = { role: 'user', content: message };
+    const db = getSupabaseAdmin();
+
+    if (!sessionId || !db) {
+      return {
+        messages: [{ role: 'system', content: systemPrompt }, current],
+        historyMessages: 0,
+        historyTokens: 0,
+        summarizedMessages: 0,
+      };
+    }
+
+    await this.assertSessionOwner(sessionId, userId);
+
+    const { data: metadata } = await db
+      .from('chat_metadata')
+      .select('context_summary, summarized_through')
+      .eq('chat_session_id', sessionId)
+      .maybeSingle();
+
+    let summary: string | undefined = metadata?.context_summary || undefined;
+    const history = await this.loadHistory(sessionId, metadata?.summarized_through, message);
+
+    const fixedTokens = usageService.estimateTokens(systemPrompt) +
+      usageService.estimateTokens(message) +
+      usageService.estimateTokens(summary || '') +
+      conversationConfig.summaryMaxTokens;
+    const budget = this.getHistoryBudget(model, fixedTokens, maxTokens);
+    const { keep, overflow } = this.fitHistory(history, budget);
+
+    if (overflow.length > 0) {
+      // On failure the turns stay unsummarized and are retried on the next message
+      const updated = await this.summarize(summary, overflow, options.metering);
+      if (updated) {
+        summary = updated;
+        const { error } = await db
+          .from('chat_metadata')
+          .update({
+            context_summary: summary,
+            summarized_through: overflow[overflow.length - 1].created_at,
+            summary_updated_at: new Date().toISOString(),
+          })
+          .eq('chat_session_id', sessionId);
+        if (error) {
+          console.error('Failed to store conversation summary:', error.message);
+        }
+      }
+    }
+
+    const messages: LLMMessage[] = [{ role: 'system', content: systemPrompt }];
+    if (summary) {
+      messages.push({ role: 'system', content: `Summary of the earlier conversation:\n${summary}` });
+    }
+    messages.push(...keep.map(({ role, content }) => ({ role, content })), current);
+
+    return {
+      messages,
+      summary,
+      historyMessages: keep.length,
+      historyTokens: keep.reduce((sum, m) => sum + usageService.estimateTokens(m.content), 0),
+      summarizedMessages: overflow.length,
+    };
+  }
+
+  /**
+   * Sessions of other users look the same as missing ones, so their ids cannot be probed
+   */
+  private async assertSessionOwner(sessionId: string, userId: string): Promise<void> {
+    const db = getSupabaseAdmin();
+    if (!db) return;
+
+    const { data, error } = await db
+      .from('chat_sessions')
+      .select('id')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw errorService.createError(ErrorCode.RESOURCE_NOT_FOUND, 'Chat session not found', { sessionId });
+    }
+  }
+
+  /**
+   * Unsummarized turns in chronological order. The client saves the user's
+   * message before calling /api/chat, so a trailing copy of it is dropped.
+   */
+  private async loadHistory(
+    sessionId: string,
+    summarizedThrough: string | null | undefined,
+    message: string
+  ): Promise<StoredChatMessage[]> {
+    const db = getSupabaseAdmin();
+    if (!db) return [];
+
+    let query = db
+      .from('chat_messages')
+      .select('role, content, created_at')
+      .eq('chat_session_id', sessionId)
+      .in('role', ['user', 'assistant'])
+      .order('created_at', { ascending: false })
+      .limit(conversationConfig.maxHistoryMessages);
+
+    if (summarizedThrough) {
+      query = query.gt('created_at', summarizedThrough);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Failed to load chat history:', error.message);
+      return [];
+    }
+
+    const history = ((data || []) as StoredChatMessage[]).reverse();
+    const last = history[history.length - 1];
+    if (last?.role === 'user' && last.content.trim() === message.trim()) {
+      history.pop();
+    }
+
+    return history;
+  }
+
+  private async summarize(
+    previous: string | undefined,
+    turns: StoredChatMessage[],
+    metering?: LLMMetering
+  ): Promise<string | undefined> {
+    const transcript = turns
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+      .join('\n\n');
+
+    try {
+      const completion = await llmService.complete({
+        messages: [
+          { role: 'system', content: SUMMARY_PROMPT },
+          {
+            role: 'user',
+            content: `Existing summary:\n${previous || '(none)'}\n\nNew turns:\n${transcript}`,
+          },
+        ],
+        temperature: 0.2,
+        maxTokens: conversationConfig.summaryMaxTokens,
+        metering: metering && { ...metering, feature: 'chat-summary' },
+      });
+
+      // Mock output is not a summary; leave the turns unsummarized
+      if (completion.provider === 'mock' || !completion.content.trim()) {
+        return undefined;
+      }
+      return completion.content.trim();
+    } catch (error) {
+      console.error('Failed to summarize conversation:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+}
+
+// Singleton instance
+export const conversationContextService = new ConversationContextService();
@@ -0,0 +1,222 @@
+/**
+ * Cron expressions evaluated in a user's timezone. Five fields (minute,
+ * hour, day of month, month, day of week) with `*`, lists, ranges, steps and
+ * names, plus the @hourly/@daily/@weekly/@monthly/@yearly shorthands:
+ *
+ *   0 7 * * MON        every Monday at 7:00
+ *   30 8 1,15 * *      the 1st and 15th at 8:30
+ *   0 9-17/2 * * 1-5   every two hours 9:00-17:00 on weekdays
+ *
+ * As in classic cron, a day matches when either the day of month or the day
+ * of week matches if both are restricted. Times skipped by a daylight saving
+ * change run right after it; times that occur twice run once.
+ */
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  /** 0 = Sunday */
+  daysOfWeek: number[];
+  /** Whether day of month / day of week were given (not `*`) */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const SHORTHANDS = new Map([
+  ['@hourly', '0 * * * *'],
+  ['@daily', '0 0 * * *'],
+  ['@midnight', '0 0 * * *'],
+  ['@weekly', '0 0 * * 0'],
+  ['@monthly', '0 0 1 * *'],
+  ['@yearly', '0 0 1 1 *'],
+  ['@annually', '0 0 1 1 *'],
+]);
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is Sunday too
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+// Longest gap between runs we search for (covers Feb 29 schedules)
+const MAX_SEARCH_DAYS = 5 * 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a cron expression; throws with the field that is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const source = SHORTHANDS.get(expression.trim().toLowerCase()) ?? expression.trim();
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron expressions have 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: Array.from(new Set(daysOfWeek.map(day => day % 7))).sort((a, b) => a - b),
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+function parseField(part: string, field: typeof FIELDS[number]): number[] {
+  const values = new Set<number>();
+  const invalid = (reason: string) => new Error(`Invalid ${field.name} "${part}": ${reason}`);
+  const toNumber = (token: string) => {
+    const index = field.names?.indexOf(token.toLowerCase()) ?? -1;
+    const value = index >= 0 ? index + (field.name === 'month' ? 1 : 0) : /^\d+$/.test(token) ? Number(token) : NaN;
+    if (Number.isNaN(value)) throw invalid(`"${token}" is not a number${field.names ? ' or name' : ''}`);
+    if (value < field.min || value > field.max) throw invalid(`${value} is outside ${field.min}-${field.max}`);
+    return value;
+  };
+
+  for (const item of part.split(',')) {
+    const [range, stepText, extra] = item.split('/');
+    if (extra !== undefined || !range) throw invalid('expected a value, range or step');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw invalid(`step "${stepText}" must be a positive whole number`);
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      [from, to] = [field.min, field.max];
+    } else if (range.includes('-')) {
+      const [start, end] = range.split('-');
+      [from, to] = [toNumber(start), toNumber(end)];
+      if (from > to) throw invalid(`range ${start}-${end} runs backwards`);
+    } else {
+      from = toNumber(range);
+      // "5/15" means from 5 to the end of the field, every 15
+      to = stepText === undefined ? from : field.max;
+    }
+
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * The first time after `after` the schedule fires, or undefined when it
+ * never does (e.g. February 30)
+ */
+export function getNextRun(schedule: CronSchedule | string, timeZone: string, after: Date): Date | undefined {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const start = getZonedParts(after, timeZone);
+
+  // Walk calendar days in the timezone; earlier times on the first day are already past
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+    if (!matchesDay(cron, month, day, date.getUTCDay())) continue;
+
+    for (const hour of cron.hours) {
+      if (offset === 0 && hour < start.hour) continue;
+      for (const minute of cron.minutes) {
+        if (offset === 0 && hour === start.hour && minute < start.minute) continue;
+        const time = toUtc({ year, month, day, hour, minute }, timeZone);
+        if (time > after.getTime()) return new Date(time);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The next `count` run times after `after`
+ */
+export function getNextRuns(schedule: CronSchedule | string, timeZone: string, after: Date, count: number): Date[] {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const runs: Date[] = [];
+  let next = getNextRun(cron, timeZone, after);
+  while (next && runs.length < count) {
+    runs.push(next);
+    next = getNextRun(cron, timeZone, next);
+  }
+  return runs;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(cron: CronSchedule, month: number, day: number, weekday: number): boolean {
+  if (!cron.months.includes(month)) return false;
+  const dayOfMonth = cron.daysOfMonth.includes(day);
+  const dayOfWeek = cron.daysOfWeek.includes(weekday);
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Map(getFormatter(timeZone).formatToParts(date).map(part => [part.type, Number(part.value)]));
+  return {
+    year: parts.get('year') as number,
+    month: parts.get('month') as number,
+    day: parts.get('day') as number,
+    hour: parts.get('hour') as number,
+    minute: parts.get('minute') as number,
+  };
+}
+
+/** Wall clock minus UTC at the given instant, in ms */
+function getOffset(time: number, timeZone: string): number {
+  const { year, month, day, hour, minute } = getZonedParts(new Date(time), timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute) - Math.floor(time / 60000) * 60000;
+}
+
+/**
+ * The instant a wall clock time in the timezone refers to. Times in a
+ * daylight saving gap map to just after it; repeated times to the first.
+ */
+function toUtc({ year, month, day, hour, minute }: ZonedParts, timeZone: string): number {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  // The offsets a day either side cover both sides of any daylight saving change
+  const candidates = Array.from(new Set([wall - DAY_MS, wall + DAY_MS].map(time => wall - getOffset(time, timeZone))));
+  const valid = candidates.filter(time => time + getOffset(time, timeZone) === wall);
+  return valid.length > 0 ? Math.min(...valid) : Math.max(...candidates);
+}
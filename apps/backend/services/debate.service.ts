@@ -0,0 +1,287 @@
+import { workflowsConfig } from '../config/workflows.config';
+import {
+  debateArgumentSchema,
+  debateVerdictSchema,
+  type DebateArgument,
+  type DebateVerdict,
+} from '../schemas/agent-output.schemas';
+import { selectDebateParticipants } from '../src/mastra/agents';
+import { agentRunner } from './agent-runner.service';
+import { errorService, ErrorCode } from './error.service';
+import { llmService, type LLMMetering } from './llm-service';
+import { promptRegistry, type PromptVariables } from './prompt-registry.service';
+import { structuredOutputService } from './structured-output.service';
+import { runStep, type StepPolicy } from './workflow-step-runner';
+
+/**
+ * Multi-round debates between workflow agents. Every round the participants
+ * argue in parallel, each seeing the arguments of all earlier rounds and
+ * rebutting them. The debate stops early once it converges (everyone agrees,
+ * or nobody moved since the last round); a judge then scores the arguments
+ * and gives a bull/bear/neutral verdict.
+ */
+
+export interface DebateTurn extends DebateArgument {
+  round: number;
+  participant: string;
+}
+
+export interface DebateRound {
+  round: number;
+  turns: DebateTurn[];
+  /** Participants whose turn failed; they sit out the rest of the debate */
+  dropped: Array<{ participant: string; error: string }>;
+}
+
+/** Why the debate ended */
+export type DebateConvergence = 'consensus' | 'stable' | 'max_rounds';
+
+export interface DebateHooks {
+  onTurn?: (turn: DebateTurn) => Promise<void> | void;
+  onRound?: (round: DebateRound, convergence?: DebateConvergence) => Promise<void> | void;
+  /** Checked before every round and retry; true stops the debate (e.g. cancelled runs) */
+  shouldStop?: () => Promise<boolean> | boolean;
+}
+
+export interface DebateOptions {
+  question: string;
+  participants: string[];
+  rounds?: number;
+  /** Workflow context (risk tolerance, timeframe, symbols) for the agent prompts */
+  context?: PromptVariables;
+  metering: LLMMetering;
+  /** Timeout, retries and fallback of every turn and the judge */
+  policy: StepPolicy;
+  hooks?: DebateHooks;
+  /** Aborts every turn in flight, e.g. when the debate step as a whole timed out */
+  signal?: AbortSignal;
+}
+
+export interface DebateResult {
+  rounds: DebateRound[];
+  convergence: DebateConvergence;
+  verdict: DebateVerdict;
+}
+
+const CONVERGENCE_REASONS: Record<DebateConvergence, string> = {
+  consensus: 'every participant took the same stance',
+  stable: 'no participant changed their stance or confidence',
+  max_rounds: 'the last round was reached',
+};
+
+// Pad debates chosen from the request, in this order
+const DEFAULT_PARTICIPANTS = ['economist', 'analyst', 'trader', 'riskManager'];
+
+/**
+ * Whether a debate has converged after the current round. The first round
+ * never converges: nobody has heard the others yet.
+ */
+export function checkConvergence(
+  previous: DebateTurn[] | undefined,
+  current: DebateTurn[],
+  delta: number = workflowsConfig.debate.convergenceDelta
+): DebateConvergence | undefined {
+  if (!previous || current.length === 0) return undefined;
+  if (current.every(turn => turn.stance === current[0].stance)) return 'consensus';
+
+  const unmoved = current.every(turn => {
+    const before = previous.find(candidate => candidate.participant === turn.participant);
+    return before && before.stance === turn.stance && Math.abs(before.confidence - turn.confidence) <= delta;
+  });
+  return unmoved ? 'stable' : undefined;
+}
+
+/**
+ * Participants for a debate step that does not name them: the primary agent
+ * plus the perspectives the request asks about (risk, macro, trading)
+ */
+export function getDebateParticipants(message: string, context: { symbols?: string[] } = {}, assistantType = 'general'): string[] {
+  const participants: string[] = selectDebateParticipants(assistantType, {
+    symbols: context.symbols,
+    includeRisk: /\b(risks?|crash|drawdown|hedg\w*|tail)\b/i.test(message),
+    includeMacro: /\b(macro|econom\w*|fed|rates?|inflation|recession|gdp)\b/i.test(message),
+    includeTrading: /\b(trad\w*|momentum|technicals?|sentiment|entry|breakout)\b/i.test(message),
+  });
+
+  for (const participant of DEFAULT_PARTICIPANTS) {
+    if (participants.length >= workflowsConfig.debate.defaultParticipants) break;
+    if (!participants.includes(participant)) participants.push(participant);
+  }
+  return participants;
+}
+
+/**
+ * Markdown transcript of the rounds so far
+ */
+export function formatTranscript(rounds: DebateRound[]): string {
+  return rounds.map(({ round, turns, dropped }) => {
+    const lines = [`### Round ${round}`];
+    for (const turn of turns) {
+      lines.push('', `**${turn.participant}** (${turn.stance}, ${Math.round(turn.confidence * 100)}% confident): ${turn.argument}`);
+      lines.push(...turn.keyPoints.map(point => `- ${point}`));
+      lines.push(...turn.rebuttals.map(rebuttal => `- _Re ${rebuttal.participant}:_ ${rebuttal.point}`));
+    }
+    for (const { participant, error } of dropped) {
+      lines.push('', `_${participant} dropped out: ${error}_`);
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+export class DebateService {
+  async run(options: DebateOptions): Promise<DebateResult> {
+    const { defaultRounds, maxRounds, minParticipants } = workflowsConfig.debate;
+    const totalRounds = Math.min(options.rounds ?? defaultRounds, maxRounds);
+    const hooks = options.hooks || {};
+    let participants = Array.from(new Set(options.participants));
+    const rounds: DebateRound[] = [];
+    let convergence: DebateConvergence = 'max_rounds';
+
+    if (participants.length < minParticipants) {
+      throw errorService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `A debate needs at least ${minParticipants} participants`,
+        { participants }
+      );
+    }
+
+    for (let round = 1; round <= totalRounds; round++) {
+      options.signal?.throwIfAborted();
+      if (await hooks.shouldStop?.()) throw new Error('Debate stopped');
+
+      const transcript = formatTranscript(rounds);
+      const settled = await Promise.allSettled(participants.map(async participant => {
+        const turn = await this.argue(participant, round, totalRounds, transcript, options);
+        await hooks.onTurn?.(turn);
+        return turn;
+      }));
+
+      const current: DebateRound = { round, turns: [], dropped: [] };
+      settled.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') current.turns.push(outcome.value);
+        else current.dropped.push({ participant: participants[index], error: describeError(outcome.reason) });
+      });
+      rounds.push(current);
+      participants = current.turns.map(turn => turn.participant);
+
+      if (participants.length < minParticipants) {
+        throw errorService.createError(
+          ErrorCode.EXTERNAL_SERVICE_ERROR,
+          `Debate ended in round ${round} with too few participants: ${current.dropped.map(({ participant, error }) => `${participant} (${error})`).join(', ')}`,
+          { round, dropped: current.dropped }
+        );
+      }
+
+      const converged = checkConvergence(rounds[rounds.length - 2]?.turns, current.turns);
+      await hooks.onRound?.(current, converged ?? (round === totalRounds ? 'max_rounds' : undefined));
+      if (converged) {
+        convergence = converged;
+        break;
+      }
+    }
+
+    options.signal?.throwIfAborted();
+    const verdict = await this.judge(options.question, rounds, convergence, options);
+    return { rounds, convergence, verdict };
+  }
+
+  private async argue(
+    participant: string,
+    round: number,
+    rounds: number,
+    transcript: string,
+    options: DebateOptions
+  ): Promise<DebateTurn> {
+    const instructions = await agentRunner.getInstructions(participant, options.context);
+    const turnPrompt = await promptRegistry.render('debate.turn', {
+      question: options.question,
+      round: String(round),
+      rounds: String(rounds),
+      participant,
+      transcript,
+    });
+
+    const outcome = await runStep(
+      (route, attemptSignal) => {
+        const signal = withDebateSignal(attemptSignal, options);
+        return structuredOutputService.generate(debateArgumentSchema, {
+          messages: [
+            { role: 'system', content: `${instructions}\n\n${turnPrompt}` },
+            { role: 'user', content: options.question },
+          ],
+          invoke: messages => agentRunner.run(participant, {
+            messages,
+            temperature: 0.7,
+            maxTokens: 800,
+            metering: options.metering,
+            responseFormat: 'json',
+            provider: route.provider,
+            model: route.model,
+            signal,
+          }),
+          // Fixing the JSON needs no tools
+          repair: messages => llmService.complete({
+            messages,
+            temperature: 0.7,
+            maxTokens: 800,
+            metering: options.metering,
+            responseFormat: 'json',
+            provider: route.provider,
+            model: route.model,
+            signal,
+          }),
+        });
+      },
+      // A participant who cannot answer drops out instead of skipping the whole step
+      { ...options.policy, fallback: options.policy.fallback?.type === 'model' ? options.policy.fallback : undefined },
+      { shouldStop: options.hooks?.shouldStop }
+    );
+    if (outcome.status !== 'completed') throw new Error(outcome.error);
+
+    return { ...outcome.value.data, round, participant };
+  }
+
+  private async judge(
+    question: string,
+    rounds: DebateRound[],
+    convergence: DebateConvergence,
+    options: DebateOptions
+  ): Promise<DebateVerdict> {
+    const prompt = await promptRegistry.render('debate.judge', {
+      question,
+      transcript: formatTranscript(rounds),
+      convergence: CONVERGENCE_REASONS[convergence],
+    });
+
+    const outcome = await runStep(
+      (_route, signal) => structuredOutputService.generate(debateVerdictSchema, {
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: question },
+        ],
+        temperature: 0.2,
+        maxTokens: 1500,
+        metering: options.metering,
+        signal: withDebateSignal(signal, options),
+      }),
+      { ...options.policy, fallback: undefined },
+      { shouldStop: options.hooks?.shouldStop }
+    );
+    if (outcome.status !== 'completed') throw new Error(outcome.error);
+    return outcome.value.data;
+  }
+}
+
+/**
+ * Aborted when either the attempt (turn timeout, retry) or the whole debate is
+ */
+function withDebateSignal(attemptSignal: AbortSignal, options: DebateOptions): AbortSignal {
+  return options.signal ? AbortSignal.any([attemptSignal, options.signal]) : attemptSignal;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Singleton instance
+export const debateService = new DebateService();
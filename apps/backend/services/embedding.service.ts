@@ -0,0 +1,119 @@
+import OpenAI from 'openai';
+import { embeddingConfig } from '../config/response-cache.config';
+
+export interface Embedding {
+  vector: number[];
+  /** Vectors are only comparable when produced by the same model */
+  model: string;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'to', 'of', 'and', 'or', 'in', 'on', 'for',
+  'with', 'about', 'me', 'you', 'can', 'could', 'would', 'please', 'tell', 'explain', 'what', 'whats',
+  'how', 'does', 'do', 'it', 'this', 'that', 'i',
+]);
+
+/**
+ * Text embeddings for similarity lookups. Uses the OpenAI embeddings API when
+ * configured and a local feature-hashing model otherwise; the local model only
+ * catches rephrasings that share most of their words.
+ */
+export class EmbeddingService {
+  private client: OpenAI | null = null;
+
+  /**
+   * @param dimensions Vector size when the caller stores vectors in a fixed-size
+   *   column (e.g. VECTOR(1536)); defaults to the model's own size
+   */
+  async embed(text: string, dimensions?: number): Promise<Embedding> {
+    return (await this.embedMany([text], dimensions))[0];
+  }
+
+  /**
+   * Embed several texts with one request to the API
+   */
+  async embedMany(texts: string[], dimensions?: number): Promise<Embedding[]> {
+    if (texts.length === 0) return [];
+    if (embeddingConfig.provider === 'openai' && process.env.OPENAI_API_KEY) {
+      try {
+        return await this.embedRemote(texts, dimensions);
+      } catch (error) {
+        console.error('Remote embedding failed, using local model:', error instanceof Error ? error.message : error);
+      }
+    }
+    return texts.map(text => this.embedLocal(text, dimensions));
+  }
+
+  /**
+   * Hash word unigrams and bigrams into a fixed-size, L2-normalized vector.
+   * Deterministic, so it also serves as the embedding model in tests.
+   */
+  embedLocal(text: string, dimensions: number = embeddingConfig.localDimensions): Embedding {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = text
+      .toLowerCase()
+      .replace(/[^a-z0-9%$\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+
+    const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so collisions tend to cancel out
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    return { vector: normalize(vector), model: `local-hash-${dimensions}` };
+  }
+
+  private async embedRemote(texts: string[], dimensions?: number): Promise<Embedding[]> {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+
+    const response = await this.client.embeddings.create({
+      model: embeddingConfig.openaiModel,
+      input: texts,
+      ...(dimensions && { dimensions }),
+    });
+
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => ({ vector: item.embedding, model: embeddingConfig.openaiModel }));
+  }
+}
+
+/**
+ * Cosine similarity of two vectors of equal length (1 = identical direction)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map(value => value / norm) : vector;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Singleton instance
+export const embeddingService = new EmbeddingService();
@@ -23,6 +23,7 @@ export enum ErrorCode {
   
   // Rate limiting (429)
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
   
   // Resource errors (404)
   NOT_FOUND = 'NOT_FOUND',
@@ -168,12 +169,17 @@ export class ErrorService {
         case 'NOT_FOUND':
         case '404':
           return ErrorCode.NOT_FOUND;
+        case 'VALIDATION_ERROR':
+        case '400':
+          return ErrorCode.VALIDATION_ERROR;
         case 'CONFLICT':
         case '409':
           return ErrorCode.CONFLICT;
         case 'RATE_LIMITED':
         case '429':
           return ErrorCode.RATE_LIMIT_EXCEEDED;
+        case 'BUDGET_EXCEEDED':
+          return ErrorCode.BUDGET_EXCEEDED;
         case 'SERVICE_UNAVAILABLE':
         case '503':
           return ErrorCode.SERVICE_UNAVAILABLE;
@@ -206,6 +212,7 @@ export class ErrorService {
         return 400;
       
       case ErrorCode.RATE_LIMIT_EXCEEDED:
+      case ErrorCode.BUDGET_EXCEEDED:
         return 429;
       
       case ErrorCode.NOT_FOUND:
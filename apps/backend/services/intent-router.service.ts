@@ -0,0 +1,347 @@
+import { intentRouterConfig } from '../config/intent-router.config';
+import { ASSISTANT_TYPES, type AssistantType } from '../config/prompt-templates.config';
+import { workflowsConfig } from '../config/workflows.config';
+import { intentTiebreakSchema } from '../schemas/intent.schemas';
+import { cosineSimilarity, embeddingService, type Embedding, type EmbeddingService } from './embedding.service';
+import { errorService, ErrorCode } from './error.service';
+import { piiRedactionService, RedactionSession } from './pii-redaction.service';
+import { promptRegistry } from './prompt-registry.service';
+import { structuredOutputService } from './structured-output.service';
+import { getSupabaseAdmin } from './supabase-admin';
+import { workflowRegistry, type WorkflowRegistry } from './workflow-registry.service';
+
+export type IntentKind = 'workflow' | 'chat';
+
+/**
+ * How the decision was made: by embedding similarity, by the model breaking
+ * a tie, by the caller naming the workflow, or by falling back to the default
+ * workflow for messages that ask for "a workflow"
+ */
+export type RoutingMethod = 'embedding' | 'llm' | 'explicit' | 'default';
+
+export interface RankedIntent {
+  /** 'workflow:<definition id>' or 'chat:<assistant type>' */
+  id: string;
+  kind: IntentKind;
+  /** Workflow definition id or assistant type */
+  target: string;
+  /** Similarity to the closest example, 0 to 1 */
+  confidence: number;
+  example: string;
+}
+
+export interface IntentDecision {
+  /** Logged decision, for labeling the outcome later */
+  decisionId?: string;
+  route: IntentKind;
+  /** Set when the message starts a workflow */
+  workflowId?: string;
+  /** Best assistant to answer the message in chat */
+  assistantType: AssistantType;
+  confidence: number;
+  method: RoutingMethod;
+  /** Best first */
+  intents: RankedIntent[];
+}
+
+export interface RouteOptions {
+  userId?: string;
+  traceId?: string;
+}
+
+interface IntentExample {
+  id: string;
+  kind: IntentKind;
+  target: string;
+  text: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const LABEL_PATTERN = /^(workflow|chat):[\w-]+$/;
+// Ranked intents stored with each decision
+const LOGGED_INTENTS = 5;
+
+/**
+ * Classifies chat messages: whether they start a workflow (and which), and
+ * which assistant should answer otherwise. Messages are compared to the
+ * triggers of every workflow definition and to example questions per
+ * assistant; when the closest matches score about the same, the model picks.
+ */
+export class IntentRouterService {
+  private exampleEmbeddings = new Map<string, Embedding>();
+  private warming?: Promise<void>;
+
+  constructor(
+    private readonly registry: WorkflowRegistry = workflowRegistry,
+    private readonly embeddings: EmbeddingService = embeddingService
+  ) {
+    // Triggers change with the definitions; embed new ones before a message needs them
+    registry.onLoad(() => {
+      this.warm().catch(error => {
+        console.error('Failed to embed intent examples:', error instanceof Error ? error.message : error);
+      });
+    });
+  }
+
+  async route(message: string, options: RouteOptions = {}): Promise<IntentDecision> {
+    const { intents, embeddingModel } = await this.rank(message);
+    const decision = await this.decide(message, intents, options);
+
+    if (intentRouterConfig.logDecisions) {
+      decision.decisionId = await this.logDecision(message, decision, embeddingModel, options);
+    }
+    return decision;
+  }
+
+  /**
+   * Decision for a workflow the caller chose, e.g. from a list of workflows
+   */
+  explicit(workflowId: string): IntentDecision {
+    return {
+      route: 'workflow',
+      workflowId,
+      assistantType: 'general',
+      confidence: 1,
+      method: 'explicit',
+      intents: [],
+    };
+  }
+
+  /**
+   * Every intent scored by its closest example, best first
+   */
+  async rank(message: string): Promise<{ intents: RankedIntent[]; embeddingModel: string }> {
+    const examples = this.getExamples();
+    await this.warming;
+    let query = await this.embeddings.embed(message);
+    let vectors = await this.embedExamples(examples);
+
+    // Vectors of different models cannot be compared; use the local model throughout
+    if (vectors.some(vector => vector.model !== query.model)) {
+      examples.forEach((example, index) => {
+        if (vectors[index].model !== query.model) this.exampleEmbeddings.delete(example.text);
+      });
+      query = this.embeddings.embedLocal(message);
+      vectors = examples.map(example => this.embeddings.embedLocal(example.text));
+    }
+
+    const best = new Map<string, RankedIntent>();
+    examples.forEach((example, index) => {
+      const confidence = Math.max(0, cosineSimilarity(query.vector, vectors[index].vector));
+      const current = best.get(example.id);
+      if (!current || confidence > current.confidence) {
+        best.set(example.id, { id: example.id, kind: example.kind, target: example.target, confidence, example: example.text });
+      }
+    });
+
+    return {
+      intents: Array.from(best.values()).sort((a, b) => b.confidence - a.confidence),
+      embeddingModel: query.model,
+    };
+  }
+
+  /**
+   * Embed the examples of the current definitions in one batch, and forget
+   * those of triggers that no longer exist
+   */
+  warm(): Promise<void> {
+    if (!this.warming) {
+      const examples = this.getExamples();
+      const texts = new Set(examples.map(example => example.text));
+      for (const text of this.exampleEmbeddings.keys()) {
+        if (!texts.has(text)) this.exampleEmbeddings.delete(text);
+      }
+      this.warming = this.embedExamples(examples)
+        .then(() => undefined)
+        .finally(() => { this.warming = undefined; });
+    }
+    return this.warming;
+  }
+
+  /**
+   * Attach the correct intent to a logged decision ('workflow:<id>' or
+   * 'chat:<assistant type>'), e.g. from user feedback. Users can only label
+   * decisions made for their own messages.
+   */
+  async label(userId: string, decisionId: string, label: string, source = 'user'): Promise<void> {
+    if (!LABEL_PATTERN.test(label)) {
+      throw errorService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Invalid label "${label}": expected workflow:<id> or chat:<assistant type>`
+      );
+    }
+
+    const db = getSupabaseAdmin();
+    if (!db) {
+      throw errorService.createError(ErrorCode.SERVICE_UNAVAILABLE, 'Intent decision labels require Supabase');
+    }
+
+    const { data, error } = await db
+      .from('intent_decisions')
+      .update({ label, label_source: source, labeled_at: new Date().toISOString() })
+      .eq('id', decisionId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw new Error(error.message);
+    if (!data?.length) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Intent decision not found: ${decisionId}`);
+    }
+  }
+
+  private async decide(message: string, intents: RankedIntent[], options: RouteOptions): Promise<IntentDecision> {
+    const { workflowThreshold, assistantThreshold } = intentRouterConfig;
+    const bestChat = intents.find(intent => intent.kind === 'chat');
+    let assistantType: AssistantType = bestChat && bestChat.confidence >= assistantThreshold
+      ? bestChat.target as AssistantType
+      : 'general';
+
+    let top = intents[0];
+    let confidence = top?.confidence ?? 0;
+    let method: RoutingMethod = 'embedding';
+
+    const picked = await this.tiebreak(message, intents, options);
+    if (picked) {
+      top = picked.intent;
+      confidence = picked.confidence;
+      method = 'llm';
+      if (top.kind === 'chat') assistantType = top.target as AssistantType;
+    }
+
+    if (top?.kind === 'workflow' && (method === 'llm' || confidence >= workflowThreshold)) {
+      return { route: 'workflow', workflowId: top.target, assistantType, confidence, method, intents };
+    }
+
+    const fallback = this.registry.get(workflowsConfig.defaultWorkflowId);
+    if (fallback && intentRouterConfig.explicitWorkflowPattern.test(message)) {
+      return {
+        route: 'workflow',
+        workflowId: fallback.id,
+        assistantType,
+        confidence: intents.find(intent => intent.target === fallback.id)?.confidence ?? 0,
+        method: 'default',
+        intents,
+      };
+    }
+
+    return {
+      route: 'chat',
+      assistantType,
+      confidence: method === 'llm' ? confidence : bestChat?.confidence ?? 0,
+      method,
+      intents,
+    };
+  }
+
+  /**
+   * Let the model choose when a workflow is among intents scoring about the
+   * same as the best one. Undefined when there is no tie or the call fails.
+   */
+  private async tiebreak(
+    message: string,
+    intents: RankedIntent[],
+    options: RouteOptions
+  ): Promise<{ intent: RankedIntent; confidence: number } | undefined> {
+    const { tiebreak, assistantThreshold } = intentRouterConfig;
+    const top = intents[0];
+    if (!tiebreak.enabled || !top || top.confidence < assistantThreshold) return undefined;
+
+    const candidates = intents
+      .filter(intent => top.confidence - intent.confidence <= tiebreak.margin)
+      .slice(0, tiebreak.maxCandidates);
+    if (candidates.length < 2 || !candidates.some(intent => intent.kind === 'workflow')) return undefined;
+
+    try {
+      const prompt = await promptRegistry.render('intent.tiebreak', {
+        candidates: candidates.map(intent => `- ${intent.id}: ${this.describe(intent)}`).join('\n'),
+      });
+      const { data } = await structuredOutputService.generate(intentTiebreakSchema, {
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: message },
+        ],
+        temperature: 0,
+        maxTokens: tiebreak.maxTokens,
+        metering: { userId: options.userId, feature: 'intent' },
+        maxRepairAttempts: 0,
+      });
+
+      const intent = candidates.find(candidate => candidate.id === data.intent);
+      return intent && { intent, confidence: data.confidence };
+    } catch (error) {
+      console.error('Intent tiebreak failed, using the closest match:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  private describe(intent: RankedIntent): string {
+    if (intent.kind === 'chat') return `answer in chat as the ${intent.target} assistant`;
+    const workflow = this.registry.get(intent.target);
+    return workflow ? `start the "${workflow.name}" workflow (${workflow.description})` : `start the ${intent.target} workflow`;
+  }
+
+  private getExamples(): IntentExample[] {
+    const workflows = this.registry.list().flatMap(workflow => workflow.triggers.map(text => ({
+      id: `workflow:${workflow.id}`,
+      kind: 'workflow' as const,
+      target: workflow.id,
+      text,
+    })));
+    const assistants = ASSISTANT_TYPES.flatMap(type => intentRouterConfig.assistantExamples[type].map(text => ({
+      id: `chat:${type}`,
+      kind: 'chat' as const,
+      target: type,
+      text,
+    })));
+    return [...workflows, ...assistants];
+  }
+
+  private async embedExamples(examples: IntentExample[]): Promise<Embedding[]> {
+    const missing = Array.from(new Set(examples.map(example => example.text)))
+      .filter(text => !this.exampleEmbeddings.has(text));
+    const embedded = await this.embeddings.embedMany(missing);
+    missing.forEach((text, index) => this.exampleEmbeddings.set(text, embedded[index]));
+    return examples.map(example => this.exampleEmbeddings.get(example.text) as Embedding);
+  }
+
+  /**
+   * Store the decision in intent_decisions; returns its id. Never throws, as
+   * routing must not fail because logging did.
+   */
+  private async logDecision(
+    message: string,
+    decision: IntentDecision,
+    embeddingModel: string,
+    options: RouteOptions
+  ): Promise<string | undefined> {
+    const db = getSupabaseAdmin();
+    if (!db) return undefined;
+
+    try {
+      const { data, error } = await db
+        .from('intent_decisions')
+        .insert({
+          user_id: options.userId && UUID_PATTERN.test(options.userId) ? options.userId : null,
+          trace_id: options.traceId,
+          message: piiRedactionService.redact(message, new RedactionSession()),
+          route: decision.route,
+          intent: decision.route === 'workflow' ? `workflow:${decision.workflowId}` : `chat:${decision.assistantType}`,
+          confidence: decision.confidence,
+          method: decision.method,
+          intents: decision.intents.slice(0, LOGGED_INTENTS),
+          embedding_model: embeddingModel,
+        })
+        .select('id')
+        .single();
+
+      if (error) throw new Error(error.message);
+      return (data as { id: string }).id;
+    } catch (error) {
+      console.error('Failed to log intent decision:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+}
+
+// Singleton instance
+export const intentRouterService = new IntentRouterService();
@@ -0,0 +1,27 @@
+import OpenAI from 'openai';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+
+let client: OpenAI | null = null;
+
+const isConfigured = () =>
+  !!process.env.ANTHROPIC_API_KEY && process.env.ANTHROPIC_API_KEY !== 'your-anthropic-api-key-here';
+
+/**
+ * Anthropic Claude through its OpenAI SDK compatible endpoint
+ */
+export const anthropicProvider = createOpenAICompatibleProvider({
+  name: 'anthropic',
+  defaultModel: process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-latest',
+  isConfigured,
+  // The compatibility endpoint ignores response_format
+  jsonMode: false,
+  getClient: () => {
+    if (!client && isConfigured()) {
+      client = new OpenAI({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        baseURL: 'https://api.anthropic.com/v1/',
+      });
+    }
+    return client;
+  },
+});
@@ -0,0 +1,13 @@
+import { azureOpenAI } from '../azure-openai.service';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+
+/**
+ * Azure OpenAI - every request goes to the configured deployment (model router)
+ */
+export const azureProvider = createOpenAICompatibleProvider({
+  name: 'azure',
+  defaultModel: azureOpenAI.getDeploymentName(),
+  isConfigured: () => azureOpenAI.isConfigured(),
+  getClient: () => azureOpenAI.getClient(),
+  resolveModel: () => azureOpenAI.getDeploymentName(),
+});
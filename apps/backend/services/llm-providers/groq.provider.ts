@@ -0,0 +1,13 @@
+import { groqService } from '../groq.service';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+
+/**
+ * Groq (Llama) - fastest provider, first in the default chain
+ */
+export const groqProvider = createOpenAICompatibleProvider({
+  name: 'groq',
+  defaultModel: 'llama-3.3-70b-versatile',
+  isConfigured: () => groqService.isConfigured(),
+  getClient: () => groqService.getClient(),
+  streamUsage: 'x_groq',
+});
@@ -0,0 +1,19 @@
+// Built-in provider adapters, in default priority order.
+// Adding a provider means adding its file here and listing it below.
+import { groqProvider } from './groq.provider';
+import { azureProvider } from './azure.provider';
+import { openaiProvider } from './openai.provider';
+import { anthropicProvider } from './anthropic.provider';
+import { mockProvider } from './mock.provider';
+
+export * from './types';
+export { createOpenAICompatibleProvider } from './openai-compatible';
+export { groqProvider, azureProvider, openaiProvider, anthropicProvider, mockProvider };
+
+export const builtInProviders = [
+  groqProvider,
+  azureProvider,
+  openaiProvider,
+  anthropicProvider,
+  mockProvider,
+];
@@ -0,0 +1,51 @@
+import type { LLMProviderAdapter, LLMRequest, LLMResponse, LLMStreamCallback } from './types';
+
+function buildMockContent(request: LLMRequest): string {
+  const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user');
+
+  return `[MOCK RESPONSE]
+
+Your message: "${lastUserMessage?.content || ''}"
+
+To enable AI responses, configure an LLM provider in backend/.env.local:
+- **Groq (fastest)**: GROQ_API_KEY=gsk-...
+- **Azure OpenAI**: AZURE_OPENAI_API_KEY and AZURE_OPENAI_ENDPOINT
+- **OpenAI**: OPENAI_API_KEY=sk-...
+- **Anthropic**: ANTHROPIC_API_KEY=sk-ant-...`;
+}
+
+// Mock responses are free and must not count towards budgets
+const NO_USAGE = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+/**
+ * Local mock provider. Always available; LLMService only falls back to it
+ * when no real provider is configured (or when it is requested explicitly).
+ */
+export const mockProvider: LLMProviderAdapter = {
+  name: 'mock',
+  defaultModel: 'none',
+
+  isConfigured: () => true,
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    return {
+      content: buildMockContent(request),
+      provider: 'mock',
+      model: 'none',
+      tokensUsed: 0,
+      usage: NO_USAGE,
+    };
+  },
+
+  async stream(request: LLMRequest, onToken: LLMStreamCallback): Promise<LLMResponse> {
+    const content = buildMockContent(request);
+    for (const token of content.split(/(\s+)/)) {
+      request.signal?.throwIfAborted();
+      if (token) {
+        await onToken(token, { provider: 'mock', model: 'none' });
+      }
+    }
+
+    return { content, provider: 'mock', model: 'none', tokensUsed: 0, usage: NO_USAGE };
+  },
+};
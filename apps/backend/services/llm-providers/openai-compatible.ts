@@ -0,0 +1,169 @@
+import type {
+  LLMMessage,
+  LLMProviderAdapter,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamCallback,
+  LLMTokenUsage,
+  LLMToolCall,
+} from './types';
+
+/**
+ * Minimal surface shared by the OpenAI SDK, the Groq SDK and the Azure wrapper
+ */
+export interface ChatCompletionsClient {
+  chat: {
+    completions: {
+      create(params: any, options?: { signal?: AbortSignal }): Promise<any>;
+    };
+  };
+}
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  defaultModel: string;
+  isConfigured: () => boolean;
+  getClient: () => ChatCompletionsClient | null;
+  /** Some endpoints (Azure model router) ignore the requested model name */
+  resolveModel?: (requested: string) => string;
+  /**
+   * How the provider reports token usage for streams: OpenAI-style
+   * `stream_options.include_usage` (default) or Groq's `x_groq.usage`
+   */
+  streamUsage?: 'stream_options' | 'x_groq';
+  /** Whether `response_format: json_object` is accepted (default true) */
+  jsonMode?: boolean;
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 2048;
+
+function toTokenUsage(usage: any): LLMTokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens || (usage.prompt_tokens || 0) + (usage.completion_tokens || 0),
+  };
+}
+
+function toChatMessage(message: LLMMessage) {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function toToolCalls(toolCalls: any[] | undefined): LLMToolCall[] | undefined {
+  if (!toolCalls?.length) return undefined;
+  return toolCalls.map(call => ({
+    id: call.id,
+    name: call.function?.name,
+    arguments: call.function?.arguments || '{}',
+  }));
+}
+
+/**
+ * Build an adapter for any provider that speaks the OpenAI chat completions API
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProviderAdapter {
+  const resolveModel = options.resolveModel || ((requested: string) => requested);
+  const streamUsage = options.streamUsage || 'stream_options';
+  const jsonMode = options.jsonMode ?? true;
+
+  const requireClient = (): ChatCompletionsClient => {
+    const client = options.getClient();
+    if (!client) {
+      throw new Error(`${options.name} is not configured`);
+    }
+    return client;
+  };
+
+  const buildParams = (request: LLMRequest, stream: boolean) => ({
+    messages: request.messages.map(toChatMessage),
+    model: resolveModel(request.model || options.defaultModel),
+    temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    stream,
+    ...(stream && streamUsage === 'stream_options' && { stream_options: { include_usage: true } }),
+    ...(request.tools?.length && {
+      tools: request.tools.map(tool => ({ type: 'function', function: tool })),
+      tool_choice: request.toolChoice || 'auto',
+    }),
+    ...(jsonMode && request.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+  });
+
+  return {
+    name: options.name,
+    defaultModel: options.defaultModel,
+    isConfigured: options.isConfigured,
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      const params = buildParams(request, false);
+      const completion = await requireClient().chat.completions.create(params, { signal: request.signal });
+
+      const usage = toTokenUsage(completion.usage);
+      const message = completion.choices?.[0]?.message;
+      return {
+        content: message?.content || '',
+        provider: options.name,
+        model: params.model,
+        tokensUsed: usage?.totalTokens,
+        usage,
+        toolCalls: toToolCalls(message?.tool_calls),
+      };
+    },
+
+    async stream(request: LLMRequest, onToken: LLMStreamCallback): Promise<LLMResponse> {
+      const params = buildParams(request, true);
+      // Aborting the signal also ends the iteration below
+      const stream = await requireClient().chat.completions.create(params, { signal: request.signal });
+      let content = '';
+      let usage: LLMTokenUsage | undefined;
+      // Tool calls arrive in fragments keyed by index
+      const toolCalls: any[] = [];
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices?.[0]?.delta;
+        const token = delta?.content || '';
+        if (token) {
+          content += token;
+          await onToken(token, { provider: options.name, model: params.model });
+        }
+
+        for (const fragment of delta?.tool_calls || []) {
+          const call = toolCalls[fragment.index ?? 0] ||= { id: '', function: { name: '', arguments: '' } };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.function.name += fragment.function.name;
+          if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        }
+
+        // Usage arrives on the final chunk
+        const reported = streamUsage === 'x_groq' ? chunk.x_groq?.usage : chunk.usage;
+        if (reported) {
+          usage = toTokenUsage(reported);
+        }
+      }
+
+      return {
+        content,
+        provider: options.name,
+        model: params.model,
+        tokensUsed: usage?.totalTokens,
+        usage,
+        toolCalls: toToolCalls(toolCalls.filter(Boolean)),
+      };
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import OpenAI from 'openai';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+
+let client: OpenAI | null = null;
+
+const isConfigured = () =>
+  !!process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY !== 'your-openai-api-key-here';
+
+/**
+ * Standard OpenAI API
+ */
+export const openaiProvider = createOpenAICompatibleProvider({
+  name: 'openai',
+  defaultModel: 'gpt-4-turbo-preview',
+  isConfigured,
+  getClient: () => {
+    if (!client && isConfigured()) {
+      client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return client;
+  },
+});
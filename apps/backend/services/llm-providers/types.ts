@@ -0,0 +1,107 @@
+/**
+ * Common contract implemented by every LLM provider adapter.
+ * Callers never talk to a provider SDK directly; they go through LLMService,
+ * which walks the registered adapters in priority order.
+ */
+
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+  /** Tool calls requested by the model (assistant messages) */
+  toolCalls?: LLMToolCall[];
+  /** Call this message answers (tool messages) */
+  toolCallId?: string;
+}
+
+/**
+ * A function the model may call. `parameters` is a JSON Schema object.
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  /** Raw JSON arguments as produced by the model */
+  arguments: string;
+}
+
+/**
+ * Who an LLM call is billed to. Read by LLMService for usage accounting and
+ * budgets; adapters ignore it.
+ */
+export interface LLMMetering {
+  userId?: string;
+  sessionId?: string;
+  workflowId?: string;
+  /** Workflow step the call belongs to; its calls add up to the step's telemetry */
+  stepId?: string;
+  /** chat, agent, summary, ... */
+  feature?: string;
+}
+
+export interface LLMTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** True when the provider did not report usage and tokens were estimated */
+  estimated?: boolean;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  /** Model override, only honoured by the provider named in `provider` */
+  model?: string;
+  /** Preferred provider; it is tried first and the rest of the chain follows */
+  provider?: string;
+  temperature?: number;
+  maxTokens?: number;
+  metering?: LLMMetering;
+  tools?: LLMToolDefinition[];
+  /** 'none' forces a text answer even when tools are offered */
+  toolChoice?: 'auto' | 'none';
+  /**
+   * 'json' asks for a single JSON object. Providers without a JSON mode
+   * ignore it, so the prompt must still ask for JSON.
+   */
+  responseFormat?: 'text' | 'json';
+  /**
+   * Cancels the call, including a stream in progress. Adapters pass it to
+   * the SDK; LLMService does not try other providers once it is aborted.
+   */
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  content: string;
+  provider: string;
+  model: string;
+  tokensUsed?: number;
+  usage?: LLMTokenUsage;
+  /** Present when the model stopped to call tools instead of answering */
+  toolCalls?: LLMToolCall[];
+  costUsd?: number;
+  /** Set when a budget moved the request to a cheaper model */
+  downgraded?: boolean;
+}
+
+export interface LLMStreamMetadata {
+  provider: string;
+  model: string;
+}
+
+export type LLMStreamCallback = (token: string, metadata: LLMStreamMetadata) => Promise<void> | void;
+
+export interface LLMProviderAdapter {
+  /** Registry key, e.g. 'groq' */
+  readonly name: string;
+  readonly defaultModel: string;
+  isConfigured(): boolean;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  stream(request: LLMRequest, onToken: LLMStreamCallback): Promise<LLMResponse>;
+}
@@ -1,281 +1,376 @@
-import { Groq } from 'groq-sdk';
-import OpenAI from 'openai';
+import { agentPrompts } from '../src/mastra/config';
+import { budgetConfig, defaultModelPricing, modelPricing } from '../config/llm-pricing.config';
+import { CircuitBreaker, type CircuitBreakerSnapshot } from './circuit-breaker';
+import { errorService, ErrorCode } from './error.service';
+import { usageService } from './usage.service';
+import { workflowTelemetryService } from './workflow-telemetry.service';
+import { piiRedactionService } from './pii-redaction.service';
+import {
+  builtInProviders,
+  type LLMProviderAdapter,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMStreamCallback,
+} from './llm-providers';
+
+export type { LLMMessage, LLMMetering, LLMRequest, LLMResponse, LLMProviderAdapter } from './llm-providers';
 
 interface LLMServiceConfig {
   streamCallback?: (token: string, metadata?: any) => Promise<void>;
   providerSwitchCallback?: (from: string, to: string, reason: string) => Promise<void>;
 }
 
-interface LLMResponse {
-  content: string;
-  provider: string;
-  model: string;
-  tokensUsed?: number;
-}
+// Priority used when LLM_PROVIDER_ORDER is not set
+const DEFAULT_PROVIDER_ORDER = ['groq', 'azure', 'openai', 'anthropic'];
+
+// Providers scoring below this are tried only after the healthy ones
+const DEGRADED_HEALTH_SCORE = 0.5;
 
+/**
+ * Single entry point for LLM calls. Provider adapters register here and every
+ * caller (chat, agents, summaries) goes through the same fallback chain.
+ */
 export class LLMService {
-  private groqClient?: Groq;
-  private openaiClient?: OpenAI;
-  private azureClient?: OpenAI;
+  private static providers = new Map<string, LLMProviderAdapter>();
+  private static breakers = new Map<string, CircuitBreaker>();
   private config: LLMServiceConfig;
 
   constructor(config: LLMServiceConfig = {}) {
     this.config = config;
-    this.initializeClients();
   }
 
-  private initializeClients() {
-    // Initialize Groq client
-    if (process.env.GROQ_API_KEY) {
-      this.groqClient = new Groq({
-        apiKey: process.env.GROQ_API_KEY,
-      });
+  /**
+   * Register (or replace) a provider adapter
+   */
+  static registerProvider(adapter: LLMProviderAdapter): void {
+    this.providers.set(adapter.name, adapter);
+  }
+
+  static unregisterProvider(name: string): void {
+    this.providers.delete(name);
+    this.breakers.delete(name);
+  }
+
+  static getProvider(name: string): LLMProviderAdapter | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Circuit breaker tracking a provider's recent error rate and latency
+   */
+  static getCircuitBreaker(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name);
+      this.breakers.set(name, breaker);
     }
+    return breaker;
+  }
 
-    // Initialize OpenAI client
-    if (process.env.OPENAI_API_KEY) {
-      this.openaiClient = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
-      });
+  /**
+   * Registered providers with their configuration status and breaker state
+   */
+  static listProviders(): Array<{
+    name: string;
+    defaultModel: string;
+    configured: boolean;
+    circuit: CircuitBreakerSnapshot;
+  }> {
+    return Array.from(this.providers.values()).map(provider => ({
+      name: provider.name,
+      defaultModel: provider.defaultModel,
+      configured: provider.isConfigured(),
+      circuit: this.getCircuitBreaker(provider.name).getSnapshot(),
+    }));
+  }
+
+  /**
+   * Configured providers in priority order, ignoring health
+   */
+  getConfiguredProviders(): LLMProviderAdapter[] {
+    const configuredOrder = process.env.LLM_PROVIDER_ORDER
+      ? process.env.LLM_PROVIDER_ORDER.split(',').map(name => name.trim()).filter(Boolean)
+      : DEFAULT_PROVIDER_ORDER;
+    const remaining = Array.from(LLMService.providers.keys())
+      .filter(name => name !== 'mock' && !configuredOrder.includes(name));
+
+    return [...configuredOrder, ...remaining]
+      .map(name => LLMService.providers.get(name))
+      .filter((provider): provider is LLMProviderAdapter => !!provider && provider.isConfigured());
+  }
+
+  /**
+   * Ordered list of providers to try. Providers with an open circuit are
+   * skipped, degraded ones are moved behind healthy ones. The mock provider
+   * is only used when nothing else is configured, unless it is requested.
+   */
+  getProviderChain(preferred?: string): LLMProviderAdapter[] {
+    const configured = this.getConfiguredProviders();
+
+    const preferredProvider = preferred ? LLMService.providers.get(preferred) : undefined;
+    if (preferredProvider?.isConfigured() && !configured.includes(preferredProvider)) {
+      configured.unshift(preferredProvider);
     }
 
-    // Initialize Azure OpenAI client
-    if (process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_ENDPOINT) {
-      this.azureClient = new OpenAI({
-        apiKey: process.env.AZURE_OPENAI_API_KEY,
-        baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/deployments/${process.env.AZURE_OPENAI_DEPLOYMENT}`,
-        defaultQuery: { 'api-version': process.env.AZURE_OPENAI_API_VERSION || '2024-02-01' },
-        defaultHeaders: {
-          'api-key': process.env.AZURE_OPENAI_API_KEY,
-        },
-      });
+    if (configured.length === 0) {
+      const mock = LLMService.providers.get('mock');
+      return mock ? [mock] : [];
+    }
+
+    const available = configured.filter(provider => LLMService.getCircuitBreaker(provider.name).isAvailable());
+    const score = (provider: LLMProviderAdapter) => LLMService.getCircuitBreaker(provider.name).getHealthScore();
+    const healthy = available.filter(provider => score(provider) >= DEGRADED_HEALTH_SCORE);
+    const degraded = available
+      .filter(provider => score(provider) < DEGRADED_HEALTH_SCORE)
+      .sort((a, b) => score(b) - score(a));
+
+    const chain = [...healthy, ...degraded];
+    if (preferredProvider && chain.includes(preferredProvider)) {
+      return [preferredProvider, ...chain.filter(provider => provider !== preferredProvider)];
     }
+
+    return chain;
+  }
+
+  /**
+   * Model the next request will most likely run on (head of the provider chain)
+   */
+  getExpectedModel(preferred?: string): string | undefined {
+    return this.getProviderChain(preferred)[0]?.defaultModel;
+  }
+
+  /**
+   * Run a completion against the provider chain. PII is replaced with
+   * placeholders before the request leaves the backend and restored after.
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const { request: redacted, session } = piiRedactionService.redactRequest(request);
+    const response = await this.runChain(redacted, (provider, providerRequest) => provider.complete(providerRequest));
+    return piiRedactionService.restoreResponse(response, session);
+  }
+
+  /**
+   * Stream a completion; tokens go to `onToken` or the configured streamCallback
+   */
+  async stream(request: LLMRequest, onToken?: LLMStreamCallback): Promise<LLMResponse> {
+    const callback: LLMStreamCallback = onToken || (async (token, metadata) => {
+      if (this.config.streamCallback) {
+        await this.config.streamCallback(token, metadata);
+      }
+    });
+
+    const { request: redacted, session } = piiRedactionService.redactRequest(request);
+    const restorer = piiRedactionService.createStreamRestorer(session, callback);
+
+    const response = await this.runChain(redacted, (provider, providerRequest, timing) =>
+      provider.stream(providerRequest, async (token, metadata) => {
+        timing.firstTokenAt = timing.firstTokenAt ?? Date.now();
+        await restorer.onToken(token, metadata);
+      })
+    );
+    await restorer.flush();
+    return piiRedactionService.restoreResponse(response, session);
   }
 
   async process(
     message: string,
     assistantType: string,
-    context: { traceId: string; userId: string }
+    context: { traceId: string; userId: string; sessionId?: string }
   ): Promise<LLMResponse> {
-    const systemPrompt = this.getSystemPrompt(assistantType);
-    
-    // Try Groq first
-    if (this.groqClient) {
-      try {
-        const completion = await this.groqClient.chat.completions.create({
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: message },
-          ],
-          model: 'llama-3.3-70b-versatile',
-          temperature: 0.7,
-          max_tokens: 2048,
-          stream: false,
-        });
-
-        return {
-          content: completion.choices[0]?.message?.content || '',
-          provider: 'groq',
-          model: 'llama-3.3-70b-versatile',
-          tokensUsed: completion.usage?.total_tokens,
-        };
-      } catch (error) {
-        console.error('Groq API failed:', error);
-      }
+    return this.complete({
+      messages: [
+        { role: 'system', content: this.getSystemPrompt(assistantType) },
+        { role: 'user', content: message },
+      ],
+      metering: { userId: context.userId, sessionId: context.sessionId, feature: 'chat' },
+    });
+  }
+
+  async processWithStreaming(
+    message: string,
+    assistantType: string,
+    context: { traceId: string; userId: string; sessionId?: string }
+  ): Promise<LLMResponse> {
+    return this.stream({
+      messages: [
+        { role: 'system', content: this.getSystemPrompt(assistantType) },
+        { role: 'user', content: message },
+      ],
+      metering: { userId: context.userId, sessionId: context.sessionId, feature: 'chat' },
+    });
+  }
+
+  getSystemPrompt(assistantType: string): string {
+    return agentPrompts[assistantType as keyof typeof agentPrompts] || agentPrompts.general;
+  }
+
+  /**
+   * Apply the caller's budget: reject, or move the request to the cheaper
+   * downgrade target once the budget is exhausted (rejecting when no
+   * available provider can serve it)
+   */
+  private async applyBudget(request: LLMRequest): Promise<{ request: LLMRequest; downgraded: boolean }> {
+    const userId = request.metering?.userId;
+    if (!userId) {
+      return { request, downgraded: false };
     }
 
-    // Fallback to Azure OpenAI
-    if (this.azureClient) {
-      try {
-        const completion = await this.azureClient.chat.completions.create({
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: message },
-          ],
-          model: process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4',
-          temperature: 0.7,
-          max_tokens: 2048,
-          stream: false,
-        });
-
-        return {
-          content: completion.choices[0]?.message?.content || '',
-          provider: 'azure',
-          model: process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4',
-          tokensUsed: completion.usage?.total_tokens,
-        };
-      } catch (error) {
-        console.error('Azure OpenAI API failed:', error);
-      }
+    const decision = await usageService.checkBudget(userId);
+    if (decision.action === 'reject') {
+      throw errorService.createError(ErrorCode.BUDGET_EXCEEDED, decision.reason || 'LLM budget exhausted', {
+        limits: decision.limits,
+        spentTodayUsd: decision.spentTodayUsd,
+        spentThisMonthUsd: decision.spentThisMonthUsd,
+      });
     }
 
-    // Fallback to OpenAI
-    if (this.openaiClient) {
-      try {
-        const completion = await this.openaiClient.chat.completions.create({
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: message },
-          ],
-          model: 'gpt-4-turbo-preview',
-          temperature: 0.7,
-          max_tokens: 2048,
-          stream: false,
-        });
-
-        return {
-          content: completion.choices[0]?.message?.content || '',
-          provider: 'openai',
-          model: 'gpt-4-turbo-preview',
-          tokensUsed: completion.usage?.total_tokens,
-        };
-      } catch (error) {
-        console.error('OpenAI API failed:', error);
-        throw new Error('All LLM providers failed');
+    if (decision.action === 'downgrade') {
+      const target = this.getDowngradeTarget();
+      if (!target) {
+        throw errorService.createError(ErrorCode.BUDGET_EXCEEDED,
+          `${decision.reason || 'LLM budget exhausted'} and no cheaper model is available`, {
+            limits: decision.limits,
+            spentTodayUsd: decision.spentTodayUsd,
+            spentThisMonthUsd: decision.spentThisMonthUsd,
+          });
       }
+
+      console.warn(`${decision.reason} for user ${userId}, downgrading to ${target.model}`);
+      return {
+        request: { ...request, provider: target.provider, model: target.model },
+        downgraded: true,
+      };
     }
 
-    // No providers configured - return mock response
-    return {
-      content: `[${assistantType.toUpperCase()} ASSISTANT]\n\nI'm responding to your message: "${message}"\n\nTo enable AI responses, please configure an LLM provider (Groq, Azure OpenAI, or OpenAI) in your environment variables.`,
-      provider: 'mock',
-      model: 'none',
-      tokensUsed: 0,
+    return { request, downgraded: false };
+  }
+
+  /**
+   * The configured downgrade target when its provider is available, otherwise
+   * the cheapest default model among the available providers
+   */
+  private getDowngradeTarget(): { provider: string; model: string } | undefined {
+    const chain = this.getProviderChain();
+    if (chain.some(provider => provider.name === budgetConfig.downgradeTo.provider)) {
+      return budgetConfig.downgradeTo;
+    }
+
+    const cheapest = this.sortByPrice(chain)[0];
+    return cheapest && { provider: cheapest.name, model: cheapest.defaultModel };
+  }
+
+  /**
+   * Providers ordered by the price of their default model, cheapest first
+   */
+  private sortByPrice(providers: LLMProviderAdapter[]): LLMProviderAdapter[] {
+    const price = (provider: LLMProviderAdapter) => {
+      const pricing = modelPricing[provider.defaultModel] || defaultModelPricing;
+      return pricing.input + pricing.output;
     };
+    return [...providers].sort((a, b) => price(a) - price(b));
   }
 
-  async processWithStreaming(
-    message: string,
-    assistantType: string,
-    context: { traceId: string; userId: string }
+  /**
+   * Fill in usage and cost, then record the call without holding up the response
+   */
+  private meter(request: LLMRequest, response: LLMResponse, downgraded: boolean): LLMResponse {
+    const usage = response.usage || usageService.estimateUsage(request.messages, response.content);
+    const metered: LLMResponse = {
+      ...response,
+      usage,
+      tokensUsed: usage.totalTokens,
+      costUsd: usageService.calculateCost(response.model, usage),
+      downgraded,
+    };
+
+    void usageService.record({
+      ...request.metering,
+      provider: metered.provider,
+      model: metered.model,
+      usage,
+      costUsd: metered.costUsd || 0,
+      downgraded,
+    });
+    workflowTelemetryService.track(request.metering, {
+      provider: metered.provider,
+      model: metered.model,
+      usage,
+      costUsd: metered.costUsd || 0,
+    });
+
+    return metered;
+  }
+
+  private async runChain(
+    originalRequest: LLMRequest,
+    call: (
+      provider: LLMProviderAdapter,
+      request: LLMRequest,
+      timing: { firstTokenAt?: number }
+    ) => Promise<LLMResponse>
   ): Promise<LLMResponse> {
-    const systemPrompt = this.getSystemPrompt(assistantType);
-    let accumulatedContent = '';
-    let provider = 'groq';
-    let model = 'llama-3.3-70b-versatile';
-    let tokensUsed = 0;
-
-    // Try Groq first
-    if (this.groqClient) {
-      try {
-        const stream = await this.groqClient.chat.completions.create({
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: message },
-          ],
-          model: 'llama-3.3-70b-versatile',
-          temperature: 0.7,
-          max_tokens: 2048,
-          stream: true,
-        });
-
-        for await (const chunk of stream) {
-          const token = chunk.choices[0]?.delta?.content || '';
-          if (token) {
-            accumulatedContent += token;
-            if (this.config.streamCallback) {
-              await this.config.streamCallback(token, { provider, model });
-            }
-          }
-          // Usage is not available in streaming chunks for Groq
-        }
+    const { request, downgraded } = await this.applyBudget(originalRequest);
+    const healthChain = this.getProviderChain(request.provider);
+    // A downgraded request falls back to the next cheapest provider, not the healthiest
+    const chain = downgraded
+      ? [healthChain[0], ...this.sortByPrice(healthChain.slice(1))].filter(Boolean)
+      : healthChain;
+    if (chain.length === 0) {
+      throw new Error(this.getConfiguredProviders().length > 0
+        ? 'All LLM providers are unavailable (circuit breakers open)'
+        : 'No LLM providers configured');
+    }
 
-        return { content: accumulatedContent, provider, model, tokensUsed };
-      } catch (error) {
-        console.error('Groq streaming failed:', error);
-        if (this.config.providerSwitchCallback) {
-          await this.config.providerSwitchCallback('groq', 'azure', 'Groq API error');
-        }
+    let lastError: unknown;
+    for (let i = 0; i < chain.length; i++) {
+      const provider = chain[i];
+      request.signal?.throwIfAborted();
+      const breaker = LLMService.getCircuitBreaker(provider.name);
+      if (!breaker.tryAcquire()) {
+        continue;
       }
-    }
 
-    // Fallback to Azure OpenAI
-    if (this.azureClient) {
-      try {
-        provider = 'azure';
-        model = process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4';
-        
-        const stream = await this.azureClient.chat.completions.create({
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: message },
-          ],
-          model: process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4',
-          temperature: 0.7,
-          max_tokens: 2048,
-          stream: true,
-        });
-
-        accumulatedContent = '';
-        for await (const chunk of stream) {
-          const token = chunk.choices[0]?.delta?.content || '';
-          if (token) {
-            accumulatedContent += token;
-            if (this.config.streamCallback) {
-              await this.config.streamCallback(token, { provider, model });
-            }
-          }
-          // Usage is not available in streaming chunks for Groq
-        }
+      // A model override only makes sense for the provider it was chosen for
+      const providerRequest = provider.name === request.provider ? request : { ...request, model: undefined };
+      // Streams are judged on time to first token, not total duration
+      const timing: { firstTokenAt?: number } = {};
+      const startedAt = Date.now();
+      const latency = () => (timing.firstTokenAt ?? Date.now()) - startedAt;
 
-        return { content: accumulatedContent, provider, model, tokensUsed };
+      try {
+        const response = await call(provider, providerRequest, timing);
+        breaker.recordSuccess(latency());
+        return this.meter(providerRequest, response, downgraded);
       } catch (error) {
-        console.error('Azure OpenAI streaming failed:', error);
-        if (this.config.providerSwitchCallback) {
-          await this.config.providerSwitchCallback('azure', 'openai', 'Azure API error');
+        // The caller gave up (step timeout, retry); neither the provider's fault nor a reason to try another
+        if (request.signal?.aborted) {
+          breaker.release();
+          throw error;
         }
-      }
-    }
 
-    // Fallback to OpenAI
-    if (this.openaiClient) {
-      try {
-        provider = 'openai';
-        model = 'gpt-4-turbo-preview';
-        
-        const stream = await this.openaiClient.chat.completions.create({
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: message },
-          ],
-          model: 'gpt-4-turbo-preview',
-          temperature: 0.7,
-          max_tokens: 2048,
-          stream: true,
-        });
-
-        accumulatedContent = '';
-        for await (const chunk of stream) {
-          const token = chunk.choices[0]?.delta?.content || '';
-          if (token) {
-            accumulatedContent += token;
-            if (this.config.streamCallback) {
-              await this.config.streamCallback(token, { provider, model });
-            }
-          }
-          // Usage is not available in streaming chunks for Groq
+        breaker.recordFailure(latency(), error);
+        lastError = error;
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`LLM provider ${provider.name} failed:`, reason);
+
+        // The caller already has part of this answer; another provider would repeat or splice it
+        if (timing.firstTokenAt !== undefined) {
+          throw error;
         }
 
-        return { content: accumulatedContent, provider, model, tokensUsed };
-      } catch (error) {
-        console.error('OpenAI streaming failed:', error);
-        throw new Error('All LLM providers failed');
+        const next = chain[i + 1];
+        if (next && this.config.providerSwitchCallback) {
+          await this.config.providerSwitchCallback(provider.name, next.name, reason);
+        }
       }
     }
 
-    throw new Error('No LLM providers configured');
+    const reason = lastError instanceof Error ? lastError.message : 'Unknown error';
+    throw new Error(`All LLM providers failed: ${reason}`);
   }
+}
 
-  private getSystemPrompt(assistantType: string): string {
-    const prompts: Record<string, string> = {
-      general: 'You are a helpful AI assistant. Provide clear, concise, and accurate responses.',
-      analyst: 'You are a financial analyst. Provide detailed market analysis, technical indicators, and data-driven insights.',
-      trader: 'You are an experienced trader. Focus on trading strategies, entry/exit points, and risk management.',
-      advisor: 'You are a financial advisor. Provide personalized investment advice based on user goals and risk tolerance.',
-      riskManager: 'You are a risk management expert. Analyze potential risks, volatility, and provide hedging strategies.',
-      economist: 'You are an economist. Analyze macroeconomic trends, policy impacts, and economic indicators.',
-    };
+builtInProviders.forEach(provider => LLMService.registerProvider(provider));
 
-    return prompts[assistantType] || prompts.general;
-  }
-}
\ No newline at end of file
+// Shared instance for callers that do not need stream/switch callbacks
+export const llmService = new LLMService();
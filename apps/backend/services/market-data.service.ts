@@ -0,0 +1,214 @@
+import { setTimeout, clearTimeout } from 'timers';
+import type { InternalStateManager } from 'motia';
+import { workflowsConfig } from '../config/workflows.config';
+import { marketDataTool } from '../src/mastra/tools/marketData';
+
+export type MarketDataKind = 'quote' | 'history';
+
+export interface MarketDataRequest {
+  symbol: string;
+  dataType: 'quote' | 'historical';
+  startDate?: string;
+  endDate?: string;
+}
+
+/** The market data tool's execute, Alpaca with a Yahoo Finance fallback */
+export type MarketDataFetcher = (request: MarketDataRequest) => Promise<{ source: string; data: any }>;
+
+export interface SymbolMarketData {
+  symbol: string;
+  quote?: {
+    price: number;
+    change?: number;
+    changePercent?: number;
+    source: string;
+  };
+  /** Daily closes over the last `historyDays` */
+  history?: {
+    from: string;
+    to: string;
+    firstClose: number;
+    lastClose: number;
+    high: number;
+    low: number;
+    changePercent: number;
+    source: string;
+  };
+  /** Data that could not be fetched, with the reason */
+  errors: string[];
+}
+
+export interface MarketDataSnapshot {
+  fetchedAt: string;
+  symbols: SymbolMarketData[];
+  /** Symbols over maxSymbols, left to the agents' tools */
+  omitted: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const defaultFetcher: MarketDataFetcher = request =>
+  (marketDataTool.execute as unknown as (args: { context: MarketDataRequest }) => Promise<{ source: string; data: any }>)({
+    context: request,
+  });
+
+/**
+ * Quotes and price history for the symbols a workflow run is about, fetched
+ * once before its agents start so every agent works from the same numbers
+ * instead of each calling the market data tool.
+ */
+export class MarketDataService {
+  // Parallel steps of one run share a single fetch
+  private inflight = new Map<string, Promise<string | undefined>>();
+
+  constructor(private readonly fetcher: MarketDataFetcher = defaultFetcher) {}
+
+  /**
+   * Fetch the given kinds of data per symbol. Failures are recorded per
+   * symbol; this never throws.
+   */
+  async prefetch(symbols: string[], kinds: MarketDataKind[], now = new Date()): Promise<MarketDataSnapshot> {
+    const { maxSymbols } = workflowsConfig.marketData;
+    const unique = Array.from(new Set(symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+
+    return {
+      fetchedAt: now.toISOString(),
+      symbols: await Promise.all(unique.slice(0, maxSymbols).map(symbol => this.fetchSymbol(symbol, kinds, now))),
+      omitted: unique.slice(maxSymbols),
+    };
+  }
+
+  /**
+   * Markdown summary of a snapshot for agent prompts
+   */
+  format(snapshot: MarketDataSnapshot): string {
+    const lines = snapshot.symbols.map(({ symbol, quote, history, errors }) => {
+      const parts: string[] = [];
+      if (quote) {
+        const change = quote.changePercent !== undefined ? ` (${formatPercent(quote.changePercent)} today)` : '';
+        parts.push(`${formatPrice(quote.price)}${change}`);
+      }
+      if (history) {
+        parts.push(
+          `${history.from} to ${history.to}: ${formatPrice(history.firstClose)} to ${formatPrice(history.lastClose)} ` +
+          `(${formatPercent(history.changePercent)}), range ${formatPrice(history.low)}-${formatPrice(history.high)}`
+        );
+      }
+      if (errors.length > 0) parts.push(`unavailable: ${errors.join('; ')}`);
+      return `- ${symbol}: ${parts.join('; ')}`;
+    });
+    if (snapshot.omitted.length > 0) {
+      lines.push(`- Not prefetched: ${snapshot.omitted.join(', ')}`);
+    }
+    return [`Market data as of ${snapshot.fetchedAt}:`, ...lines].join('\n');
+  }
+
+  /**
+   * Formatted market data for a run, fetched on first use and kept in state
+   * with the run. Undefined when there is nothing to fetch or fetching failed.
+   */
+  async getForRun(
+    state: InternalStateManager,
+    workflowId: string,
+    symbols: string[] | undefined,
+    kinds: MarketDataKind[]
+  ): Promise<string | undefined> {
+    if (!symbols?.length || kinds.length === 0) return undefined;
+
+    let pending = this.inflight.get(workflowId);
+    if (!pending) {
+      pending = this.loadForRun(state, workflowId, symbols, kinds).finally(() => this.inflight.delete(workflowId));
+      this.inflight.set(workflowId, pending);
+    }
+    return pending;
+  }
+
+  private async loadForRun(
+    state: InternalStateManager,
+    workflowId: string,
+    symbols: string[],
+    kinds: MarketDataKind[]
+  ): Promise<string | undefined> {
+    try {
+      const key = `${workflowId}:market-data`;
+      let snapshot = await state.get<MarketDataSnapshot>('workflows', key);
+      if (!snapshot) {
+        snapshot = await this.prefetch(symbols, kinds);
+        await state.set('workflows', key, snapshot);
+      }
+      return this.format(snapshot);
+    } catch (error) {
+      console.error('Failed to prefetch market data:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  private async fetchSymbol(symbol: string, kinds: MarketDataKind[], now: Date): Promise<SymbolMarketData> {
+    const result: SymbolMarketData = { symbol, errors: [] };
+
+    await Promise.all(kinds.map(async kind => {
+      try {
+        if (kind === 'quote') {
+          const { source, data } = await this.fetch({ symbol, dataType: 'quote' });
+          if (typeof data?.price !== 'number') throw new Error('no price');
+          result.quote = { price: data.price, change: data.change, changePercent: data.changePercent, source };
+        } else {
+          const { historyDays } = workflowsConfig.marketData;
+          const { source, data } = await this.fetch({
+            symbol,
+            dataType: 'historical',
+            startDate: new Date(now.getTime() - historyDays * DAY_MS).toISOString().split('T')[0],
+            endDate: now.toISOString().split('T')[0],
+          });
+          result.history = summarizeHistory(Array.isArray(data) ? data : [], source);
+        }
+      } catch (error) {
+        result.errors.push(`${kind} (${error instanceof Error ? error.message : String(error)})`);
+      }
+    }));
+    return result;
+  }
+
+  private async fetch(request: MarketDataRequest): Promise<{ source: string; data: any }> {
+    const { timeoutMs } = workflowsConfig.marketData;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([this.fetcher(request), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function summarizeHistory(bars: Array<{ timestamp: string | Date; high: number; low: number; close: number }>, source: string) {
+  const valid = bars.filter(bar => typeof bar.close === 'number');
+  if (valid.length === 0) throw new Error('no bars');
+
+  const first = valid[0];
+  const last = valid[valid.length - 1];
+  return {
+    from: new Date(first.timestamp).toISOString().split('T')[0],
+    to: new Date(last.timestamp).toISOString().split('T')[0],
+    firstClose: first.close,
+    lastClose: last.close,
+    high: Math.max(...valid.map(bar => bar.high ?? bar.close)),
+    low: Math.min(...valid.map(bar => bar.low ?? bar.close)),
+    changePercent: ((last.close - first.close) / first.close) * 100,
+    source,
+  };
+}
+
+function formatPrice(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+// Singleton instance
+export const marketDataService = new MarketDataService();
@@ -0,0 +1,378 @@
+import { getSupabaseAdmin } from './supabase-admin';
+import { errorService, ErrorCode } from './error.service';
+import { embeddingService as defaultEmbeddingService, type EmbeddingService } from './embedding.service';
+import { piiRedactionService } from './pii-redaction.service';
+import { promptInjectionService } from './prompt-injection.service';
+import { promptRegistry } from './prompt-registry.service';
+import { structuredOutputService } from './structured-output.service';
+import { promptInjectionConfig } from '../config/prompt-injection.config';
+import { memoryConfig, type MemoryCategory } from '../config/memory.config';
+import { memoryExtractionSchema } from '../schemas/memory.schemas';
+
+/**
+ * A durable fact about a user, stored in agent_memory and recalled into
+ * agent prompts
+ */
+export interface Memory {
+  id: string;
+  userId: string;
+  category: MemoryCategory;
+  /** Unique per user and category, e.g. "AAPL" for a holding */
+  key: string;
+  text: string;
+  confidence: number;
+  source: 'conversation' | 'user';
+  sessionId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecalledMemory extends Memory {
+  /** Missing for pinned memories recalled regardless of the question */
+  similarity?: number;
+}
+
+export interface RememberInput {
+  category: MemoryCategory;
+  key: string;
+  text: string;
+  confidence?: number;
+  source: Memory['source'];
+  sessionId?: string;
+}
+
+export interface UpdateMemoryInput {
+  category?: MemoryCategory;
+  key?: string;
+  text?: string;
+}
+
+interface MemoryValue {
+  text: string;
+  confidence: number;
+  source: Memory['source'];
+  sessionId?: string;
+}
+
+interface MemoryRow {
+  id: string;
+  user_id: string;
+  category: MemoryCategory;
+  key: string;
+  value: MemoryValue;
+  embedding_model: string | null;
+  created_at: string;
+  updated_at: string;
+  similarity?: number;
+}
+
+const COLUMNS = 'id, user_id, category, key, value, embedding_model, created_at, updated_at';
+
+const CATEGORY_LABELS: Record<MemoryCategory, string> = {
+  goal: 'Goal',
+  risk_tolerance: 'Risk tolerance',
+  holding: 'Holding',
+  preference: 'Preference',
+};
+
+/**
+ * Long-term memory: extracts goals, risk tolerance, holdings and preferences
+ * from chat messages, stores them with embeddings in agent_memory and recalls
+ * the relevant ones for each new prompt.
+ */
+export class MemoryService {
+  constructor(private readonly embeddings: EmbeddingService = defaultEmbeddingService) {}
+
+  async list(userId: string, category?: MemoryCategory): Promise<Memory[]> {
+    const db = getSupabaseAdmin();
+    if (!db) return [];
+
+    let query = db.from('agent_memory').select(COLUMNS).eq('user_id', userId);
+    if (category) query = query.eq('category', category);
+
+    const { data, error } = await query.order('updated_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return ((data || []) as MemoryRow[]).map(row => this.fromRow(row));
+  }
+
+  async get(userId: string, memoryId: string): Promise<Memory> {
+    const db = this.requireDb();
+    const { data, error } = await db
+      .from('agent_memory')
+      .select(COLUMNS)
+      .eq('id', memoryId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Memory not found: ${memoryId}`);
+    }
+    return this.fromRow(data as MemoryRow);
+  }
+
+  /**
+   * Create or overwrite the memory with the same category and key
+   */
+  async remember(userId: string, input: RememberInput): Promise<Memory> {
+    const text = input.text.trim();
+    this.validateText(text);
+    const db = this.requireDb();
+    const key = normalizeKey(input.category, input.key);
+
+    const { data: existing, error: existingError } = await db
+      .from('agent_memory')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('category', input.category)
+      .eq('key', key)
+      .maybeSingle();
+    if (existingError) throw new Error(existingError.message);
+
+    if (!existing) {
+      const { count, error: countError } = await db
+        .from('agent_memory')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId);
+      if (countError) throw new Error(countError.message);
+      if ((count || 0) >= memoryConfig.maxMemoriesPerUser) {
+        throw errorService.createError(ErrorCode.CONFLICT, `Memory limit reached (${memoryConfig.maxMemoriesPerUser})`);
+      }
+    }
+
+    const embedding = await this.embeddings.embed(text, memoryConfig.embeddingDimensions);
+    const value: MemoryValue = {
+      text,
+      confidence: input.confidence ?? 1,
+      source: input.source,
+      ...(input.sessionId && { sessionId: input.sessionId }),
+    };
+
+    const { data, error } = await db
+      .from('agent_memory')
+      .upsert({
+        user_id: userId,
+        category: input.category,
+        key,
+        value,
+        embedding: JSON.stringify(embedding.vector),
+        embedding_model: embedding.model,
+      }, { onConflict: 'user_id,category,key' })
+      .select(COLUMNS)
+      .single();
+
+    if (error) throw new Error(error.message);
+    return this.fromRow(data as MemoryRow);
+  }
+
+  /**
+   * Edit a memory; the user's wording replaces whatever was extracted
+   */
+  async update(userId: string, memoryId: string, input: UpdateMemoryInput): Promise<Memory> {
+    const current = await this.get(userId, memoryId);
+    const text = input.text?.trim() ?? current.text;
+    this.validateText(text);
+    const db = this.requireDb();
+
+    const category = input.category ?? current.category;
+    const value: MemoryValue = { text, confidence: 1, source: 'user' };
+    const embedding = text !== current.text ? await this.embeddings.embed(text, memoryConfig.embeddingDimensions) : undefined;
+
+    const { data, error } = await db
+      .from('agent_memory')
+      .update({
+        category,
+        key: normalizeKey(category, input.key ?? current.key),
+        value,
+        ...(embedding && { embedding: JSON.stringify(embedding.vector), embedding_model: embedding.model }),
+      })
+      .eq('id', memoryId)
+      .eq('user_id', userId)
+      .select(COLUMNS)
+      .single();
+
+    if (error) {
+      throw error.code === '23505'
+        ? errorService.createError(ErrorCode.CONFLICT, `A ${category} memory with that key already exists`)
+        : new Error(error.message);
+    }
+    return this.fromRow(data as MemoryRow);
+  }
+
+  async forget(userId: string, memoryId: string): Promise<void> {
+    const db = this.requireDb();
+    const { data, error } = await db
+      .from('agent_memory')
+      .delete()
+      .eq('id', memoryId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw new Error(error.message);
+    if (!data?.length) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Memory not found: ${memoryId}`);
+    }
+  }
+
+  /**
+   * Forget everything (or one category); returns the number of memories removed
+   */
+  async forgetAll(userId: string, category?: MemoryCategory): Promise<number> {
+    const db = this.requireDb();
+    let query = db.from('agent_memory').delete().eq('user_id', userId);
+    if (category) query = query.eq('category', category);
+
+    const { data, error } = await query.select('id');
+    if (error) throw new Error(error.message);
+    return data?.length || 0;
+  }
+
+  /**
+   * Extract durable facts from a user's message and store them. Facts that
+   * contain PII or look like injected instructions are dropped.
+   */
+  async extract(userId: string, message: string, options: { sessionId?: string } = {}): Promise<Memory[]> {
+    if (!memoryConfig.enabled || !getSupabaseAdmin()) return [];
+    if (message.length < memoryConfig.extraction.minMessageLength || !memoryConfig.extraction.cuePattern.test(message)) {
+      return [];
+    }
+
+    const known = await this.list(userId);
+    const systemPrompt = await promptRegistry.render('memory.extract', {
+      knownMemories: known.map(memory => `- ${memory.category}/${memory.key}: ${memory.text}`).join('\n'),
+    });
+
+    const { data } = await structuredOutputService.generate(memoryExtractionSchema, {
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: message },
+      ],
+      temperature: 0,
+      maxTokens: memoryConfig.extraction.maxTokens,
+      metering: { userId, sessionId: options.sessionId, feature: 'memory' },
+      maxRepairAttempts: 1,
+    });
+
+    const stored: Memory[] = [];
+    for (const candidate of data.memories) {
+      if (candidate.confidence < memoryConfig.extraction.minConfidence || !this.isSafeToStore(candidate.text)) continue;
+      try {
+        stored.push(await this.remember(userId, { ...candidate, source: 'conversation', sessionId: options.sessionId }));
+      } catch (error) {
+        console.error('Failed to store memory:', error instanceof Error ? error.message : error);
+      }
+    }
+    return stored;
+  }
+
+  /**
+   * Memories relevant to `query`, plus the pinned categories (risk tolerance)
+   */
+  async recall(userId: string | undefined, query: string, limit = memoryConfig.recall.limit): Promise<RecalledMemory[]> {
+    const db = getSupabaseAdmin();
+    if (!memoryConfig.enabled || !db || !userId) return [];
+
+    try {
+      const embedding = await this.embeddings.embed(query, memoryConfig.embeddingDimensions);
+      const [matches, pinned] = await Promise.all([
+        db.rpc('match_agent_memory', {
+          p_user_id: userId,
+          p_embedding: JSON.stringify(embedding.vector),
+          p_embedding_model: embedding.model,
+          p_match_count: limit,
+          p_min_similarity: memoryConfig.recall.minSimilarity,
+        }),
+        db.from('agent_memory')
+          .select(COLUMNS)
+          .eq('user_id', userId)
+          .in('category', memoryConfig.recall.pinnedCategories),
+      ]);
+      if (matches.error) throw new Error(matches.error.message);
+      if (pinned.error) throw new Error(pinned.error.message);
+
+      const recalled = new Map<string, RecalledMemory>();
+      for (const row of [...(pinned.data || []), ...(matches.data || [])] as MemoryRow[]) {
+        recalled.set(row.id, { ...this.fromRow(row), similarity: row.similarity });
+      }
+      return Array.from(recalled.values());
+    } catch (error) {
+      // Answering without memories beats failing the request
+      console.error('Memory recall failed:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * Prompt block listing recalled memories; empty when there are none
+   */
+  async formatForPrompt(memories: Memory[]): Promise<string> {
+    if (memories.length === 0) return '';
+    return promptRegistry.render('memory.recall', {
+      memories: memories.map(memory => `- ${CATEGORY_LABELS[memory.category]}: ${memory.text}`).join('\n'),
+    });
+  }
+
+  /**
+   * System prompt with the user's relevant memories appended
+   */
+  async withMemories(systemPrompt: string, userId: string | undefined, query: string): Promise<string> {
+    const block = await this.formatForPrompt(await this.recall(userId, query));
+    return block ? `${systemPrompt}\n\n${block}` : systemPrompt;
+  }
+
+  private isSafeToStore(text: string): boolean {
+    return !piiRedactionService.containsPii(text) &&
+      promptInjectionService.scan(text).score < promptInjectionConfig.threshold;
+  }
+
+  private validateText(text: string): void {
+    if (!text || text.length > memoryConfig.maxTextLength) {
+      throw errorService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Memory text must be between 1 and ${memoryConfig.maxTextLength} characters`
+      );
+    }
+    if (!this.isSafeToStore(text)) {
+      throw errorService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        'Memory text must not contain account numbers, contact details or instructions for the assistant'
+      );
+    }
+  }
+
+  private requireDb() {
+    const db = getSupabaseAdmin();
+    if (!db) {
+      throw errorService.createError(ErrorCode.SERVICE_UNAVAILABLE, 'Memory storage requires Supabase');
+    }
+    return db;
+  }
+
+  private fromRow(row: MemoryRow): Memory {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      category: row.category,
+      key: row.key,
+      text: row.value.text,
+      confidence: row.value.confidence,
+      source: row.value.source,
+      sessionId: row.value.sessionId,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+/**
+ * Tickers are upper-case, other keys snake_case, so "House down payment" and
+ * "house_down_payment" land on the same row
+ */
+export function normalizeKey(category: MemoryCategory, key: string): string {
+  const trimmed = key.trim();
+  if (category === 'holding') return trimmed.toUpperCase().replace(/\s+/g, '_');
+  return trimmed.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'general';
+}
+
+// Singleton instance
+export const memoryService = new MemoryService();
@@ -0,0 +1,440 @@
+/**
+ * Minimal PDF writer for generated reports: wrapped text in the standard
+ * Helvetica fonts, tables and bar charts, laid out top to bottom across
+ * pages. The standard fonts are built into every PDF reader, so nothing is
+ * embedded or downloaded. Text is encoded as WinAnsi; characters outside it
+ * (emoji, most symbols) are dropped.
+ */
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export interface PdfWriterOptions {
+  title?: string;
+  /** Hex color of headings, table headers and chart bars */
+  accentColor?: string;
+  /** Text at the bottom of every page */
+  footer?: (page: number, pageCount: number) => string;
+  /** Points; US Letter by default */
+  pageWidth?: number;
+  pageHeight?: number;
+  margin?: number;
+}
+
+export interface ChartBar {
+  label: string;
+  value: number;
+}
+
+type FontKey = 'F1' | 'F2' | 'F3';
+type Color = [number, number, number];
+
+interface Segment {
+  text: string;
+  font: FontKey;
+}
+
+const FONTS = new Map<FontKey, string>([
+  ['F1', 'Helvetica'],
+  ['F2', 'Helvetica-Bold'],
+  ['F3', 'Helvetica-Oblique'],
+]);
+
+// Advance widths (1/1000 em) of characters 32-126, from the fonts' AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+// WinAnsi characters above 126 used in reports; the rest are measured as 556
+const EXTRA_WIDTHS = new Map<number, number>([
+  [0x85, 1000], [0x91, 222], [0x92, 222], [0x93, 333], [0x94, 333], [0x95, 350], [0x96, 556], [0x97, 1000],
+  [0xa0, 278], [0xb0, 400], [0xb7, 278],
+]);
+
+// Unicode characters WinAnsi encodes outside Latin-1
+const WIN_ANSI = new Map<string, number>([
+  ['€', 0x80], ['…', 0x85], ['‘', 0x91], ['’', 0x92], ['“', 0x93], ['”', 0x94],
+  ['•', 0x95], ['–', 0x96], ['—', 0x97], ['™', 0x99],
+]);
+const REPLACEMENTS = new Map<string, string>([
+  ['→', '->'], ['←', '<-'], ['≥', '>='], ['≤', '<='], ['≈', '~'], ['−', '-'],
+]);
+
+const TEXT_COLOR: Color = [0.13, 0.13, 0.15];
+const MUTED_COLOR: Color = [0.42, 0.44, 0.48];
+const BORDER_COLOR: Color = [0.85, 0.86, 0.88];
+const NEGATIVE_COLOR: Color = [0.86, 0.2, 0.2];
+
+/**
+ * Map text to WinAnsi bytes (as a latin1 string), dropping what it cannot encode
+ */
+export function toWinAnsi(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    if (WIN_ANSI.has(char)) encoded += String.fromCharCode(WIN_ANSI.get(char) as number);
+    else if (REPLACEMENTS.has(char)) encoded += REPLACEMENTS.get(char);
+    else if (code === 9) encoded += ' ';
+    else if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) encoded += char;
+  }
+  // Dropped emoji leave double spaces behind
+  return encoded.replace(/ {2,}/g, ' ');
+}
+
+export class PdfWriter {
+  private pages: string[][] = [];
+  private y = 0;
+  private readonly width: number;
+  private readonly height: number;
+  private readonly margin: number;
+  private readonly accent: Color;
+
+  constructor(private readonly options: PdfWriterOptions = {}) {
+    this.width = options.pageWidth ?? 612;
+    this.height = options.pageHeight ?? 792;
+    this.margin = options.margin ?? 54;
+    this.accent = parseColor(options.accentColor ?? '#2563eb');
+    this.addPage();
+  }
+
+  get contentWidth(): number {
+    return this.width - 2 * this.margin;
+  }
+
+  /**
+   * Full-width band in the accent color, for the report's title
+   */
+  banner(title: string, subtitle?: string): void {
+    const height = subtitle ? 64 : 48;
+    this.ensureSpace(height + 12);
+    const top = this.y;
+    this.draw(`${rgb(this.accent, 'rg')} ${num(this.margin)} ${num(top - height)} ${num(this.contentWidth)} ${num(height)} re f`);
+    this.drawText(toWinAnsi(title), 'F2', 18, this.margin + 14, top - 28, [1, 1, 1]);
+    if (subtitle) this.drawText(toWinAnsi(subtitle), 'F1', 10, this.margin + 14, top - 48, [1, 1, 1]);
+    this.y = top - height - 18;
+  }
+
+  heading(text: string, level: 1 | 2 | 3 = 2): void {
+    const size = level === 1 ? 16 : level === 2 ? 13 : 11;
+    this.ensureSpace(size * 3);
+    this.y -= level === 1 ? 10 : 6;
+    this.paragraph([{ text, bold: true }], { size, color: level === 3 ? TEXT_COLOR : this.accent, gapAfter: 4 });
+  }
+
+  paragraph(
+    content: TextRun[] | string,
+    options: { size?: number; color?: Color; indent?: number; bullet?: string; gapAfter?: number; muted?: boolean } = {}
+  ): void {
+    const size = options.size ?? 10;
+    const leading = size * 1.35;
+    const indent = options.indent ?? 0;
+    const bulletWidth = options.bullet ? 14 : 0;
+    const color = options.muted ? MUTED_COLOR : options.color ?? TEXT_COLOR;
+    const lines = this.wrap(typeof content === 'string' ? [{ text: content }] : content, size, this.contentWidth - indent - bulletWidth);
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(leading);
+      this.y -= size;
+      if (options.bullet && index === 0) {
+        this.drawText(toWinAnsi(options.bullet), 'F1', size, this.margin + indent, this.y, color);
+      }
+      this.drawLine(line, size, this.margin + indent + bulletWidth, this.y, color);
+      this.y -= leading - size;
+    });
+    this.y -= options.gapAfter ?? 6;
+  }
+
+  rule(): void {
+    this.ensureSpace(16);
+    this.y -= 6;
+    this.draw(`${rgb(BORDER_COLOR, 'RG')} 0.75 w ${num(this.margin)} ${num(this.y)} m ${num(this.width - this.margin)} ${num(this.y)} l S`);
+    this.y -= 10;
+  }
+
+  /**
+   * Table with a shaded header row, repeated on every page it spans. Cells
+   * wrap; columns get widths in proportion to their longest cell.
+   */
+  table(columns: string[], rows: Array<Array<TextRun[] | string>>): void {
+    const size = 9;
+    const padding = 4;
+    const leading = size * 1.3;
+    const toRuns = (cell: TextRun[] | string) => (typeof cell === 'string' ? [{ text: cell }] : cell);
+    const widths = this.columnWidths(columns, rows.map(row => row.map(cell => toRuns(cell).map(run => run.text).join(''))));
+
+    const layoutRow = (cells: TextRun[][]) => {
+      const lines = cells.map((cell, index) => this.wrap(cell, size, widths[index] - 2 * padding));
+      return { lines, height: Math.max(...lines.map(cell => cell.length), 1) * leading + 2 * padding };
+    };
+    const header = layoutRow(columns.map(column => [{ text: column, bold: true }]));
+
+    const drawRow = (row: ReturnType<typeof layoutRow>, shaded: boolean) => {
+      const top = this.y;
+      if (shaded) {
+        this.draw(`${rgb(tint(this.accent, 0.88), 'rg')} ${num(this.margin)} ${num(top - row.height)} ${num(this.contentWidth)} ${num(row.height)} re f`);
+      }
+      let x = this.margin;
+      row.lines.forEach((cell, index) => {
+        cell.forEach((line, lineIndex) => this.drawLine(line, size, x + padding, top - padding - size - lineIndex * leading, TEXT_COLOR));
+        x += widths[index];
+      });
+      this.draw(`${rgb(BORDER_COLOR, 'RG')} 0.5 w ${num(this.margin)} ${num(top - row.height)} m ${num(this.width - this.margin)} ${num(top - row.height)} l S`);
+      this.y = top - row.height;
+    };
+
+    this.ensureSpace(header.height * 2);
+    drawRow(header, true);
+    for (const cells of rows) {
+      const row = layoutRow(cells.map(toRuns));
+      if (this.y - row.height < this.bottom) {
+        this.addPage();
+        drawRow(header, true);
+      }
+      drawRow(row, false);
+    }
+    this.y -= 12;
+  }
+
+  /**
+   * Horizontal bars with their values; negative values extend left of zero
+   */
+  barChart(title: string, bars: ChartBar[], options: { unit?: string } = {}): void {
+    if (bars.length === 0) return;
+    const size = 9;
+    const barHeight = 12;
+    const rowHeight = 18;
+    const labelWidth = this.contentWidth * 0.3;
+    const valueWidth = 56;
+    const area = this.contentWidth - labelWidth - valueWidth;
+    const min = Math.min(0, ...bars.map(bar => bar.value));
+    const max = Math.max(0, ...bars.map(bar => bar.value));
+    const span = max - min || 1;
+    const zero = this.margin + labelWidth + (-min / span) * area;
+
+    this.ensureSpace(24 + rowHeight * bars.length);
+    this.paragraph([{ text: title, bold: true }], { size: 10, gapAfter: 2 });
+
+    for (const bar of bars) {
+      this.ensureSpace(rowHeight);
+      const baseline = this.y - barHeight;
+      const label = this.truncate(toWinAnsi(bar.label), 'F1', size, labelWidth - 8);
+      this.drawText(label, 'F1', size, this.margin, baseline + 2, TEXT_COLOR);
+
+      const length = (Math.abs(bar.value) / span) * area;
+      const x = bar.value < 0 ? zero - length : zero;
+      this.draw(`${rgb(bar.value < 0 ? NEGATIVE_COLOR : this.accent, 'rg')} ${num(x)} ${num(baseline)} ${num(Math.max(length, 0.5))} ${num(barHeight)} re f`);
+      this.drawText(toWinAnsi(formatValue(bar.value, options.unit)), 'F1', size, this.margin + labelWidth + area + 6, baseline + 2, MUTED_COLOR);
+      // Zero axis, drawn per bar as long charts may continue on the next page
+      this.draw(`${rgb(BORDER_COLOR, 'RG')} 0.5 w ${num(zero)} ${num(baseline - 3)} m ${num(zero)} ${num(baseline + barHeight + 3)} l S`);
+      this.y -= rowHeight;
+    }
+    this.y -= 10;
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    // Object numbers start at 1
+    const add = (body: string) => objects.push(body);
+
+    const catalogId = add('');
+    const pagesId = add('');
+    const fontIds = new Map(Array.from(FONTS, ([key, name]) =>
+      [key, add(`<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`)] as const
+    ));
+    const fontResources = Array.from(fontIds, ([key, id]) => `/${key} ${id} 0 R`).join(' ');
+
+    const pageIds = this.pages.map((operations, index) => {
+      const footer = this.options.footer?.(index + 1, this.pages.length);
+      const content = [...operations];
+      if (footer) {
+        content.push(textOperation(toWinAnsi(footer), 'F1', 8, this.margin, this.margin / 2, MUTED_COLOR));
+      }
+      const stream = content.join('\n');
+      const contentId = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+      return add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    const infoId = add(`<< /Producer (Report export) ${this.options.title ? `/Title (${escapeText(toWinAnsi(this.options.title))}) ` : ''}>>`);
+
+    // latin1 keeps one byte per character, so string lengths are byte offsets
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xref = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return Buffer.from(output, 'latin1');
+  }
+
+  private get bottom(): number {
+    return this.margin;
+  }
+
+  private addPage(): void {
+    this.pages.push([]);
+    this.y = this.height - this.margin;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < this.bottom) this.addPage();
+  }
+
+  private draw(operation: string): void {
+    this.pages[this.pages.length - 1].push(operation);
+  }
+
+  private drawText(text: string, font: FontKey, size: number, x: number, y: number, color: Color): void {
+    if (text) this.draw(textOperation(text, font, size, x, y, color));
+  }
+
+  private drawLine(line: Segment[], size: number, x: number, y: number, color: Color): void {
+    let offset = x;
+    for (const segment of line) {
+      this.drawText(segment.text, segment.font, size, offset, y, color);
+      offset += measure(segment.text, segment.font, size);
+    }
+  }
+
+  /**
+   * Break runs into lines no wider than `maxWidth`; words longer than a line
+   * are split
+   */
+  private wrap(runs: TextRun[], size: number, maxWidth: number): Segment[][] {
+    const words: Segment[] = [];
+    for (const run of runs) {
+      const font: FontKey = run.bold ? 'F2' : run.italic ? 'F3' : 'F1';
+      const text = toWinAnsi(run.text);
+      const parts = text.split(/(\s+)/).filter(Boolean);
+      parts.forEach(part => words.push({ text: /^\s+$/.test(part) ? ' ' : part, font }));
+    }
+
+    const lines: Segment[][] = [];
+    let line: Segment[] = [];
+    let width = 0;
+    const push = () => {
+      while (line.length > 0 && line[line.length - 1].text === ' ') line.pop();
+      if (line.length > 0) lines.push(mergeSegments(line));
+      line = [];
+      width = 0;
+    };
+
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i];
+      if (word.text === ' ') {
+        if (line.length > 0) {
+          line.push(word);
+          width += measure(' ', word.font, size);
+        }
+        continue;
+      }
+      let wordWidth = measure(word.text, word.font, size);
+      if (width + wordWidth > maxWidth && line.length > 0) push();
+      let text = word.text;
+      while (wordWidth > maxWidth && text.length > 1) {
+        const fit = this.fitCharacters(text, word.font, size, maxWidth);
+        lines.push([{ text: text.slice(0, fit), font: word.font }]);
+        text = text.slice(fit);
+        wordWidth = measure(text, word.font, size);
+      }
+      line.push({ text, font: word.font });
+      width += wordWidth;
+    }
+    push();
+    return lines.length > 0 ? lines : [[]];
+  }
+
+  private fitCharacters(text: string, font: FontKey, size: number, maxWidth: number): number {
+    let fit = 1;
+    while (fit < text.length && measure(text.slice(0, fit + 1), font, size) <= maxWidth) fit++;
+    return fit;
+  }
+
+  private truncate(text: string, font: FontKey, size: number, maxWidth: number): string {
+    if (measure(text, font, size) <= maxWidth) return text;
+    return `${text.slice(0, this.fitCharacters(text, font, size, maxWidth - measure('\x85', font, size)))}\x85`;
+  }
+
+  private columnWidths(columns: string[], rows: string[][]): number[] {
+    // Longest cell per column, capped so one long text column cannot squeeze the rest
+    const weights = columns.map((column, index) =>
+      Math.min(60, Math.max(column.length, 6, ...rows.map(row => (row[index] || '').length)))
+    );
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    return weights.map(weight => (weight / total) * this.contentWidth);
+  }
+}
+
+function mergeSegments(line: Segment[]): Segment[] {
+  const merged: Segment[] = [];
+  for (const segment of line) {
+    const last = merged[merged.length - 1];
+    if (last && last.font === segment.font) last.text += segment.text;
+    else merged.push({ ...segment });
+  }
+  return merged;
+}
+
+function measure(text: string, font: FontKey, size: number): number {
+  const widths = font === 'F2' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : EXTRA_WIDTHS.get(code) ?? 556;
+  }
+  return (total * size) / 1000;
+}
+
+function textOperation(text: string, font: FontKey, size: number, x: number, y: number, color: Color): string {
+  return `BT ${rgb(color, 'rg')} /${font} ${size} Tf 1 0 0 1 ${num(x)} ${num(y)} Tm (${escapeText(text)}) Tj ET`;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function rgb(color: Color, operator: 'rg' | 'RG'): string {
+  return `${color.map(num).join(' ')} ${operator}`;
+}
+
+function tint(color: Color, amount: number): Color {
+  return color.map(channel => channel + (1 - channel) * amount) as Color;
+}
+
+function parseColor(hex: string): Color {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+  if (!match) return [0.15, 0.39, 0.92];
+  return [1, 2, 3].map(index => parseInt(match[index], 16) / 255) as Color;
+}
+
+function formatValue(value: number, unit?: string): string {
+  const rounded = Math.round(value * 100) / 100;
+  return unit === '%' ? `${rounded}%` : unit ? `${rounded} ${unit}` : String(rounded);
+}
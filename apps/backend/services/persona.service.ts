@@ -0,0 +1,248 @@
+import { getSupabaseAdmin } from './supabase-admin';
+import { errorService, ErrorCode } from './error.service';
+import { getTemplateVariables, promptRegistry, renderPromptTemplate, type PromptVariables } from './prompt-registry.service';
+import { agents } from '../src/mastra/agents';
+import {
+  ASSISTANT_TYPES,
+  promptRegistryConfig,
+  type AssistantType,
+} from '../config/prompt-templates.config';
+
+/**
+ * A user-defined assistant. It borrows the tools of a built-in assistant type
+ * and replaces that agent's instructions with its own template.
+ */
+export interface Persona {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  baseAssistantType: AssistantType;
+  /** Prompt template; may use the same variables as the agent templates */
+  instructions: string;
+  /** Defaults for template variables, e.g. { riskTolerance: 'conservative' } */
+  variables: PromptVariables;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BuiltInPersona {
+  id: AssistantType;
+  name: string;
+  description: string;
+  builtIn: true;
+}
+
+export interface SavePersonaInput {
+  id?: string;
+  name: string;
+  description?: string;
+  /** Defaults to 'general' */
+  baseAssistantType?: AssistantType;
+  instructions: string;
+  variables?: PromptVariables;
+}
+
+export interface ResolvedAssistant {
+  /** Agent whose tools are used */
+  agentId: AssistantType;
+  systemPrompt: string;
+  persona?: Persona;
+}
+
+interface PersonaRow {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  base_assistant_type: AssistantType;
+  instructions: string;
+  variables: PromptVariables | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const PERSONA_VARIABLES = ['riskTolerance', 'timeframe', 'symbols'];
+
+export class PersonaService {
+  /**
+   * The six built-in assistant types, listed alongside custom personas
+   */
+  getBuiltInPersonas(): BuiltInPersona[] {
+    return ASSISTANT_TYPES.map(type => ({
+      id: type,
+      name: agents[type].name,
+      description: agents[type].getDescription(),
+      builtIn: true,
+    }));
+  }
+
+  async list(userId: string): Promise<Persona[]> {
+    const db = getSupabaseAdmin();
+    if (!db) return [];
+
+    const { data, error } = await db
+      .from('user_personas')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return ((data || []) as PersonaRow[]).map(row => this.fromRow(row));
+  }
+
+  async get(userId: string, personaId: string): Promise<Persona> {
+    const db = this.requireDb();
+    const { data, error } = await db
+      .from('user_personas')
+      .select('*')
+      .eq('id', personaId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Persona not found: ${personaId}`);
+    }
+    return this.fromRow(data as PersonaRow);
+  }
+
+  /**
+   * Create a persona, or update it when `id` is given
+   */
+  async save(userId: string, input: SavePersonaInput): Promise<Persona> {
+    this.validateInstructions(input.instructions);
+    const db = this.requireDb();
+
+    const row = {
+      user_id: userId,
+      name: input.name,
+      description: input.description,
+      base_assistant_type: input.baseAssistantType || 'general',
+      instructions: input.instructions,
+      variables: input.variables || {},
+    };
+
+    if (input.id) {
+      const { data, error } = await db
+        .from('user_personas')
+        .update(row)
+        .eq('id', input.id)
+        .eq('user_id', userId)
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      if (!data) {
+        throw errorService.createError(ErrorCode.NOT_FOUND, `Persona not found: ${input.id}`);
+      }
+      return this.fromRow(data as PersonaRow);
+    }
+
+    const { count, error: countError } = await db
+      .from('user_personas')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+    if (countError) throw new Error(countError.message);
+    if ((count || 0) >= promptRegistryConfig.maxPersonasPerUser) {
+      throw errorService.createError(
+        ErrorCode.CONFLICT,
+        `Persona limit reached (${promptRegistryConfig.maxPersonasPerUser})`
+      );
+    }
+
+    const { data, error } = await db.from('user_personas').insert(row).select('*').single();
+    if (error) throw new Error(error.message);
+    return this.fromRow(data as PersonaRow);
+  }
+
+  async delete(userId: string, personaId: string): Promise<void> {
+    const db = this.requireDb();
+    const { data, error } = await db
+      .from('user_personas')
+      .delete()
+      .eq('id', personaId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw new Error(error.message);
+    if (!data?.length) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Persona not found: ${personaId}`);
+    }
+  }
+
+  /**
+   * System prompt for a persona; request variables override its defaults
+   */
+  renderSystemPrompt(persona: Persona, variables: PromptVariables = {}): string {
+    const defined = Object.fromEntries(Object.entries(variables).filter(([, value]) => value !== undefined));
+    return renderPromptTemplate(persona.instructions, { ...persona.variables, ...defined });
+  }
+
+  /**
+   * Agent and system prompt for a chat request: the persona's when one is
+   * selected, otherwise the live registry template of the assistant type
+   */
+  async resolveAssistant(options: {
+    userId: string;
+    assistantType: AssistantType;
+    personaId?: string;
+    variables?: PromptVariables;
+  }): Promise<ResolvedAssistant> {
+    if (options.personaId) {
+      const persona = await this.get(options.userId, options.personaId);
+      return {
+        agentId: persona.baseAssistantType,
+        systemPrompt: this.renderSystemPrompt(persona, options.variables),
+        persona,
+      };
+    }
+
+    return {
+      agentId: options.assistantType,
+      systemPrompt: await promptRegistry.renderAgentPrompt(options.assistantType, options.variables),
+    };
+  }
+
+  private validateInstructions(instructions: string): void {
+    if (!instructions.trim() || instructions.length > promptRegistryConfig.maxTemplateLength) {
+      throw errorService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Instructions must be between 1 and ${promptRegistryConfig.maxTemplateLength} characters`
+      );
+    }
+
+    const unknown = getTemplateVariables(instructions).filter(name => !PERSONA_VARIABLES.includes(name));
+    if (unknown.length > 0) {
+      throw errorService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Unknown variables: ${unknown.join(', ')} (supported: ${PERSONA_VARIABLES.join(', ')})`
+      );
+    }
+  }
+
+  private requireDb() {
+    const db = getSupabaseAdmin();
+    if (!db) {
+      throw errorService.createError(ErrorCode.SERVICE_UNAVAILABLE, 'Persona storage requires Supabase');
+    }
+    return db;
+  }
+
+  private fromRow(row: PersonaRow): Persona {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      description: row.description || undefined,
+      baseAssistantType: row.base_assistant_type,
+      instructions: row.instructions,
+      variables: row.variables || {},
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+// Singleton instance
+export const personaService = new PersonaService();
@@ -0,0 +1,239 @@
+import { recordSecurityEvent } from './security-events';
+import { piiRedactionConfig, type PiiType } from '../config/pii-redaction.config';
+import type { LLMMetering, LLMRequest, LLMResponse, LLMStreamCallback } from './llm-providers';
+
+interface PiiDetector {
+  pattern: RegExp;
+  /** When set, only this named group is replaced (the rest is context like "routing number:") */
+  group?: string;
+  validate?: (value: string) => boolean;
+}
+
+const STREET_SUFFIX = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Ter|Parkway|Pkwy|Circle|Cir|Highway|Hwy';
+
+const detectors: Record<PiiType, PiiDetector> = {
+  email: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  ssn: {
+    pattern: /\b(?:(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}|(?:ssn|social security(?: number)?)\s*(?:#|no\.?|number)?\s*(?:is|:)?\s*(?<value>\d{9}))\b/gi,
+    group: 'value',
+  },
+  card: {
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    validate: value => {
+      const digits = value.replace(/\D/g, '');
+      return digits.length >= 13 && digits.length <= 19 && isLuhnValid(digits);
+    },
+  },
+  routing: {
+    pattern: /\b(?:routing|aba|rtn)(?:\s+(?:number|no\.?|#))?\s*(?:is|:|#)?\s*(?<value>\d{9})\b/gi,
+    group: 'value',
+    validate: isRoutingNumberValid,
+  },
+  account: {
+    pattern: /\b(?:account|acct|a\/c)(?:\s+(?:number|no\.?|#))?\s*(?:is|:|#)?\s*(?<value>\d[\d -]{4,18}\d)\b/gi,
+    group: 'value',
+    validate: value => {
+      const digits = value.replace(/\D/g, '');
+      return digits.length >= 6 && digits.length <= 17;
+    },
+  },
+  phone: {
+    pattern: /(?<![\d-])(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}(?![\d-])/g,
+  },
+  address: {
+    pattern: new RegExp(
+      `\\b\\d{1,6}\\s+(?:[A-Z][A-Za-z0-9.'-]*\\s+){1,4}(?:${STREET_SUFFIX})\\b\\.?(?:,?\\s*(?:Apt|Apartment|Suite|Ste|Unit|#)\\.?\\s*[A-Za-z0-9-]+)?`,
+      'g'
+    ),
+  },
+};
+
+const PLACEHOLDER_PATTERN = /\[([A-Z_]+_\d+)\]/g;
+// Longest possible placeholder, e.g. [ACCOUNT_NUMBER_123]; bounds stream buffering
+const MAX_PLACEHOLDER_LENGTH = 24;
+
+/**
+ * Placeholder <-> original value mapping for one LLM request. The same value
+ * always gets the same placeholder, so the model can still refer to it.
+ */
+export class RedactionSession {
+  private readonly placeholders = new Map<string, string>();
+  private readonly originals = new Map<string, string>();
+  readonly counts: Partial<Record<PiiType, number>> = {};
+
+  get size(): number {
+    return this.originals.size;
+  }
+
+  placeholderFor(type: PiiType, value: string): string {
+    const key = `${type}:${value}`;
+    const existing = this.placeholders.get(key);
+    if (existing) return existing;
+
+    this.counts[type] = (this.counts[type] || 0) + 1;
+    const placeholder = `[${piiRedactionConfig.placeholderLabels[type]}_${this.counts[type]}]`;
+    this.placeholders.set(key, placeholder);
+    this.originals.set(placeholder, value);
+    return placeholder;
+  }
+
+  originalFor(placeholder: string): string | undefined {
+    return this.originals.get(placeholder);
+  }
+}
+
+/**
+ * Replaces account and routing numbers, SSNs, card numbers, emails, phone
+ * numbers and street addresses with placeholders before a prompt leaves the
+ * backend, and puts the original values back into the model's answer.
+ */
+export class PiiRedactionService {
+  redact(text: string, session: RedactionSession): string {
+    let redacted = text;
+
+    for (const type of piiRedactionConfig.types) {
+      const { pattern, group, validate } = detectors[type];
+      redacted = redacted.replace(pattern, (...args) => {
+        const match: string = args[0];
+        const groups = args[args.length - 1] as Record<string, string | undefined> | undefined;
+        const value = group && groups?.[group] ? groups[group] as string : match;
+        if (validate && !validate(value)) return match;
+
+        const offset = match.lastIndexOf(value);
+        return match.slice(0, offset) + session.placeholderFor(type, value) + match.slice(offset + value.length);
+      });
+    }
+
+    return redacted;
+  }
+
+  containsPii(text: string): boolean {
+    return this.redact(text, new RedactionSession()) !== text;
+  }
+
+  restore(text: string, session: RedactionSession): string {
+    if (session.size === 0) return text;
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => session.originalFor(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Copy of the request with PII replaced in every message and tool call
+   */
+  redactRequest(request: LLMRequest): { request: LLMRequest; session: RedactionSession } {
+    const session = new RedactionSession();
+    if (!piiRedactionConfig.enabled) return { request, session };
+
+    const messages = request.messages.map(message => ({
+      ...message,
+      content: this.redact(message.content, session),
+      ...(message.toolCalls && {
+        toolCalls: message.toolCalls.map(call => ({ ...call, arguments: this.redact(call.arguments, session) })),
+      }),
+    }));
+
+    if (session.size > 0) {
+      void this.recordEvent(session, request.metering);
+    }
+    return { request: { ...request, messages }, session };
+  }
+
+  /**
+   * Put original values back into the answer and any requested tool arguments
+   */
+  restoreResponse(response: LLMResponse, session: RedactionSession): LLMResponse {
+    if (session.size === 0) return response;
+
+    return {
+      ...response,
+      content: this.restore(response.content, session),
+      ...(response.toolCalls && {
+        toolCalls: response.toolCalls.map(call => ({ ...call, arguments: this.restore(call.arguments, session) })),
+      }),
+    };
+  }
+
+  /**
+   * Wrap a stream callback so placeholders split across tokens are restored
+   * before they reach the client. Call `flush` once the stream has ended.
+   */
+  createStreamRestorer(session: RedactionSession, onToken: LLMStreamCallback) {
+    let pending = '';
+    let lastMetadata: Parameters<LLMStreamCallback>[1] | undefined;
+
+    return {
+      onToken: async (token: string, metadata: Parameters<LLMStreamCallback>[1]) => {
+        if (session.size === 0) {
+          await onToken(token, metadata);
+          return;
+        }
+
+        lastMetadata = metadata;
+        pending += token;
+        // Hold back a trailing "[ACCOUNT_NU" until the placeholder is complete
+        const open = pending.lastIndexOf('[');
+        const partial = open >= 0 && !pending.includes(']', open) && pending.length - open < MAX_PLACEHOLDER_LENGTH &&
+          /^\[[A-Z_\d]*$/.test(pending.slice(open));
+        const ready = partial ? pending.slice(0, open) : pending;
+        pending = partial ? pending.slice(open) : '';
+
+        if (ready) await onToken(this.restore(ready, session), metadata);
+      },
+      flush: async () => {
+        if (pending && lastMetadata) await onToken(this.restore(pending, session), lastMetadata);
+        pending = '';
+      },
+    };
+  }
+
+  private async recordEvent(session: RedactionSession, metering?: LLMMetering): Promise<void> {
+    if (!piiRedactionConfig.logEvents) return;
+
+    const types = Object.keys(session.counts) as PiiType[];
+    const severityRank = { low: 0, medium: 1, high: 2 };
+    const severity = types
+      .map(type => piiRedactionConfig.severity[type])
+      .reduce((highest, current) => (severityRank[current] > severityRank[highest] ? current : highest), 'low');
+
+    await recordSecurityEvent({
+      eventType: 'pii_redacted',
+      severity,
+      userId: metering?.userId,
+      // Counts only; the values themselves are never stored
+      details: {
+        counts: session.counts,
+        feature: metering?.feature,
+        sessionId: metering?.sessionId,
+      },
+    });
+  }
+}
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+export function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ABA routing number checksum (weights 3, 7, 1)
+ */
+export function isRoutingNumberValid(digits: string): boolean {
+  if (!/^\d{9}$/.test(digits)) return false;
+  const d = digits.split('').map(Number);
+  return (3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8])) % 10 === 0;
+}
+
+// Singleton instance
+export const piiRedactionService = new PiiRedactionService();
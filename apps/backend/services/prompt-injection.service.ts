@@ -0,0 +1,167 @@
+import { errorService, ErrorCode } from './error.service';
+import { recordSecurityEvent } from './security-events';
+import {
+  promptInjectionConfig,
+  type InjectionAction,
+  type InjectionCategory,
+  type InjectionSource,
+} from '../config/prompt-injection.config';
+
+export interface InjectionFinding {
+  rule: string;
+  category: InjectionCategory;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface InjectionScan {
+  /** 0 (clean) to 1 */
+  score: number;
+  findings: InjectionFinding[];
+}
+
+export interface InjectionScreening extends InjectionScan {
+  /** Text to put in the prompt: unchanged, neutralized or a quarantine note */
+  text: string;
+  action: 'allowed' | 'warned' | 'neutralized' | 'blocked';
+}
+
+export interface ScreenOptions {
+  source: InjectionSource;
+  /** Policy key, e.g. 'chat' or the metering feature of an agent run */
+  route?: string;
+  userId?: string;
+  traceId?: string;
+  /** Tool that produced the text (tool outputs only) */
+  tool?: string;
+}
+
+/**
+ * Scores user messages and tool outputs for prompt-injection patterns
+ * (instruction overrides, system-prompt requests, exfiltration URLs) and
+ * applies the route's block/neutralize/warn policy.
+ */
+export class PromptInjectionService {
+  scan(text: string): InjectionScan {
+    const findings: InjectionFinding[] = [];
+    const matchedRules = new Map<string, number>();
+
+    for (const rule of promptInjectionConfig.rules) {
+      for (const match of text.matchAll(rule.pattern)) {
+        const start = match.index ?? 0;
+        findings.push({ rule: rule.id, category: rule.category, start, end: start + match[0].length, text: match[0] });
+        matchedRules.set(rule.id, rule.weight);
+      }
+    }
+
+    const clean = Array.from(matchedRules.values()).reduce((product, weight) => product * (1 - weight), 1);
+    return {
+      score: Math.round((1 - clean) * 1000) / 1000,
+      findings: findings.sort((a, b) => a.start - b.start),
+    };
+  }
+
+  /**
+   * Replace the flagged spans; overlapping spans are merged
+   */
+  neutralize(text: string, findings: InjectionFinding[]): string {
+    let result = '';
+    let cursor = 0;
+    for (const finding of findings) {
+      if (finding.end <= cursor) continue;
+      if (finding.start >= cursor) {
+        result += text.slice(cursor, finding.start) + promptInjectionConfig.replacement;
+      }
+      cursor = finding.end;
+    }
+    return result + text.slice(cursor);
+  }
+
+  getAction(source: InjectionSource, route = 'default'): InjectionAction {
+    const policy = promptInjectionConfig.routes[route] || promptInjectionConfig.routes.default;
+    return policy[source];
+  }
+
+  /**
+   * Scan `text` and apply the route policy. Blocked user messages throw a
+   * FORBIDDEN error; blocked tool outputs are replaced by a quarantine note.
+   */
+  async screen(text: string, options: ScreenOptions): Promise<InjectionScreening> {
+    if (!promptInjectionConfig.enabled || !text) {
+      return { text, score: 0, findings: [], action: 'allowed' };
+    }
+
+    const scan = this.scan(text);
+    if (scan.score < promptInjectionConfig.threshold) {
+      return { ...scan, text, action: 'allowed' };
+    }
+
+    const policy = this.getAction(options.source, options.route);
+    const action = policy === 'block' ? 'blocked' : policy === 'neutralize' ? 'neutralized' : 'warned';
+    await this.recordIncident(scan, action, options);
+
+    if (policy === 'block' && options.source === 'user') {
+      throw errorService.createError(
+        ErrorCode.FORBIDDEN,
+        'Message blocked: it looks like an attempt to override the assistant\'s instructions',
+        { score: scan.score, categories: this.getCategories(scan) }
+      );
+    }
+
+    if (policy === 'block') {
+      return {
+        ...scan,
+        text: JSON.stringify({
+          error: `Output of ${options.tool || 'this tool'} was withheld because it contained instructions aimed at the assistant`,
+        }),
+        action,
+      };
+    }
+
+    return {
+      ...scan,
+      text: policy === 'neutralize' ? this.neutralize(text, scan.findings) : text,
+      action,
+    };
+  }
+
+  private getCategories(scan: InjectionScan): InjectionCategory[] {
+    return Array.from(new Set(scan.findings.map(finding => finding.category)));
+  }
+
+  private async recordIncident(
+    scan: InjectionScan,
+    action: InjectionScreening['action'],
+    options: ScreenOptions
+  ): Promise<void> {
+    const details = {
+      source: options.source,
+      route: options.route || 'default',
+      tool: options.tool,
+      traceId: options.traceId,
+      score: scan.score,
+      action,
+      categories: this.getCategories(scan),
+      matches: scan.findings.map(finding => ({
+        rule: finding.rule,
+        excerpt: finding.text.slice(0, promptInjectionConfig.maxExcerptChars),
+      })),
+    };
+
+    errorService.logError(
+      errorService.createError(ErrorCode.FORBIDDEN, `Prompt injection ${action} (${options.source}, score ${scan.score})`, details),
+      { userId: options.userId, path: options.route }
+    );
+
+    await recordSecurityEvent({
+      eventType: 'prompt_injection',
+      severity: action === 'blocked' || scan.score >= 0.8 ? 'high' : 'medium',
+      userId: options.userId,
+      details,
+    });
+  }
+}
+
+// Singleton instance
+export const promptInjectionService = new PromptInjectionService();
@@ -0,0 +1,335 @@
+import { getSupabaseAdmin } from './supabase-admin';
+import { errorService, ErrorCode } from './error.service';
+import {
+  builtInPromptTemplates,
+  promptRegistryConfig,
+  type PromptTemplateDefinition,
+} from '../config/prompt-templates.config';
+
+export type PromptVariables = Record<string, string | number | boolean | string[] | null | undefined>;
+
+export interface PromptTemplateVersion {
+  name: string;
+  version: number;
+  template: string;
+  description?: string;
+  /** Version 1, shipped in config/prompt-templates.config.ts */
+  builtIn: boolean;
+  createdBy?: string | null;
+  createdAt?: string;
+}
+
+export interface PromptTemplateSummary {
+  name: string;
+  description: string;
+  variables: string[];
+  activeVersion: number;
+  latestVersion: number;
+}
+
+export interface PromptPreview {
+  name: string;
+  version: number;
+  prompt: string;
+  /** Variables the template uses that were not supplied */
+  missingVariables: string[];
+}
+
+interface PromptTemplateRow {
+  name: string;
+  version: number;
+  template: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const BUILT_IN_VERSION = 1;
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Render `{{name}}` variables and `{{#name}}...{{/name}}` optional blocks.
+ * Arrays are joined with commas; unset variables render as empty strings.
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables = {}): string {
+  const format = (value: PromptVariables[string]) =>
+    Array.isArray(value) ? value.join(', ') : value === null || value === undefined ? '' : String(value);
+  const isSet = (value: PromptVariables[string]) =>
+    Array.isArray(value) ? value.length > 0 : value !== null && value !== undefined && value !== '' && value !== false;
+
+  return template
+    .replace(SECTION_PATTERN, (_, name: string, body: string) => (isSet(variables[name]) ? body : ''))
+    .replace(VARIABLE_PATTERN, (_, name: string) => format(variables[name]))
+    .trim();
+}
+
+/**
+ * Variables referenced by a template, in order of first use
+ */
+export function getTemplateVariables(template: string): string[] {
+  const names = [...template.matchAll(/\{\{[#/]?(\w+)\}\}/g)].map(match => match[1]);
+  return [...new Set(names)];
+}
+
+/**
+ * Named, versioned prompt templates. Version 1 of each template is built in;
+ * later versions are stored in `prompt_templates`, and `prompt_template_active`
+ * records which version is live so a rollback is a pointer change.
+ */
+export class PromptRegistryService {
+  private activeCache = new Map<string, { version: PromptTemplateVersion; fetchedAt: number }>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  getBuiltIn(name: string): PromptTemplateDefinition {
+    const definition = builtInPromptTemplates.find(template => template.name === name);
+    if (!definition) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Prompt template not found: ${name}`);
+    }
+    return definition;
+  }
+
+  /**
+   * Live version of a template. Falls back to the built-in version when the
+   * database is unavailable so prompts never fail to render.
+   */
+  async getActive(name: string): Promise<PromptTemplateVersion> {
+    const builtIn = this.toVersion(this.getBuiltIn(name));
+    const cached = this.activeCache.get(name);
+    if (cached && this.now() - cached.fetchedAt < promptRegistryConfig.cacheTtlMs) {
+      return cached.version;
+    }
+
+    const db = getSupabaseAdmin();
+    if (!db) return builtIn;
+
+    const { data: pointer, error } = await db
+      .from('prompt_template_active')
+      .select('version')
+      .eq('name', name)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to load active version of ${name}:`, error.message);
+      return builtIn;
+    }
+
+    let version = builtIn;
+    if (pointer && pointer.version !== BUILT_IN_VERSION) {
+      version = (await this.getVersion(name, pointer.version).catch(() => undefined)) || builtIn;
+    }
+
+    this.activeCache.set(name, { version, fetchedAt: this.now() });
+    return version;
+  }
+
+  async getVersion(name: string, version: number): Promise<PromptTemplateVersion> {
+    const builtIn = this.getBuiltIn(name);
+    if (version === BUILT_IN_VERSION) {
+      return this.toVersion(builtIn);
+    }
+
+    const db = this.requireDb();
+    const { data, error } = await db
+      .from('prompt_templates')
+      .select('name, version, template, description, created_by, created_at')
+      .eq('name', name)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Version ${version} of ${name} not found`);
+    }
+    return this.fromRow(data as PromptTemplateRow);
+  }
+
+  /**
+   * All versions of a template, newest first
+   */
+  async listVersions(name: string): Promise<PromptTemplateVersion[]> {
+    const builtIn = this.toVersion(this.getBuiltIn(name));
+    const db = getSupabaseAdmin();
+    if (!db) return [builtIn];
+
+    const { data, error } = await db
+      .from('prompt_templates')
+      .select('name, version, template, description, created_by, created_at')
+      .eq('name', name)
+      .order('version', { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return [...((data || []) as PromptTemplateRow[]).map(row => this.fromRow(row)), builtIn];
+  }
+
+  async listTemplates(): Promise<PromptTemplateSummary[]> {
+    const latest = new Map<string, number>();
+    const active = new Map<string, number>();
+    const db = getSupabaseAdmin();
+
+    if (db) {
+      const [versions, pointers] = await Promise.all([
+        db.from('prompt_templates').select('name, version'),
+        db.from('prompt_template_active').select('name, version'),
+      ]);
+      if (versions.error) throw new Error(versions.error.message);
+      if (pointers.error) throw new Error(pointers.error.message);
+
+      for (const row of versions.data || []) {
+        latest.set(row.name, Math.max(latest.get(row.name) || BUILT_IN_VERSION, row.version));
+      }
+      for (const row of pointers.data || []) {
+        active.set(row.name, row.version);
+      }
+    }
+
+    return builtInPromptTemplates.map(template => ({
+      name: template.name,
+      description: template.description,
+      variables: template.variables,
+      activeVersion: active.get(template.name) || BUILT_IN_VERSION,
+      latestVersion: latest.get(template.name) || BUILT_IN_VERSION,
+    }));
+  }
+
+  /**
+   * Store a new version of a template and make it live
+   */
+  async publish(
+    name: string,
+    input: { template: string; description?: string; userId?: string }
+  ): Promise<PromptTemplateVersion> {
+    const builtIn = this.getBuiltIn(name);
+    this.validateTemplate(input.template, builtIn);
+    const db = this.requireDb();
+
+    const { data: latest, error: latestError } = await db
+      .from('prompt_templates')
+      .select('version')
+      .eq('name', name)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (latestError) throw new Error(latestError.message);
+
+    const { data, error } = await db
+      .from('prompt_templates')
+      .insert({
+        name,
+        version: (latest?.version || BUILT_IN_VERSION) + 1,
+        template: input.template,
+        description: input.description,
+        created_by: input.userId,
+      })
+      .select('name, version, template, description, created_by, created_at')
+      .single();
+    if (error) throw new Error(error.message);
+
+    const published = this.fromRow(data as PromptTemplateRow);
+    await this.activate(name, published.version, input.userId);
+    return published;
+  }
+
+  /**
+   * Make an earlier (or later) version live again
+   */
+  async rollback(name: string, version: number, userId?: string): Promise<PromptTemplateVersion> {
+    const target = await this.getVersion(name, version);
+    await this.activate(name, version, userId);
+    return target;
+  }
+
+  async preview(name: string, variables: PromptVariables = {}, version?: number): Promise<PromptPreview> {
+    const target = version ? await this.getVersion(name, version) : await this.getActive(name);
+    const missingVariables = getTemplateVariables(target.template).filter(key => variables[key] === undefined);
+
+    return {
+      name,
+      version: target.version,
+      prompt: renderPromptTemplate(target.template, variables),
+      missingVariables,
+    };
+  }
+
+  async render(name: string, variables: PromptVariables = {}): Promise<string> {
+    const active = await this.getActive(name);
+    return renderPromptTemplate(active.template, variables);
+  }
+
+  /**
+   * System prompt for one of the built-in assistant types
+   */
+  async renderAgentPrompt(assistantType: string, variables: PromptVariables = {}): Promise<string> {
+    const name = builtInPromptTemplates.some(template => template.name === `agent.${assistantType}`)
+      ? `agent.${assistantType}`
+      : 'agent.general';
+    return this.render(name, variables);
+  }
+
+  private async activate(name: string, version: number, userId?: string): Promise<void> {
+    const db = this.requireDb();
+    const { error } = await db
+      .from('prompt_template_active')
+      .upsert({ name, version, updated_by: userId }, { onConflict: 'name' });
+    if (error) throw new Error(error.message);
+
+    this.activeCache.delete(name);
+  }
+
+  private validateTemplate(template: string, builtIn: PromptTemplateDefinition): void {
+    if (!template.trim() || template.length > promptRegistryConfig.maxTemplateLength) {
+      throw errorService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Template must be between 1 and ${promptRegistryConfig.maxTemplateLength} characters`
+      );
+    }
+
+    const opened = [...template.matchAll(/\{\{#(\w+)\}\}/g)].map(match => match[1]);
+    const closed = [...template.matchAll(/\{\{\/(\w+)\}\}/g)].map(match => match[1]);
+    if (opened.sort().join() !== closed.sort().join()) {
+      throw errorService.createError(ErrorCode.VALIDATION_ERROR, 'Template has unbalanced {{#section}} blocks');
+    }
+
+    const unknown = getTemplateVariables(template).filter(name => !builtIn.variables.includes(name));
+    if (unknown.length > 0) {
+      throw errorService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Unknown variables: ${unknown.join(', ')} (supported: ${builtIn.variables.join(', ') || 'none'})`
+      );
+    }
+  }
+
+  private requireDb() {
+    const db = getSupabaseAdmin();
+    if (!db) {
+      throw errorService.createError(ErrorCode.SERVICE_UNAVAILABLE, 'Prompt storage requires Supabase');
+    }
+    return db;
+  }
+
+  private toVersion(definition: PromptTemplateDefinition): PromptTemplateVersion {
+    return {
+      name: definition.name,
+      version: BUILT_IN_VERSION,
+      template: definition.template,
+      description: definition.description,
+      builtIn: true,
+    };
+  }
+
+  private fromRow(row: PromptTemplateRow): PromptTemplateVersion {
+    return {
+      name: row.name,
+      version: row.version,
+      template: row.template,
+      description: row.description || undefined,
+      builtIn: false,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+// Singleton instance
+export const promptRegistry = new PromptRegistryService();
@@ -1,3 +1,5 @@
+import type { AgentOutput, Metric, Recommendation, Risk } from '../schemas/agent-output.schemas';
+
 export interface ReportSection {
   title: string;
   content: string | string[];
@@ -12,499 +14,278 @@ export interface FormattedReport {
   summary?: string;
   sections: ReportSection[];
   recommendations?: string[];
+  /** Structured agent output the report was rendered from */
+  output?: AgentOutput;
   timestamp: string;
 }
 
+export interface AgentReportInput {
+  agent: string;
+  /** Structured output; absent when the agent only produced free text */
+  output?: AgentOutput;
+  result: string;
+}
+
+const SEVERITY_ICONS: Record<Risk['severity'], string> = {
+  high: '🔴',
+  medium: '🟡',
+  low: '🟢',
+};
+
 export class ReportFormatterService {
-  private static formatters: Record<string, (response: string) => FormattedReport> = {
+  private static formatters: Record<string, (output: AgentOutput, agent: string) => FormattedReport> = {
     analyst: ReportFormatterService.formatAnalystReport,
     trader: ReportFormatterService.formatTraderReport,
     advisor: ReportFormatterService.formatAdvisorReport,
     riskManager: ReportFormatterService.formatRiskManagerReport,
     economist: ReportFormatterService.formatEconomistReport,
+    debate: ReportFormatterService.formatDebateReport,
   };
 
-  static formatAgentResponse(agent: string, response: string): FormattedReport {
+  /**
+   * Build a report from an agent's structured output. Free text (agents whose
+   * output could not be validated) is shown as-is.
+   */
+  static formatAgentResponse(agent: string, response: AgentOutput | string): FormattedReport {
+    if (typeof response === 'string') {
+      return this.formatTextReport(response, agent);
+    }
+
     const formatter = this.formatters[agent] || this.formatGenericReport;
-    return formatter.call(this, response, agent);
+    return { ...formatter.call(this, response, agent), output: response };
   }
 
-  private static formatAnalystReport(response: string, agent = 'analyst'): FormattedReport {
-    return {
-      agent,
-      title: '📊 Financial Analysis Report',
-      summary: 'Comprehensive fundamental and technical analysis of your portfolio',
-      sections: [
-        {
-          title: '🎯 Executive Summary',
-          content: this.extractSection(response, 'summary', 'Key findings and actionable insights'),
-          type: 'text',
-          emphasis: 'high',
-        },
-        {
-          title: '📈 Portfolio Overview',
-          type: 'metrics',
-          subsections: [
-            {
-              title: 'Asset Allocation',
-              content: [
-                '• Stocks: 40% - S&P 500 Index exposure',
-                '• Bonds: 30% - Aggregate Bond Index',
-                '• Alternatives: 15% - Diversified hedge funds',
-                '• Cash: 15% - Treasury bills & money market',
-              ],
-              type: 'list',
-            },
-            {
-              title: 'Performance Metrics',
-              content: this.extractMetrics(response),
-              type: 'metrics',
-            },
-          ],
-        },
-        {
-          title: '📊 Risk Metrics',
-          type: 'metrics',
-          subsections: [
-            {
-              title: 'Volatility Analysis',
-              content: [
-                '• **Standard Deviation**: Stocks 15.3% | Bonds 4.5% | Alts 8.2%',
-                '• **Beta**: Portfolio beta of 0.72 vs market',
-                '• **Correlation**: Low cross-asset correlation (0.3-0.5)',
-              ],
-              type: 'list',
-            },
-            {
-              title: 'Value at Risk (95% confidence)',
-              content: [
-                '• **Daily VaR**: -2.4% potential loss',
-                '• **Monthly VaR**: -7.8% potential loss',
-                '• **Annual VaR**: -12.1% potential loss',
-              ],
-              type: 'list',
-              emphasis: 'medium',
-            },
-            {
-              title: 'Risk-Adjusted Returns',
-              content: [
-                '• **Sharpe Ratio**: 0.73 (above average)',
-                '• **Sortino Ratio**: 1.12 (good downside protection)',
-                '• **Calmar Ratio**: 0.85 (acceptable drawdown risk)',
-              ],
-              type: 'list',
-            },
-          ],
-        },
-        {
-          title: '🔬 Fundamental Analysis',
-          content: this.extractSection(response, 'fundamental', 'Detailed valuation and growth metrics'),
-          type: 'text',
-        },
-        {
-          title: '💡 Recommendations',
-          content: this.extractRecommendations(response),
-          type: 'list',
-          emphasis: 'high',
-        },
-      ],
-      recommendations: this.extractRecommendations(response),
-      timestamp: new Date().toISOString(),
-    };
+  private static formatAnalystReport(output: AgentOutput, agent = 'analyst'): FormattedReport {
+    return this.buildReport(agent, '📊 Financial Analysis Report', output, [
+      this.summarySection('🎯 Executive Summary', output),
+      this.metricsSection('📈 Key Metrics', output.metrics),
+      output.valuation ? {
+        title: '🔬 Fundamental Analysis',
+        content: output.valuation,
+        type: 'text',
+      } : undefined,
+      this.risksSection('⚠️ Risks', output.risks),
+      this.recommendationsSection('💡 Recommendations', output.recommendations),
+    ]);
   }
 
-  private static formatTraderReport(response: string, agent = 'trader'): FormattedReport {
-    return {
-      agent,
-      title: '📈 Trading Analysis Report',
-      summary: 'Technical analysis and short-term trading opportunities',
-      sections: [
-        {
-          title: '🎯 Trading Summary',
-          content: this.extractSection(response, 'summary', 'Key trading opportunities and setups'),
-          type: 'text',
-          emphasis: 'high',
-        },
-        {
-          title: '📊 Market Analysis',
-          subsections: [
-            {
-              title: 'Technical Indicators',
-              content: [
-                '• **RSI**: Neutral zone (45-55)',
-                '• **MACD**: Bullish crossover pending',
-                '• **Bollinger Bands**: Trading near middle band',
-                '• **Volume**: Above 20-day average',
-              ],
-              type: 'list',
-            },
-            {
-              title: 'Support & Resistance',
-              content: [
-                '• **Key Support**: $4,200 (strong)',
-                '• **Key Resistance**: $4,500 (tested 3x)',
-                '• **Pivot Points**: R1 $4,450, S1 $4,180',
-              ],
-              type: 'list',
-            },
-          ],
-        },
-        {
-          title: '⚡ Trading Signals',
-          content: [
-            '• **Entry Point**: $4,250-4,280 range',
-            '• **Stop Loss**: $4,180 (-1.6%)',
-            '• **Target 1**: $4,380 (+2.8%)',
-            '• **Target 2**: $4,450 (+4.5%)',
-            '• **Risk/Reward**: 1:2.8 favorable',
-          ],
-          type: 'list',
-          emphasis: 'high',
-        },
-        {
-          title: '⚠️ Risk Management',
-          content: [
-            '• **Position Size**: Max 2% of portfolio',
-            '• **Daily Loss Limit**: -0.5% of capital',
-            '• **Trailing Stop**: Activate at +2% profit',
-          ],
-          type: 'list',
-          emphasis: 'medium',
-        },
-      ],
-      timestamp: new Date().toISOString(),
-    };
+  private static formatTraderReport(output: AgentOutput, agent = 'trader'): FormattedReport {
+    return this.buildReport(agent, '📈 Trading Analysis Report', output, [
+      this.summarySection('🎯 Trading Summary', output),
+      output.signals?.length ? {
+        title: '⚡ Trading Signals',
+        content: output.signals.map(signal => {
+          const levels = [
+            signal.entry !== undefined && `entry ${formatPrice(signal.entry)}`,
+            signal.stopLoss !== undefined && `stop ${formatPrice(signal.stopLoss)}`,
+            signal.target !== undefined && `target ${formatPrice(signal.target)}`,
+          ].filter(Boolean);
+          return `• **${signal.symbol}**: ${signal.direction.toUpperCase()}${levels.length ? ` (${levels.join(', ')})` : ''}`;
+        }),
+        type: 'list',
+        emphasis: 'high',
+      } : undefined,
+      this.metricsSection('📊 Market Metrics', output.metrics),
+      this.risksSection('⚠️ Risk Management', output.risks),
+      this.recommendationsSection('💡 Recommendations', output.recommendations),
+    ]);
+  }
+
+  private static formatAdvisorReport(output: AgentOutput, agent = 'advisor'): FormattedReport {
+    return this.buildReport(agent, '🎓 Investment Advisory Report', output, [
+      this.summarySection('🎯 Strategic Overview', output),
+      output.allocation?.length ? {
+        title: '📊 Recommended Allocation',
+        content: output.allocation.map(row =>
+          row.currentPct !== undefined
+            ? `• ${row.assetClass}: ${row.currentPct}% → Recommend: ${row.targetPct}%`
+            : `• ${row.assetClass}: ${row.targetPct}%`
+        ),
+        type: 'list',
+      } : undefined,
+      this.metricsSection('📈 Portfolio Metrics', output.metrics),
+      this.risksSection('⚠️ Considerations', output.risks),
+      this.recommendationsSection('💡 Action Items', output.recommendations),
+    ]);
+  }
+
+  private static formatRiskManagerReport(output: AgentOutput, agent = 'riskManager'): FormattedReport {
+    return this.buildReport(agent, '⚠️ Risk Assessment Report', output, [
+      { ...this.summarySection('🔴 Risk Summary', output), type: 'warning' },
+      this.metricsSection('📊 Risk Metrics Dashboard', output.metrics),
+      output.stressTests?.length ? {
+        title: 'Stress Test Results',
+        content: output.stressTests.map(test =>
+          `${stressIcon(test.impactPct)} **${test.scenario}**: ${formatSigned(test.impactPct)}% portfolio impact`
+        ),
+        type: 'list',
+        emphasis: 'medium',
+      } : undefined,
+      this.risksSection('⚡ Risk Alerts', output.risks),
+      this.recommendationsSection('🛡️ Risk Mitigation Strategies', output.recommendations),
+    ]);
+  }
+
+  private static formatEconomistReport(output: AgentOutput, agent = 'economist'): FormattedReport {
+    return this.buildReport(agent, '🌍 Macroeconomic Analysis Report', output, [
+      this.summarySection('🎯 Economic Overview', output),
+      this.metricsSection('📊 Key Economic Indicators', output.metrics),
+      output.scenarios?.length ? {
+        title: '🔮 Economic Outlook',
+        content: output.scenarios.map(scenario =>
+          `• **${scenario.name} (${Math.round(scenario.probability * 100)}%)**: ${scenario.description}`
+        ),
+        type: 'list',
+        emphasis: 'medium',
+      } : undefined,
+      this.risksSection('⚠️ Macro Risks', output.risks),
+      this.recommendationsSection('💼 Portfolio Implications', output.recommendations),
+    ]);
+  }
+
+  private static formatDebateReport(output: AgentOutput, agent = 'debate'): FormattedReport {
+    return this.buildReport(agent, '⚖️ Debate Verdict', output, [
+      this.summarySection('🎯 Verdict', output),
+      output.verdict ? {
+        title: '🧭 Market Call',
+        content: `**${capitalize(output.verdict)}** _(confidence ${Math.round((output.confidence ?? 0) * 100)}%)_`,
+        type: 'text',
+        emphasis: 'high',
+      } : undefined,
+      output.scores?.length ? {
+        title: '🏅 Participant Scores',
+        content: [...output.scores]
+          .sort((a, b) => b.score - a.score)
+          .map(score =>
+            `• **${score.participant}**: ${score.score}/10, ${score.strongestPoint}` +
+            (score.weakestPoint ? ` _Weakest: ${score.weakestPoint}_` : '')
+          ),
+        type: 'list',
+      } : undefined,
+      this.metricsSection('📊 Key Metrics', output.metrics),
+      this.risksSection('⚠️ Risks', output.risks),
+      this.recommendationsSection('💡 Recommendations', output.recommendations),
+    ]);
+  }
+
+  private static formatGenericReport(output: AgentOutput, agent: string): FormattedReport {
+    return this.buildReport(agent, `📋 ${capitalize(agent)} Analysis`, output, [
+      this.summarySection('Summary', output),
+      this.metricsSection('Metrics', output.metrics),
+      this.risksSection('Risks', output.risks),
+      this.recommendationsSection('Recommendations', output.recommendations),
+    ]);
   }
 
-  private static formatAdvisorReport(response: string, agent = 'advisor'): FormattedReport {
+  private static formatTextReport(response: string, agent: string): FormattedReport {
     return {
       agent,
-      title: '🎓 Investment Advisory Report',
-      summary: 'Long-term investment strategy and portfolio optimization recommendations',
+      title: `📋 ${capitalize(agent)} Analysis`,
       sections: [
         {
-          title: '🎯 Strategic Overview',
-          content: this.extractSection(response, 'overview', 'Your personalized investment strategy'),
+          title: 'Analysis',
+          content: response,
           type: 'text',
-          emphasis: 'high',
-        },
-        {
-          title: '📊 Portfolio Optimization',
-          subsections: [
-            {
-              title: 'Current vs Recommended Allocation',
-              content: [
-                '**Current Portfolio:**',
-                '• Stocks: 40% → Recommend: 35%',
-                '• Bonds: 30% → Recommend: 30%',
-                '• Alternatives: 15% → Recommend: 20%',
-                '• Cash: 15% → Recommend: 15%',
-              ],
-              type: 'list',
-            },
-            {
-              title: 'Rebalancing Actions',
-              content: [
-                '1. Reduce equity exposure by 5%',
-                '2. Increase alternative investments',
-                '3. Maintain bond allocation',
-                '4. Keep cash buffer for opportunities',
-              ],
-              type: 'list',
-            },
-          ],
-        },
-        {
-          title: '🎯 Long-term Strategy',
-          content: [
-            '• **Goal-Based Planning**: Align with retirement timeline',
-            '• **Tax Optimization**: Utilize tax-advantaged accounts',
-            '• **Dollar-Cost Averaging**: Systematic investment plan',
-            '• **Diversification**: Expand into international markets',
-          ],
-          type: 'list',
-        },
-        {
-          title: '💡 Action Items',
-          content: this.extractRecommendations(response),
-          type: 'list',
-          emphasis: 'high',
         },
       ],
       timestamp: new Date().toISOString(),
     };
   }
 
-  private static formatRiskManagerReport(response: string, agent = 'riskManager'): FormattedReport {
+  private static buildReport(
+    agent: string,
+    title: string,
+    output: AgentOutput,
+    sections: Array<ReportSection | undefined>
+  ): FormattedReport {
     return {
       agent,
-      title: '⚠️ Risk Assessment Report',
-      summary: 'Comprehensive risk analysis and mitigation strategies',
-      sections: [
-        {
-          title: '🔴 Risk Summary',
-          content: this.extractSection(response, 'summary', 'Critical risk factors identified'),
-          type: 'warning',
-          emphasis: 'high',
-        },
-        {
-          title: '📊 Risk Metrics Dashboard',
-          subsections: [
-            {
-              title: 'Portfolio Risk Indicators',
-              content: [
-                '**Standard Deviation**: 11.2% (moderate)',
-                '**Value at Risk (95%)**: -12.1%',
-                '**Maximum Drawdown**: -18.5%',
-                '**Beta**: 0.72 vs S&P 500',
-                '**Correlation Matrix**: Well-diversified',
-              ],
-              type: 'metrics',
-            },
-            {
-              title: 'Stress Test Results',
-              content: [
-                '🔴 **Global Crisis (-30% equity)**: -14.1% portfolio loss',
-                '🟡 **Rate Shock (+2% rates)**: -4.2% portfolio loss',
-                '🟡 **Inflation Surge (+3%)**: -3.5% portfolio loss',
-                '🟢 **Mild Recession**: -2.8% portfolio loss',
-              ],
-              type: 'list',
-              emphasis: 'medium',
-            },
-          ],
-        },
-        {
-          title: '🛡️ Risk Mitigation Strategies',
-          subsections: [
-            {
-              title: 'Immediate Actions',
-              content: [
-                '1. **Reduce Concentration**: Limit single stock to <5%',
-                '2. **Add Hedges**: Consider put options on SPY',
-                '3. **Increase Cash**: Raise to 20% for flexibility',
-              ],
-              type: 'list',
-              emphasis: 'high',
-            },
-            {
-              title: 'Position Sizing',
-              content: [
-                '• **Core Holdings**: 60% in diversified ETFs',
-                '• **Satellite Positions**: 25% in individual stocks',
-                '• **Protective Assets**: 15% in bonds/gold',
-              ],
-              type: 'list',
-            },
-            {
-              title: 'Hedging Recommendations',
-              content: [
-                '• **Protective Puts**: 5% OTM SPY puts',
-                '• **VIX Calls**: Small position for tail risk',
-                '• **Gold Allocation**: 5-10% as portfolio insurance',
-              ],
-              type: 'list',
-            },
-          ],
-        },
-        {
-          title: '⚡ Risk Alerts',
-          content: [
-            '⚠️ **Concentration Risk**: Tech sector overweight',
-            '⚠️ **Duration Risk**: Bond sensitivity to rates',
-            '✓ **Liquidity Risk**: Adequate (85% liquid)',
-            '✓ **Currency Risk**: Minimal USD exposure',
-          ],
-          type: 'list',
-          emphasis: 'high',
-        },
-      ],
+      title,
+      summary: output.summary,
+      sections: sections.filter((section): section is ReportSection => !!section),
+      recommendations: output.recommendations.map(rec => rec.action),
       timestamp: new Date().toISOString(),
     };
   }
 
-  private static formatEconomistReport(response: string, agent = 'economist'): FormattedReport {
+  private static summarySection(title: string, output: AgentOutput): ReportSection {
+    return { title, content: output.summary, type: 'text', emphasis: 'high' };
+  }
+
+  private static metricsSection(title: string, metrics: Metric[]): ReportSection | undefined {
+    if (metrics.length === 0) return undefined;
+    return { title, content: metrics.map(formatMetric), type: 'metrics' };
+  }
+
+  private static risksSection(title: string, risks: Risk[]): ReportSection | undefined {
+    if (risks.length === 0) return undefined;
     return {
-      agent,
-      title: '🌍 Macroeconomic Analysis Report',
-      summary: 'Global economic trends and their impact on your portfolio',
-      sections: [
-        {
-          title: '🎯 Economic Overview',
-          content: this.extractSection(response, 'overview', 'Current economic environment analysis'),
-          type: 'text',
-          emphasis: 'high',
-        },
-        {
-          title: '📊 Key Economic Indicators',
-          subsections: [
-            {
-              title: 'Growth Metrics',
-              content: [
-                '• **GDP Growth**: 2.8% YoY (moderate expansion)',
-                '• **Unemployment**: 3.7% (near full employment)',
-                '• **Consumer Confidence**: 102.5 (optimistic)',
-                '• **PMI Manufacturing**: 52.1 (expansion)',
-              ],
-              type: 'list',
-            },
-            {
-              title: 'Inflation & Rates',
-              content: [
-                '• **CPI Inflation**: 3.2% YoY (moderating)',
-                '• **Core PCE**: 2.8% (above target)',
-                '• **Fed Funds Rate**: 5.25-5.50%',
-                '• **10Y Treasury**: 4.25%',
-              ],
-              type: 'list',
-            },
-          ],
-        },
-        {
-          title: '🔮 Economic Outlook',
-          content: [
-            '• **Base Case (60%)**: Soft landing, gradual rate cuts',
-            '• **Bear Case (25%)**: Mild recession, aggressive cuts',
-            '• **Bull Case (15%)**: Robust growth, higher for longer',
-          ],
-          type: 'list',
-          emphasis: 'medium',
-        },
-        {
-          title: '💼 Portfolio Implications',
-          content: [
-            '• **Equities**: Cautiously optimistic, focus on quality',
-            '• **Bonds**: Attractive yields, duration opportunity',
-            '• **Commodities**: Hedge against inflation tail risk',
-            '• **Cash**: Keep dry powder for volatility',
-          ],
-          type: 'list',
-          emphasis: 'high',
-        },
-        {
-          title: '🌐 Global Factors',
-          content: [
-            '• **China**: Recovery momentum building',
-            '• **Europe**: Stagnation risk remains',
-            '• **Emerging Markets**: Selective opportunities',
-            '• **Geopolitics**: Monitor escalation risks',
-          ],
-          type: 'list',
-        },
-      ],
-      timestamp: new Date().toISOString(),
+      title,
+      content: risks.map(risk =>
+        `${SEVERITY_ICONS[risk.severity]} **${risk.title}** (${risk.severity}): ${risk.description}` +
+        (risk.mitigation ? ` _Mitigation: ${risk.mitigation}_` : '')
+      ),
+      type: 'warning',
+      emphasis: risks.some(risk => risk.severity === 'high') ? 'high' : 'medium',
     };
   }
 
-  private static formatGenericReport(response: string, agent: string): FormattedReport {
+  private static recommendationsSection(title: string, recommendations: Recommendation[]): ReportSection | undefined {
+    if (recommendations.length === 0) return undefined;
     return {
-      agent,
-      title: `📋 ${agent.charAt(0).toUpperCase() + agent.slice(1)} Analysis`,
-      summary: 'Analysis and recommendations',
-      sections: [
-        {
-          title: 'Analysis',
-          content: response,
-          type: 'text',
-        },
-      ],
-      timestamp: new Date().toISOString(),
+      title,
+      content: [...recommendations]
+        .sort((a, b) => b.confidence - a.confidence)
+        .map((rec, index) =>
+          `${index + 1}. **${rec.action}**: ${rec.rationale} ` +
+          `_(confidence ${Math.round(rec.confidence * 100)}%${rec.timeframe ? `, ${rec.timeframe}` : ''})_`
+        ),
+      type: 'recommendation',
+      emphasis: 'high',
     };
   }
 
-  private static extractSection(response: string, keyword: string, fallback: string): string {
-    // Simple extraction logic - can be enhanced with better parsing
-    const lines = response.split('\n');
-    const relevantLines = lines.filter(line => 
-      line.toLowerCase().includes(keyword.toLowerCase())
-    );
-    return relevantLines.length > 0 ? relevantLines.join('\n') : fallback;
-  }
+  /**
+   * Render one report as markdown
+   */
+  static toMarkdown(report: FormattedReport): string {
+    let markdown = `## ${report.title}\n\n`;
 
-  private static extractMetrics(response: string): string[] {
-    // Extract numeric metrics from response
-    const metrics = [];
-    const patterns = [
-      /returns?:\s*([\d.]+%)/gi,
-      /performance:\s*([\d.]+%)/gi,
-      /growth:\s*([\d.]+%)/gi,
-    ];
-    
-    patterns.forEach(pattern => {
-      const matches = response.match(pattern);
-      if (matches) {
-        metrics.push(...matches);
-      }
-    });
+    if (report.summary) {
+      markdown += `> ${report.summary}\n\n`;
+    }
 
-    return metrics.length > 0 ? metrics : [
-      '• YTD Return: +8.5%',
-      '• 1Y Return: +12.3%',
-      '• 3Y Annualized: +9.7%',
-      '• 5Y Annualized: +11.2%',
-    ];
-  }
+    const renderContent = (content: string | string[]) =>
+      Array.isArray(content) ? content.map(item => `${item}\n`).join('') : `${content}\n`;
 
-  private static extractRecommendations(response: string): string[] {
-    const recommendations = [];
-    const lines = response.split('\n');
-    
-    lines.forEach(line => {
-      if (line.match(/recommend|suggest|consider|should/i)) {
-        recommendations.push(line.trim());
-      }
+    report.sections.forEach(section => {
+      // The summary is already quoted above the sections
+      if (section.content === report.summary && !section.subsections) return;
+
+      markdown += `### ${section.title}\n\n`;
+      markdown += renderContent(section.content);
+
+      section.subsections?.forEach(sub => {
+        markdown += `\n#### ${sub.title}\n\n`;
+        markdown += renderContent(sub.content);
+      });
+
+      markdown += '\n';
     });
 
-    return recommendations.length > 0 ? recommendations.slice(0, 5) : [
-      '1. Rebalance portfolio quarterly',
-      '2. Increase international exposure',
-      '3. Consider tax-loss harvesting',
-      '4. Review risk tolerance annually',
-      '5. Maintain emergency fund',
-    ];
+    return markdown;
   }
 
-  static formatWorkflowReport(results: any[]): string {
-    const formattedReports = results.map(r => this.formatAgentResponse(r.agent, r.result));
-    
+  static formatWorkflowReport(results: AgentReportInput[]): string {
+    const formattedReports = results.map(r => this.formatAgentResponse(r.agent, r.output || r.result));
+
     let markdown = '# 📊 Multi-Agent Portfolio Analysis Report\n\n';
     markdown += `*Generated: ${new Date().toLocaleString()}*\n\n`;
     markdown += '---\n\n';
 
     formattedReports.forEach((report, index) => {
-      markdown += `## ${report.title}\n\n`;
-      
-      if (report.summary) {
-        markdown += `> ${report.summary}\n\n`;
-      }
+      markdown += this.toMarkdown(report);
 
-      report.sections.forEach(section => {
-        markdown += `### ${section.title}\n\n`;
-        
-        if (Array.isArray(section.content)) {
-          section.content.forEach(item => {
-            markdown += `${item}\n`;
-          });
-        } else {
-          markdown += `${section.content}\n`;
-        }
-        
-        if (section.subsections) {
-          section.subsections.forEach(sub => {
-            markdown += `\n#### ${sub.title}\n\n`;
-            if (Array.isArray(sub.content)) {
-              sub.content.forEach(item => {
-                markdown += `${item}\n`;
-              });
-            } else {
-              markdown += `${sub.content}\n`;
-            }
-          });
-        }
-        
-        markdown += '\n';
-      });
-      
       if (index < formattedReports.length - 1) {
         markdown += '---\n\n';
       }
@@ -514,4 +295,44 @@ export class ReportFormatterService {
   }
 }
 
-export const reportFormatter = new ReportFormatterService();
\ No newline at end of file
+/**
+ * A metric's value with its unit, e.g. "12.5%" or "$1,250"
+ */
+export function formatMetricValue(metric: Pick<Metric, 'value' | 'unit'>): string {
+  switch (metric.unit) {
+    case '%': return `${metric.value}%`;
+    case 'USD': return formatPrice(metric.value);
+    case 'x': return `${metric.value}x`;
+    case 'bps': return `${metric.value} bps`;
+    case 'count': return metric.value.toLocaleString('en-US');
+    default: return String(metric.value);
+  }
+}
+
+function formatMetric(metric: Metric): string {
+  const value = formatMetricValue(metric);
+
+  return `• **${metric.label}**: ${value}` +
+    (metric.period ? ` (${metric.period})` : '') +
+    (metric.context ? ` – ${metric.context}` : '');
+}
+
+export function formatPrice(value: number): string {
+  return `$${value.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
+
+function formatSigned(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function stressIcon(impactPct: number): string {
+  if (impactPct <= -10) return '🔴';
+  if (impactPct <= -3) return '🟡';
+  return '🟢';
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export const reportFormatter = new ReportFormatterService();
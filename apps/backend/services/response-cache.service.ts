@@ -0,0 +1,185 @@
+import { createHash } from 'crypto';
+import { cacheService as defaultCacheService, type CacheService } from './cache.service';
+import { piiRedactionService } from './pii-redaction.service';
+import { cosineSimilarity, embeddingService, type EmbeddingService } from './embedding.service';
+import { responseCacheConfig, type CacheIntent } from '../config/response-cache.config';
+import type { LLMMessage, LLMResponse } from './llm-service';
+
+export interface CachedResponse {
+  content: string;
+  provider: string;
+  model: string;
+  intent: CacheIntent;
+  cachedAt: string;
+}
+
+export interface CacheHit extends CachedResponse {
+  /** 1 for an exact (normalized) match */
+  similarity: number;
+}
+
+export interface CacheScope {
+  agentId: string;
+  model: string;
+  messages: LLMMessage[];
+}
+
+interface IndexEntry {
+  key: string;
+  vector: number[];
+  embeddingModel: string;
+  expiresAt: number;
+}
+
+/**
+ * Serves repeated general questions ("What is a Roth IRA?") without a model
+ * call. Entries are scoped by assistant type, model and system prompt, so a
+ * new prompt version or persona never sees answers written for another one.
+ */
+export class ResponseCacheService {
+  constructor(
+    private readonly cache: CacheService = defaultCacheService,
+    private readonly embeddings: EmbeddingService = embeddingService
+  ) {}
+
+  normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^\w\s%$'-]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  classifyIntent(question: string): CacheIntent {
+    const normalized = this.normalize(question);
+    const intents = Object.entries(responseCacheConfig.intentPatterns) as Array<[CacheIntent, RegExp[]]>;
+    const match = intents.find(([, patterns]) => patterns.some(pattern => pattern.test(normalized)));
+    return match ? match[0] : 'general';
+  }
+
+  /**
+   * True for user-specific or time-sensitive questions, which always go to the model
+   */
+  shouldBypass(question: string): boolean {
+    return responseCacheConfig.bypassPatterns.some(pattern => pattern.test(question));
+  }
+
+  async lookup(scope: CacheScope): Promise<CacheHit | null> {
+    const question = this.getCacheableQuestion(scope.messages);
+    if (!question) return null;
+
+    try {
+      const exact = await this.cache.get<CachedResponse>(this.entryKey(scope, question));
+      if (exact) return { ...exact, similarity: 1 };
+
+      if (!responseCacheConfig.semantic.enabled) return null;
+
+      const { vector, model: embeddingModel } = await this.embeddings.embed(this.normalize(question));
+      const now = Date.now();
+      let best: { key: string; similarity: number } | null = null;
+      for (const entry of await this.getIndex(scope)) {
+        if (entry.expiresAt <= now || entry.embeddingModel !== embeddingModel) continue;
+        const similarity = cosineSimilarity(vector, entry.vector);
+        if (similarity >= responseCacheConfig.semantic.similarityThreshold && (!best || similarity > best.similarity)) {
+          best = { key: entry.key, similarity };
+        }
+      }
+      if (!best) return null;
+
+      const cached = await this.cache.get<CachedResponse>(best.key);
+      return cached ? { ...cached, similarity: Math.round(best.similarity * 1000) / 1000 } : null;
+    } catch (error) {
+      console.error('Response cache lookup failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a final answer; answers that used tools, came from the mock provider
+   * or a budget downgrade are not reused
+   */
+  async store(scope: CacheScope, response: LLMResponse, options: { usedTools?: boolean } = {}): Promise<boolean> {
+    const question = this.getCacheableQuestion(scope.messages);
+    if (
+      !question ||
+      options.usedTools ||
+      response.toolCalls?.length ||
+      response.provider === 'mock' ||
+      response.downgraded ||
+      !response.content.trim() ||
+      response.content.length > responseCacheConfig.maxResponseChars
+    ) {
+      return false;
+    }
+
+    const intent = this.classifyIntent(question);
+    const ttl = responseCacheConfig.intentTtls[intent];
+    const key = this.entryKey(scope, question);
+    const entry: CachedResponse = {
+      content: response.content,
+      provider: response.provider,
+      model: response.model,
+      intent,
+      cachedAt: new Date().toISOString(),
+    };
+
+    try {
+      await this.cache.set(key, entry, ttl);
+
+      if (responseCacheConfig.semantic.enabled) {
+        const { vector, model: embeddingModel } = await this.embeddings.embed(this.normalize(question));
+        const now = Date.now();
+        const index = (await this.getIndex(scope))
+          .filter(existing => existing.key !== key && existing.expiresAt > now);
+        index.push({ key, vector, embeddingModel, expiresAt: now + ttl * 1000 });
+
+        await this.cache.set(
+          this.indexKey(scope),
+          index.slice(-responseCacheConfig.semantic.maxCandidates),
+          Math.max(...Object.values(responseCacheConfig.intentTtls))
+        );
+      }
+      return true;
+    } catch (error) {
+      console.error('Response cache store failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * The question, when the prompt is a single system + user turn that is
+   * neither personal nor time-sensitive and contains no PII
+   */
+  private getCacheableQuestion(messages: LLMMessage[]): string | null {
+    if (!responseCacheConfig.enabled) return null;
+    if (messages.length !== 2 || messages[0].role !== 'system' || messages[1].role !== 'user') return null;
+
+    const question = messages[1].content;
+    if (!this.normalize(question) || this.shouldBypass(question) || piiRedactionService.containsPii(question)) return null;
+    return question;
+  }
+
+  private scopeKey(scope: CacheScope): string {
+    const promptFingerprint = sha256(scope.messages[0].content).slice(0, 12);
+    return `${scope.agentId}:${scope.model}:${promptFingerprint}`;
+  }
+
+  private entryKey(scope: CacheScope, question: string): string {
+    return `${responseCacheConfig.keyPrefix}:${this.scopeKey(scope)}:${sha256(this.normalize(question))}`;
+  }
+
+  private indexKey(scope: CacheScope): string {
+    return `${responseCacheConfig.keyPrefix}:index:${this.scopeKey(scope)}`;
+  }
+
+  private async getIndex(scope: CacheScope): Promise<IndexEntry[]> {
+    return (await this.cache.get<IndexEntry[]>(this.indexKey(scope))) || [];
+  }
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Singleton instance
+export const responseCache = new ResponseCacheService();
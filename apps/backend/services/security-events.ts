@@ -0,0 +1,31 @@
+import { getSupabaseAdmin } from './supabase-admin';
+
+export type SecurityEventSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface SecurityEvent {
+  eventType: string;
+  severity: SecurityEventSeverity;
+  userId?: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Append a row to security_events. Never throws: a monitoring write must not
+ * fail the request that triggered it.
+ */
+export async function recordSecurityEvent(event: SecurityEvent): Promise<void> {
+  const db = getSupabaseAdmin();
+  if (!db) return;
+
+  try {
+    const { error } = await db.from('security_events').insert({
+      event_type: event.eventType,
+      severity: event.severity,
+      user_id: event.userId || null,
+      details: event.details,
+    });
+    if (error) throw new Error(error.message);
+  } catch (error) {
+    console.error(`Failed to log security event ${event.eventType}:`, error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { structuredOutputConfig } from '../config/agents.config';
+import { errorService, ErrorCode } from './error.service';
+import { llmService, type LLMMessage, type LLMMetering, type LLMResponse } from './llm-service';
+import { zodToJsonSchema } from './tool-schema';
+
+export interface StructuredOutputOptions {
+  messages: LLMMessage[];
+  /**
+   * Makes one model call with JSON mode requested. Defaults to
+   * `llmService.complete`; agents pass a call through the agent runner.
+   */
+  invoke?: (messages: LLMMessage[]) => Promise<LLMResponse>;
+  /**
+   * Makes the calls that fix an invalid answer. Defaults to `llmService.complete`
+   * in JSON mode, which offers no tools, so a repair never repeats the tool
+   * calls (and their side effects) of the first attempt.
+   */
+  repair?: (messages: LLMMessage[]) => Promise<LLMResponse>;
+  temperature?: number;
+  maxTokens?: number;
+  metering?: LLMMetering;
+  maxRepairAttempts?: number;
+  /** Cancels the default calls; custom `invoke`/`repair` functions handle their own */
+  signal?: AbortSignal;
+}
+
+export interface StructuredOutputResult<T> {
+  data: T;
+  /** Response that produced `data` */
+  response: LLMResponse;
+  attempts: number;
+}
+
+/**
+ * Gets schema-conforming JSON out of a model. The JSON Schema is added to the
+ * prompt and JSON mode is requested; answers that fail to parse or validate
+ * are sent back with the validation issues (without tools) until they pass
+ * or the repair budget runs out.
+ */
+export class StructuredOutputService {
+  async generate<T extends z.ZodTypeAny>(
+    schema: T,
+    options: StructuredOutputOptions
+  ): Promise<StructuredOutputResult<z.infer<T>>> {
+    const complete = (messages: LLMMessage[]) => llmService.complete({
+      messages,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      metering: options.metering,
+      responseFormat: 'json',
+      signal: options.signal,
+    });
+    const invoke = options.invoke || complete;
+    const repair = options.repair || complete;
+    const maxAttempts = 1 + (options.maxRepairAttempts ?? structuredOutputConfig.maxRepairAttempts);
+    const messages = this.withSchemaInstructions(options.messages, schema);
+
+    let issues: string[] = [];
+    let response: LLMResponse | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      response = await (attempt === 1 ? invoke : repair)(messages);
+      const result = this.parse(schema, response.content);
+      if (result.success) {
+        return { data: result.data, response, attempts: attempt };
+      }
+
+      issues = result.issues;
+      messages.push(
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: `That response was not valid:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nReply with the corrected JSON object only.`,
+        }
+      );
+    }
+
+    throw errorService.createError(
+      ErrorCode.EXTERNAL_SERVICE_ERROR,
+      `Model output failed validation after ${maxAttempts} attempts`,
+      { issues, content: response?.content, provider: response?.provider }
+    );
+  }
+
+  /**
+   * Parse and validate a model answer. Tolerates code fences and prose
+   * around the object, which some providers add even in JSON mode.
+   */
+  parse<T extends z.ZodTypeAny>(
+    schema: T,
+    content: string
+  ): { success: true; data: z.infer<T> } | { success: false; issues: string[] } {
+    const json = extractJson(content);
+    if (json === undefined) {
+      return { success: false, issues: ['Response is not a JSON object'] };
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(json);
+    } catch (error) {
+      return { success: false, issues: [`Invalid JSON: ${error instanceof Error ? error.message : error}`] };
+    }
+
+    const parsed = schema.safeParse(value);
+    if (parsed.success) {
+      return { success: true, data: parsed.data };
+    }
+
+    return {
+      success: false,
+      issues: parsed.error.errors
+        .slice(0, structuredOutputConfig.maxIssuesReported)
+        .map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`),
+    };
+  }
+
+  private withSchemaInstructions(messages: LLMMessage[], schema: z.ZodTypeAny): LLMMessage[] {
+    const instructions = `Respond with a single JSON object that matches this JSON Schema. No prose, no code fences.\n${JSON.stringify(zodToJsonSchema(schema))}`;
+    const [first, ...rest] = messages;
+
+    return first?.role === 'system'
+      ? [{ ...first, content: `${first.content}\n\n${instructions}` }, ...rest]
+      : [{ role: 'system', content: instructions }, ...messages];
+  }
+}
+
+function extractJson(content: string): string | undefined {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : content;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : undefined;
+}
+
+// Singleton instance
+export const structuredOutputService = new StructuredOutputService();
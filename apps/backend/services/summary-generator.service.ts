@@ -1,30 +1,45 @@
-import { groqService } from './groq.service';
-import { azureOpenAI } from './azure-openai.service';
-import { OpenAI } from 'openai';
+import { llmService, type LLMMetering } from './llm-service';
+import type { AgentOutput } from '../schemas/agent-output.schemas';
 
 export interface AgentResult {
   agent: string;
   task: string;
+  /** Rendered markdown report */
   result: string;
+  output?: AgentOutput;
+  /**
+   * Set when the step failed and its definition allowed going on without it,
+   * or (with `condition`) when a branch condition left it out
+   */
+  skipped?: { error: string; note?: string; condition?: string };
   completedAt?: string;
 }
 
 export class SummaryGeneratorService {
   static async generateExecutiveSummary(
     results: AgentResult[],
-    userMessage: string
+    userMessage: string,
+    metering: LLMMetering = { feature: 'summary' }
   ): Promise<string> {
-    // Prepare the context from all agent results
-    const agentInsights = results.map(r => 
-      `${r.agent.toUpperCase()} ANALYSIS:\n${r.result}\n`
+    // Skipped steps failed; their perspectives are named as missing rather than summarized.
+    // Branches a condition left out were not needed and are left out here too.
+    const missing = results.filter(r => r.skipped && !r.skipped.condition);
+    const available = results.filter(r => !r.skipped);
+
+    // Prepare the context from all agent results (structured data when available)
+    const agentInsights = available.map(r => 
+      `${r.agent.toUpperCase()} ANALYSIS:\n${r.output ? JSON.stringify(r.output, null, 2) : r.result}\n`
     ).join('\n---\n\n');
+    const missingInsights = missing.length > 0
+      ? `\nMISSING PERSPECTIVES (these analysts failed; do not infer their views):\n${missing.map(r => `- ${r.agent}: ${r.task}`).join('\n')}\n`
+      : '';
 
     const summaryPrompt = `You are an executive financial advisor tasked with synthesizing insights from multiple expert analysts.
 
 Based on the following multi-agent analysis for the user's request: "${userMessage}"
 
 ${agentInsights}
-
+${missingInsights}
 Please provide a comprehensive EXECUTIVE SUMMARY that:
 
 1. **Synthesizes Key Findings**: Identify the most important insights across all agents
@@ -33,80 +48,56 @@ Please provide a comprehensive EXECUTIVE SUMMARY that:
 4. **Prioritizes Actions**: What are the top 3-5 actions the user should take?
 5. **Risk Assessment**: Overall risk level and main concerns
 6. **Opportunity Assessment**: Key opportunities identified
-7. **Timeline**: Immediate vs short-term vs long-term recommendations
+7. **Timeline**: Immediate vs short-term vs long-term recommendations${missing.length > 0 ? `
+8. **Gaps**: Which perspectives are missing and how that limits the conclusions` : ''}
 
 Format your response as a structured executive summary with clear sections and bullet points.
 Use markdown formatting with headers, bold text for emphasis, and tables where appropriate.
 Make it actionable and easy to understand for decision-making.`;
 
     try {
-      // Try Groq first
-      if (groqService.isConfigured()) {
-        const completion = await groqService.createChatCompletion({
-          messages: [
-            { role: 'system', content: summaryPrompt },
-            { role: 'user', content: 'Generate the executive summary based on the multi-agent analysis.' }
-          ],
-          model: 'llama-3.3-70b-versatile',
-          temperature: 0.7,
-          max_tokens: 2000,
-        });
-        
-        if ('choices' in completion) {
-          return this.formatExecutiveSummary(
-            completion.choices[0]?.message?.content || 'Unable to generate summary'
-          );
-        }
-      }
-      
-      // Fallback to Azure
-      if (azureOpenAI.isConfigured()) {
-        const completion = await azureOpenAI.createChatCompletion({
-          model: 'model-router',
-          messages: [
-            { role: 'system', content: summaryPrompt },
-            { role: 'user', content: 'Generate the executive summary based on the multi-agent analysis.' }
-          ],
-          temperature: 0.7,
-          max_tokens: 2000,
-        });
-        
-        return this.formatExecutiveSummary(
-          completion.choices[0]?.message?.content || 'Unable to generate summary'
-        );
-      }
-      
-      // Fallback to OpenAI
-      if (process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY !== 'your-openai-api-key-here') {
-        const openai = new OpenAI({
-          apiKey: process.env.OPENAI_API_KEY,
-        });
-        
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4-turbo-preview',
-          messages: [
-            { role: 'system', content: summaryPrompt },
-            { role: 'user', content: 'Generate the executive summary based on the multi-agent analysis.' }
-          ],
-          temperature: 0.7,
-          max_tokens: 2000,
-        });
-        
-        return this.formatExecutiveSummary(
-          completion.choices[0]?.message?.content || 'Unable to generate summary'
-        );
+      const completion = await llmService.complete({
+        messages: [
+          { role: 'system', content: summaryPrompt },
+          { role: 'user', content: 'Generate the executive summary based on the multi-agent analysis.' }
+        ],
+        temperature: 0.7,
+        maxTokens: 2000,
+        metering,
+      });
+
+      // No real provider configured - return structured summary
+      if (completion.provider === 'mock') {
+        return this.generateStaticSummary(available, missing);
       }
-      
-      // No LLM configured - return structured summary
-      return this.generateStaticSummary(results);
+
+      return this.formatExecutiveSummary(completion.content || 'Unable to generate summary', missing);
       
     } catch (error) {
       console.error('Failed to generate executive summary:', error);
-      return this.generateStaticSummary(results);
+      return this.generateStaticSummary(available, missing);
     }
   }
 
-  private static formatExecutiveSummary(summary: string): string {
+  /**
+   * Markdown section naming the steps that failed and were skipped
+   */
+  static formatMissingPerspectives(missing: AgentResult[]): string {
+    if (missing.length === 0) return '';
+
+    const rows = missing.map(r => `- **${r.agent}** (${r.task}): ${r.skipped?.error || 'unavailable'}${r.skipped?.note ? ` - ${r.skipped.note}` : ''}`);
+    return `
+## ⚠️ Missing Perspectives
+
+The following analyses failed and are not reflected in this summary:
+
+${rows.join('\n')}
+
+---
+`;
+  }
+
+  private static formatExecutiveSummary(summary: string, missing: AgentResult[] = []): string {
     return `
 # 🎯 **EXECUTIVE SUMMARY**
 
@@ -117,7 +108,7 @@ Make it actionable and easy to understand for decision-making.`;
 ${summary}
 
 ---
-
+${this.formatMissingPerspectives(missing)}
 ## 📋 Summary Metadata
 
 - **Analysis Type**: Multi-Agent Portfolio Risk Assessment
@@ -131,7 +122,7 @@ ${summary}
 `;
   }
 
-  private static generateStaticSummary(results: AgentResult[]): string {
+  private static generateStaticSummary(results: AgentResult[], missing: AgentResult[] = []): string {
     const agentNames = results.map(r => r.agent).join(', ');
     
     return `
@@ -140,7 +131,7 @@ ${summary}
 *Generated: ${new Date().toLocaleString()}*
 
 ---
-
+${this.formatMissingPerspectives(missing)}
 ## 📊 Consolidated Analysis Overview
 
 Based on the comprehensive multi-agent analysis involving ${results.length} specialized agents (${agentNames}), here are the key findings and recommendations for your portfolio.
@@ -0,0 +1,15 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+// Service-role client shared by backend services that persist data.
+// Created lazily so that importing a service never fails when Supabase is not configured.
+let supabaseAdmin: SupabaseClient | null = null;
+
+export function getSupabaseAdmin(): SupabaseClient | null {
+  if (!supabaseAdmin && process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY) {
+    supabaseAdmin = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    );
+  }
+  return supabaseAdmin;
+}
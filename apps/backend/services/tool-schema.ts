@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Convert a tool's zod input schema to the JSON Schema subset accepted by
+ * OpenAI-style function calling. Unsupported types degrade to `{}` (any).
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const json = convert(schema);
+  const description = schema.description;
+  return description && !json.description ? { ...json, description } : json;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.ZodObject<z.ZodRawShape>).shape;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(value);
+        if (!value.isOptional()) {
+          required.push(key);
+        }
+      }
+
+      return {
+        type: 'object',
+        properties,
+        ...(required.length > 0 && { required }),
+      };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return { type: 'string' };
+
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return def.checks?.some((check: { kind: string }) => check.kind === 'int')
+        ? { type: 'integer' }
+        : { type: 'number' };
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: def.values };
+
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values(def.values) };
+
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return { type: 'array', items: zodToJsonSchema(def.type) };
+
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) };
+
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map((option: z.ZodTypeAny) => zodToJsonSchema(option)) };
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return zodToJsonSchema(def.innerType);
+
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema);
+
+    default:
+      // any, unknown and anything exotic
+      return {};
+  }
+}
@@ -0,0 +1,395 @@
+import { errorService, ErrorCode } from './error.service';
+import { getSupabaseAdmin } from './supabase-admin';
+import {
+  budgetConfig,
+  defaultModelPricing,
+  modelPricing,
+  type BudgetAction,
+} from '../config/llm-pricing.config';
+import type { LLMMessage, LLMMetering, LLMTokenUsage } from './llm-providers';
+
+export interface UsageRecord extends LLMMetering {
+  provider: string;
+  model: string;
+  usage: LLMTokenUsage;
+  costUsd: number;
+  downgraded?: boolean;
+}
+
+export interface BudgetLimits {
+  /** 0 = unlimited */
+  dailyLimitUsd: number;
+  monthlyLimitUsd: number;
+  onExceeded: BudgetAction;
+}
+
+export interface BudgetDecision {
+  action: 'allow' | BudgetAction;
+  reason?: string;
+  limits: BudgetLimits;
+  spentTodayUsd: number;
+  spentThisMonthUsd: number;
+}
+
+interface UsageBucket {
+  calls: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  userId: string;
+  from: string;
+  to: string;
+  totals: UsageBucket & { promptTokens: number; completionTokens: number };
+  byProvider: Record<string, UsageBucket>;
+  byModel: Record<string, UsageBucket>;
+  byFeature: Record<string, UsageBucket>;
+  byDay: Record<string, UsageBucket>;
+  bySession: Record<string, UsageBucket>;
+  byWorkflow: Record<string, UsageBucket>;
+}
+
+interface SpendCacheEntry {
+  dayStart: number;
+  monthStart: number;
+  spentTodayUsd: number;
+  spentThisMonthUsd: number;
+  fetchedAt: number;
+}
+
+// Rows fetched per page when aggregating usage
+const SUMMARY_PAGE_SIZE = 1000;
+
+// llm_usage/llm_budgets reference auth.users; ad-hoc ids (e.g. 'user-123') are only tracked in memory
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isPersistedId(id?: string): id is string {
+  return !!id && UUID_PATTERN.test(id);
+}
+
+/**
+ * Meters LLM calls per user, session, workflow and provider, persists them
+ * to `llm_usage` and enforces daily/monthly spend budgets.
+ */
+export class UsageService {
+  private spendCache = new Map<string, SpendCacheEntry>();
+  private budgetCache = new Map<string, { limits: BudgetLimits; fetchedAt: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Cost in USD for a call, using the per-model pricing table
+   */
+  calculateCost(model: string, usage: Pick<LLMTokenUsage, 'promptTokens' | 'completionTokens'>): number {
+    const pricing = modelPricing[model] || defaultModelPricing;
+    const cost = (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+    return Math.round(cost * 1_000_000) / 1_000_000;
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token) for providers that do not report usage
+   */
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  estimateUsage(messages: LLMMessage[], completion: string): LLMTokenUsage {
+    const promptTokens = messages.reduce((sum, message) => sum + this.estimateTokens(message.content), 0);
+    const completionTokens = this.estimateTokens(completion);
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      estimated: true,
+    };
+  }
+
+  /**
+   * Persist a metered call. Never throws: accounting must not break the request.
+   */
+  async record(record: UsageRecord): Promise<void> {
+    if (record.userId) {
+      this.addToCachedSpend(record.userId, record.costUsd);
+    }
+
+    const db = getSupabaseAdmin();
+    if (!db) return;
+
+    try {
+      const { error } = await db.from('llm_usage').insert({
+        user_id: isPersistedId(record.userId) ? record.userId : null,
+        chat_session_id: isPersistedId(record.sessionId) ? record.sessionId : null,
+        workflow_id: record.workflowId || null,
+        feature: record.feature || 'chat',
+        provider: record.provider,
+        model: record.model,
+        prompt_tokens: record.usage.promptTokens,
+        completion_tokens: record.usage.completionTokens,
+        total_tokens: record.usage.totalTokens,
+        tokens_estimated: !!record.usage.estimated,
+        cost_usd: record.costUsd,
+        downgraded: !!record.downgraded,
+      });
+      if (error) throw error;
+
+      if (isPersistedId(record.sessionId)) {
+        const { error: sessionError } = await db.rpc('record_chat_llm_usage', {
+          p_session_id: record.sessionId,
+          p_tokens: record.usage.totalTokens,
+          p_provider: record.provider,
+        });
+        if (sessionError) throw sessionError;
+      }
+    } catch (error) {
+      console.error('Failed to record LLM usage:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Budget for a user: their `llm_budgets` row, falling back to the configured defaults
+   */
+  async getBudget(userId: string): Promise<BudgetLimits> {
+    const cached = this.budgetCache.get(userId);
+    if (cached && this.now() - cached.fetchedAt < budgetConfig.cacheTtlMs) {
+      return cached.limits;
+    }
+
+    const limits: BudgetLimits = {
+      dailyLimitUsd: budgetConfig.dailyLimitUsd,
+      monthlyLimitUsd: budgetConfig.monthlyLimitUsd,
+      onExceeded: budgetConfig.onExceeded,
+    };
+
+    const db = isPersistedId(userId) ? getSupabaseAdmin() : null;
+    if (db) {
+      const { data, error } = await db
+        .from('llm_budgets')
+        .select('daily_limit_usd, monthly_limit_usd, on_exceeded')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Failed to load LLM budget:', error.message);
+      } else if (data) {
+        if (data.daily_limit_usd !== null) limits.dailyLimitUsd = Number(data.daily_limit_usd);
+        if (data.monthly_limit_usd !== null) limits.monthlyLimitUsd = Number(data.monthly_limit_usd);
+        limits.onExceeded = data.on_exceeded;
+      }
+    }
+
+    this.budgetCache.set(userId, { limits, fetchedAt: this.now() });
+    return limits;
+  }
+
+  async setBudget(userId: string, budget: Partial<BudgetLimits>): Promise<BudgetLimits> {
+    const db = getSupabaseAdmin();
+    if (!db) {
+      throw new Error('Database service not configured');
+    }
+    if (!isPersistedId(userId)) {
+      throw new Error('Invalid userId: budgets can only be stored for registered users');
+    }
+
+    const { error } = await db.from('llm_budgets').upsert({
+      user_id: userId,
+      ...(budget.dailyLimitUsd !== undefined && { daily_limit_usd: budget.dailyLimitUsd }),
+      ...(budget.monthlyLimitUsd !== undefined && { monthly_limit_usd: budget.monthlyLimitUsd }),
+      ...(budget.onExceeded && { on_exceeded: budget.onExceeded }),
+    });
+    if (error) throw error;
+
+    this.budgetCache.delete(userId);
+    return this.getBudget(userId);
+  }
+
+  /**
+   * Change a budget on behalf of its user, who may only tighten it: limits
+   * can be lowered but not raised or lifted (0), and exceeding them can be
+   * made to reject but not to downgrade. Raising a budget is left to
+   * operators (setBudget, or the llm_budgets table).
+   */
+  async tightenBudget(userId: string, budget: Partial<BudgetLimits>): Promise<BudgetLimits> {
+    this.budgetCache.delete(userId);
+    const current = await this.getBudget(userId);
+
+    const raised = (['dailyLimitUsd', 'monthlyLimitUsd'] as const).filter(key => {
+      const limit = budget[key];
+      return limit !== undefined && (limit <= 0 || (current[key] > 0 && limit > current[key]));
+    });
+    if (raised.length > 0) {
+      throw errorService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Budget limits can only be lowered: ${raised.join(', ')}`,
+        { current }
+      );
+    }
+    if (budget.onExceeded === 'downgrade' && current.onExceeded === 'reject') {
+      throw errorService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        'Budgets that reject calls cannot be switched to downgrading',
+        { current }
+      );
+    }
+
+    return this.setBudget(userId, budget);
+  }
+
+  /**
+   * Decide whether a user's next call is allowed, downgraded or rejected
+   */
+  async checkBudget(userId: string): Promise<BudgetDecision> {
+    const limits = await this.getBudget(userId);
+    if (!limits.dailyLimitUsd && !limits.monthlyLimitUsd) {
+      return { action: 'allow', limits, spentTodayUsd: 0, spentThisMonthUsd: 0 };
+    }
+
+    const spend = await this.getSpend(userId);
+    const decision: BudgetDecision = { action: 'allow', limits, ...spend };
+
+    if (limits.dailyLimitUsd && spend.spentTodayUsd >= limits.dailyLimitUsd) {
+      decision.action = limits.onExceeded;
+      decision.reason = `Daily LLM budget of $${limits.dailyLimitUsd} exhausted`;
+    } else if (limits.monthlyLimitUsd && spend.spentThisMonthUsd >= limits.monthlyLimitUsd) {
+      decision.action = limits.onExceeded;
+      decision.reason = `Monthly LLM budget of $${limits.monthlyLimitUsd} exhausted`;
+    }
+
+    return decision;
+  }
+
+  /**
+   * Aggregate a user's usage between two dates
+   */
+  async getUsageSummary(userId: string, range: { from?: Date; to?: Date } = {}): Promise<UsageSummary> {
+    const db = getSupabaseAdmin();
+    if (!db) {
+      throw new Error('Database service not configured');
+    }
+
+    const to = range.to || new Date(this.now());
+    const from = range.from || new Date(this.getMonthStart());
+
+    const summary: UsageSummary = {
+      userId,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totals: { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 },
+      byProvider: {},
+      byModel: {},
+      byFeature: {},
+      byDay: {},
+      bySession: {},
+      byWorkflow: {},
+    };
+
+    for (let offset = 0; ; offset += SUMMARY_PAGE_SIZE) {
+      const { data: rows, error } = await db
+        .from('llm_usage')
+        .select('chat_session_id, workflow_id, feature, provider, model, prompt_tokens, completion_tokens, total_tokens, cost_usd, created_at')
+        .eq('user_id', userId)
+        .gte('created_at', summary.from)
+        .lte('created_at', summary.to)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + SUMMARY_PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const row of rows || []) {
+        const cost = Number(row.cost_usd);
+        summary.totals.calls++;
+        summary.totals.promptTokens += row.prompt_tokens;
+        summary.totals.completionTokens += row.completion_tokens;
+        summary.totals.totalTokens += row.total_tokens;
+        summary.totals.costUsd += cost;
+
+        addToBucket(summary.byProvider, row.provider, row.total_tokens, cost);
+        addToBucket(summary.byModel, row.model, row.total_tokens, cost);
+        addToBucket(summary.byFeature, row.feature, row.total_tokens, cost);
+        addToBucket(summary.byDay, row.created_at.slice(0, 10), row.total_tokens, cost);
+        if (row.chat_session_id) addToBucket(summary.bySession, row.chat_session_id, row.total_tokens, cost);
+        if (row.workflow_id) addToBucket(summary.byWorkflow, row.workflow_id, row.total_tokens, cost);
+      }
+
+      if (!rows || rows.length < SUMMARY_PAGE_SIZE) break;
+    }
+
+    summary.totals.costUsd = Math.round(summary.totals.costUsd * 1_000_000) / 1_000_000;
+    return summary;
+  }
+
+  /**
+   * Spend for the current UTC day and month. Totals are read from the
+   * database at most once per `cacheTtlMs` and kept current by `record`.
+   */
+  private async getSpend(userId: string): Promise<{ spentTodayUsd: number; spentThisMonthUsd: number }> {
+    const entry = this.getSpendEntry(userId);
+    const db = isPersistedId(userId) ? getSupabaseAdmin() : null;
+
+    if (db && this.now() - entry.fetchedAt >= budgetConfig.cacheTtlMs) {
+      const [today, month] = await Promise.all([
+        db.rpc('get_llm_usage_totals', { p_user_id: userId, p_since: new Date(entry.dayStart).toISOString() }),
+        db.rpc('get_llm_usage_totals', { p_user_id: userId, p_since: new Date(entry.monthStart).toISOString() }),
+      ]);
+
+      if (today.error || month.error) {
+        // Keep enforcing whatever we last knew rather than failing open
+        console.error('Failed to load LLM spend:', (today.error || month.error)?.message);
+      } else {
+        entry.spentTodayUsd = Number(today.data?.[0]?.cost_usd || 0);
+        entry.spentThisMonthUsd = Number(month.data?.[0]?.cost_usd || 0);
+        entry.fetchedAt = this.now();
+      }
+    }
+
+    return { spentTodayUsd: entry.spentTodayUsd, spentThisMonthUsd: entry.spentThisMonthUsd };
+  }
+
+  private addToCachedSpend(userId: string, costUsd: number): void {
+    const entry = this.getSpendEntry(userId);
+    entry.spentTodayUsd += costUsd;
+    entry.spentThisMonthUsd += costUsd;
+  }
+
+  /**
+   * Cached spend for the current UTC day/month, rolled over when either has ended.
+   * A rolled-over entry is stale, so database-backed users are re-read on the next check.
+   */
+  private getSpendEntry(userId: string): SpendCacheEntry {
+    const dayStart = this.getDayStart();
+    const monthStart = this.getMonthStart();
+    let entry = this.spendCache.get(userId);
+
+    if (!entry || entry.monthStart !== monthStart) {
+      entry = { dayStart, monthStart, spentTodayUsd: 0, spentThisMonthUsd: 0, fetchedAt: 0 };
+      this.spendCache.set(userId, entry);
+    } else if (entry.dayStart !== dayStart) {
+      entry.dayStart = dayStart;
+      entry.spentTodayUsd = 0;
+      entry.fetchedAt = 0;
+    }
+
+    return entry;
+  }
+
+  private getDayStart(): number {
+    const now = new Date(this.now());
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  }
+
+  private getMonthStart(): number {
+    const now = new Date(this.now());
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+  }
+}
+
+function addToBucket(buckets: Record<string, UsageBucket>, key: string, tokens: number, costUsd: number): void {
+  const bucket = buckets[key] || (buckets[key] = { calls: 0, totalTokens: 0, costUsd: 0 });
+  bucket.calls++;
+  bucket.totalTokens += tokens;
+  bucket.costUsd = Math.round((bucket.costUsd + costUsd) * 1_000_000) / 1_000_000;
+}
+
+// Singleton instance
+export const usageService = new UsageService();
@@ -0,0 +1,510 @@
+import { randomUUID } from 'crypto';
+import type { InternalStateManager } from 'motia';
+import { workflowsConfig } from '../config/workflows.config';
+import type { Order } from '../schemas/agent-output.schemas';
+import { errorService, ErrorCode } from './error.service';
+import type { AgentResult } from './summary-generator.service';
+import { getSupabaseAdmin } from './supabase-admin';
+import {
+  canStartSteps,
+  getStatus,
+  workflowControlService,
+  type WorkflowRecord,
+  type WorkflowStatusChange,
+} from './workflow-control.service';
+import { workflowExecutionService, type WorkflowAdvance } from './workflow-execution.service';
+import { APPROVAL_AGENT, getDependencySteps, getDependentSteps, toGraphSteps, type GraphStep } from './workflow-graph';
+
+export type ApprovalDecision = 'approve' | 'reject' | 'edit';
+
+export interface WorkflowApproval {
+  id: string;
+  workflowId: string;
+  stepId: string;
+  stepIndex: number;
+  userId: string;
+  title: string;
+  /** Results of the steps the approval depends on, i.e. what is being approved */
+  proposal: Array<Pick<AgentResult, 'agent' | 'task' | 'result' | 'output'>>;
+  /**
+   * Orders in the proposal's structured output; once approved, exactly the
+   * orders the steps after the approval place (the user's list for edits)
+   */
+  orders?: Order[];
+  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  requestedAt: string;
+  expiresAt: string;
+  decision?: ApprovalDecision | 'timeout';
+  /** What the user changed in the proposal ('edit' decisions) */
+  changes?: string;
+  comment?: string;
+  decidedBy?: 'user' | 'system';
+  decidedAt?: string;
+}
+
+export interface ApprovalRequest {
+  approval: WorkflowApproval;
+  /** Missing when the approval was already requested or the run is paused */
+  change?: WorkflowStatusChange;
+}
+
+export interface ApprovalResolution {
+  approval: WorkflowApproval;
+  /** Missing while the run still waits for another approval */
+  change?: WorkflowStatusChange;
+  /** Steps the caller claimed and must start */
+  ready: WorkflowAdvance<GraphStep>['ready'];
+  complete: boolean;
+}
+
+interface PendingApproval {
+  workflowId: string;
+  stepId: string;
+  expiresAt: string;
+}
+
+interface ApprovalRow {
+  id: string;
+  step_id: string;
+  step_index: number;
+  title: string;
+  proposal: WorkflowApproval['proposal'] | null;
+  orders: Order[] | null;
+  requested_at: string;
+  expires_at: string;
+}
+
+// Pending approvals only; decided ones live with their run in 'workflows'
+const PENDING_GROUP = 'workflow-approvals';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const TERMINAL_STATUSES = ['cancelled', 'failed', 'completed'];
+
+/**
+ * Approval steps hold a workflow until its owner approves, edits or rejects
+ * what the steps before it propose (e.g. orders to place). Approving or
+ * editing finishes the step with the proposal (and the edits) as its result;
+ * rejecting skips every step that depends on it. Approvals left undecided
+ * past their expiry are rejected, so nothing is acted on without consent.
+ * Each request and decision is kept in workflow_approvals for audit.
+ */
+export class WorkflowApprovalService {
+  /**
+   * Hold the run at an approval step; asking again for the same step is a no-op
+   */
+  async request(
+    state: InternalStateManager,
+    workflow: WorkflowRecord,
+    step: GraphStep,
+    stepIndex: number,
+    proposal: AgentResult[],
+    timeoutMs: number = workflowsConfig.approvals.timeoutMs
+  ): Promise<ApprovalRequest> {
+    const existing = await this.get(state, workflow.id, step.id);
+    if (existing) return { approval: existing };
+
+    const requestedAt = new Date();
+    const approval: WorkflowApproval = {
+      id: randomUUID(),
+      workflowId: workflow.id,
+      stepId: step.id,
+      stepIndex,
+      userId: workflow.userId,
+      title: step.task,
+      proposal: proposal.map(({ agent, task, result, output }) => ({ agent, task, result, output })),
+      orders: proposal.some(item => item.output?.orders) ? proposal.flatMap(item => item.output?.orders || []) : undefined,
+      status: 'pending',
+      requestedAt: requestedAt.toISOString(),
+      expiresAt: new Date(requestedAt.getTime() + timeoutMs).toISOString(),
+    };
+
+    await this.insert(approval);
+    await this.save(state, approval);
+    await state.set('workflows', `${workflow.id}:step:${stepIndex}`, {
+      agent: step.agent,
+      task: step.task,
+      status: 'awaiting_approval',
+      approvalId: approval.id,
+      startedAt: approval.requestedAt,
+      expiresAt: approval.expiresAt,
+    });
+
+    // A run paused meanwhile stays paused; the approval is still pending when it resumes
+    const latest = await state.get<WorkflowRecord>('workflows', workflow.id) || workflow;
+    if (!canStartSteps(latest)) return { approval };
+
+    const change = await workflowControlService.setStatus(state, latest, 'awaiting_approval', {
+      stepIndex,
+      reason: `Waiting for approval: ${approval.title}`,
+    });
+    return { approval, change };
+  }
+
+  async get(state: InternalStateManager, workflowId: string, stepId: string): Promise<WorkflowApproval | null> {
+    return state.get<WorkflowApproval>('workflows', `${workflowId}:approval:${stepId}`);
+  }
+
+  /**
+   * Orders the user approved at the approval steps the given step depends on;
+   * undefined when none of them approved orders
+   */
+  async getApprovedOrders(
+    state: InternalStateManager,
+    workflowId: string,
+    steps: Array<GraphStep & { type?: string }>,
+    stepId: string
+  ): Promise<Order[] | undefined> {
+    let orders: Order[] | undefined;
+    for (const dependency of getDependencySteps(steps, stepId).filter(step => step.type === 'approval')) {
+      const approval = await this.get(state, workflowId, dependency.id);
+      if (approval?.status === 'approved' && approval.orders) {
+        orders = [...(orders || []), ...approval.orders];
+      }
+    }
+    return orders;
+  }
+
+  /**
+   * Record the owner's decision and continue the run. Edits to proposed
+   * orders list the orders to place instead; free-text changes cannot alter
+   * what is placed.
+   */
+  async decide(
+    state: InternalStateManager,
+    workflowId: string,
+    stepId: string,
+    input: { userId: string; decision: ApprovalDecision; comment?: string; changes?: string; orders?: Order[] }
+  ): Promise<ApprovalResolution> {
+    const workflow = await workflowControlService.get(state, workflowId, input.userId);
+    const approval = await this.get(state, workflowId, stepId);
+    if (!approval) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `No approval requested for step ${stepId} of workflow ${workflowId}`);
+    }
+    if (approval.status !== 'pending') {
+      throw errorService.createError(ErrorCode.CONFLICT, `Approval already ${approval.status}`, { status: approval.status });
+    }
+    // The expiry job may not have run yet; a late decision must not act on the proposal
+    if (Date.parse(approval.expiresAt) <= Date.now()) {
+      throw errorService.createError(ErrorCode.CONFLICT, 'Approval expired', { status: 'expired', expiresAt: approval.expiresAt });
+    }
+    const status = getStatus(workflow);
+    if (TERMINAL_STATUSES.includes(status)) {
+      throw errorService.createError(ErrorCode.CONFLICT, `Cannot decide an approval of a ${status} workflow`, { status });
+    }
+    if (input.orders && (!approval.orders || input.decision !== 'edit')) {
+      throw errorService.createError(ErrorCode.VALIDATION_ERROR, approval.orders
+        ? 'Orders can only be given with edit decisions'
+        : 'The proposal has no orders to edit');
+    }
+    if (input.decision === 'edit' && approval.orders && !input.orders) {
+      throw errorService.createError(ErrorCode.VALIDATION_ERROR, 'Edits to proposed orders need the orders to place');
+    }
+    if (input.decision === 'edit' && !approval.orders && !input.changes?.trim()) {
+      throw errorService.createError(ErrorCode.VALIDATION_ERROR, 'Edit decisions need the changes to apply');
+    }
+
+    return this.resolve(state, workflow, approval, {
+      decision: input.decision,
+      changes: input.decision === 'edit' ? input.changes : undefined,
+      orders: input.decision === 'edit' && input.orders ? input.orders : approval.orders,
+      comment: input.comment,
+      decidedBy: 'user',
+    });
+  }
+
+  /**
+   * Reject approvals nobody decided in time. Approvals of runs that ended
+   * meanwhile (e.g. cancelled) are closed without continuing anything.
+   */
+  async expireDue(state: InternalStateManager, now: number = Date.now()): Promise<ApprovalResolution[]> {
+    const due = (await state.getGroup<PendingApproval>(PENDING_GROUP))
+      .filter(pending => Date.parse(pending.expiresAt) <= now);
+    const resolutions: ApprovalResolution[] = [];
+
+    for (const pending of due) {
+      try {
+        const approval = await this.get(state, pending.workflowId, pending.stepId);
+        const workflow = await state.get<WorkflowRecord>('workflows', pending.workflowId);
+        if (!approval || !workflow || approval.status !== 'pending') {
+          await state.delete(PENDING_GROUP, `${pending.workflowId}:${pending.stepId}`);
+          continue;
+        }
+
+        const decision = { decision: 'timeout' as const, decidedBy: 'system' as const };
+        if (TERMINAL_STATUSES.includes(getStatus(workflow))) {
+          await this.close(state, approval, { ...decision, comment: `Workflow ${getStatus(workflow)} before a decision` });
+          continue;
+        }
+
+        const minutes = Math.round((Date.parse(approval.expiresAt) - Date.parse(approval.requestedAt)) / 60000);
+        resolutions.push(await this.resolve(state, workflow, approval, {
+          ...decision,
+          comment: `No decision within ${minutes} minutes`,
+        }));
+      } catch (error) {
+        // The owner decided while this ran; their decision stands
+        if ((error as any)?.code === ErrorCode.CONFLICT) continue;
+        console.error(`Failed to expire approval ${pending.workflowId}/${pending.stepId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return resolutions;
+  }
+
+  /**
+   * Put pending approvals of a run rebuilt after a restart back in state
+   */
+  async restore(state: InternalStateManager, workflowId: string): Promise<WorkflowApproval[]> {
+    const db = getSupabaseAdmin();
+    if (!db) return [];
+
+    const { data, error } = await db
+      .from('workflow_approvals')
+      .select('id, workflow_id, step_id, step_index, title, proposal, orders, requested_at, expires_at')
+      .eq('workflow_id', workflowId)
+      .eq('status', 'pending');
+    if (error) throw new Error(error.message);
+
+    const workflow = await state.get<WorkflowRecord>('workflows', workflowId);
+    const restored: WorkflowApproval[] = [];
+    for (const row of (data || []) as ApprovalRow[]) {
+      const approval: WorkflowApproval = {
+        id: row.id,
+        workflowId,
+        stepId: row.step_id,
+        stepIndex: row.step_index,
+        userId: workflow?.userId || '',
+        title: row.title,
+        proposal: row.proposal || [],
+        orders: row.orders ?? undefined,
+        status: 'pending',
+        requestedAt: row.requested_at,
+        expiresAt: row.expires_at,
+      };
+      await this.save(state, approval);
+      await state.set('workflows', `${workflowId}:step:${approval.stepIndex}`, {
+        agent: APPROVAL_AGENT,
+        task: approval.title,
+        status: 'awaiting_approval',
+        approvalId: approval.id,
+        startedAt: approval.requestedAt,
+        expiresAt: approval.expiresAt,
+      });
+      restored.push(approval);
+    }
+    return restored;
+  }
+
+  private async resolve(
+    state: InternalStateManager,
+    workflow: WorkflowRecord,
+    approval: WorkflowApproval,
+    decision: Pick<WorkflowApproval, 'changes' | 'orders' | 'comment'> & Required<Pick<WorkflowApproval, 'decision' | 'decidedBy'>>
+  ): Promise<ApprovalResolution> {
+    const decided = await this.close(state, approval, decision);
+    const steps = toGraphSteps(workflow.steps || workflow.agents || []);
+    const step = steps[approval.stepIndex];
+    const completedAt = decided.decidedAt as string;
+
+    // The approval's result is what the steps after it act on
+    const result: AgentResult = {
+      agent: step.agent,
+      task: step.task,
+      result: formatDecision(decided),
+      completedAt,
+    };
+    await state.set('workflows', `${workflow.id}:result:${approval.stepIndex}`, result);
+    await state.set('workflows', `${workflow.id}:step:${approval.stepIndex}`, {
+      agent: step.agent,
+      task: step.task,
+      status: 'completed',
+      decision: decided.decision,
+      startedAt: approval.requestedAt,
+      completedAt,
+    });
+    await workflowExecutionService.completeStep(workflow.id, step.id, result, Date.parse(completedAt) - Date.parse(approval.requestedAt));
+
+    if (decided.status !== 'approved') {
+      const note = `Not run: "${approval.title}" was ${decided.status}`;
+      for (const dependent of getDependentSteps(steps, step.id)) {
+        const index = steps.indexOf(dependent);
+        const skipped: AgentResult = {
+          agent: dependent.agent,
+          task: dependent.task,
+          result: `_${note}_`,
+          skipped: { error: note },
+          completedAt,
+        };
+        await state.set('workflows', `${workflow.id}:result:${index}`, skipped);
+        await state.set('workflows', `${workflow.id}:step:${index}`, {
+          agent: dependent.agent,
+          task: dependent.task,
+          status: 'skipped',
+          completedAt,
+        });
+        await workflowExecutionService.skipStep(workflow.id, dependent.id, skipped, note, 0);
+      }
+    }
+
+    let latest = await state.get<WorkflowRecord>('workflows', workflow.id) || workflow;
+    let change: WorkflowStatusChange | undefined;
+    const othersPending = (await state.getGroup<PendingApproval>(PENDING_GROUP))
+      .some(pending => pending.workflowId === workflow.id);
+    if (getStatus(latest) === 'awaiting_approval' && !othersPending) {
+      change = await workflowControlService.setStatus(state, latest, 'running', {
+        stepIndex: approval.stepIndex,
+        reason: `${approval.title}: ${decided.status}`,
+      });
+      latest = change.workflow;
+    }
+
+    const { ready, complete } = await workflowExecutionService.advance(state, workflow.id, steps, {
+      startReady: canStartSteps(latest),
+    });
+    for (const { step: next, index } of ready) {
+      await state.set('workflows', `${workflow.id}:step:${index}`, {
+        agent: next.agent,
+        task: next.task,
+        status: 'processing',
+        startedAt: new Date().toISOString(),
+      });
+    }
+    return { approval: decided, change, ready, complete };
+  }
+
+  /**
+   * Record the decision in workflow_approvals, then in state. The update only
+   * applies to a pending approval (and, for the owner's decisions, one that
+   * has not expired), so concurrent decisions cannot both continue the run.
+   */
+  private async close(
+    state: InternalStateManager,
+    approval: WorkflowApproval,
+    decision: Pick<WorkflowApproval, 'changes' | 'orders' | 'comment'> & Required<Pick<WorkflowApproval, 'decision' | 'decidedBy'>>
+  ): Promise<WorkflowApproval> {
+    const decided: WorkflowApproval = {
+      ...approval,
+      ...decision,
+      status: decision.decision === 'timeout'
+        ? 'expired'
+        : decision.decision === 'reject' ? 'rejected' : 'approved',
+      decidedAt: new Date().toISOString(),
+    };
+
+    const db = getSupabaseAdmin();
+    if (db) {
+      let update = db
+        .from('workflow_approvals')
+        .update({
+          status: decided.status,
+          decision: decided.decision,
+          changes: decided.changes ?? null,
+          orders: decided.orders ?? null,
+          comment: decided.comment ?? null,
+          decided_by: decided.decidedBy,
+          decided_at: decided.decidedAt,
+        })
+        .eq('id', decided.id)
+        .eq('status', 'pending');
+      if (decided.decidedBy === 'user') {
+        update = update.gt('expires_at', decided.decidedAt as string);
+      }
+
+      const { data, error } = await update.select('id');
+      if (error) {
+        throw errorService.createError(ErrorCode.DATABASE_ERROR, `Failed to record approval decision: ${error.message}`, {
+          approvalId: decided.id,
+        });
+      }
+      if (!data?.length) {
+        throw errorService.createError(ErrorCode.CONFLICT, 'Approval was already decided or has expired', {
+          approvalId: decided.id,
+        });
+      }
+    }
+
+    await this.save(state, decided);
+    return decided;
+  }
+
+  private async save(state: InternalStateManager, approval: WorkflowApproval): Promise<void> {
+    const key = `${approval.workflowId}:${approval.stepId}`;
+    await state.set('workflows', `${approval.workflowId}:approval:${approval.stepId}`, approval);
+    if (approval.status === 'pending') {
+      await state.set<PendingApproval>(PENDING_GROUP, key, {
+        workflowId: approval.workflowId,
+        stepId: approval.stepId,
+        expiresAt: approval.expiresAt,
+      });
+    } else {
+      await state.delete(PENDING_GROUP, key);
+    }
+  }
+
+  private async insert(approval: WorkflowApproval): Promise<void> {
+    const db = getSupabaseAdmin();
+    if (!db) return;
+
+    const { error } = await db.from('workflow_approvals').upsert(
+      {
+        id: approval.id,
+        workflow_id: approval.workflowId,
+        step_id: approval.stepId,
+        step_index: approval.stepIndex,
+        user_id: UUID_PATTERN.test(approval.userId) ? approval.userId : null,
+        title: approval.title,
+        proposal: approval.proposal,
+        orders: approval.orders ?? null,
+        status: approval.status,
+        requested_at: approval.requestedAt,
+        expires_at: approval.expiresAt,
+      },
+      { onConflict: 'workflow_id,step_id' }
+    );
+    // Decisions are claimed on this row; without it the approval could never be resolved
+    if (error) {
+      throw errorService.createError(ErrorCode.DATABASE_ERROR, `Failed to record approval request: ${error.message}`, {
+        approvalId: approval.id,
+      });
+    }
+  }
+}
+
+/**
+ * The approval step's result: the decision followed by the proposal it covers
+ */
+function formatDecision(approval: WorkflowApproval): string {
+  const heading = {
+    approve: `**Approved** by the user: ${approval.title}`,
+    edit: `**Approved with changes** by the user: ${approval.title}`,
+    reject: `**Rejected** by the user: ${approval.title}`,
+    timeout: `**Not approved** (no decision in time): ${approval.title}`,
+  }[approval.decision || 'timeout'];
+
+  const lines = [heading];
+  if (approval.changes) {
+    // Edited orders come as a list; the text then only explains the edit
+    lines.push(approval.orders
+      ? `Note from the user on the changes:\n${approval.changes}`
+      : `Changes requested by the user (these override the proposal):\n${approval.changes}`);
+  }
+  if (approval.comment) lines.push(`Comment: ${approval.comment}`);
+  if (approval.status === 'approved' && approval.orders) {
+    lines.push(`Approved orders (${approval.orders.length}, placed exactly as listed):`, ...approval.orders.map(formatOrder));
+  }
+  if (approval.status === 'approved') {
+    lines.push('Approved proposal:', ...approval.proposal.map(item => `${item.agent}: ${item.output ? JSON.stringify(item.output) : item.result}`));
+  }
+  return lines.join('\n\n');
+}
+
+function formatOrder(order: Order): string {
+  const prices = [
+    order.limitPrice !== undefined ? `limit ${order.limitPrice}` : undefined,
+    order.stopPrice !== undefined ? `stop ${order.stopPrice}` : undefined,
+  ].filter(Boolean);
+  return `- ${order.side} ${order.quantity} ${order.symbol} (${order.orderType}${prices.length ? `, ${prices.join(', ')}` : ''})`;
+}
+
+// Singleton instance
+export const workflowApprovalService = new WorkflowApprovalService();
@@ -0,0 +1,324 @@
+/**
+ * Conditions on workflow steps: `when` decides whether a step runs and
+ * `endIf` whether the workflow ends early after it. Both are small
+ * expressions over the structured outputs of earlier steps, parsed and
+ * checked against the steps they read when definitions load:
+ *
+ *   metric(metrics, "risk score") > 7
+ *   count(screen.recommendations) == 0
+ *   has(metrics.risks, "severity", "high") or not macro.summary
+ *
+ * A step id reads that step's output. Missing values (a skipped step, a
+ * field the agent left out) never compare true, so an unanswerable
+ * condition is false rather than an error.
+ */
+
+export type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type ConditionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  /** `step.field[0].other`; `fields` is empty for the step's whole output */
+  | { type: 'path'; step: string; fields: Array<string | number> }
+  | { type: 'call'; name: string; args: ConditionNode[] }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'logical'; operator: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { type: 'compare'; operator: ComparisonOperator; left: ConditionNode; right: ConditionNode };
+
+/** What each step exposes to conditions: its output fields, or undefined when unknown */
+export type ConditionScope = Map<string, string[] | undefined>;
+
+type Token =
+  | { kind: 'number'; value: number; at: number }
+  | { kind: 'string'; value: string; at: number }
+  | { kind: 'word'; value: string; at: number }
+  | { kind: 'symbol'; value: string; at: number }
+  | { kind: 'end'; at: number };
+
+const FUNCTIONS = new Map([
+  ['count', { arity: 1, usage: 'count(list)' }],
+  ['metric', { arity: 2, usage: 'metric(step, "label")' }],
+  ['has', { arity: 3, usage: 'has(list, "field", value)' }],
+]);
+
+const KEYWORDS = new Map<string, ConditionNode>([
+  ['true', { type: 'literal', value: true }],
+  ['false', { type: 'literal', value: false }],
+  ['null', { type: 'literal', value: null }],
+]);
+
+const SYMBOLS = ['&&', '||', '==', '!=', '>=', '<=', '>', '<', '!', '(', ')', ',', '.', '[', ']'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let at = 0;
+
+  while (at < source.length) {
+    const rest = source.slice(at);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      at += space[0].length;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(rest);
+    const word = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(rest);
+    const symbol = SYMBOLS.find(candidate => rest.startsWith(candidate));
+
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), at });
+      at += number[0].length;
+    } else if (word) {
+      tokens.push({ kind: 'word', value: word[0], at });
+      at += word[0].length;
+    } else if (rest[0] === '"' || rest[0] === "'") {
+      const quote = rest[0];
+      let value = '';
+      let end = 1;
+      while (end < rest.length && rest[end] !== quote) {
+        value += rest[end] === '\\' ? rest[++end] ?? '' : rest[end];
+        end++;
+      }
+      if (end >= rest.length) throw syntaxError('Unterminated string', at);
+      tokens.push({ kind: 'string', value, at });
+      at += end + 1;
+    } else if (symbol) {
+      tokens.push({ kind: 'symbol', value: symbol, at });
+      at += symbol.length;
+    } else {
+      throw syntaxError(`Unexpected "${rest[0]}"`, at);
+    }
+  }
+
+  tokens.push({ kind: 'end', at });
+  return tokens;
+}
+
+/**
+ * Parse a condition; throws with the position of the first syntax error
+ */
+export function parseCondition(source: string): ConditionNode {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isSymbol = (...values: string[]) => {
+    const token = peek();
+    return token.kind === 'symbol' && values.includes(token.value);
+  };
+  const isWord = (value: string) => {
+    const token = peek();
+    return token.kind === 'word' && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isSymbol(value)) throw syntaxError(`Expected "${value}"`, peek().at);
+    position++;
+  };
+
+  const parseOr = (): ConditionNode => {
+    let left = parseAnd();
+    while (isSymbol('||') || isWord('or')) {
+      position++;
+      left = { type: 'logical', operator: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ConditionNode => {
+    let left = parseNot();
+    while (isSymbol('&&') || isWord('and')) {
+      position++;
+      left = { type: 'logical', operator: 'and', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): ConditionNode => {
+    if (isSymbol('!') || isWord('not')) {
+      position++;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ConditionNode => {
+    const left = parseValue();
+    if (!isSymbol('==', '!=', '>', '>=', '<', '<=')) return left;
+    const operator = (tokens[position++] as { value: ComparisonOperator }).value;
+    return { type: 'compare', operator, left, right: parseValue() };
+  };
+
+  const parseValue = (): ConditionNode => {
+    const token = tokens[position++];
+    if (token.kind === 'number' || token.kind === 'string') return { type: 'literal', value: token.value };
+
+    if (token.kind === 'symbol' && token.value === '(') {
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+
+    if (token.kind === 'word' && !['and', 'or', 'not'].includes(token.value)) {
+      const keyword = KEYWORDS.get(token.value);
+      if (keyword) return keyword;
+
+      if (isSymbol('(')) {
+        position++;
+        const args: ConditionNode[] = [];
+        while (!isSymbol(')')) {
+          args.push(parseOr());
+          if (!isSymbol(')')) expect(',');
+        }
+        position++;
+        return { type: 'call', name: token.value, args };
+      }
+
+      const fields: Array<string | number> = [];
+      while (isSymbol('.', '[')) {
+        const accessor = tokens[position++];
+        const field = tokens[position++];
+        if (accessor.kind === 'symbol' && accessor.value === '.' && field.kind === 'word') {
+          fields.push(field.value);
+        } else if (accessor.kind === 'symbol' && accessor.value === '[' && field.kind === 'number' && Number.isInteger(field.value)) {
+          fields.push(field.value);
+          expect(']');
+        } else {
+          throw syntaxError('Expected a field name or list index', field.at);
+        }
+      }
+      return { type: 'path', step: token.value, fields };
+    }
+
+    throw syntaxError(token.kind === 'end' ? 'Unexpected end of condition' : 'Expected a value', token.at);
+  };
+
+  const node = parseOr();
+  if (peek().kind !== 'end') throw syntaxError('Unexpected input', peek().at);
+  return node;
+}
+
+/**
+ * Problems with a condition: syntax, unknown functions, and reads of steps
+ * (or output fields) that are not in scope
+ */
+export function findConditionErrors(source: string, scope: ConditionScope): string[] {
+  let node: ConditionNode;
+  try {
+    node = parseCondition(source);
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  const errors: string[] = [];
+  const visit = (current: ConditionNode): void => {
+    switch (current.type) {
+      case 'path': {
+        if (!scope.has(current.step)) {
+          errors.push(`"${current.step}" is not a step that finishes before this condition is checked`);
+          return;
+        }
+        const fields = scope.get(current.step);
+        const [field] = current.fields;
+        if (fields && typeof field === 'string' && !fields.includes(field)) {
+          errors.push(`Step "${current.step}" has no output field "${field}" (has ${fields.join(', ') || 'none'})`);
+        }
+        return;
+      }
+      case 'call': {
+        const fn = FUNCTIONS.get(current.name);
+        if (!fn) errors.push(`Unknown function "${current.name}" (use ${Array.from(FUNCTIONS.values()).map(f => f.usage).join(', ')})`);
+        else if (current.args.length !== fn.arity) errors.push(`${current.name} takes ${fn.arity} argument${fn.arity === 1 ? '' : 's'}: ${fn.usage}`);
+        current.args.forEach(visit);
+        return;
+      }
+      case 'not':
+        visit(current.operand);
+        return;
+      case 'logical':
+      case 'compare':
+        visit(current.left);
+        visit(current.right);
+        return;
+      default:
+    }
+  };
+  visit(node);
+  return errors;
+}
+
+const parsed = new Map<string, ConditionNode>();
+
+/**
+ * Evaluate a condition against step outputs keyed by step id
+ */
+export function evaluateCondition(source: string, outputs: Record<string, unknown>): boolean {
+  let node = parsed.get(source);
+  if (!node) {
+    node = parseCondition(source);
+    parsed.set(source, node);
+  }
+  return evaluate(node, outputs) === true;
+}
+
+function evaluate(node: ConditionNode, outputs: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'path':
+      return node.fields.reduce<unknown>(
+        (value, field) => (value !== null && typeof value === 'object' ? (value as Record<string | number, unknown>)[field] : undefined),
+        outputs[node.step]
+      );
+    case 'not': {
+      const operand = evaluate(node.operand, outputs);
+      return operand === undefined ? undefined : !operand;
+    }
+    case 'logical': {
+      const left = Boolean(evaluate(node.left, outputs));
+      if (node.operator === 'and' ? !left : left) return left;
+      return Boolean(evaluate(node.right, outputs));
+    }
+    case 'compare':
+      return compare(node.operator, evaluate(node.left, outputs), evaluate(node.right, outputs));
+    case 'call':
+      return call(node.name, node.args.map(arg => evaluate(arg, outputs)));
+  }
+}
+
+function compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  if (left === undefined || right === undefined) return false;
+
+  // Agents vary in casing ("High", "high"), so strings compare case-insensitively
+  const a = typeof left === 'string' ? left.toLowerCase() : left;
+  const b = typeof right === 'string' ? right.toLowerCase() : right;
+  if (operator === '==') return a === b;
+  if (operator === '!=') return a !== b;
+
+  if (typeof a !== typeof b || (typeof a !== 'number' && typeof a !== 'string')) return false;
+  const [x, y] = [a, b] as [number | string, number | string];
+  return operator === '>' ? x > y : operator === '>=' ? x >= y : operator === '<' ? x < y : x <= y;
+}
+
+function call(name: string, args: unknown[]): unknown {
+  const [first, second, third] = args;
+  switch (name) {
+    case 'count':
+      return Array.isArray(first) || typeof first === 'string' ? first.length : undefined;
+    case 'metric': {
+      // A step output, or its metrics list
+      const metrics = Array.isArray(first) ? first : (first as { metrics?: unknown } | undefined)?.metrics;
+      if (!Array.isArray(metrics) || typeof second !== 'string') return undefined;
+      const label = second.trim().toLowerCase();
+      const match = metrics.find(metric => String(metric?.label ?? '').trim().toLowerCase() === label);
+      return typeof match?.value === 'number' ? match.value : undefined;
+    }
+    case 'has':
+      if (!Array.isArray(first) || typeof second !== 'string') return undefined;
+      return first.some(item => item !== null && typeof item === 'object' && compare('==', (item as Record<string, unknown>)[second], third));
+    default:
+      return undefined;
+  }
+}
+
+function syntaxError(message: string, at: number): Error {
+  return new Error(`${message} at position ${at + 1}`);
+}
@@ -0,0 +1,172 @@
+import type { InternalStateManager } from 'motia';
+import { errorService, ErrorCode } from './error.service';
+import { workflowExecutionService } from './workflow-execution.service';
+import { isApprovalGated, toGraphSteps, type GraphStep } from './workflow-graph';
+
+/**
+ * 'started' is what runs are created with; it behaves like 'running'.
+ * 'awaiting_approval' holds the run like 'paused' until an approval step is decided.
+ */
+export type WorkflowRunStatus = 'started' | 'running' | 'paused' | 'awaiting_approval' | 'cancelled' | 'failed' | 'completed';
+
+export type WorkflowAction = 'cancel' | 'pause' | 'resume' | 'retry';
+
+export interface WorkflowTransition {
+  from: WorkflowRunStatus;
+  to: WorkflowRunStatus;
+  /** Missing for changes made by the engine (step failures, completion) */
+  action?: WorkflowAction;
+  reason?: string;
+  stepIndex?: number;
+  at: string;
+}
+
+/** The fields of a stored workflow run this service reads and writes */
+export interface WorkflowRecord {
+  id: string;
+  userId: string;
+  status?: WorkflowRunStatus;
+  steps?: Array<string | Partial<GraphStep> & { agent: string }>;
+  agents?: string[];
+  transitions?: WorkflowTransition[];
+  [field: string]: unknown;
+}
+
+export interface WorkflowStatusChange {
+  workflow: WorkflowRecord;
+  transition: WorkflowTransition;
+}
+
+const ALLOWED_FROM: Record<Exclude<WorkflowAction, 'retry'>, { from: WorkflowRunStatus[]; to: WorkflowRunStatus }> = {
+  cancel: { from: ['started', 'running', 'paused', 'awaiting_approval', 'failed'], to: 'cancelled' },
+  pause: { from: ['started', 'running'], to: 'paused' },
+  resume: { from: ['paused'], to: 'running' },
+};
+
+/**
+ * Status transitions of workflow runs. Pausing stops new steps from starting
+ * (running steps finish, and a run whose last step finishes still completes);
+ * cancelling discards the output of steps still running; a failed step can be
+ * retried, which puts the run back to running.
+ */
+export class WorkflowControlService {
+  async get(state: InternalStateManager, workflowId: string, userId?: string): Promise<WorkflowRecord> {
+    const workflow = await state.get<WorkflowRecord>('workflows', workflowId);
+    // Other users' runs are reported as missing rather than forbidden
+    if (!workflow || (userId && workflow.userId !== userId)) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Workflow not found: ${workflowId}`);
+    }
+    return workflow;
+  }
+
+  /**
+   * Cancel, pause or resume a run on behalf of its owner
+   */
+  async apply(
+    state: InternalStateManager,
+    workflowId: string,
+    action: Exclude<WorkflowAction, 'retry'>,
+    options: { userId: string; reason?: string }
+  ): Promise<WorkflowStatusChange> {
+    const workflow = await this.get(state, workflowId, options.userId);
+    const status = getStatus(workflow);
+    const rule = ALLOWED_FROM[action];
+
+    if (!rule.from.includes(status)) {
+      throw errorService.createError(ErrorCode.CONFLICT, `Cannot ${action} a ${status} workflow`, { status });
+    }
+
+    const change = await this.setStatus(state, workflow, rule.to, { action, reason: options.reason });
+    if (action === 'cancel') await workflowExecutionService.abortRun(workflowId, 'cancelled');
+    return change;
+  }
+
+  /**
+   * Re-run a failed step; returns the step to start again
+   */
+  async retryStep(
+    state: InternalStateManager,
+    workflowId: string,
+    stepIndex: number,
+    options: { userId: string; reason?: string }
+  ): Promise<WorkflowStatusChange & { step: GraphStep }> {
+    const workflow = await this.get(state, workflowId, options.userId);
+    const status = getStatus(workflow);
+    if (status === 'cancelled' || status === 'completed') {
+      throw errorService.createError(ErrorCode.CONFLICT, `Cannot retry a step of a ${status} workflow`, { status });
+    }
+
+    const steps = toGraphSteps<{ agent: string; type?: string }>(workflow.steps || workflow.agents || []);
+    const step = steps[stepIndex];
+    if (!step) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Step ${stepIndex} not found in workflow ${workflowId}`);
+    }
+    // It may already have acted on the approval, e.g. placed some of the approved orders
+    if (isApprovalGated(steps, step.id)) {
+      throw errorService.createError(ErrorCode.CONFLICT, `Step ${stepIndex} runs after an approval and cannot be retried; start a new run instead`);
+    }
+    const stepState = await state.get<{ status?: string }>('workflows', `${workflowId}:step:${stepIndex}`);
+    if (stepState?.status !== 'failed') {
+      throw errorService.createError(ErrorCode.CONFLICT, `Only failed steps can be retried (step ${stepIndex} is ${stepState?.status || 'pending'})`);
+    }
+
+    await state.set('workflows', `${workflowId}:step:${stepIndex}`, {
+      agent: step.agent,
+      task: step.task,
+      status: 'processing',
+      retriedAt: new Date().toISOString(),
+      startedAt: new Date().toISOString(),
+    });
+    await workflowExecutionService.restartStep(workflowId, step.id);
+
+    const change = await this.setStatus(state, workflow, 'running', { action: 'retry', reason: options.reason, stepIndex });
+    return { ...change, step };
+  }
+
+  /**
+   * Record a status change on the run (in state and workflow_runs); re-reads
+   * the record so concurrent step updates are not lost
+   */
+  async setStatus(
+    state: InternalStateManager,
+    workflow: WorkflowRecord,
+    to: WorkflowRunStatus,
+    details: Pick<WorkflowTransition, 'action' | 'reason' | 'stepIndex'> = {}
+  ): Promise<WorkflowStatusChange> {
+    const latest = await state.get<WorkflowRecord>('workflows', workflow.id) || workflow;
+    const transition: WorkflowTransition = {
+      from: getStatus(latest),
+      to,
+      ...details,
+      at: new Date().toISOString(),
+    };
+
+    const updated: WorkflowRecord = {
+      ...latest,
+      status: to,
+      transitions: [...(latest.transitions || []), transition],
+      lastUpdated: transition.at,
+    };
+    await state.set('workflows', workflow.id, updated);
+    await workflowExecutionService.updateRun(workflow.id, {
+      status: to,
+      ...(to === 'failed' && details.reason && { errorMessage: details.reason }),
+    });
+    return { workflow: updated, transition };
+  }
+}
+
+export function getStatus(workflow: Pick<WorkflowRecord, 'status'>): WorkflowRunStatus {
+  return workflow.status || 'started';
+}
+
+/**
+ * Whether finished steps may start the steps that depend on them
+ */
+export function canStartSteps(workflow: Pick<WorkflowRecord, 'status'>): boolean {
+  const status = getStatus(workflow);
+  return status === 'started' || status === 'running';
+}
+
+// Singleton instance
+export const workflowControlService = new WorkflowControlService();
@@ -0,0 +1,555 @@
+import { randomUUID } from 'crypto';
+import type { InternalStateManager } from 'motia';
+import { getSupabaseAdmin } from './supabase-admin';
+import { errorService, ErrorCode } from './error.service';
+import type { AgentResult } from './summary-generator.service';
+import type { WorkflowRunStatus } from './workflow-control.service';
+import { getReadySteps, getSinkSteps, SUMMARY_NODE_ID, type GraphStep } from './workflow-graph';
+
+export interface WorkflowRunInput {
+  /** Workflow run id, e.g. marketDebate-<traceId> */
+  workflowId: string;
+  /** Definition id, or 'adhoc' for agent lists picked by chat */
+  workflowKey: string;
+  definitionVersion?: number;
+  name?: string;
+  userId: string;
+  query: string;
+  steps: GraphStep[];
+  /** The run as stored in Motia state, kept so it can be rebuilt after a restart */
+  record: Record<string, unknown>;
+}
+
+export interface WorkflowStart<T extends GraphStep> {
+  workflowId: string;
+  workflowKey: string;
+  definitionVersion?: number;
+  /** Unset for ad-hoc agent lists */
+  name?: string;
+  agents: string[];
+  userId: string;
+  message: string;
+  steps: T[];
+  /** Stored in Motia state as the run */
+  record: Record<string, unknown>;
+  /** Extra fields of the workflow.started event, e.g. the estimate */
+  event?: Record<string, unknown>;
+}
+
+/** The parts of a step's context that starting a run needs */
+export interface WorkflowStartContext {
+  state: InternalStateManager;
+  emit: (event: any) => Promise<void>;
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflowKey: string;
+  definitionVersion?: number;
+  name?: string;
+  status: WorkflowRunStatus;
+  query: string;
+  summary?: string;
+  errorMessage?: string;
+  recoveryAttempts: number;
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface StepExecution {
+  stepId: string;
+  stepIndex: number;
+  agent: string;
+  task?: string;
+  status: 'pending' | 'running' | 'completed' | 'skipped' | 'failed' | 'cancelled';
+  result?: unknown;
+  errorMessage?: string;
+  executionTimeMs?: number;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface WorkflowRunUpdate {
+  status?: WorkflowRunStatus;
+  summary?: string;
+  errorMessage?: string;
+  recoveryAttempts?: number;
+}
+
+export interface ListRunsOptions {
+  status?: WorkflowRunStatus;
+  limit?: number;
+  /** Only runs started before this time (for paging) */
+  before?: string;
+}
+
+export interface WorkflowAdvance<T extends GraphStep> {
+  /** Steps this caller claimed and must start */
+  ready: Array<{ step: T; index: number }>;
+  /** True for exactly one caller once every step has finished */
+  complete: boolean;
+}
+
+interface WorkflowRunRow {
+  id: string;
+  workflow_key: string;
+  definition_version: number | null;
+  name: string | null;
+  status: WorkflowRunStatus;
+  query: string;
+  summary: string | null;
+  error_message: string | null;
+  recovery_attempts: number;
+  started_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  record?: Record<string, unknown>;
+}
+
+interface ExecutionRow {
+  step_id: string;
+  step_index: number;
+  agent_name: string;
+  task: string | null;
+  status: StepExecution['status'];
+  result: unknown;
+  error_message: string | null;
+  execution_time_ms: number | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const RUN_COLUMNS = 'id, workflow_key, definition_version, name, status, query, summary, error_message, recovery_attempts, started_at, updated_at, completed_at';
+const EXECUTION_COLUMNS = 'step_id, step_index, agent_name, task, status, result, error_message, execution_time_ms, started_at, completed_at';
+
+const TERMINAL_STATUSES: WorkflowRunStatus[] = ['cancelled', 'failed', 'completed'];
+
+/**
+ * Runs workflow steps as a dependency graph. Each step (and the summary that
+ * joins them) is an agent_executions row linked by agent_dependencies; a step
+ * starts when a caller wins the pending -> running update on its row, so joins
+ * reached by several parallel steps still start once. Without Supabase, claims
+ * fall back to markers in Motia state, which only narrows that race.
+ *
+ * Runs are also kept in workflow_runs so they outlive Motia state and can be
+ * listed per user.
+ */
+export class WorkflowExecutionService {
+  async createRun(run: WorkflowRunInput): Promise<void> {
+    const db = getSupabaseAdmin();
+    if (!db) return;
+
+    try {
+      const { error: runError } = await db.from('workflow_runs').insert({
+        id: run.workflowId,
+        user_id: UUID_PATTERN.test(run.userId) ? run.userId : null,
+        workflow_key: run.workflowKey,
+        definition_version: run.definitionVersion ?? null,
+        name: run.name ?? null,
+        status: 'started',
+        query: run.query,
+        record: run.record,
+      });
+      if (runError) throw new Error(runError.message);
+
+      const nodes = [
+        ...run.steps.map((step, index) => ({ stepId: step.id, agent: step.agent, task: step.task, index })),
+        { stepId: SUMMARY_NODE_ID, agent: SUMMARY_NODE_ID, task: 'Executive Summary and Synthesis', index: run.steps.length },
+      ];
+
+      const { data, error } = await db
+        .from('agent_executions')
+        .insert(nodes.map(node => ({
+          user_id: UUID_PATTERN.test(run.userId) ? run.userId : null,
+          query: run.query,
+          agent_name: node.agent,
+          assistant_type: node.agent,
+          workflow_id: run.workflowId,
+          step_id: node.stepId,
+          step_index: node.index,
+          task: node.task,
+          status: 'pending',
+        })))
+        .select('id, step_id');
+      if (error) throw new Error(error.message);
+
+      const executionIds = new Map((data || []).map(row => [row.step_id as string, row.id as string]));
+      const edges = [
+        ...run.steps.flatMap(step => step.dependsOn.map(dependency => [step.id, dependency])),
+        ...getSinkSteps(run.steps).map(step => [SUMMARY_NODE_ID, step.id]),
+      ];
+
+      if (edges.length > 0) {
+        const { error: edgeError } = await db.from('agent_dependencies').insert(edges.map(([stepId, dependency]) => ({
+          execution_id: executionIds.get(stepId),
+          depends_on_execution_id: executionIds.get(dependency),
+        })));
+        if (edgeError) throw new Error(edgeError.message);
+      }
+    } catch (error) {
+      // The run still executes from Motia state; only the persisted graph is missing
+      console.error('Failed to persist workflow run:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Persist a run, store it in state and start every step without
+   * dependencies. The run is only in state once it was persisted, and is
+   * removed again (and marked failed) if starting it fails, so a caller
+   * retrying the start is not told it already happened.
+   */
+  async startRun<T extends GraphStep>({ state, emit }: WorkflowStartContext, run: WorkflowStart<T>): Promise<void> {
+    await this.createRun({
+      workflowId: run.workflowId,
+      workflowKey: run.workflowKey,
+      definitionVersion: run.definitionVersion,
+      name: run.name,
+      userId: run.userId,
+      query: run.message,
+      steps: run.steps,
+      record: run.record,
+    });
+
+    try {
+      await state.set('workflows', run.workflowId, run.record);
+
+      await emit({
+        topic: 'workflow.started',
+        data: {
+          type: 'workflow.started',
+          workflowId: run.workflowId,
+          userId: run.userId,
+          name: run.name,
+          agents: run.agents,
+          steps: run.steps,
+          message: run.message,
+          ...run.event,
+        },
+      });
+
+      const { ready } = await this.advance(state, run.workflowId, run.steps);
+      for (const { step, index } of ready) {
+        await state.set('workflows', `${run.workflowId}:step:${index}`, {
+          agent: step.agent,
+          task: step.task,
+          status: 'processing',
+          startedAt: new Date().toISOString(),
+        });
+
+        await emit({
+          topic: 'workflow.agent.started',
+          data: {
+            workflowId: run.workflowId,
+            stepIndex: index,
+            agent: step.agent,
+            task: step.task,
+          },
+        });
+      }
+    } catch (error) {
+      await state.delete('workflows', run.workflowId).catch(() => undefined);
+      await this.updateRun(run.workflowId, {
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : 'Failed to start',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a step as started; false when another caller already did
+   */
+  async claimStep(state: InternalStateManager, workflowId: string, stepId: string): Promise<boolean> {
+    const db = getSupabaseAdmin();
+    if (db) {
+      try {
+        const { data, error } = await db
+          .from('agent_executions')
+          .update({ status: 'running', started_at: new Date().toISOString() })
+          .eq('workflow_id', workflowId)
+          .eq('step_id', stepId)
+          .eq('status', 'pending')
+          .select('id');
+        if (error) throw new Error(error.message);
+        if (data?.length) return true;
+
+        const { data: existing, error: existingError } = await db
+          .from('agent_executions')
+          .select('id')
+          .eq('workflow_id', workflowId)
+          .eq('step_id', stepId)
+          .maybeSingle();
+        if (existingError) throw new Error(existingError.message);
+        // A persisted step that was not pending has been claimed already
+        if (existing) return false;
+      } catch (error) {
+        console.error('Workflow step claim failed, using state:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    // State has no compare-and-set: the last writer wins, and re-reading keeps
+    // callers that raced on the same step from both proceeding
+    const key = `${workflowId}:claim:${stepId}`;
+    if (await state.get('workflows', key)) return false;
+    const token = randomUUID();
+    await state.set('workflows', key, { token, claimedAt: new Date().toISOString() });
+    const claim = await state.get<{ token: string }>('workflows', key);
+    return claim?.token === token;
+  }
+
+  async completeStep(workflowId: string, stepId: string, result: unknown, executionTimeMs: number): Promise<void> {
+    await this.finishStep(workflowId, stepId, { status: 'completed', result, execution_time_ms: executionTimeMs });
+  }
+
+  /**
+   * A step that failed but may be left out; it counts as finished for its dependents
+   */
+  async skipStep(workflowId: string, stepId: string, result: unknown, errorMessage: string, executionTimeMs: number): Promise<void> {
+    await this.finishStep(workflowId, stepId, { status: 'skipped', result, error_message: errorMessage, execution_time_ms: executionTimeMs });
+  }
+
+  async failStep(workflowId: string, stepId: string, errorMessage: string, executionTimeMs: number): Promise<void> {
+    await this.finishStep(workflowId, stepId, { status: 'failed', error_message: errorMessage, execution_time_ms: executionTimeMs });
+  }
+
+  async updateRun(workflowId: string, update: WorkflowRunUpdate): Promise<void> {
+    const db = getSupabaseAdmin();
+    if (!db) return;
+
+    const { error } = await db
+      .from('workflow_runs')
+      .update({
+        ...(update.status && { status: update.status }),
+        ...(update.status && TERMINAL_STATUSES.includes(update.status) && { completed_at: new Date().toISOString() }),
+        ...(update.summary !== undefined && { summary: update.summary }),
+        ...(update.errorMessage !== undefined && { error_message: update.errorMessage }),
+        ...(update.recoveryAttempts !== undefined && { recovery_attempts: update.recoveryAttempts }),
+      })
+      .eq('id', workflowId);
+    if (error) console.error(`Failed to update workflow run ${workflowId}:`, error.message);
+  }
+
+  /**
+   * A user's runs, newest first
+   */
+  async listRuns(userId: string, options: ListRunsOptions = {}): Promise<WorkflowRun[]> {
+    const db = getSupabaseAdmin();
+    if (!db) return [];
+
+    let query = db.from('workflow_runs').select(RUN_COLUMNS).eq('user_id', userId);
+    if (options.status) query = query.eq('status', options.status);
+    if (options.before) query = query.lt('started_at', options.before);
+
+    const { data, error } = await query.order('started_at', { ascending: false }).limit(options.limit || 20);
+    if (error) throw new Error(error.message);
+    return ((data || []) as WorkflowRunRow[]).map(row => this.fromRunRow(row));
+  }
+
+  /**
+   * One run of the user with its step executions
+   */
+  async getRun(userId: string, workflowId: string): Promise<WorkflowRun & { steps: StepExecution[] }> {
+    const db = getSupabaseAdmin();
+    if (!db) {
+      throw errorService.createError(ErrorCode.SERVICE_UNAVAILABLE, 'Workflow history requires Supabase');
+    }
+
+    const { data, error } = await db
+      .from('workflow_runs')
+      .select(RUN_COLUMNS)
+      .eq('id', workflowId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!data) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Workflow run not found: ${workflowId}`);
+    }
+
+    return { ...this.fromRunRow(data as WorkflowRunRow), steps: await this.getExecutions(workflowId) };
+  }
+
+  /**
+   * Runs still marked started, running or awaiting approval, oldest first
+   */
+  async getActiveRuns(limit: number): Promise<Array<WorkflowRun & { record: Record<string, unknown> }>> {
+    const db = getSupabaseAdmin();
+    if (!db) return [];
+
+    const { data, error } = await db
+      .from('workflow_runs')
+      .select(`${RUN_COLUMNS}, record`)
+      .in('status', ['started', 'running', 'awaiting_approval'])
+      .order('started_at', { ascending: true })
+      .limit(limit);
+    if (error) throw new Error(error.message);
+    return ((data || []) as WorkflowRunRow[]).map(row => ({ ...this.fromRunRow(row), record: row.record || {} }));
+  }
+
+  async getExecutions(workflowId: string): Promise<StepExecution[]> {
+    const db = getSupabaseAdmin();
+    if (!db) return [];
+
+    const { data, error } = await db
+      .from('agent_executions')
+      .select(EXECUTION_COLUMNS)
+      .eq('workflow_id', workflowId)
+      .order('step_index', { ascending: true });
+    if (error) throw new Error(error.message);
+
+    return ((data || []) as ExecutionRow[]).map(row => ({
+      stepId: row.step_id,
+      stepIndex: row.step_index,
+      agent: row.agent_name,
+      task: row.task ?? undefined,
+      status: row.status,
+      result: row.result ?? undefined,
+      errorMessage: row.error_message ?? undefined,
+      executionTimeMs: row.execution_time_ms ?? undefined,
+      startedAt: row.started_at ?? undefined,
+      completedAt: row.completed_at ?? undefined,
+    }));
+  }
+
+  /**
+   * Put a failed step back to running for a retry
+   */
+  async restartStep(workflowId: string, stepId: string): Promise<void> {
+    const db = getSupabaseAdmin();
+    if (!db) return;
+
+    const { error } = await db
+      .from('agent_executions')
+      .update({ status: 'running', started_at: new Date().toISOString(), error_message: null, completed_at: null })
+      .eq('workflow_id', workflowId)
+      .eq('step_id', stepId);
+    if (error) console.error(`Failed to restart workflow step ${stepId}:`, error.message);
+  }
+
+  /**
+   * Mark every step that has not finished as cancelled (or failed)
+   */
+  async abortRun(workflowId: string, status: 'cancelled' | 'failed', errorMessage?: string): Promise<void> {
+    const db = getSupabaseAdmin();
+    if (!db) return;
+
+    const { error } = await db
+      .from('agent_executions')
+      .update({ status, error_message: errorMessage ?? null, completed_at: new Date().toISOString() })
+      .eq('workflow_id', workflowId)
+      .in('status', ['pending', 'running']);
+    if (error) console.error(`Failed to abort workflow ${workflowId}:`, error.message);
+  }
+
+  /**
+   * Results of the given steps (all steps by default) in step order
+   */
+  async getResults(state: InternalStateManager, workflowId: string, steps: GraphStep[], stepIds?: string[]): Promise<AgentResult[]> {
+    const results: AgentResult[] = [];
+    for (const [index, step] of steps.entries()) {
+      if (stepIds && !stepIds.includes(step.id)) continue;
+      const result = await state.get<AgentResult>('workflows', `${workflowId}:result:${index}`);
+      if (result) results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * Skip every step that has not started, claiming each so it cannot start
+   * afterwards (a workflow ending early); steps already running still finish
+   */
+  async skipUnstarted<T extends GraphStep>(
+    state: InternalStateManager,
+    workflowId: string,
+    steps: T[],
+    toResult: (step: T) => AgentResult & { skipped: NonNullable<AgentResult['skipped']> }
+  ): Promise<Array<{ step: T; index: number; result: AgentResult }>> {
+    const skipped: Array<{ step: T; index: number; result: AgentResult }> = [];
+    for (const [index, step] of steps.entries()) {
+      if (await state.get('workflows', `${workflowId}:result:${index}`)) continue;
+      if (await state.get('workflows', `${workflowId}:step:${index}`)) continue;
+      if (!(await this.claimStep(state, workflowId, step.id))) continue;
+
+      const result = toResult(step);
+      await state.set('workflows', `${workflowId}:result:${index}`, result);
+      await this.skipStep(workflowId, step.id, result, result.skipped.error, 0);
+      skipped.push({ step, index, result });
+    }
+    return skipped;
+  }
+
+  /**
+   * Structured outputs of the finished steps by step id, as read by step conditions
+   */
+  async getOutputs(state: InternalStateManager, workflowId: string, steps: GraphStep[]): Promise<Record<string, unknown>> {
+    const outputs: Record<string, unknown> = {};
+    for (const [index, step] of steps.entries()) {
+      const result = await state.get<AgentResult>('workflows', `${workflowId}:result:${index}`);
+      if (result?.output && !result.skipped) outputs[step.id] = result.output;
+    }
+    return outputs;
+  }
+
+  /**
+   * Claim every step that became runnable, and the completion once all are
+   * done. Paused runs pass `startReady: false` and can still complete.
+   */
+  async advance<T extends GraphStep>(
+    state: InternalStateManager,
+    workflowId: string,
+    steps: T[],
+    options: { startReady?: boolean } = {}
+  ): Promise<WorkflowAdvance<T>> {
+    const finished = new Set<string>();
+    const started = new Set<string>();
+    for (const [index, step] of steps.entries()) {
+      if (await state.get('workflows', `${workflowId}:result:${index}`)) finished.add(step.id);
+      else if (await state.get('workflows', `${workflowId}:step:${index}`)) started.add(step.id);
+    }
+
+    const ready: WorkflowAdvance<T>['ready'] = [];
+    const candidates = options.startReady === false ? [] : getReadySteps(steps, finished, started);
+    for (const step of candidates) {
+      if (await this.claimStep(state, workflowId, step.id)) {
+        ready.push({ step, index: steps.indexOf(step) });
+      }
+    }
+
+    const complete = finished.size === steps.length && await this.claimStep(state, workflowId, SUMMARY_NODE_ID);
+    return { ready, complete };
+  }
+
+  private fromRunRow(row: WorkflowRunRow): WorkflowRun {
+    return {
+      id: row.id,
+      workflowKey: row.workflow_key,
+      definitionVersion: row.definition_version ?? undefined,
+      name: row.name ?? undefined,
+      status: row.status,
+      query: row.query,
+      summary: row.summary ?? undefined,
+      errorMessage: row.error_message ?? undefined,
+      recoveryAttempts: row.recovery_attempts,
+      startedAt: row.started_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at ?? undefined,
+    };
+  }
+
+  private async finishStep(workflowId: string, stepId: string, update: Record<string, unknown>): Promise<void> {
+    const db = getSupabaseAdmin();
+    if (!db) return;
+
+    const { error } = await db
+      .from('agent_executions')
+      .update({ ...update, completed_at: new Date().toISOString() })
+      .eq('workflow_id', workflowId)
+      .eq('step_id', stepId);
+    if (error) console.error(`Failed to record workflow step ${stepId}:`, error.message);
+  }
+}
+
+// Singleton instance
+export const workflowExecutionService = new WorkflowExecutionService();
@@ -0,0 +1,136 @@
+/**
+ * Workflow steps as a dependency graph. A step starts once every step in its
+ * `dependsOn` has finished; steps without dependencies start together.
+ */
+
+export interface GraphStep {
+  id: string;
+  agent: string;
+  task: string;
+  dependsOn: string[];
+}
+
+/** Id of the node that joins every step before the executive summary */
+export const SUMMARY_NODE_ID = 'summary';
+
+/** Stands in for the agent of approval steps, which the user answers */
+export const APPROVAL_AGENT = 'approval';
+
+/** Stands in for the agent of debate steps, which several agents argue */
+export const DEBATE_AGENT = 'debate';
+
+/**
+ * Graph steps for a stored workflow. Definitions that omit `dependsOn` (and
+ * runs started from a plain agent list) keep running one step after another.
+ */
+export function toGraphSteps<T extends { agent: string; task?: string; id?: string; dependsOn?: string[] }>(
+  steps: Array<string | T>
+): Array<GraphStep & Partial<T>> {
+  const ids = steps.map((step, index) => (typeof step === 'string' ? undefined : step.id) || `step-${index}`);
+
+  return steps.map((step, index) => {
+    const base = typeof step === 'string' ? { agent: step, task: `Process with ${step}` } : step;
+    return {
+      ...base,
+      id: ids[index],
+      task: base.task || `Process with ${base.agent}`,
+      dependsOn: (typeof step === 'string' ? undefined : step.dependsOn) ?? (index > 0 ? [ids[index - 1]] : []),
+    } as GraphStep & Partial<T>;
+  });
+}
+
+/**
+ * Steps that (directly or transitively) depend on the given step
+ */
+export function getDependentSteps<T extends GraphStep>(steps: T[], stepId: string): T[] {
+  const dependents = new Set<string>([stepId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const step of steps) {
+      if (!dependents.has(step.id) && step.dependsOn.some(dependency => dependents.has(dependency))) {
+        dependents.add(step.id);
+        added = true;
+      }
+    }
+  }
+  return steps.filter(step => step.id !== stepId && dependents.has(step.id));
+}
+
+/**
+ * Steps the given step (directly or transitively) depends on; they have all
+ * finished by the time it starts
+ */
+export function getDependencySteps<T extends GraphStep>(steps: T[], stepId: string): T[] {
+  const byId = new Map(steps.map(step => [step.id, step]));
+  const dependencies = new Set<string>();
+  const queue = [...(byId.get(stepId)?.dependsOn || [])];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (dependencies.has(id) || !byId.has(id)) continue;
+    dependencies.add(id);
+    queue.push(...(byId.get(id) as T).dependsOn);
+  }
+  return steps.filter(step => dependencies.has(step.id));
+}
+
+/**
+ * Whether the step only runs once the user approved something (e.g. orders).
+ * Such steps act on the approval, so they run once: no retries, no fallback.
+ */
+export function isApprovalGated<T extends GraphStep & { type?: string }>(steps: T[], stepId: string): boolean {
+  return getDependencySteps(steps, stepId).some(step => step.type === 'approval');
+}
+
+/**
+ * Problems that make a graph unrunnable: unknown or self dependencies and cycles
+ */
+export function findGraphErrors(steps: Array<{ id: string; dependsOn?: string[] }>): string[] {
+  const errors: string[] = [];
+  const ids = new Set(steps.map(step => step.id));
+  if (ids.has(SUMMARY_NODE_ID)) errors.push(`Step id "${SUMMARY_NODE_ID}" is reserved`);
+
+  for (const step of steps) {
+    for (const dependency of step.dependsOn || []) {
+      if (dependency === step.id) errors.push(`Step "${step.id}" depends on itself`);
+      else if (!ids.has(dependency)) errors.push(`Step "${step.id}" depends on unknown step "${dependency}"`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  // Kahn's algorithm; whatever cannot be ordered is on a cycle
+  const remaining = new Map(steps.map(step => [step.id, new Set(step.dependsOn || [])]));
+  let progressed = true;
+  while (remaining.size > 0 && progressed) {
+    progressed = false;
+    for (const [id, dependencies] of remaining) {
+      if (Array.from(dependencies).every(dependency => !remaining.has(dependency))) {
+        remaining.delete(id);
+        progressed = true;
+      }
+    }
+  }
+  if (remaining.size > 0) {
+    errors.push(`Dependency cycle between steps: ${Array.from(remaining.keys()).join(', ')}`);
+  }
+  return errors;
+}
+
+/**
+ * Steps whose dependencies have all finished and that have not started yet
+ */
+export function getReadySteps<T extends GraphStep>(steps: T[], finished: Set<string>, started: Set<string>): T[] {
+  return steps.filter(step =>
+    !finished.has(step.id) &&
+    !started.has(step.id) &&
+    step.dependsOn.every(dependency => finished.has(dependency))
+  );
+}
+
+/**
+ * Steps nothing else depends on; the summary joins these
+ */
+export function getSinkSteps<T extends GraphStep>(steps: T[]): T[] {
+  const dependedOn = new Set(steps.flatMap(step => step.dependsOn));
+  return steps.filter(step => !dependedOn.has(step.id));
+}
@@ -0,0 +1,98 @@
+import { errorService, ErrorCode } from './error.service';
+import { renderPromptTemplate } from './prompt-registry.service';
+import type { WorkflowInput } from '../schemas/workflow.schemas';
+
+/**
+ * Typed inputs of workflow definitions. Callers pass a loose context (from a
+ * request body, a schedule or chat); each definition declares the inputs it
+ * takes, and the resolved values fill `{{name}}` placeholders in step tasks
+ * and the agents' prompt templates.
+ */
+
+export type WorkflowInputValue = string | number | boolean | string[];
+export type WorkflowInputValues = Record<string, WorkflowInputValue>;
+
+const TYPE_NAMES = new Map<WorkflowInput['type'], string>([
+  ['string', 'a string'],
+  ['number', 'a number'],
+  ['boolean', 'true or false'],
+  ['string[]', 'a list of strings'],
+]);
+
+/**
+ * Apply defaults to the values a definition declares, coercing strings from
+ * forms and query strings ("AAPL, MSFT", "5", "true"). Values the definition
+ * does not declare are dropped, as one context is shared by every workflow.
+ * Throws VALIDATION_ERROR listing every invalid input.
+ */
+export function resolveWorkflowInputs(
+  inputs: Record<string, WorkflowInput>,
+  values: Record<string, unknown> = {}
+): WorkflowInputValues {
+  const resolved: WorkflowInputValues = {};
+  const issues: string[] = [];
+
+  for (const [name, input] of Object.entries(inputs)) {
+    const raw = values[name];
+    if (isMissing(raw)) {
+      if (input.default !== undefined) resolved[name] = input.default;
+      else if (input.required) issues.push(`${name} is required`);
+      continue;
+    }
+
+    const value = coerce(raw, input.type);
+    if (value === undefined) {
+      issues.push(`${name} must be ${TYPE_NAMES.get(input.type)}`);
+      continue;
+    }
+    const invalid = input.enum && (Array.isArray(value) ? value : [String(value)]).filter(item => !input.enum?.includes(item));
+    if (invalid && invalid.length > 0) {
+      issues.push(`${name} must be one of ${input.enum?.join(', ')} (got ${invalid.join(', ')})`);
+      continue;
+    }
+    resolved[name] = value;
+  }
+
+  if (issues.length > 0) {
+    throw errorService.createError(ErrorCode.VALIDATION_ERROR, `Invalid workflow inputs: ${issues.join('; ')}`, { issues });
+  }
+  return resolved;
+}
+
+/**
+ * Resolve a definition's inputs and fill them into its step tasks; runs store
+ * both, so resumed and recovered runs see the same tasks
+ */
+export function prepareWorkflowRun<T extends { task: string }>(
+  definition: { inputs: Record<string, WorkflowInput>; steps: T[] },
+  values?: Record<string, unknown>
+): { context: WorkflowInputValues; steps: T[] } {
+  const context = resolveWorkflowInputs(definition.inputs, values);
+  return {
+    context,
+    steps: definition.steps.map(step => ({ ...step, task: renderPromptTemplate(step.task, context) })),
+  };
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function coerce(value: unknown, type: WorkflowInput['type']): WorkflowInputValue | undefined {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : undefined;
+    case 'number': {
+      const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      return value === 'true' ? true : value === 'false' ? false : undefined;
+    case 'string[]': {
+      const items = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : undefined;
+      if (!items || items.some(item => typeof item !== 'string')) return undefined;
+      return (items as string[]).map(item => item.trim()).filter(Boolean);
+    }
+  }
+}
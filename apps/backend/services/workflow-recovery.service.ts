@@ -0,0 +1,194 @@
+import type { InternalStateManager } from 'motia';
+import { workflowsConfig } from '../config/workflows.config';
+import type { WorkflowStep } from '../schemas/workflow.schemas';
+import type { AgentResult } from './summary-generator.service';
+import { workflowApprovalService } from './workflow-approval.service';
+import { workflowControlService, type WorkflowRecord, type WorkflowStatusChange } from './workflow-control.service';
+import { workflowExecutionService, type StepExecution, type WorkflowRun } from './workflow-execution.service';
+import { isApprovalGated, SUMMARY_NODE_ID, toGraphSteps, type GraphStep } from './workflow-graph';
+import { getStepBudgetMs, getStepPolicy } from './workflow-step-runner';
+
+export interface RecoveryOptions {
+  staleAfterMs: number;
+  maxAttempts: number;
+  batchSize: number;
+  now?: number;
+}
+
+export type RecoveryOutcome =
+  /** Steps were started again (or the run was only rebuilt in state) */
+  | { workflowId: string; userId: string; action: 'resumed'; restart: Array<{ step: GraphStep; index: number }> }
+  /** Every step had finished; the summary still has to be written */
+  | { workflowId: string; userId: string; action: 'finalize' }
+  | { workflowId: string; userId: string; action: 'failed'; change: WorkflowStatusChange };
+
+type ActiveRun = WorkflowRun & { record: Record<string, unknown> };
+
+type RecoveryStep = GraphStep & Partial<WorkflowStep>;
+
+/**
+ * Picks up runs that a backend restart left behind. workflow_runs says which
+ * runs should still be going; a run is orphaned when Motia state no longer
+ * has it (in-memory state after a restart) or nothing happened to it for
+ * `staleAfterMs` while none of its running steps is within its own time
+ * limit. Orphans are rebuilt in state from their step executions and resumed,
+ * or failed once they ran out of recovery attempts or time. Steps that ran
+ * after an approval are never started again, since they may already have
+ * acted on it (e.g. placed orders): their run fails instead. Runs awaiting
+ * approval are only restored in state; the approval's own expiry decides what
+ * happens to them.
+ */
+export class WorkflowRecoveryService {
+  async recover(
+    state: InternalStateManager,
+    options: RecoveryOptions = workflowsConfig.recovery
+  ): Promise<RecoveryOutcome[]> {
+    const now = options.now ?? Date.now();
+    const outcomes: RecoveryOutcome[] = [];
+
+    for (const run of await workflowExecutionService.getActiveRuns(options.batchSize)) {
+      try {
+        const outcome = await this.recoverRun(state, run, options, now);
+        if (outcome) outcomes.push(outcome);
+      } catch (error) {
+        console.error(`Failed to recover workflow ${run.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return outcomes;
+  }
+
+  private async recoverRun(
+    state: InternalStateManager,
+    run: ActiveRun,
+    options: RecoveryOptions,
+    now: number
+  ): Promise<RecoveryOutcome | null> {
+    const executions = await workflowExecutionService.getExecutions(run.id);
+    const stored = await state.get<WorkflowRecord>('workflows', run.id);
+
+    // Runs waiting on the user are idle on purpose; only their state needs restoring
+    if (run.status === 'awaiting_approval') {
+      if (!stored) {
+        await this.rebuild(state, run, executions);
+        await workflowApprovalService.restore(state, run.id);
+      }
+      return null;
+    }
+
+    const record = stored || run.record as Partial<WorkflowRecord>;
+    const steps = toGraphSteps<WorkflowStep>((record.steps || record.agents || []) as Array<string | WorkflowStep>);
+    const timeoutMs = Number(record.timeoutMs) || workflowsConfig.defaultTimeoutMs;
+    const running = executions.filter(execution => execution.status === 'running' && steps[execution.stepIndex]?.id === execution.stepId);
+
+    // A slow step (a debate runs up to the run's timeout) reports no activity until it finishes
+    const busy = running.some(execution =>
+      execution.startedAt && now - Date.parse(execution.startedAt) < getStepTimeLimit(steps, steps[execution.stepIndex], timeoutMs));
+    if (stored && (now - lastActivity(run, executions) < options.staleAfterMs || busy)) return null;
+
+    const workflow = stored || await this.rebuild(state, run, executions);
+    const userId = workflow.userId;
+
+    // It may have placed some of the approved orders before the interruption
+    const interrupted = running.find(execution => isApprovalGated(steps, execution.stepId));
+
+    const reason = run.recoveryAttempts >= options.maxAttempts
+      ? `Interrupted ${run.recoveryAttempts + 1} times`
+      : now - Date.parse(run.startedAt) > timeoutMs
+        ? 'Interrupted and past its timeout'
+        : interrupted
+          ? `Interrupted while "${steps[interrupted.stepIndex].task}" acted on an approval; it is not run again, so check what it did before starting a new run`
+          : undefined;
+    if (reason) {
+      const change = await workflowControlService.setStatus(state, workflow, 'failed', { reason });
+      await workflowExecutionService.abortRun(run.id, 'failed', reason);
+      return { workflowId: run.id, userId, action: 'failed', change };
+    }
+
+    await workflowExecutionService.updateRun(run.id, { recoveryAttempts: run.recoveryAttempts + 1 });
+
+    const summary = executions.find(execution => execution.stepId === SUMMARY_NODE_ID);
+    if (summary?.status === 'running' || summary?.status === 'completed') {
+      return { workflowId: run.id, userId, action: 'finalize' };
+    }
+
+    // Steps whose process went away restart as they were; the rest of the
+    // graph (including the summary) continues from what has finished
+    const restart = running.map(execution => ({ step: steps[execution.stepIndex], index: execution.stepIndex }));
+    for (const { step, index } of restart) {
+      await workflowExecutionService.restartStep(run.id, step.id);
+      await this.markProcessing(state, run.id, step, index);
+    }
+
+    const { ready, complete } = await workflowExecutionService.advance(state, run.id, steps);
+    if (complete) return { workflowId: run.id, userId, action: 'finalize' };
+
+    for (const { step, index } of ready) {
+      await this.markProcessing(state, run.id, step, index);
+    }
+    return { workflowId: run.id, userId, action: 'resumed', restart: [...restart, ...ready] };
+  }
+
+  private async markProcessing(state: InternalStateManager, workflowId: string, step: GraphStep, index: number): Promise<void> {
+    await state.set('workflows', `${workflowId}:step:${index}`, {
+      agent: step.agent,
+      task: step.task,
+      status: 'processing',
+      startedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Restore a run and its finished steps in state from workflow_runs and agent_executions
+   */
+  private async rebuild(state: InternalStateManager, run: ActiveRun, executions: StepExecution[]): Promise<WorkflowRecord> {
+    const workflow: WorkflowRecord = {
+      ...(run.record as Partial<WorkflowRecord>),
+      id: run.id,
+      userId: String(run.record.userId),
+      status: run.status,
+      recoveredAt: new Date().toISOString(),
+    };
+    await state.set('workflows', run.id, workflow);
+
+    for (const execution of executions) {
+      if (execution.stepId === SUMMARY_NODE_ID) continue;
+
+      if ((execution.status === 'completed' || execution.status === 'skipped') && isAgentResult(execution.result)) {
+        await state.set('workflows', `${run.id}:result:${execution.stepIndex}`, execution.result);
+        await state.set('workflows', `${run.id}:step:${execution.stepIndex}`, {
+          agent: execution.agent,
+          task: execution.task,
+          status: execution.status,
+          startedAt: execution.startedAt,
+          completedAt: execution.completedAt,
+        });
+      }
+    }
+    return workflow;
+  }
+}
+
+/**
+ * How long a step may run before it is taken for orphaned: a debate gets the
+ * run's timeout, other steps every attempt their policy allows
+ */
+function getStepTimeLimit(steps: RecoveryStep[], step: RecoveryStep, runTimeoutMs: number): number {
+  if (step.type === 'debate') return runTimeoutMs;
+  return getStepBudgetMs(getStepPolicy(step, { approvalGated: isApprovalGated(steps, step.id) }));
+}
+
+function lastActivity(run: WorkflowRun, executions: StepExecution[]): number {
+  return Math.max(
+    Date.parse(run.updatedAt),
+    ...executions.flatMap(execution => [execution.startedAt, execution.completedAt])
+      .filter((time): time is string => Boolean(time))
+      .map(time => Date.parse(time))
+  );
+}
+
+function isAgentResult(value: unknown): value is AgentResult {
+  return typeof value === 'object' && value !== null && typeof (value as AgentResult).result === 'string';
+}
+
+// Singleton instance
+export const workflowRecoveryService = new WorkflowRecoveryService();
@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import { setTimeout, clearTimeout } from 'timers';
+import { workflowsConfig } from '../config/workflows.config';
+import { workflowDefinitionSchema, type WorkflowDefinition } from '../schemas/workflow.schemas';
+
+export interface RegisteredWorkflow extends WorkflowDefinition {
+  /** Agents in step order, without duplicates */
+  agents: string[];
+  /** File the definition was loaded from, relative to the workflows directory */
+  file: string;
+}
+
+export interface WorkflowLoadError {
+  file: string;
+  message: string;
+}
+
+/**
+ * Workflow definitions read from versioned JSON files. Loaded on first use
+ * and, in development, reloaded whenever a file in the directory changes.
+ * A file that fails validation is skipped (or, on reload, keeps its last
+ * valid version) so one bad edit cannot take every workflow down.
+ */
+export class WorkflowRegistry {
+  private workflows = new Map<string, RegisteredWorkflow>();
+  private errors: WorkflowLoadError[] = [];
+  private loaded = false;
+  private watcher?: fs.FSWatcher;
+  private reloadTimer?: ReturnType<typeof setTimeout>;
+  private loadListeners: Array<() => void> = [];
+
+  constructor(
+    private readonly directory: string = workflowsConfig.directory,
+    private readonly hotReload: boolean = workflowsConfig.hotReload
+  ) {}
+
+  list(): RegisteredWorkflow[] {
+    this.ensureLoaded();
+    return Array.from(this.workflows.values());
+  }
+
+  get(workflowId: string): RegisteredWorkflow | undefined {
+    this.ensureLoaded();
+    return this.workflows.get(workflowId);
+  }
+
+  /**
+   * Files skipped during the last load
+   */
+  getErrors(): WorkflowLoadError[] {
+    this.ensureLoaded();
+    return [...this.errors];
+  }
+
+  /**
+   * Re-read every definition file
+   */
+  load(): { loaded: string[]; errors: WorkflowLoadError[] } {
+    const previous = this.workflows;
+    const workflows = new Map<string, RegisteredWorkflow>();
+    const errors: WorkflowLoadError[] = [];
+
+    let files: string[] = [];
+    try {
+      files = fs.readdirSync(this.directory).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+      errors.push({ file: this.directory, message: error instanceof Error ? error.message : 'Unreadable directory' });
+    }
+
+    for (const file of files) {
+      try {
+        const workflow = this.readDefinition(file);
+        const duplicate = workflows.get(workflow.id);
+        if (duplicate) {
+          throw new Error(`Workflow id "${workflow.id}" is already defined in ${duplicate.file}`);
+        }
+        workflows.set(workflow.id, workflow);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Invalid definition';
+        errors.push({ file, message });
+        // Keep serving the last valid version of a definition that was being edited
+        const fallback = Array.from(previous.values()).find(workflow => workflow.file === file);
+        if (fallback && !workflows.has(fallback.id)) workflows.set(fallback.id, fallback);
+      }
+    }
+
+    for (const error of errors) {
+      console.error(`Workflow definition ${error.file} skipped: ${error.message}`);
+    }
+
+    this.workflows = workflows;
+    this.errors = errors;
+    this.loaded = true;
+    for (const listener of this.loadListeners) listener();
+    return { loaded: Array.from(workflows.keys()), errors };
+  }
+
+  /**
+   * Call `listener` after every load, including hot reloads
+   */
+  onLoad(listener: () => void): void {
+    this.loadListeners.push(listener);
+  }
+
+  /**
+   * Stop watching the directory
+   */
+  close(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.load();
+    if (this.hotReload) this.watch();
+  }
+
+  private watch(): void {
+    try {
+      this.watcher = fs.watch(this.directory, () => {
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => this.load(), workflowsConfig.reloadDebounceMs);
+      });
+      // Watching must never keep the process alive
+      this.watcher.unref();
+    } catch (error) {
+      console.warn('Workflow hot reload unavailable:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private readDefinition(file: string): RegisteredWorkflow {
+    const raw = JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf8'));
+    const parsed = workflowDefinitionSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issues = parsed.error.errors.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      throw new Error(issues.join('; '));
+    }
+
+    return {
+      ...parsed.data,
+      agents: Array.from(new Set(parsed.data.steps.flatMap(step =>
+        step.type === 'debate' ? step.debate?.participants ?? [] : step.type === 'agent' ? [step.agent] : []
+      ))),
+      file,
+    };
+  }
+}
+
+// Singleton instance
+export const workflowRegistry = new WorkflowRegistry();
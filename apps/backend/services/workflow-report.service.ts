@@ -0,0 +1,532 @@
+import type { InternalStateManager } from 'motia';
+import { workflowsConfig } from '../config/workflows.config';
+import type { AgentOutput } from '../schemas/agent-output.schemas';
+import { errorService, ErrorCode } from './error.service';
+import { PdfWriter, type TextRun } from './pdf-writer';
+import { formatMetricValue, formatPrice } from './report-formatter.service';
+import type { AgentResult } from './summary-generator.service';
+import { getStatus } from './workflow-control.service';
+import { workflowExecutionService } from './workflow-execution.service';
+import { SUMMARY_NODE_ID, toGraphSteps } from './workflow-graph';
+import { workflowRegistry } from './workflow-registry.service';
+
+export const REPORT_FORMATS = ['pdf', 'html', 'md', 'json'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+/**
+ * Format-neutral content of a report; text may contain inline markdown
+ * (bold, italics, code, links)
+ */
+export type ReportBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; columns: string[]; rows: string[][] }
+  | { type: 'chart'; title: string; unit?: string; bars: Array<{ label: string; value: number }> }
+  | { type: 'rule' };
+
+export interface ReportSection {
+  agent: string;
+  title: string;
+  task: string;
+  status: 'completed' | 'skipped';
+  completedAt?: string;
+  blocks: ReportBlock[];
+}
+
+export interface WorkflowReport {
+  workflowId: string;
+  title: string;
+  brand: string;
+  query: string;
+  status: string;
+  startedAt?: string;
+  completedAt?: string;
+  generatedAt: string;
+  summary: ReportBlock[];
+  sections: ReportSection[];
+  disclaimer: string;
+}
+
+/** A run's results, from state while it is recent or from workflow_runs after */
+export interface WorkflowReportSource {
+  workflowId: string;
+  name?: string;
+  query: string;
+  status: string;
+  startedAt?: string;
+  completedAt?: string;
+  results: AgentResult[];
+  summary?: string;
+}
+
+export interface ReportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer | string;
+}
+
+const CONTENT_TYPES = new Map<ReportFormat, string>([
+  ['pdf', 'application/pdf'],
+  ['html', 'text/html; charset=utf-8'],
+  ['md', 'text/markdown; charset=utf-8'],
+  ['json', 'application/json'],
+]);
+
+const AGENT_TITLES = new Map<string, string>([
+  ['analyst', 'Financial Analysis'],
+  ['trader', 'Trading Analysis'],
+  ['advisor', 'Investment Advice'],
+  ['riskManager', 'Risk Assessment'],
+  ['economist', 'Macroeconomic Analysis'],
+  ['debate', 'Debate Verdict'],
+  ['approval', 'Approval'],
+]);
+
+const SEVERITY_ORDER = new Map([['high', 0], ['medium', 1], ['low', 2]]);
+
+/**
+ * Downloadable reports of workflow runs: the executive summary, then one
+ * section per step with its structured output as tables and charts.
+ * Rendered as PDF (locally, see pdf-writer), standalone HTML, Markdown or
+ * the JSON model the others are rendered from.
+ */
+export class WorkflowReportService {
+  /**
+   * A run's results by workflow id. `userId` must own the run; runs no
+   * longer in state are read from workflow_runs, which needs it.
+   */
+  async load(state: InternalStateManager, workflowId: string, userId?: string): Promise<WorkflowReportSource> {
+    const record: any = await state.get('workflows', workflowId);
+    if (record && (!userId || record.userId === userId)) {
+      const steps = toGraphSteps(record.steps || record.agents || []);
+      return {
+        workflowId,
+        name: workflowRegistry.get(record.workflowId)?.name,
+        query: record.message,
+        status: getStatus(record),
+        startedAt: record.startedAt,
+        completedAt: record.completedAt,
+        results: await workflowExecutionService.getResults(state, workflowId, steps),
+        summary: record.summary,
+      };
+    }
+    if (!userId) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Workflow not found: ${workflowId}`);
+    }
+
+    const run = await workflowExecutionService.getRun(userId, workflowId);
+    return {
+      workflowId,
+      name: run.name,
+      query: run.query,
+      status: run.status,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt,
+      results: run.steps
+        .filter(step => step.stepId !== SUMMARY_NODE_ID && step.result && typeof step.result === 'object')
+        .map(step => step.result as AgentResult),
+      summary: run.summary,
+    };
+  }
+
+  build(source: WorkflowReportSource, now = new Date()): WorkflowReport {
+    const { brandName, disclaimer } = workflowsConfig.export;
+    return {
+      workflowId: source.workflowId,
+      title: source.name || 'Workflow Report',
+      brand: brandName,
+      query: source.query,
+      status: source.status,
+      startedAt: source.startedAt,
+      completedAt: source.completedAt,
+      generatedAt: now.toISOString(),
+      summary: source.summary ? parseMarkdown(source.summary) : [],
+      sections: source.results.map(result => ({
+        agent: result.agent,
+        title: AGENT_TITLES.get(result.agent) || `${capitalize(result.agent)} Analysis`,
+        task: result.task,
+        status: result.skipped ? 'skipped' : 'completed',
+        completedAt: result.completedAt,
+        blocks: result.skipped
+          ? [{ type: 'paragraph', text: `_${result.skipped.error}${result.skipped.note ? ` (${result.skipped.note})` : ''}_` }]
+          : result.output ? outputBlocks(result.output) : parseMarkdown(result.result),
+      })),
+      disclaimer,
+    };
+  }
+
+  render(report: WorkflowReport, format: ReportFormat): ReportFile {
+    const filename = `${slugify(report.title)}-${report.generatedAt.slice(0, 10)}.${format}`;
+    const content = format === 'pdf'
+      ? this.toPdf(report)
+      : format === 'html'
+        ? this.toHtml(report)
+        : format === 'md'
+          ? this.toMarkdown(report)
+          : JSON.stringify(report, null, 2);
+    return { filename, contentType: CONTENT_TYPES.get(format) as string, content };
+  }
+
+  toMarkdown(report: WorkflowReport): string {
+    const parts = [
+      `# ${report.title}`,
+      `*${report.brand} · ${formatDate(report.generatedAt)} · ${report.status}*`,
+      `> ${report.query}`,
+    ];
+    if (report.summary.length > 0) {
+      parts.push('## Executive Summary', ...report.summary.map(blockToMarkdown));
+    }
+    for (const section of report.sections) {
+      parts.push(
+        '---',
+        `## ${section.title}`,
+        `*Task: ${section.task}${section.completedAt ? ` · Completed ${formatDate(section.completedAt)}` : ''}*`,
+        ...section.blocks.map(blockToMarkdown)
+      );
+    }
+    parts.push('---', `*${report.disclaimer}*`);
+    return `${parts.join('\n\n')}\n`;
+  }
+
+  toHtml(report: WorkflowReport): string {
+    const accent = escapeHtml(workflowsConfig.export.accentColor);
+    const sections = report.sections.map(section => `
+<section>
+  <h2>${escapeHtml(section.title)}${section.status === 'skipped' ? ' <span class="badge">Skipped</span>' : ''}</h2>
+  <p class="meta">Task: ${escapeHtml(section.task)}${section.completedAt ? ` · Completed ${escapeHtml(formatDate(section.completedAt))}` : ''}</p>
+  ${section.blocks.map(blockToHtml).join('\n  ')}
+</section>`).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)} - ${escapeHtml(report.brand)}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #1f2023; max-width: 860px; margin: 0 auto; padding: 32px 24px; line-height: 1.5; }
+  header { background: ${accent}; color: #fff; padding: 20px 24px; border-radius: 8px; }
+  header h1 { margin: 0 0 4px; font-size: 24px; }
+  header p { margin: 0; opacity: 0.9; font-size: 14px; }
+  h2 { color: ${accent}; border-bottom: 1px solid #e2e4e8; padding-bottom: 4px; margin-top: 32px; }
+  h3 { margin-bottom: 8px; }
+  .meta { color: #6b7079; font-size: 13px; margin-top: -8px; }
+  .badge { font-size: 12px; background: #f3f4f6; color: #6b7079; padding: 2px 8px; border-radius: 10px; vertical-align: middle; }
+  blockquote { border-left: 4px solid ${accent}; margin: 12px 0; padding: 4px 16px; background: #f7f8fa; }
+  table { border-collapse: collapse; width: 100%; margin: 12px 0; font-size: 14px; }
+  th { background: ${accent}1a; text-align: left; }
+  th, td { border-bottom: 1px solid #e2e4e8; padding: 6px 8px; vertical-align: top; }
+  figure { margin: 12px 0; }
+  figcaption { font-weight: 600; font-size: 14px; margin-bottom: 4px; }
+  code { background: #f3f4f6; padding: 1px 4px; border-radius: 4px; }
+  footer { color: #6b7079; font-size: 12px; margin-top: 40px; border-top: 1px solid #e2e4e8; padding-top: 12px; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(report.title)}</h1>
+  <p>${escapeHtml(report.brand)} · ${escapeHtml(formatDate(report.generatedAt))} · ${escapeHtml(report.status)}</p>
+</header>
+<blockquote>${inlineToHtml(report.query)}</blockquote>
+${report.summary.length > 0 ? `<section>\n  <h2>Executive Summary</h2>\n  ${report.summary.map(blockToHtml).join('\n  ')}\n</section>` : ''}
+${sections}
+<footer>${escapeHtml(report.disclaimer)}</footer>
+</body>
+</html>
+`;
+  }
+
+  toPdf(report: WorkflowReport): Buffer {
+    const pdf = new PdfWriter({
+      title: report.title,
+      accentColor: workflowsConfig.export.accentColor,
+      footer: (page, pageCount) => `${report.brand} · ${report.title} · Page ${page} of ${pageCount}`,
+    });
+
+    pdf.banner(report.title, `${report.brand} · ${formatDate(report.generatedAt)} · ${report.status}`);
+    pdf.paragraph([{ text: 'Request: ', bold: true }, ...parseInline(report.query)], { gapAfter: 10 });
+    if (report.summary.length > 0) {
+      pdf.heading('Executive Summary', 1);
+      report.summary.forEach(block => writePdfBlock(pdf, block));
+    }
+    for (const section of report.sections) {
+      pdf.heading(`${section.title}${section.status === 'skipped' ? ' (skipped)' : ''}`, 1);
+      pdf.paragraph(`Task: ${section.task}${section.completedAt ? ` · Completed ${formatDate(section.completedAt)}` : ''}`, {
+        size: 9,
+        muted: true,
+      });
+      section.blocks.forEach(block => writePdfBlock(pdf, block));
+    }
+    pdf.rule();
+    pdf.paragraph(report.disclaimer, { size: 8, muted: true });
+    return pdf.toBuffer();
+  }
+}
+
+/**
+ * Block-level markdown (headings, paragraphs, lists, quotes, tables, rules)
+ * as report blocks; inline formatting is kept in the text
+ */
+export function parseMarkdown(markdown: string): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+  const lines = markdown.replace(/\r/g, '').split('\n');
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+    paragraph = [];
+  };
+  const listItem = (line: string) => /^([-*+•]|\d+[.)])\s+(.*)$/.exec(line);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: Math.min(heading[1].length, 3) as 1 | 2 | 3, text: heading[2].trim() });
+    } else if (/^(-{3,}|\*{3,}|_{3,})$/.test(line)) {
+      flush();
+      if (blocks.length > 0 && blocks[blocks.length - 1].type !== 'rule') blocks.push({ type: 'rule' });
+    } else if (line.startsWith('|') && /^\|?\s*:?-{3,}/.test(lines[i + 1]?.trim() || '')) {
+      flush();
+      const cells = (row: string) => row.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+      const columns = cells(line);
+      const rows: string[][] = [];
+      for (i += 2; i < lines.length && lines[i].trim().startsWith('|'); i++) rows.push(cells(lines[i]));
+      i--;
+      blocks.push({ type: 'table', columns, rows });
+    } else if (listItem(line)) {
+      flush();
+      const ordered = /^\d/.test(line);
+      const items: string[] = [];
+      for (; i < lines.length && listItem(lines[i].trim()); i++) items.push((listItem(lines[i].trim()) as RegExpExecArray)[2]);
+      i--;
+      blocks.push({ type: 'list', ordered, items });
+    } else if (line.startsWith('>')) {
+      flush();
+      const quoted: string[] = [];
+      for (; i < lines.length && lines[i].trim().startsWith('>'); i++) quoted.push(lines[i].trim().replace(/^>\s?/, ''));
+      i--;
+      blocks.push({ type: 'quote', text: quoted.join(' ') });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Inline markdown as styled runs; code and link text become plain text
+ */
+export function parseInline(text: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const pattern = /\*\*(.+?)\*\*|__(.+?)__|\*(?!\s)(.+?)\*|(?<!\w)_(?!\s)(.+?)_(?!\w)|`([^`]+)`|\[([^\]]+)\]\([^)]+\)/g;
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index > last) runs.push({ text: text.slice(last, match.index) });
+    const [, bold, boldAlt, italic, italicAlt, code, link] = match;
+    if (bold || boldAlt) runs.push({ text: bold || boldAlt, bold: true });
+    else if (italic || italicAlt) runs.push({ text: italic || italicAlt, italic: true });
+    else runs.push({ text: code || link });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) runs.push({ text: text.slice(last) });
+  return runs;
+}
+
+function outputBlocks(output: AgentOutput): ReportBlock[] {
+  const blocks: ReportBlock[] = [{ type: 'quote', text: output.summary }];
+  const table = (title: string, columns: string[], rows: string[][]) => {
+    if (rows.length > 0) blocks.push({ type: 'heading', level: 3, text: title }, { type: 'table', columns, rows });
+  };
+  const chart = (title: string, bars: Array<{ label: string; value: number }>, unit?: string) => {
+    if (bars.length > 1) blocks.push({ type: 'chart', title, unit, bars });
+  };
+
+  if (output.verdict) {
+    blocks.push({ type: 'paragraph', text: `**Verdict: ${capitalize(output.verdict)}** (confidence ${percent(output.confidence ?? 0)})` });
+  }
+  if (output.valuation) blocks.push({ type: 'heading', level: 3, text: 'Valuation' }, { type: 'paragraph', text: output.valuation });
+
+  table('Key Metrics', ['Metric', 'Value', 'Period', 'Note'], output.metrics.map(metric =>
+    [metric.label, formatMetricValue(metric), metric.period || '', metric.context || '']
+  ));
+  table('Trading Signals', ['Symbol', 'Direction', 'Entry', 'Stop loss', 'Target'], (output.signals || []).map(signal => [
+    signal.symbol,
+    signal.direction.toUpperCase(),
+    ...[signal.entry, signal.stopLoss, signal.target].map(level => (level !== undefined ? formatPrice(level) : '')),
+  ]));
+  table('Allocation', ['Asset class', 'Current', 'Target'], (output.allocation || []).map(row =>
+    [row.assetClass, row.currentPct !== undefined ? `${row.currentPct}%` : '', `${row.targetPct}%`]
+  ));
+  chart('Target allocation', (output.allocation || []).map(row => ({ label: row.assetClass, value: row.targetPct })), '%');
+  table('Stress Tests', ['Scenario', 'Portfolio impact'], (output.stressTests || []).map(test =>
+    [test.scenario, `${test.impactPct > 0 ? '+' : ''}${test.impactPct}%`]
+  ));
+  chart('Stress test impact', (output.stressTests || []).map(test => ({ label: test.scenario, value: test.impactPct })), '%');
+  table('Scenarios', ['Scenario', 'Probability', 'Outlook'], (output.scenarios || []).map(scenario =>
+    [scenario.name, percent(scenario.probability), scenario.description]
+  ));
+  chart('Scenario probabilities', (output.scenarios || []).map(scenario => ({ label: scenario.name, value: Math.round(scenario.probability * 100) })), '%');
+  const scores = [...(output.scores || [])].sort((a, b) => b.score - a.score);
+  table('Participant Scores', ['Participant', 'Score', 'Strongest point'], scores.map(score =>
+    [score.participant, `${score.score}/10`, score.strongestPoint]
+  ));
+  chart('Participant scores (out of 10)', scores.map(score => ({ label: score.participant, value: score.score })));
+  table('Risks', ['Risk', 'Severity', 'Description', 'Mitigation'], [...output.risks]
+    .sort((a, b) => (SEVERITY_ORDER.get(a.severity) ?? 3) - (SEVERITY_ORDER.get(b.severity) ?? 3))
+    .map(risk => [risk.title, capitalize(risk.severity), risk.description, risk.mitigation || '']));
+  table('Recommendations', ['Action', 'Rationale', 'Confidence', 'Timeframe'], [...output.recommendations]
+    .sort((a, b) => b.confidence - a.confidence)
+    .map(rec => [rec.action, rec.rationale, percent(rec.confidence), rec.timeframe || '']));
+
+  return blocks;
+}
+
+function blockToMarkdown(block: ReportBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level + 1)} ${block.text}`;
+    case 'paragraph':
+      return block.text;
+    case 'quote':
+      return `> ${block.text}`;
+    case 'list':
+      return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${item}`).join('\n');
+    case 'table':
+      return [
+        `| ${block.columns.join(' | ')} |`,
+        `| ${block.columns.map(() => '---').join(' | ')} |`,
+        ...block.rows.map(row => `| ${row.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`),
+      ].join('\n');
+    case 'chart': {
+      // Text bars scaled to the largest value
+      const max = Math.max(...block.bars.map(bar => Math.abs(bar.value))) || 1;
+      const width = Math.max(...block.bars.map(bar => bar.label.length));
+      const rows = block.bars.map(bar =>
+        `${bar.label.padEnd(width)}  ${(bar.value < 0 ? '-' : '') + '█'.repeat(Math.max(1, Math.round((Math.abs(bar.value) / max) * 30)))} ${bar.value}${block.unit || ''}`
+      );
+      return `**${block.title}**\n\n\`\`\`\n${rows.join('\n')}\n\`\`\``;
+    }
+    case 'rule':
+      return '---';
+  }
+}
+
+function blockToHtml(block: ReportBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level + 1}>${inlineToHtml(block.text)}</h${block.level + 1}>`;
+    case 'paragraph':
+      return `<p>${inlineToHtml(block.text)}</p>`;
+    case 'quote':
+      return `<blockquote>${inlineToHtml(block.text)}</blockquote>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>${block.items.map(item => `<li>${inlineToHtml(item)}</li>`).join('')}</${tag}>`;
+    }
+    case 'table':
+      return `<table><thead><tr>${block.columns.map(column => `<th>${inlineToHtml(column)}</th>`).join('')}</tr></thead>` +
+        `<tbody>${block.rows.map(row => `<tr>${row.map(cell => `<td>${inlineToHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+    case 'chart':
+      return chartToSvg(block);
+    case 'rule':
+      return '<hr>';
+  }
+}
+
+function chartToSvg(chart: Extract<ReportBlock, { type: 'chart' }>): string {
+  const rowHeight = 26;
+  const labelWidth = 200;
+  const valueWidth = 70;
+  const area = 560 - labelWidth - valueWidth;
+  const min = Math.min(0, ...chart.bars.map(bar => bar.value));
+  const max = Math.max(0, ...chart.bars.map(bar => bar.value));
+  const span = max - min || 1;
+  const zero = labelWidth + (-min / span) * area;
+  const height = chart.bars.length * rowHeight;
+  const accent = escapeHtml(workflowsConfig.export.accentColor);
+
+  const bars = chart.bars.map((bar, index) => {
+    const y = index * rowHeight;
+    const length = Math.max((Math.abs(bar.value) / span) * area, 1);
+    const x = bar.value < 0 ? zero - length : zero;
+    return `<text x="0" y="${y + 17}" font-size="13">${escapeHtml(bar.label)}</text>` +
+      `<rect x="${x.toFixed(1)}" y="${y + 5}" width="${length.toFixed(1)}" height="16" rx="2" fill="${bar.value < 0 ? '#dc3333' : accent}"/>` +
+      `<text x="${labelWidth + area + 8}" y="${y + 17}" font-size="13" fill="#6b7079">${escapeHtml(`${bar.value}${chart.unit || ''}`)}</text>`;
+  }).join('');
+
+  return `<figure><figcaption>${escapeHtml(chart.title)}</figcaption>` +
+    `<svg role="img" aria-label="${escapeHtml(chart.title)}" viewBox="0 0 560 ${height}" width="100%" font-family="inherit">` +
+    `${bars}<line x1="${zero.toFixed(1)}" y1="0" x2="${zero.toFixed(1)}" y2="${height}" stroke="#c9ccd1"/></svg></figure>`;
+}
+
+function writePdfBlock(pdf: PdfWriter, block: ReportBlock): void {
+  switch (block.type) {
+    case 'heading':
+      pdf.heading(parseInline(block.text).map(run => run.text).join(''), block.level === 1 ? 2 : 3);
+      break;
+    case 'paragraph':
+      pdf.paragraph(parseInline(block.text));
+      break;
+    case 'quote':
+      pdf.paragraph(parseInline(block.text).map(run => ({ ...run, italic: !run.bold })), { indent: 12 });
+      break;
+    case 'list':
+      block.items.forEach((item, index) =>
+        pdf.paragraph(parseInline(item), { indent: 8, bullet: block.ordered ? `${index + 1}.` : '•', gapAfter: 2 })
+      );
+      pdf.paragraph('', { gapAfter: 2 });
+      break;
+    case 'table':
+      pdf.table(block.columns, block.rows.map(row => row.map(parseInline)));
+      break;
+    case 'chart':
+      pdf.barChart(block.title, block.bars, { unit: block.unit });
+      break;
+    case 'rule':
+      pdf.rule();
+      break;
+  }
+}
+
+function inlineToHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, bold, boldAlt) => `<strong>${bold || boldAlt}</strong>`)
+    .replace(/\*(?!\s)(.+?)\*|(?<!\w)_(?!\s)(.+?)_(?!\w)/g, (_, italic, italicAlt) => `<em>${italic || italicAlt}</em>`)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2">$1</a>');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }) + ' UTC';
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workflow-report';
+}
+
+// Singleton instance
+export const workflowReportService = new WorkflowReportService();
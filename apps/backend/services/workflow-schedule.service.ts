@@ -0,0 +1,382 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { workflowsConfig } from '../config/workflows.config';
+import { getNextRun, getNextRuns, isValidTimeZone, parseCron } from './cron-schedule';
+import { errorService, ErrorCode } from './error.service';
+import { getSupabaseAdmin } from './supabase-admin';
+import { resolveWorkflowInputs } from './workflow-inputs';
+import { workflowRegistry } from './workflow-registry.service';
+
+export type ScheduleRunStatus = 'started' | 'completed' | 'failed' | 'cancelled' | 'skipped';
+
+/**
+ * A workflow a user runs on a cron schedule in their timezone
+ */
+export interface WorkflowSchedule {
+  id: string;
+  userId: string;
+  /** Definition id in workflows/*.json */
+  workflowKey: string;
+  name?: string;
+  /** Five-field cron expression, e.g. '0 7 * * MON' */
+  cron: string;
+  /** IANA timezone the expression is evaluated in */
+  timezone: string;
+  /** The request every run starts with */
+  message: string;
+  context?: Record<string, unknown>;
+  /** Finished reports are sent here; no email means no notification */
+  email?: string;
+  enabled: boolean;
+  /** Unset when the expression never fires again */
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastWorkflowRunId?: string;
+  lastStatus?: ScheduleRunStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveScheduleInput {
+  id?: string;
+  workflowKey: string;
+  name?: string;
+  cron: string;
+  /** Defaults to UTC */
+  timezone?: string;
+  /** Defaults to the workflow's description */
+  message?: string;
+  context?: Record<string, unknown>;
+  /** Must be the account's own, confirmed address */
+  email?: string;
+  /** Defaults to true for new schedules; updates keep the stored value */
+  enabled?: boolean;
+}
+
+/**
+ * What to do with a due schedule. Runs missed while the scheduler was down
+ * collapse into one run for the latest of them.
+ */
+export interface SchedulePlan {
+  /** The occurrence to run; unset when every missed run is too old */
+  scheduledFor?: Date;
+  /** Missed occurrences folded into this run */
+  mergedRuns: number;
+  /** Whether occurrences older than the catch-up window were dropped */
+  dropped: boolean;
+  nextRunAt?: Date;
+}
+
+export interface DueSchedule {
+  schedule: WorkflowSchedule;
+  plan: SchedulePlan;
+}
+
+interface WorkflowScheduleRow {
+  id: string;
+  user_id: string;
+  workflow_key: string;
+  name: string | null;
+  cron: string;
+  timezone: string;
+  message: string;
+  context: Record<string, unknown> | null;
+  email: string | null;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_workflow_run_id: string | null;
+  last_status: ScheduleRunStatus | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Upcoming runs checked against the minimum interval; more than a day's worth for hourly schedules
+const INTERVAL_CHECK_RUNS = 25;
+
+/**
+ * Plan a due schedule at `now`: run once for the latest occurrence within the
+ * catch-up window, and move on to the first occurrence after `now`
+ */
+export function planScheduleRun(
+  schedule: Pick<WorkflowSchedule, 'cron' | 'timezone' | 'nextRunAt'>,
+  now: Date,
+  catchUpWindowMs = workflowsConfig.schedules.catchUpWindowMs
+): SchedulePlan {
+  const cron = parseCron(schedule.cron);
+  const due = schedule.nextRunAt ? new Date(schedule.nextRunAt) : now;
+  const windowStart = Math.max(due.getTime(), now.getTime() - catchUpWindowMs);
+
+  let scheduledFor: Date | undefined;
+  let occurrences = 0;
+  for (
+    let run = getNextRun(cron, schedule.timezone, new Date(windowStart - 1));
+    run && run <= now;
+    run = getNextRun(cron, schedule.timezone, run)
+  ) {
+    scheduledFor = run;
+    occurrences++;
+  }
+
+  return {
+    scheduledFor,
+    mergedRuns: Math.max(0, occurrences - 1),
+    dropped: due.getTime() < windowStart,
+    nextRunAt: getNextRun(cron, schedule.timezone, now),
+  };
+}
+
+export class WorkflowScheduleService {
+  async list(userId: string): Promise<WorkflowSchedule[]> {
+    const db = getSupabaseAdmin();
+    if (!db) return [];
+
+    const { data, error } = await db
+      .from('workflow_schedules')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return ((data || []) as WorkflowScheduleRow[]).map(row => this.fromRow(row));
+  }
+
+  /**
+   * Create a schedule, or update it when `id` is given. The next run is
+   * recomputed from now either way.
+   */
+  async save(userId: string, input: SaveScheduleInput, now = new Date()): Promise<WorkflowSchedule> {
+    const workflow = workflowRegistry.get(input.workflowKey);
+    if (!workflow) {
+      throw errorService.createError(ErrorCode.VALIDATION_ERROR, `Unknown workflow: ${input.workflowKey}`);
+    }
+    // Checked again on every run, against the definition current then
+    resolveWorkflowInputs(workflow.inputs, input.context);
+    const timezone = input.timezone || 'UTC';
+    const nextRunAt = this.validateSchedule(input.cron, timezone, now);
+    const db = this.requireDb();
+
+    const email = input.email && await this.verifyEmail(db, userId, input.email);
+    const enabled = input.enabled ?? (input.id ? await this.isEnabled(db, userId, input.id) : true);
+    const row = {
+      user_id: userId,
+      workflow_key: input.workflowKey,
+      name: input.name,
+      cron: input.cron.trim(),
+      timezone,
+      message: input.message?.trim() || workflow.description,
+      context: input.context,
+      email,
+      enabled,
+      next_run_at: enabled ? nextRunAt.toISOString() : null,
+    };
+
+    if (input.id) {
+      const { data, error } = await db
+        .from('workflow_schedules')
+        .update(row)
+        .eq('id', input.id)
+        .eq('user_id', userId)
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      if (!data) {
+        throw errorService.createError(ErrorCode.NOT_FOUND, `Schedule not found: ${input.id}`);
+      }
+      return this.fromRow(data as WorkflowScheduleRow);
+    }
+
+    const { count, error: countError } = await db
+      .from('workflow_schedules')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+    if (countError) throw new Error(countError.message);
+    if ((count || 0) >= workflowsConfig.schedules.maxPerUser) {
+      throw errorService.createError(
+        ErrorCode.CONFLICT,
+        `Schedule limit reached (${workflowsConfig.schedules.maxPerUser})`
+      );
+    }
+
+    const { data, error } = await db.from('workflow_schedules').insert(row).select('*').single();
+    if (error) throw new Error(error.message);
+    return this.fromRow(data as WorkflowScheduleRow);
+  }
+
+  async delete(userId: string, scheduleId: string): Promise<void> {
+    const db = this.requireDb();
+    const { data, error } = await db
+      .from('workflow_schedules')
+      .delete()
+      .eq('id', scheduleId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw new Error(error.message);
+    if (!data?.length) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Schedule not found: ${scheduleId}`);
+    }
+  }
+
+  /**
+   * The next `count` times a schedule fires, for showing to the user
+   */
+  getUpcomingRuns(schedule: Pick<WorkflowSchedule, 'cron' | 'timezone' | 'enabled'>, count = 5, now = new Date()): string[] {
+    if (!schedule.enabled) return [];
+    return getNextRuns(schedule.cron, schedule.timezone, now, count).map(run => run.toISOString());
+  }
+
+  /**
+   * Claim the schedules due at `now` and move each to its next run. A
+   * schedule is only claimed if its next run is unchanged since it was read,
+   * so two backend instances never start the same run.
+   */
+  async claimDue(now = new Date()): Promise<DueSchedule[]> {
+    const db = getSupabaseAdmin();
+    if (!db) return [];
+
+    const { data, error } = await db
+      .from('workflow_schedules')
+      .select('*')
+      .eq('enabled', true)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(workflowsConfig.schedules.batchSize);
+
+    if (error) throw new Error(error.message);
+
+    const claimed: DueSchedule[] = [];
+    for (const row of (data || []) as WorkflowScheduleRow[]) {
+      const schedule = this.fromRow(row);
+      const plan = planScheduleRun(schedule, now);
+
+      const { data: updated, error: updateError } = await db
+        .from('workflow_schedules')
+        .update({
+          next_run_at: plan.nextRunAt?.toISOString() ?? null,
+          ...(plan.scheduledFor
+            ? { last_run_at: plan.scheduledFor.toISOString(), last_status: 'started' }
+            : { last_status: 'skipped' }),
+        })
+        .eq('id', row.id)
+        .eq('next_run_at', row.next_run_at as string)
+        .select('id');
+
+      if (updateError) throw new Error(updateError.message);
+      if (updated?.length) claimed.push({ schedule, plan });
+    }
+    return claimed;
+  }
+
+  /**
+   * Link a schedule to the run it started, and record how that run ended
+   */
+  async recordRun(scheduleId: string, run: { workflowRunId?: string; status: ScheduleRunStatus }): Promise<void> {
+    const db = getSupabaseAdmin();
+    if (!db) return;
+
+    const { error } = await db
+      .from('workflow_schedules')
+      .update({
+        last_status: run.status,
+        ...(run.workflowRunId && { last_workflow_run_id: run.workflowRunId }),
+      })
+      .eq('id', scheduleId);
+
+    if (error) throw new Error(error.message);
+  }
+
+  /**
+   * Check the expression and timezone; returns the first run
+   */
+  private validateSchedule(expression: string, timezone: string, now: Date): Date {
+    if (!isValidTimeZone(timezone)) {
+      throw errorService.createError(ErrorCode.VALIDATION_ERROR, `Unknown timezone: ${timezone}`);
+    }
+
+    let runs: Date[];
+    try {
+      runs = getNextRuns(expression, timezone, now, INTERVAL_CHECK_RUNS);
+    } catch (error) {
+      throw errorService.createError(ErrorCode.VALIDATION_ERROR, (error as Error).message);
+    }
+    if (runs.length === 0) {
+      throw errorService.createError(ErrorCode.VALIDATION_ERROR, `Schedule "${expression}" never runs`);
+    }
+
+    const { minIntervalMs } = workflowsConfig.schedules;
+    const tooFrequent = runs.some((run, index) => index > 0 && run.getTime() - runs[index - 1].getTime() < minIntervalMs);
+    if (tooFrequent) {
+      throw errorService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Schedules may run at most once every ${Math.round(minIntervalMs / 60000)} minutes`
+      );
+    }
+    return runs[0];
+  }
+
+  /**
+   * Reports may only go to the user's own address, not one they typed in for
+   * someone else; returns the address as stored on the account
+   */
+  private async verifyEmail(db: SupabaseClient, userId: string, email: string): Promise<string> {
+    const { data, error } = await db.auth.admin.getUserById(userId);
+    if (error) throw new Error(error.message);
+
+    const account = data.user;
+    if (!account?.email || !account.email_confirmed_at || account.email.toLowerCase() !== email.trim().toLowerCase()) {
+      throw errorService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        'Reports can only be sent to the confirmed email address of your account'
+      );
+    }
+    return account.email;
+  }
+
+  private async isEnabled(db: SupabaseClient, userId: string, scheduleId: string): Promise<boolean> {
+    const { data, error } = await db
+      .from('workflow_schedules')
+      .select('enabled')
+      .eq('id', scheduleId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) {
+      throw errorService.createError(ErrorCode.NOT_FOUND, `Schedule not found: ${scheduleId}`);
+    }
+    return (data as Pick<WorkflowScheduleRow, 'enabled'>).enabled;
+  }
+
+  private requireDb() {
+    const db = getSupabaseAdmin();
+    if (!db) {
+      throw errorService.createError(ErrorCode.SERVICE_UNAVAILABLE, 'Workflow schedules require Supabase');
+    }
+    return db;
+  }
+
+  private fromRow(row: WorkflowScheduleRow): WorkflowSchedule {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      workflowKey: row.workflow_key,
+      name: row.name || undefined,
+      cron: row.cron,
+      timezone: row.timezone,
+      message: row.message,
+      context: row.context || undefined,
+      email: row.email || undefined,
+      enabled: row.enabled,
+      nextRunAt: row.next_run_at || undefined,
+      lastRunAt: row.last_run_at || undefined,
+      lastWorkflowRunId: row.last_workflow_run_id || undefined,
+      lastStatus: row.last_status || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+// Singleton instance
+export const workflowScheduleService = new WorkflowScheduleService();
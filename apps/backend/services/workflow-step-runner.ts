@@ -0,0 +1,176 @@
+import { setTimeout, clearTimeout } from 'timers';
+import { workflowsConfig } from '../config/workflows.config';
+import { errorService, ErrorCode } from './error.service';
+import type { WorkflowStepFallback } from '../schemas/workflow.schemas';
+
+/**
+ * Timeouts, retries and fallbacks of a single workflow step. An attempt that
+ * errors or runs past the step timeout is retried with exponential backoff;
+ * once retries are used up the step's fallback (if any) decides between one
+ * attempt on another model and skipping the step. Every attempt gets its own
+ * AbortSignal, aborted as soon as the attempt fails or times out, so its LLM
+ * calls and tools stop before the next attempt starts.
+ */
+
+export interface StepPolicy {
+  timeoutMs: number;
+  maxRetries: number;
+  retryBackoffMs: number;
+  fallback?: WorkflowStepFallback;
+}
+
+/** Provider/model override for the fallback attempt */
+export interface StepRoute {
+  provider?: string;
+  model?: string;
+}
+
+export interface StepAttemptFailure {
+  /** 1-based number of the attempt that failed */
+  attempt: number;
+  maxAttempts: number;
+  error: string;
+  /** Wait before the next attempt */
+  delayMs: number;
+}
+
+export type StepOutcome<T> =
+  | { status: 'completed'; value: T; attempts: number; fallback?: StepRoute }
+  /** Every attempt failed and the step may be skipped */
+  | { status: 'skipped'; attempts: number; error: string; note?: string };
+
+export interface StepHooks {
+  onRetry?: (failure: StepAttemptFailure) => Promise<void> | void;
+  onFallback?: (route: StepRoute, error: string) => Promise<void> | void;
+  /** Checked before every retry; true stops with the last error (e.g. cancelled runs) */
+  shouldStop?: () => Promise<boolean> | boolean;
+}
+
+// Retrying cannot fix these
+const NON_RETRYABLE_CODES: string[] = [
+  ErrorCode.BUDGET_EXCEEDED,
+  ErrorCode.VALIDATION_ERROR,
+  ErrorCode.INVALID_INPUT,
+  ErrorCode.FORBIDDEN,
+  ErrorCode.UNAUTHORIZED,
+];
+
+/**
+ * A step's policy from its definition, with config defaults for what it leaves
+ * out. Steps after an approval (`approvalGated`) get one attempt and no fallback
+ * whatever the definition says.
+ */
+export function getStepPolicy(step: {
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBackoffMs?: number;
+  fallback?: WorkflowStepFallback;
+}, options: { approvalGated?: boolean } = {}): StepPolicy {
+  const defaults = workflowsConfig.steps;
+  return {
+    timeoutMs: step.timeoutMs ?? defaults.timeoutMs,
+    maxRetries: options.approvalGated ? 0 : step.maxRetries ?? defaults.maxRetries,
+    retryBackoffMs: step.retryBackoffMs ?? defaults.retryBackoffMs,
+    fallback: options.approvalGated ? undefined : step.fallback,
+  };
+}
+
+/**
+ * Longest a step can run under its policy: every attempt, the fallback's
+ * included, timing out, plus the backoff between attempts
+ */
+export function getStepBudgetMs(policy: StepPolicy): number {
+  let budget = policy.timeoutMs * (policy.maxRetries + 1 + (policy.fallback?.type === 'model' ? 1 : 0));
+  for (let attempt = 1; attempt <= policy.maxRetries; attempt++) {
+    budget += getBackoffDelay(policy, attempt);
+  }
+  return budget;
+}
+
+export function getBackoffDelay(policy: Pick<StepPolicy, 'retryBackoffMs'>, attempt: number): number {
+  return Math.min(policy.retryBackoffMs * 2 ** (attempt - 1), workflowsConfig.steps.maxBackoffMs);
+}
+
+export async function runStep<T>(
+  attempt: (route: StepRoute, signal: AbortSignal) => Promise<T>,
+  policy: StepPolicy,
+  hooks: StepHooks = {}
+): Promise<StepOutcome<T>> {
+  const maxAttempts = policy.maxRetries + 1;
+  let attempts = 0;
+  let lastError: unknown;
+
+  while (attempts < maxAttempts) {
+    attempts++;
+    try {
+      return { status: 'completed', value: await runAttempt(attempt, {}, policy.timeoutMs), attempts };
+    } catch (error) {
+      lastError = error;
+      if (!isRetryable(error) || attempts === maxAttempts) break;
+
+      if (await hooks.shouldStop?.()) throw error;
+      const delayMs = getBackoffDelay(policy, attempts);
+      await hooks.onRetry?.({ attempt: attempts, maxAttempts, error: describeError(error), delayMs });
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+
+  const error = `Failed after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${describeError(lastError)}`;
+  const fallback = policy.fallback;
+
+  if (fallback?.type === 'model' && isRetryable(lastError) && !(await hooks.shouldStop?.())) {
+    const route = { provider: fallback.provider, model: fallback.model };
+    await hooks.onFallback?.(route, error);
+    try {
+      return { status: 'completed', value: await runAttempt(attempt, route, policy.timeoutMs), attempts: attempts + 1, fallback: route };
+    } catch (fallbackError) {
+      const target = route.model ? `${route.provider}/${route.model}` : route.provider;
+      throw errorService.createError(
+        ErrorCode.EXTERNAL_SERVICE_ERROR,
+        `${error}; fallback to ${target} failed: ${describeError(fallbackError)}`,
+        { attempts: attempts + 1 }
+      );
+    }
+  }
+  if (fallback?.type === 'skip') {
+    return { status: 'skipped', attempts, error, note: fallback.note };
+  }
+  throw errorService.createError(ErrorCode.EXTERNAL_SERVICE_ERROR, error, { attempts });
+}
+
+function isRetryable(error: unknown): boolean {
+  const code = (error as { code?: string })?.code;
+  return !code || !NON_RETRYABLE_CODES.includes(code);
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function runAttempt<T>(
+  attempt: (route: StepRoute, signal: AbortSignal) => Promise<T>,
+  route: StepRoute,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  try {
+    return await withTimeout(attempt(route, controller.signal), timeoutMs);
+  } catch (error) {
+    // A timed-out attempt would otherwise keep calling (and billing) the model alongside the retry
+    controller.abort(error);
+    throw error;
+  }
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
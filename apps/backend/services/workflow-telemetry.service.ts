@@ -0,0 +1,418 @@
+import type { InternalStateManager } from 'motia';
+import { workflowsConfig } from '../config/workflows.config';
+import type { LLMMetering, LLMTokenUsage } from './llm-providers';
+import { getSupabaseAdmin } from './supabase-admin';
+import { usageService } from './usage.service';
+import { APPROVAL_AGENT, DEBATE_AGENT, SUMMARY_NODE_ID, getSinkSteps, toGraphSteps, type GraphStep } from './workflow-graph';
+
+export interface EstimateRange {
+  p50: number;
+  p90: number;
+}
+
+/** Percentiles of a step's completed runs */
+export interface StepStats {
+  samples: number;
+  durationMs: EstimateRange;
+  costUsd: EstimateRange;
+  tokens: number;
+}
+
+export interface WorkflowStats {
+  /** By step id, for the definition's own runs */
+  steps: Map<string, StepStats>;
+  /** By agent, across every definition */
+  agents: Map<string, StepStats>;
+}
+
+/** What a finished step took, kept in state with the run */
+export interface StepTelemetry {
+  stepId: string;
+  agent: string;
+  status: 'completed' | 'skipped' | 'failed';
+  durationMs: number;
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  provider?: string;
+  model?: string;
+}
+
+export interface StepEstimate {
+  stepId: string;
+  agent: string;
+  durationMs: EstimateRange;
+  costUsd: EstimateRange;
+  /** Completed runs behind the numbers (0 for defaults) */
+  samples: number;
+  /** This definition's runs of the step, the agent's runs anywhere, or the per-call defaults */
+  source: 'workflow' | 'agent' | 'default';
+  /** The step has finished; the numbers are what it took */
+  actual?: boolean;
+}
+
+export interface WorkflowEstimate {
+  /** Start to finish along the longest chain of dependent steps */
+  durationMs: EstimateRange;
+  costUsd: EstimateRange;
+  /** Live estimates only: time left and what the finished steps cost */
+  remainingMs?: EstimateRange;
+  spentUsd?: number;
+  /** history when every step has enough past runs, default when none has */
+  source: 'history' | 'partial' | 'default';
+  steps: StepEstimate[];
+  updatedAt: string;
+}
+
+/** Graph steps with the definition fields estimates depend on */
+export type EstimableStep = GraphStep & {
+  type?: string;
+  debate?: { rounds?: number; participants?: string[] };
+};
+
+export interface RunProgress {
+  elapsedMs: number;
+  finished: Map<string, Pick<StepTelemetry, 'durationMs' | 'costUsd'>>;
+  /** Running steps by id, with how long they have been running */
+  running: Map<string, number>;
+}
+
+interface StepUsage {
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  provider?: string;
+  model?: string;
+  updatedAt: number;
+}
+
+interface StatsRow {
+  step_id: string | null;
+  agent: string;
+  samples: number;
+  duration_p50_ms: number;
+  duration_p90_ms: number;
+  cost_p50_usd: number;
+  cost_p90_usd: number;
+  tokens_p50: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Usage of steps that never finish (e.g. the process restarted) is dropped after this long
+const USAGE_TTL_MS = 60 * 60 * 1000;
+// Key of the per-agent stats in the cache
+const ALL_WORKFLOWS = '*';
+
+/**
+ * Execution telemetry of workflow steps (latency, LLM calls, tokens, cost and
+ * provider), stored per finished step in `workflow_step_telemetry`, and the
+ * duration and cost estimates computed from its percentiles: before a run
+ * starts, and while it runs from what its finished steps actually took.
+ */
+export class WorkflowTelemetryService {
+  private usage = new Map<string, StepUsage>();
+  private statsCache = new Map<string, { stats: Map<string, StepStats>; fetchedAt: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Add a metered LLM call to its step's usage (calls outside workflow steps are ignored)
+   */
+  track(metering: LLMMetering | undefined, call: { provider: string; model: string; usage: LLMTokenUsage; costUsd: number }): void {
+    if (!metering?.workflowId || !metering.stepId) return;
+
+    const now = this.now();
+    for (const [key, entry] of this.usage) {
+      if (now - entry.updatedAt > USAGE_TTL_MS) this.usage.delete(key);
+    }
+
+    const key = `${metering.workflowId}:${metering.stepId}`;
+    const entry = this.usage.get(key) || { llmCalls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, updatedAt: now };
+    this.usage.set(key, {
+      llmCalls: entry.llmCalls + 1,
+      promptTokens: entry.promptTokens + call.usage.promptTokens,
+      completionTokens: entry.completionTokens + call.usage.completionTokens,
+      costUsd: entry.costUsd + call.costUsd,
+      provider: call.provider,
+      model: call.model,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Store what a finished step took, with the LLM usage tracked for it, in
+   * state (for live estimates) and in workflow_step_telemetry. Never throws.
+   */
+  async recordStep(
+    state: InternalStateManager,
+    run: { workflowId: string; workflowKey: string; stepId: string; agent: string; status: StepTelemetry['status']; durationMs: number }
+  ): Promise<StepTelemetry> {
+    const key = `${run.workflowId}:${run.stepId}`;
+    const usage = this.usage.get(key);
+    this.usage.delete(key);
+
+    const telemetry: StepTelemetry = {
+      stepId: run.stepId,
+      agent: run.agent,
+      status: run.status,
+      durationMs: Math.round(run.durationMs),
+      llmCalls: usage?.llmCalls ?? 0,
+      promptTokens: usage?.promptTokens ?? 0,
+      completionTokens: usage?.completionTokens ?? 0,
+      costUsd: roundCost(usage?.costUsd ?? 0),
+      provider: usage?.provider,
+      model: usage?.model,
+    };
+
+    try {
+      await state.set('workflows', `${run.workflowId}:telemetry:${run.stepId}`, telemetry);
+
+      const db = getSupabaseAdmin();
+      if (db) {
+        const { error } = await db.from('workflow_step_telemetry').insert({
+          workflow_id: run.workflowId,
+          workflow_key: run.workflowKey,
+          step_id: telemetry.stepId,
+          agent: telemetry.agent,
+          status: telemetry.status,
+          duration_ms: telemetry.durationMs,
+          llm_calls: telemetry.llmCalls,
+          prompt_tokens: telemetry.promptTokens,
+          completion_tokens: telemetry.completionTokens,
+          cost_usd: telemetry.costUsd,
+          provider: telemetry.provider ?? null,
+          model: telemetry.model ?? null,
+        });
+        if (error) throw new Error(error.message);
+      }
+    } catch (error) {
+      console.error('Failed to record step telemetry:', error instanceof Error ? error.message : error);
+    }
+    return telemetry;
+  }
+
+  /**
+   * Percentiles of recent runs for a definition's steps and for every agent;
+   * empty without a database
+   */
+  async getStats(workflowKey: string): Promise<WorkflowStats> {
+    const [steps, agents] = await Promise.all([this.loadStats(workflowKey), this.loadStats(ALL_WORKFLOWS)]);
+    return { steps, agents };
+  }
+
+  /**
+   * Estimate for a run of the given steps before it starts
+   */
+  async estimateFor(workflowKey: string, steps: EstimableStep[], options: { summary?: boolean } = {}): Promise<WorkflowEstimate> {
+    return this.estimate(steps, await this.getStats(workflowKey), options);
+  }
+
+  /**
+   * Estimate for a run in state, from what its finished steps took and how
+   * long the running ones have been at it
+   */
+  async estimateRun(state: InternalStateManager, workflowId: string): Promise<WorkflowEstimate | undefined> {
+    try {
+      const record: any = await state.get('workflows', workflowId);
+      if (!record) return undefined;
+
+      const steps = toGraphSteps(record.steps || record.agents || []);
+      const now = this.now();
+      const progress: RunProgress = {
+        elapsedMs: record.startedAt ? now - new Date(record.startedAt).getTime() : 0,
+        finished: new Map(),
+        running: new Map(),
+      };
+      for (const [index, step] of steps.entries()) {
+        const telemetry = await state.get<StepTelemetry>('workflows', `${workflowId}:telemetry:${step.id}`);
+        if (telemetry && telemetry.status !== 'failed') {
+          progress.finished.set(step.id, telemetry);
+        } else if (await state.get('workflows', `${workflowId}:result:${index}`)) {
+          // Left out when the run ended early; it never ran
+          progress.finished.set(step.id, { durationMs: 0, costUsd: 0 });
+        } else {
+          const started = await state.get<{ status?: string; startedAt?: string }>('workflows', `${workflowId}:step:${index}`);
+          if (started?.status === 'processing' && started.startedAt) {
+            progress.running.set(step.id, now - new Date(started.startedAt).getTime());
+          }
+        }
+      }
+
+      return this.estimate(steps, await this.getStats(record.workflowId || 'adhoc'), {
+        summary: record.output?.summary !== false,
+        progress,
+      });
+    } catch (error) {
+      console.error('Failed to estimate workflow run:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Per-step estimates from the stats, added up along the longest chain of
+   * dependent steps for duration and over every step for cost. p90s add up
+   * to a pessimistic total rather than the total's own p90.
+   */
+  estimate(
+    steps: EstimableStep[],
+    stats: WorkflowStats,
+    options: { summary?: boolean; progress?: RunProgress } = {}
+  ): WorkflowEstimate {
+    const { progress } = options;
+    const estimates = new Map(steps.map(step => [step.id, this.estimateStep(step, stats, progress)]));
+
+    // When each step finishes, counted from the start of the run
+    const finishes = new Map<string, EstimateRange>();
+    const finishOf = (step: EstimableStep): EstimateRange => {
+      const known = finishes.get(step.id);
+      if (known) return known;
+      const start = step.dependsOn
+        .map(id => steps.find(candidate => candidate.id === id))
+        .filter((dependency): dependency is EstimableStep => !!dependency)
+        .map(finishOf)
+        .reduce((latest, finish) => ({ p50: Math.max(latest.p50, finish.p50), p90: Math.max(latest.p90, finish.p90) }), { p50: 0, p90: 0 });
+      const { durationMs } = estimates.get(step.id) as StepEstimate;
+      const finish = { p50: start.p50 + durationMs.p50, p90: start.p90 + durationMs.p90 };
+      finishes.set(step.id, finish);
+      return finish;
+    };
+
+    const durationMs = steps.map(finishOf).reduce(
+      (latest, finish) => ({ p50: Math.max(latest.p50, finish.p50), p90: Math.max(latest.p90, finish.p90) }),
+      { p50: 0, p90: 0 }
+    );
+    const stepEstimates = Array.from(estimates.values());
+
+    // The executive summary starts once the last step has finished
+    if (options.summary !== false && steps.length > 0) {
+      const summary = this.estimateStep(
+        { id: SUMMARY_NODE_ID, agent: 'summary', task: '', dependsOn: getSinkSteps(steps).map(step => step.id) },
+        stats,
+        progress
+      );
+      durationMs.p50 += summary.durationMs.p50;
+      durationMs.p90 += summary.durationMs.p90;
+      stepEstimates.push(summary);
+    }
+
+    const costUsd = stepEstimates.reduce(
+      (total, step) => ({ p50: total.p50 + step.costUsd.p50, p90: total.p90 + step.costUsd.p90 }),
+      { p50: 0, p90: 0 }
+    );
+    const withHistory = stepEstimates.filter(step => step.source !== 'default' || step.actual).length;
+
+    return {
+      durationMs: { p50: Math.round(durationMs.p50), p90: Math.round(durationMs.p90) },
+      costUsd: { p50: roundCost(costUsd.p50), p90: roundCost(costUsd.p90) },
+      ...(progress && {
+        remainingMs: {
+          p50: Math.max(0, Math.round(durationMs.p50 - progress.elapsedMs)),
+          p90: Math.max(0, Math.round(durationMs.p90 - progress.elapsedMs)),
+        },
+        spentUsd: roundCost(stepEstimates.filter(step => step.actual).reduce((total, step) => total + step.costUsd.p50, 0)),
+      }),
+      source: withHistory === stepEstimates.length ? 'history' : withHistory === 0 ? 'default' : 'partial',
+      steps: stepEstimates,
+      updatedAt: new Date(this.now()).toISOString(),
+    };
+  }
+
+  private estimateStep(step: EstimableStep, stats: WorkflowStats, progress?: RunProgress): StepEstimate {
+    const base = { stepId: step.id, agent: step.agent };
+
+    const finished = progress?.finished.get(step.id);
+    if (finished) {
+      return {
+        ...base,
+        durationMs: { p50: finished.durationMs, p90: finished.durationMs },
+        costUsd: { p50: finished.costUsd, p90: finished.costUsd },
+        samples: 0,
+        source: 'default',
+        actual: true,
+      };
+    }
+
+    const { minSamples } = workflowsConfig.estimates;
+    const own = stats.steps.get(step.id);
+    const agent = stats.agents.get(step.agent);
+    const estimate: StepEstimate = own && own.samples >= minSamples
+      ? { ...base, durationMs: own.durationMs, costUsd: own.costUsd, samples: own.samples, source: 'workflow' }
+      : agent && agent.samples >= minSamples
+        ? { ...base, durationMs: agent.durationMs, costUsd: agent.costUsd, samples: agent.samples, source: 'agent' }
+        : { ...base, ...this.defaultEstimate(step), samples: 0, source: 'default' };
+
+    // A running step takes at least as long as it has been running
+    const runningMs = progress?.running.get(step.id);
+    if (runningMs !== undefined) {
+      estimate.durationMs = {
+        p50: Math.max(estimate.durationMs.p50, runningMs),
+        p90: Math.max(estimate.durationMs.p90, runningMs),
+      };
+    }
+    return estimate;
+  }
+
+  /**
+   * Per-call defaults for steps without history. Debate rounds run their
+   * turns in parallel, then the judge decides; approvals wait for the user,
+   * which is not estimated.
+   */
+  private defaultEstimate(step: EstimableStep): Pick<StepEstimate, 'durationMs' | 'costUsd'> {
+    if (step.type === 'approval' || step.agent === APPROVAL_AGENT) {
+      return { durationMs: { p50: 0, p90: 0 }, costUsd: { p50: 0, p90: 0 } };
+    }
+
+    const { callDurationMs, promptTokens, completionTokens, model, spread } = workflowsConfig.estimates.defaults;
+    const isDebate = step.type === 'debate' || step.agent === DEBATE_AGENT;
+    const rounds = isDebate ? step.debate?.rounds ?? workflowsConfig.debate.defaultRounds : 0;
+    const participants = step.debate?.participants?.length || workflowsConfig.debate.defaultParticipants;
+    const calls = isDebate ? rounds * participants + 1 : 1;
+    const durationMs = (isDebate ? rounds + 1 : 1) * callDurationMs;
+    const costUsd = calls * usageService.calculateCost(model, { promptTokens, completionTokens });
+
+    return {
+      durationMs: { p50: durationMs, p90: durationMs * spread },
+      costUsd: { p50: roundCost(costUsd), p90: roundCost(costUsd * spread) },
+    };
+  }
+
+  private async loadStats(workflowKey: string): Promise<Map<string, StepStats>> {
+    const cached = this.statsCache.get(workflowKey);
+    if (cached && this.now() - cached.fetchedAt < workflowsConfig.estimates.cacheTtlMs) {
+      return cached.stats;
+    }
+
+    const stats = new Map<string, StepStats>();
+    const db = getSupabaseAdmin();
+    if (db) {
+      const { data, error } = await db.rpc('get_workflow_step_stats', {
+        p_workflow_key: workflowKey === ALL_WORKFLOWS ? null : workflowKey,
+        p_since: new Date(this.now() - workflowsConfig.estimates.windowDays * DAY_MS).toISOString(),
+      });
+      if (error) {
+        console.error('Failed to load workflow step stats:', error.message);
+      } else {
+        for (const row of (data || []) as StatsRow[]) {
+          stats.set(workflowKey === ALL_WORKFLOWS ? row.agent : row.step_id as string, {
+            samples: Number(row.samples),
+            durationMs: { p50: Math.round(Number(row.duration_p50_ms)), p90: Math.round(Number(row.duration_p90_ms)) },
+            costUsd: { p50: roundCost(Number(row.cost_p50_usd)), p90: roundCost(Number(row.cost_p90_usd)) },
+            tokens: Math.round(Number(row.tokens_p50)),
+          });
+        }
+      }
+    }
+
+    this.statsCache.set(workflowKey, { stats, fetchedAt: this.now() });
+    return stats;
+  }
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+// Singleton instance
+export const workflowTelemetryService = new WorkflowTelemetryService();
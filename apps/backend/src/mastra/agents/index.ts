@@ -1,7 +1,15 @@
 import { Agent } from '@mastra/core';
+import { createTool } from '@mastra/core/tools';
 import { agentPrompts, llmConfig } from '../config';
 import * as tools from '../tools';
 
+type AgentTool = ReturnType<typeof createTool>;
+
+// Mastra expects tools keyed by id; the id is also the function name the LLM sees
+function toolset(...list: AgentTool[]): Record<string, AgentTool> {
+  return Object.fromEntries(list.map(tool => [tool.id, tool]));
+}
+
 // General Assistant Agent
 export const generalAgent = new Agent({
   name: 'General Assistant',
@@ -11,12 +19,12 @@ export const generalAgent = new Agent({
     provider: llmConfig.defaultProvider,
     name: llmConfig.defaultModel,
   },
-  tools: [
+  tools: toolset(
     tools.marketDataTool,
     tools.plaidTool,
     tools.searchTool,
     tools.portfolioAnalysisTool,
-  ],
+  ),
 });
 
 // Financial Analyst Agent
@@ -28,13 +36,13 @@ export const analystAgent = new Agent({
     provider: llmConfig.defaultProvider,
     name: llmConfig.defaultModel,
   },
-  tools: [
+  tools: toolset(
     tools.marketDataTool,
     tools.fundamentalAnalysisTool,
     tools.technicalAnalysisTool,
     tools.quantAnalysisTool,
     tools.searchTool,
-  ],
+  ),
 });
 
 // Trading Assistant Agent
@@ -46,13 +54,13 @@ export const traderAgent = new Agent({
     provider: llmConfig.defaultProvider,
     name: llmConfig.defaultModel,
   },
-  tools: [
+  tools: toolset(
     tools.marketDataTool,
     tools.technicalIndicatorsTool,
     tools.orderFlowTool,
     tools.alpacaTradingTool,
     tools.riskManagementTool,
-  ],
+  ),
 });
 
 // Investment Advisor Agent
@@ -64,13 +72,13 @@ export const advisorAgent = new Agent({
     provider: llmConfig.defaultProvider,
     name: llmConfig.defaultModel,
   },
-  tools: [
+  tools: toolset(
     tools.portfolioOptimizationTool,
     tools.assetAllocationTool,
     tools.plaidTool,
     tools.retirementPlanningTool,
     tools.taxOptimizationTool,
-  ],
+  ),
 });
 
 // Risk Manager Agent
@@ -82,13 +90,13 @@ export const riskManagerAgent = new Agent({
     provider: llmConfig.defaultProvider,
     name: llmConfig.defaultModel,
   },
-  tools: [
+  tools: toolset(
     tools.riskAssessmentTool,
     tools.hedgingTool,
     tools.stressTestingTool,
     tools.volatilityAnalysisTool,
     tools.correlationAnalysisTool,
-  ],
+  ),
 });
 
 // Macro Economist Agent
@@ -100,13 +108,13 @@ export const economistAgent = new Agent({
     provider: llmConfig.defaultProvider,
     name: llmConfig.defaultModel,
   },
-  tools: [
+  tools: toolset(
     tools.economicDataTool,
     tools.sectorAnalysisTool,
     tools.policyAnalysisTool,
     tools.marketCycleTool,
     tools.searchTool,
-  ],
+  ),
 });
 
 // Agent Registry
@@ -119,34 +127,43 @@ export const agents = {
   economist: economistAgent,
 };
 
+export type AgentId = keyof typeof agents;
+
 // Agent selector function
 export function selectAgent(assistantType: string): Agent {
   return agents[assistantType as keyof typeof agents] || agents.general;
 }
 
+export interface DebateContext {
+  symbols?: string[];
+  includeRisk?: boolean;
+  includeMacro?: boolean;
+  includeTrading?: boolean;
+}
+
 // Get debate participants based on query type
 export function selectDebateParticipants(
   assistantType: string,
-  queryContext: any
-): Agent[] {
-  const primaryAgent = selectAgent(assistantType);
-  const participants = [primaryAgent];
+  queryContext: DebateContext
+): AgentId[] {
+  const primaryAgent = (Object.keys(agents).includes(assistantType) ? assistantType : 'general') as AgentId;
+  const participants: AgentId[] = [primaryAgent];
 
   // Add relevant agents based on context
   if (queryContext.symbols && queryContext.symbols.length > 0) {
-    participants.push(analystAgent);
+    participants.push('analyst');
   }
   
   if (queryContext.includeRisk) {
-    participants.push(riskManagerAgent);
+    participants.push('riskManager');
   }
   
   if (queryContext.includeMacro) {
-    participants.push(economistAgent);
+    participants.push('economist');
   }
   
   if (queryContext.includeTrading) {
-    participants.push(traderAgent);
+    participants.push('trader');
   }
 
   // Ensure unique agents
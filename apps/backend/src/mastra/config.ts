@@ -3,6 +3,8 @@ import { config as dotenvConfig } from 'dotenv';
 import { authService } from '../../services/auth.service';
 import { secretsService } from '../../services/secrets.service';
 import { azureOpenAI } from '../../services/azure-openai.service';
+import { renderPromptTemplate } from '../../services/prompt-registry.service';
+import { ASSISTANT_TYPES, builtInPromptTemplates, type AssistantType } from '../../config/prompt-templates.config';
 
 dotenvConfig();
 
@@ -51,37 +53,14 @@ export const llmConfig = {
   fallbackModel: 'llama-3-8b',
 };
 
-// Agent System Prompts
-export const agentPrompts = {
-  general: `You are a balanced financial assistant providing comprehensive financial analysis and general advice. 
-You consider multiple perspectives, explain complex concepts clearly, and help users make informed financial decisions.
-Focus on education, risk awareness, and long-term financial health.`,
-
-  analyst: `You are a specialized financial analyst performing deep fundamental and technical analysis.
-You excel at analyzing financial statements, market trends, valuations, and competitive positioning.
-Use quantitative methods, financial ratios, and data-driven insights to provide thorough analysis.
-Always cite specific metrics and provide evidence-based recommendations.`,
-
-  trader: `You are a trading assistant focused on short-term trading strategies and market timing.
-You analyze technical indicators, chart patterns, order flow, and market sentiment.
-Provide actionable trading insights with clear entry/exit points, stop losses, and risk management.
-Always emphasize risk management and position sizing in your recommendations.`,
-
-  advisor: `You are an investment advisor focused on long-term wealth building and portfolio strategy.
-You help with asset allocation, retirement planning, tax-efficient investing, and goal-based planning.
-Consider the user's risk tolerance, time horizon, and life circumstances in your recommendations.
-Provide holistic advice that balances growth, income, and capital preservation.`,
-
-  riskManager: `You are a risk management specialist focused on identifying and mitigating portfolio risks.
-You analyze volatility, correlations, drawdowns, and tail risks in portfolios.
-Provide hedging strategies, position sizing recommendations, and stress testing scenarios.
-Always quantify risk metrics and explain the trade-offs between risk and return.`,
-
-  economist: `You are a macro economist analyzing economic trends, policy impacts, and market cycles.
-You interpret economic data, central bank policies, geopolitical events, and sector rotations.
-Provide insights on how macro factors affect different asset classes and investment strategies.
-Connect economic analysis to practical investment implications.`,
-};
+// Agent System Prompts - built-in defaults (version 1) from the prompt registry.
+// Published versions and personas are resolved per request by AgentRunner.
+export const agentPrompts = Object.fromEntries(
+  ASSISTANT_TYPES.map(type => [
+    type,
+    renderPromptTemplate(builtInPromptTemplates.find(template => template.name === `agent.${type}`)!.template),
+  ])
+) as Record<AssistantType, string>;
 
 // Export configuration
 export default {
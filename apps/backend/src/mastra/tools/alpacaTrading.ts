@@ -0,0 +1,120 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import Alpaca from '@alpacahq/alpaca-trade-api';
+
+// Orders go to the paper account unless live trading is switched on explicitly
+const paper = process.env.ALPACA_LIVE_TRADING !== 'true';
+
+const alpaca = process.env.ALPACA_API_KEY && process.env.ALPACA_SECRET_KEY
+  ? new Alpaca({
+      keyId: process.env.ALPACA_API_KEY,
+      secretKey: process.env.ALPACA_SECRET_KEY,
+      paper,
+    })
+  : null;
+
+// The fields the agent reports back to the user
+function toOrder(order: any) {
+  return {
+    id: order.id,
+    symbol: order.symbol,
+    side: order.side,
+    quantity: Number(order.qty),
+    orderType: order.type,
+    status: order.status,
+    filledQuantity: Number(order.filled_qty || 0),
+    filledAveragePrice: order.filled_avg_price ? Number(order.filled_avg_price) : null,
+    submittedAt: order.submitted_at,
+  };
+}
+
+/**
+ * Place an order. With a client order id it is placed at most once: placing
+ * it again returns the order already placed under that id.
+ */
+export async function placeOrder(
+  params: {
+    side: 'buy' | 'sell';
+    symbol: string;
+    quantity?: number;
+    orderType?: 'market' | 'limit' | 'stop' | 'stop_limit';
+    limitPrice?: number;
+    stopPrice?: number;
+  },
+  clientOrderId?: string
+) {
+  if (!alpaca) {
+    throw new Error('Trading is not configured (ALPACA_API_KEY, ALPACA_SECRET_KEY); no order was placed');
+  }
+  const orderType = params.orderType || 'market';
+  if (!params.quantity) {
+    throw new Error('quantity is required to place an order');
+  }
+  if ((orderType === 'limit' || orderType === 'stop_limit') && params.limitPrice === undefined) {
+    throw new Error(`limitPrice is required for ${orderType} orders`);
+  }
+  if ((orderType === 'stop' || orderType === 'stop_limit') && params.stopPrice === undefined) {
+    throw new Error(`stopPrice is required for ${orderType} orders`);
+  }
+
+  try {
+    const order = await alpaca.createOrder({
+      symbol: params.symbol.toUpperCase(),
+      qty: params.quantity,
+      side: params.side,
+      type: orderType,
+      time_in_force: 'day',
+      limit_price: params.limitPrice,
+      stop_price: params.stopPrice,
+      client_order_id: clientOrderId,
+    });
+    return { success: true, paper, order: toOrder(order) };
+  } catch (error) {
+    // Alpaca refuses a client order id it has seen; the order placed under it stands
+    const existing = clientOrderId ? await alpaca.getOrderByClientId(clientOrderId).catch(() => null) : null;
+    if (!existing) throw error;
+    return { success: true, paper, order: toOrder(existing) };
+  }
+}
+
+// Alpaca Trading Tool
+export const alpacaTradingTool = createTool({
+  id: 'alpaca-trading',
+  description: 'Place, check and cancel orders via Alpaca (paper trading unless live trading is enabled)',
+  inputSchema: z.object({
+    action: z.enum(['buy', 'sell', 'status', 'cancel']),
+    symbol: z.string(),
+    quantity: z.number().positive().optional(),
+    orderType: z.enum(['market', 'limit', 'stop', 'stop_limit']).optional(),
+    limitPrice: z.number().positive().optional(),
+    stopPrice: z.number().positive().optional(),
+    orderId: z.string().optional(),
+  }),
+  execute: async ({ context: params }) => {
+    // Thrown errors reach the model as the tool's error, so it cannot report an order that was never placed
+    if (!alpaca) {
+      throw new Error('Trading is not configured (ALPACA_API_KEY, ALPACA_SECRET_KEY); no order was placed');
+    }
+
+    switch (params.action) {
+      case 'buy':
+      case 'sell':
+        return placeOrder({ ...params, side: params.action });
+
+      case 'status': {
+        if (!params.orderId) {
+          throw new Error('orderId is required to check an order');
+        }
+        return { success: true, paper, order: toOrder(await alpaca.getOrder(params.orderId)) };
+      }
+
+      case 'cancel': {
+        if (!params.orderId) {
+          throw new Error('orderId is required to cancel an order');
+        }
+        await alpaca.cancelOrder(params.orderId);
+        return { success: true, paper, orderId: params.orderId, status: 'cancel_requested' };
+      }
+    }
+  },
+});
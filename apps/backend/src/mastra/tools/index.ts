@@ -1,6 +1,7 @@
 // Export all tools
 export { marketDataTool } from './marketData';
 export { plaidTool } from './plaid';
+export { alpacaTradingTool } from './alpacaTrading';
 
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
@@ -14,7 +15,7 @@ export const searchTool = createTool({
     query: z.string(),
     sources: z.array(z.enum(['news', 'sec-filings', 'social-media', 'research'])).optional(),
   }),
-  execute: async ({ query, sources = ['news', 'sec-filings', 'social-media'] }) => {
+  execute: async ({ context: { query, sources = ['news', 'sec-filings', 'social-media'] } }) => {
     // Implement parallel search logic
     const searchPromises = sources.map(async (source) => {
       // Simulate search for each source
@@ -38,7 +39,7 @@ export const portfolioAnalysisTool = createTool({
     portfolioId: z.string(),
     metrics: z.array(z.string()).optional(),
   }),
-  execute: async ({ portfolioId, metrics }) => {
+  execute: async ({ context: { portfolioId, metrics } }) => {
     // Implement portfolio analysis
     return {
       portfolioId,
@@ -60,7 +61,7 @@ export const technicalAnalysisTool = createTool({
     symbol: z.string(),
     indicators: z.array(z.string()).optional(),
   }),
-  execute: async ({ symbol, indicators }) => {
+  execute: async ({ context: { symbol, indicators } }) => {
     // Implement technical analysis
     return {
       symbol,
@@ -78,7 +79,7 @@ export const fundamentalAnalysisTool = createTool({
     symbol: z.string(),
     metrics: z.array(z.string()).optional(),
   }),
-  execute: async ({ symbol, metrics }) => {
+  execute: async ({ context: { symbol, metrics } }) => {
     // Implement fundamental analysis
     return {
       symbol,
@@ -96,7 +97,7 @@ export const quantAnalysisTool = createTool({
     data: z.any(),
     analysisType: z.string(),
   }),
-  execute: async ({ data, analysisType }) => {
+  execute: async ({ context: { data, analysisType } }) => {
     // Would call Python service for heavy computation
     return {
       analysisType,
@@ -115,7 +116,7 @@ export const technicalIndicatorsTool = createTool({
     indicators: z.array(z.string()),
     period: z.number().optional(),
   }),
-  execute: async ({ symbol, indicators, period }) => {
+  execute: async ({ context: { symbol, indicators, period } }) => {
     return {
       symbol,
       indicators: {},
@@ -132,7 +133,7 @@ export const orderFlowTool = createTool({
     symbol: z.string(),
     timeframe: z.string().optional(),
   }),
-  execute: async ({ symbol, timeframe }) => {
+  execute: async ({ context: { symbol, timeframe } }) => {
     return {
       symbol,
       orderFlow: {},
@@ -140,29 +141,6 @@ export const orderFlowTool = createTool({
   },
 });
 
-// Alpaca Trading Tool
-export const alpacaTradingTool = createTool({
-  id: 'alpaca-trading',
-  name: 'Alpaca Trading',
-  description: 'Execute trades via Alpaca',
-  inputSchema: z.object({
-    action: z.enum(['buy', 'sell', 'status', 'cancel']),
-    symbol: z.string(),
-    quantity: z.number().optional(),
-    orderType: z.enum(['market', 'limit', 'stop', 'stop_limit']).optional(),
-    limitPrice: z.number().optional(),
-    stopPrice: z.number().optional(),
-    orderId: z.string().optional(),
-  }),
-  execute: async (params) => {
-    // Implement Alpaca trading logic
-    return {
-      success: true,
-      order: {},
-    };
-  },
-});
-
 // Risk Management Tool
 export const riskManagementTool = createTool({
   id: 'risk-management',
@@ -173,7 +151,7 @@ export const riskManagementTool = createTool({
     riskPerTrade: z.number(),
     stopLoss: z.number().optional(),
   }),
-  execute: async ({ portfolioValue, riskPerTrade, stopLoss }) => {
+  execute: async ({ context: { portfolioValue, riskPerTrade, stopLoss } }) => {
     return {
       positionSize: 0,
       riskAmount: 0,
@@ -190,7 +168,7 @@ export const portfolioOptimizationTool = createTool({
     assets: z.array(z.string()),
     constraints: z.any().optional(),
   }),
-  execute: async ({ assets, constraints }) => {
+  execute: async ({ context: { assets, constraints } }) => {
     return {
       optimalWeights: {},
     };
@@ -207,7 +185,7 @@ export const assetAllocationTool = createTool({
     timeHorizon: z.number(),
     goals: z.array(z.string()).optional(),
   }),
-  execute: async ({ riskTolerance, timeHorizon, goals }) => {
+  execute: async ({ context: { riskTolerance, timeHorizon, goals } }) => {
     return {
       allocation: {},
     };
@@ -226,7 +204,7 @@ export const retirementPlanningTool = createTool({
     monthlyContribution: z.number(),
     expectedReturn: z.number(),
   }),
-  execute: async (params) => {
+  execute: async ({ context: params }) => {
     return {
       projectedValue: 0,
       monthlyIncome: 0,
@@ -243,7 +221,7 @@ export const taxOptimizationTool = createTool({
     positions: z.array(z.any()),
     taxBracket: z.number(),
   }),
-  execute: async ({ positions, taxBracket }) => {
+  execute: async ({ context: { positions, taxBracket } }) => {
     return {
       recommendations: [],
     };
@@ -259,7 +237,7 @@ export const riskAssessmentTool = createTool({
     portfolioId: z.string(),
     riskMetrics: z.array(z.string()).optional(),
   }),
-  execute: async ({ portfolioId, riskMetrics }) => {
+  execute: async ({ context: { portfolioId, riskMetrics } }) => {
     return {
       var: 0,
       cvar: 0,
@@ -277,7 +255,7 @@ export const hedgingTool = createTool({
     portfolio: z.any(),
     hedgeType: z.string(),
   }),
-  execute: async ({ portfolio, hedgeType }) => {
+  execute: async ({ context: { portfolio, hedgeType } }) => {
     return {
       hedgeStrategy: {},
     };
@@ -293,7 +271,7 @@ export const stressTestingTool = createTool({
     portfolioId: z.string(),
     scenarios: z.array(z.string()),
   }),
-  execute: async ({ portfolioId, scenarios }) => {
+  execute: async ({ context: { portfolioId, scenarios } }) => {
     return {
       results: {},
     };
@@ -309,7 +287,7 @@ export const volatilityAnalysisTool = createTool({
     symbol: z.string(),
     period: z.number(),
   }),
-  execute: async ({ symbol, period }) => {
+  execute: async ({ context: { symbol, period } }) => {
     return {
       historicalVol: 0,
       impliedVol: 0,
@@ -326,7 +304,7 @@ export const correlationAnalysisTool = createTool({
     assets: z.array(z.string()),
     period: z.number(),
   }),
-  execute: async ({ assets, period }) => {
+  execute: async ({ context: { assets, period } }) => {
     return {
       correlationMatrix: {},
     };
@@ -342,7 +320,7 @@ export const economicDataTool = createTool({
     indicators: z.array(z.string()),
     country: z.string().optional(),
   }),
-  execute: async ({ indicators, country }) => {
+  execute: async ({ context: { indicators, country } }) => {
     return {
       data: {},
     };
@@ -358,7 +336,7 @@ export const sectorAnalysisTool = createTool({
     sectors: z.array(z.string()),
     metrics: z.array(z.string()).optional(),
   }),
-  execute: async ({ sectors, metrics }) => {
+  execute: async ({ context: { sectors, metrics } }) => {
     return {
       analysis: {},
     };
@@ -374,7 +352,7 @@ export const policyAnalysisTool = createTool({
     policyType: z.string(),
     assets: z.array(z.string()).optional(),
   }),
-  execute: async ({ policyType, assets }) => {
+  execute: async ({ context: { policyType, assets } }) => {
     return {
       impact: {},
     };
@@ -390,7 +368,7 @@ export const marketCycleTool = createTool({
     market: z.string(),
     timeframe: z.string(),
   }),
-  execute: async ({ market, timeframe }) => {
+  execute: async ({ context: { market, timeframe } }) => {
     return {
       currentPhase: '',
       indicators: {},
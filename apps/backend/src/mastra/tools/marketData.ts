@@ -29,7 +29,7 @@ export const marketDataTool = createTool({
     startDate: z.string().optional(),
     endDate: z.string().optional(),
   }),
-  execute: async ({ symbol, dataType, timeframe, startDate, endDate }) => {
+  execute: async ({ context: { symbol, dataType, timeframe, startDate, endDate } }) => {
     // Skip Polygon.io since it's disabled, go straight to alternatives
     try {
       // Try Alpaca first if available
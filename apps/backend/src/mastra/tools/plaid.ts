@@ -65,7 +65,7 @@ export const plaidTool = createTool({
     startDate: z.string().optional(),
     endDate: z.string().optional(),
   }),
-  execute: async ({ action, userId, publicToken, accessToken, startDate, endDate }) => {
+  execute: async ({ context: { action, userId, publicToken, accessToken, startDate, endDate } }) => {
     switch (action) {
       case 'createLinkToken':
         // Create a link token for Plaid Link initialization
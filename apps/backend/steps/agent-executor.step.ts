@@ -1,11 +1,27 @@
 import { z } from 'zod';
-import type { EventConfig, Handlers } from 'motia';
-import { groqService } from '../services/groq.service';
-import { azureOpenAI } from '../services/azure-openai.service';
-import { agentPrompts } from '../src/mastra/config';
-import { OpenAI } from 'openai';
-import { RiskReportFormatter } from '../services/risk-report-formatter';
-import { SummaryGeneratorService } from '../services/summary-generator.service';
+import type { EventConfig, Handlers, InternalStateManager } from 'motia';
+import { workflowsConfig } from '../config/workflows.config';
+import { llmService, type LLMMetering } from '../services/llm-service';
+import { AgentProgressReporter, type AgentProgressEvent } from '../services/agent-progress';
+import { agentRunner, type AgentToolEvent } from '../services/agent-runner.service';
+import { ErrorCode } from '../services/error.service';
+import { marketDataService } from '../services/market-data.service';
+import { memoryService } from '../services/memory.service';
+import { promptRegistry, type PromptVariables } from '../services/prompt-registry.service';
+import { debateService, formatTranscript, getDebateParticipants } from '../services/debate.service';
+import { ReportFormatterService } from '../services/report-formatter.service';
+import { structuredOutputService } from '../services/structured-output.service';
+import type { AgentResult } from '../services/summary-generator.service';
+import { workflowApprovalService } from '../services/workflow-approval.service';
+import { canStartSteps, getStatus, workflowControlService } from '../services/workflow-control.service';
+import { workflowExecutionService } from '../services/workflow-execution.service';
+import { workflowTelemetryService } from '../services/workflow-telemetry.service';
+import { evaluateCondition } from '../services/workflow-conditions';
+import { isApprovalGated, toGraphSteps, type GraphStep } from '../services/workflow-graph';
+import { getStepPolicy, runStep, type StepOutcome, type StepRoute } from '../services/workflow-step-runner';
+import { getAgentOutputSchema, type AgentOutput, type Order } from '../schemas/agent-output.schemas';
+import type { WorkflowStep } from '../schemas/workflow.schemas';
+import { placeOrder } from '../src/mastra/tools/alpacaTrading';
 
 const inputSchema = z.object({
   workflowId: z.string(),
@@ -18,137 +34,165 @@ export const config: EventConfig = {
   type: 'event',
   name: 'AgentExecutor',
   subscribes: ['workflow.agent.started'],
-  emits: ['workflow.agent.completed', 'workflow.agent.progress', 'workflow.completed', 'workflow.agent.started'],
+  emits: [
+    'workflow.agent.completed',
+    'workflow.agent.progress',
+    'workflow.finalize',
+    'workflow.agent.started',
+    'workflow.status.changed',
+    'workflow.approval.requested',
+  ],
   input: inputSchema,
 };
 
-// Simulate agent thinking process with intermediate updates
-async function* processAgentTask(
-  agent: string,
-  _task: string,
-  _context: any,
-  emit: any,
-  workflowId: string,
-  userId?: string
-): AsyncGenerator<string> {
-  const steps = [
-    { message: `Analyzing task requirements...`, progress: 20 },
-    { message: `Gathering relevant data...`, progress: 40 },
-    { message: `Applying ${agent} expertise...`, progress: 60 },
-    { message: `Formulating insights...`, progress: 80 },
-    { message: `Preparing recommendations...`, progress: 95 },
-  ];
-
-  for (const step of steps) {
-    yield step.message;
-    
-    // Emit progress update with SSE support
-    await emit({
-      topic: 'workflow.agent.progress',
-      data: {
-        type: 'workflow.agent.progress',
-        workflowId,
-        userId,
-        agent,
-        message: step.message,
-        progress: step.progress,
-        timestamp: new Date().toISOString(),
-      },
-    });
-
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, 500));
-  }
-}
-
 async function callLLM(
   agent: string,
   task: string,
   userMessage: string,
-  previousResults: any[]
-): Promise<string> {
-  const systemPrompt = agentPrompts[agent as keyof typeof agentPrompts] || agentPrompts.general;
-  
-  // Build context from previous agent results
-  const contextPrompt = previousResults.length > 0
-    ? `\n\nPrevious agent insights:\n${previousResults.map(r => 
-        `${r.agent}: ${r.result}`
-      ).join('\n\n')}`
-    : '';
-
-  const fullPrompt = `${systemPrompt}
+  previousResults: any[],
+  workflowContext: PromptVariables | undefined,
+  marketData: string | undefined,
+  metering: LLMMetering,
+  progress: AgentProgressReporter,
+  outputSchema: string = agent,
+  route: StepRoute = {},
+  // Aborted when the attempt times out or fails, before the retry starts
+  signal?: AbortSignal
+): Promise<{ content: string; output?: AgentOutput }> {
+  // Workflow context (risk tolerance, timeframe, symbols) fills the agent template
+  const systemPrompt = await agentRunner.getInstructions(agent, workflowContext);
 
-Your specific task: ${task}
-
-User's original request: ${userMessage}
-${contextPrompt}
-
-Provide a focused response addressing your specific task from your agent perspective.`;
+  // Build context from previous agent results
+  const previousInsights = previousResults.map(r => 
+    `${r.agent}: ${r.output ? JSON.stringify(r.output) : r.result}`
+  ).join('\n\n');
+
+  const taskPrompt = await promptRegistry.render('workflow.agent-task', {
+    task,
+    userMessage,
+    marketData,
+    previousInsights,
+  });
+  // Long-term memories (goals, holdings, preferences) relevant to the request
+  const memories = await memoryService.formatForPrompt(await memoryService.recall(metering.userId, userMessage));
+  const fullPrompt = [systemPrompt, memories, taskPrompt].filter(Boolean).join('\n\n');
 
   try {
-    // Try Groq first
-    if (groqService.isConfigured()) {
-      const completion = await groqService.createChatCompletion({
-        messages: [
-          { role: 'system', content: fullPrompt },
-          { role: 'user', content: userMessage }
-        ],
-        model: 'llama-3.3-70b-versatile',
-        temperature: 0.7,
-        max_tokens: 1000,
-      });
-      
-      if ('choices' in completion) {
-        return completion.choices[0]?.message?.content || 'No response generated';
-      }
-    }
-    
-    // Fallback to Azure
-    if (azureOpenAI.isConfigured()) {
-      const completion = await azureOpenAI.createChatCompletion({
-        model: 'model-router',
-        messages: [
-          { role: 'system', content: fullPrompt },
-          { role: 'user', content: userMessage }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-      });
-      
-      return completion.choices[0]?.message?.content || 'No response generated';
+    let toolResults: AgentToolEvent[] = [];
+    const { data, response } = await structuredOutputService.generate(getAgentOutputSchema(outputSchema), {
+      messages: [
+        { role: 'system', content: fullPrompt },
+        { role: 'user', content: userMessage }
+      ],
+      invoke: async messages => {
+        // Each attempt streams its answer from the start
+        const { onToken, onToolEvent } = progress.startAttempt();
+        const result = await agentRunner.run(agent, {
+          messages,
+          temperature: 0.7,
+          maxTokens: 1500,
+          metering,
+          onToolEvent,
+          onToken,
+          responseFormat: 'json',
+          provider: route.provider,
+          model: route.model,
+          signal,
+        });
+        toolResults = result.toolResults;
+        return result;
+      },
+      // Repairs only fix the JSON: no tools, so orders and lookups are not repeated
+      repair: async messages => {
+        const { onToken } = progress.startAttempt();
+        const gathered = await agentRunner.toolResultsMessage(toolResults, { metering });
+        return llmService.stream({
+          messages: gathered ? [messages[0], gathered, ...messages.slice(1)] : messages,
+          temperature: 0.7,
+          maxTokens: 1500,
+          metering,
+          responseFormat: 'json',
+          provider: route.provider,
+          model: route.model,
+          signal,
+        }, onToken);
+      },
+    });
+    await progress.flush();
+
+    return { content: response.content, output: data as AgentOutput };
+  } catch (error: any) {
+    // The model answered but never produced valid JSON; keep its text
+    if (error?.code === ErrorCode.EXTERNAL_SERVICE_ERROR && error.details?.content) {
+      console.warn(`Structured output failed for agent ${agent}:`, error.details.issues);
+      return { content: error.details.content };
     }
-    
-    // Fallback to OpenAI
-    if (process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY !== 'your-openai-api-key-here') {
-      const openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
+    // Anything else fails the attempt so the step's retry policy applies
+    throw error;
+  }
+}
+
+/**
+ * Why a branch condition leaves the step out: its `when` is false, or every
+ * step it depends on was itself left out by a condition
+ */
+async function getBranchSkip(
+  state: InternalStateManager,
+  workflowId: string,
+  steps: Array<GraphStep & Partial<WorkflowStep>>,
+  step: GraphStep & Partial<WorkflowStep>,
+  previousResults: AgentResult[]
+): Promise<{ condition: string; reason: string } | undefined> {
+  const conditions = previousResults.map(result => result.skipped?.condition);
+  if (conditions.length > 0 && conditions.every(Boolean)) {
+    return { condition: conditions[0] as string, reason: 'every step it depends on was skipped' };
+  }
+  if (step.when && !evaluateCondition(step.when, await workflowExecutionService.getOutputs(state, workflowId, steps))) {
+    return { condition: step.when, reason: `condition not met (${step.when})` };
+  }
+  return undefined;
+}
+
+/**
+ * Place the orders the user approved, each under an id derived from the run
+ * and step so the broker never places one twice. Failures are reported per
+ * order; nothing is retried.
+ */
+async function placeApprovedOrders(
+  workflowId: string,
+  stepId: string,
+  orders: Order[],
+  publishProgress: (event: AgentProgressEvent) => Promise<void>
+): Promise<Array<Order & { placed?: Awaited<ReturnType<typeof placeOrder>>['order']; error?: string }>> {
+  const placements = [];
+  for (const [index, order] of orders.entries()) {
+    try {
+      const { order: placed } = await placeOrder(order, `${workflowId}-${stepId}-${index}`);
+      placements.push({ ...order, placed });
+      await publishProgress({
+        kind: 'order',
+        message: `Placed ${order.side} ${order.quantity} ${order.symbol} (${placed.status})`,
+        progress: Math.round((50 * (index + 1)) / orders.length),
+        data: { order, placed },
       });
-      
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          { role: 'system', content: fullPrompt },
-          { role: 'user', content: userMessage }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      placements.push({ ...order, error: message });
+      await publishProgress({
+        kind: 'order',
+        message: `Could not place ${order.side} ${order.quantity} ${order.symbol}: ${message}`,
+        data: { order, error: message },
       });
-      
-      return completion.choices[0]?.message?.content || 'No response generated';
     }
-    
-    // No LLM configured - return mock response
-    return `[${agent.toUpperCase()} AGENT]\n\nTask: ${task}\n\nAnalysis: This is a simulated response from the ${agent} agent. Configure an LLM provider to get actual AI-powered insights.\n\nKey Points:\n- Point 1 related to ${task}\n- Point 2 with ${agent} perspective\n- Point 3 with actionable insights`;
-    
-  } catch (error) {
-    console.error(`LLM call failed for agent ${agent}:`, error);
-    return `[${agent.toUpperCase()} AGENT - Error]\n\nUnable to generate response. Please check LLM configuration.`;
   }
+  return placements;
 }
 
 export const handler: Handlers['AgentExecutor'] = async (input, { logger, emit, state, traceId }) => {
   const { workflowId, stepIndex, agent, task } = input;
   let workflow: any = null;
+  let stepId: string | undefined;
+  const startedAt = Date.now();
   
   try {
     logger.info('Agent executor started', { 
@@ -164,73 +208,276 @@ export const handler: Handlers['AgentExecutor'] = async (input, { logger, emit,
     if (!workflow) {
       throw new Error(`Workflow ${workflowId} not found`);
     }
+    if (getStatus(workflow) === 'cancelled') {
+      logger.info('Skipping step of cancelled workflow', { workflowId, stepIndex });
+      return;
+    }
 
-    // Get previous results for context
-    const previousResults = workflow.results || [];
-
-    // Log that agent is processing
-    logger.info('Agent processing started', {
-      agent,
-      task,
-      stepIndex,
-      message: `${agent} is analyzing...`,
-    });
+    // Only the results of this step's dependencies are passed on
+    const steps = toGraphSteps<WorkflowStep>(workflow.steps || workflow.agents || []);
+    const step = steps[stepIndex];
+    stepId = step?.id;
+    const previousResults = await workflowExecutionService.getResults(state, workflowId, steps, step?.dependsOn || []);
+    const branch = step && await getBranchSkip(state, workflowId, steps, step, previousResults);
+
+    // Approval steps wait for the user (POST /api/workflow/:id/approvals/:stepId) instead of an agent
+    if (!branch && step?.type === 'approval') {
+      const { approval, change } = await workflowApprovalService.request(
+        state, workflow, step, stepIndex, previousResults, step.timeoutMs
+      );
+      if (change) {
+        await emit({
+          topic: 'workflow.status.changed',
+          data: {
+            type: 'workflow.status.changed',
+            workflowId,
+            userId: workflow.userId,
+            status: change.transition.to,
+            previousStatus: change.transition.from,
+            stepIndex,
+            message: change.transition.reason,
+            timestamp: change.transition.at,
+          },
+        });
+      }
+      await emit({
+        topic: 'workflow.approval.requested' as any,
+        data: {
+          type: 'workflow.approval.requested',
+          workflowId,
+          userId: workflow.userId,
+          stepIndex,
+          agent,
+          task,
+          message: `Approval needed: ${approval.title}`,
+          data: approval,
+          timestamp: approval.requestedAt,
+        },
+      } as any);
+      logger.info('Workflow waiting for approval', { workflowId, stepIndex, approvalId: approval.id, expiresAt: approval.expiresAt });
+      return;
+    }
 
-    // Simulate agent processing with progress updates
-    const progressGenerator = processAgentTask(agent, task, workflow.context, emit, workflowId, workflow.userId);
-    
-    for await (const progress of progressGenerator) {
-      logger.info(`Agent ${agent} progress: ${progress}`);
-      
-      // Log progress update
-      logger.debug('Agent progress update', {
+    let agentResult: AgentResult;
+    let outcome: StepOutcome<Awaited<ReturnType<typeof callLLM>>> | undefined;
+    if (branch) {
+      logger.info('Step left out by a branch condition', { workflowId, agent, stepIndex, condition: branch.condition });
+      agentResult = {
+        agent,
+        task,
+        result: `_Skipped: ${branch.reason}_`,
+        skipped: { error: `Skipped: ${branch.reason}`, condition: branch.condition },
+        completedAt: new Date().toISOString(),
+      };
+    } else {
+      // Log that agent is processing
+      logger.info('Agent processing started', {
         agent,
+        task,
         stepIndex,
-        message: progress,
+        message: `${agent} is analyzing...`,
       });
-    }
 
-    // Call LLM for actual agent response
-    const agentResponse = await callLLM(
-      agent,
-      task,
-      workflow.message,
-      previousResults
-    );
-
-    // Format the response based on agent type for risk assessment workflows
-    let formattedResponse = agentResponse;
-    if (workflow.workflowId === 'riskAssessment' || 
-        workflow.message.toLowerCase().includes('risk') ||
-        workflow.message.toLowerCase().includes('portfolio')) {
-      formattedResponse = RiskReportFormatter.formatRiskAssessment(agent, agentResponse);
-    }
+      // Progress comes from the agent's tool calls, streamed tokens and finished sections
+      const publishProgress = async (event: AgentProgressEvent) => {
+        await emit({
+          topic: 'workflow.agent.progress',
+          data: {
+            type: 'workflow.agent.progress',
+            workflowId,
+            userId: workflow.userId,
+            stepIndex,
+            agent,
+            kind: event.kind,
+            message: event.message,
+            progress: event.progress,
+            data: event.data,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      };
+      const isCancelled = async () => getStatus(await state.get('workflows', workflowId) || workflow) === 'cancelled';
+
+      // Steps after an approval act on it, so they run once
+      const approvalGated = !!step && isApprovalGated(steps, step.id);
+      const policy = getStepPolicy(step || {}, { approvalGated });
+      // Quotes and history the definition prefetches for the run's symbols, fetched by the first step
+      const marketData = await marketDataService.getForRun(state, workflowId, workflow.context?.symbols, workflow.prefetch || []);
+
+      if (step?.type === 'debate') {
+        // Participants argue in rounds (every turn has the step's retries), then the judge decides
+        const participants = step.debate?.participants ?? getDebateParticipants(workflow.message, workflow.context);
+        const rounds = step.debate?.rounds ?? workflowsConfig.debate.defaultRounds;
+        let turnsDone = 0;
+
+        outcome = await runStep(
+          async (_route, signal) => {
+            const debate = await debateService.run({
+              question: [
+                task,
+                `User's request: ${workflow.message}`,
+                ...(marketData ? [marketData] : []),
+                ...previousResults.map(r => `${r.agent}: ${r.output ? JSON.stringify(r.output) : r.result}`),
+              ].join('\n\n'),
+              participants,
+              rounds,
+              context: workflow.context,
+              metering: { userId: workflow.userId, workflowId, stepId: step.id, feature: 'agent' },
+              policy,
+              signal,
+              hooks: {
+                shouldStop: isCancelled,
+                onTurn: turn => publishProgress({
+                  kind: 'debate_turn',
+                  message: `${turn.participant} argues ${turn.stance} (round ${turn.round})`,
+                  progress: Math.min(95, Math.round((90 * ++turnsDone) / (rounds * participants.length))),
+                  data: { turn },
+                }),
+                onRound: (round, convergence) => publishProgress({
+                  kind: 'debate_round',
+                  message: convergence
+                    ? `Round ${round.round} finished, the judge is scoring the arguments`
+                    : `Round ${round.round} finished`,
+                  data: { round, convergence },
+                }),
+              },
+            });
+            // The status endpoint serves the full transcript
+            await state.set('workflows', `${workflowId}:debate:${step.id}`, debate);
+            await publishProgress({
+              kind: 'debate_verdict',
+              message: `Verdict: ${debate.verdict.verdict} (${Math.round(debate.verdict.confidence * 100)}% confidence)`,
+              progress: 100,
+              data: { verdict: debate.verdict, convergence: debate.convergence },
+            });
+            return { content: formatTranscript(debate.rounds), output: debate.verdict };
+          },
+          // Turns retry on their own; the debate as a whole can only be skipped
+          {
+            ...policy,
+            timeoutMs: workflow.timeoutMs ?? workflowsConfig.defaultTimeoutMs,
+            maxRetries: 0,
+            fallback: policy.fallback?.type === 'skip' ? policy.fallback : undefined,
+          },
+          { shouldStop: isCancelled }
+        );
+      } else {
+        const progress = new AgentProgressReporter(publishProgress, {
+          sections: Object.keys(getAgentOutputSchema(step?.outputSchema || agent).shape),
+        });
+
+        // The orders the user approved are placed here, as approved; the agent only reports on them
+        const approvedOrders = approvalGated && step
+          ? await workflowApprovalService.getApprovedOrders(state, workflowId, steps, step.id)
+          : undefined;
+        const inputs: AgentResult[] = [...previousResults];
+        if (step && approvedOrders) {
+          const placements = await placeApprovedOrders(workflowId, step.id, approvedOrders, publishProgress);
+          await state.set('workflows', `${workflowId}:orders:${step.id}`, placements);
+          inputs.push({
+            agent: 'order placement',
+            task: 'Place the approved orders',
+            result: `Orders placed by the workflow (none other were placed): ${JSON.stringify(placements)}`,
+            completedAt: new Date().toISOString(),
+          });
+        }
+
+        // Call LLM for actual agent response; the step's policy retries errors and timeouts
+        outcome = await runStep(
+          (route, signal) => callLLM(
+            agent,
+            task,
+            workflow.message,
+            inputs,
+            workflow.context,
+            marketData,
+            { userId: workflow.userId, workflowId, stepId, feature: 'agent' },
+            progress,
+            // Workflow definitions may ask for another agent's output shape
+            step?.outputSchema,
+            route,
+            signal
+          ),
+          policy,
+          {
+            shouldStop: isCancelled,
+            onRetry: async (failure) => {
+              logger.warn('Agent attempt failed, retrying', { workflowId, agent, stepIndex, ...failure });
+              // A fresh started_at keeps recovery from taking the step for orphaned
+              if (stepId) await workflowExecutionService.restartStep(workflowId, stepId);
+              await publishProgress({
+                kind: 'retry',
+                message: `Attempt ${failure.attempt} of ${failure.maxAttempts} failed (${failure.error}), retrying in ${Math.ceil(failure.delayMs / 1000)}s`,
+                data: { ...failure },
+              });
+            },
+            onFallback: async (route, error) => {
+              logger.warn('Agent retries exhausted, trying fallback model', { workflowId, agent, stepIndex, ...route, error });
+              await publishProgress({
+                kind: 'fallback',
+                message: `Retrying on ${route.model || route.provider}`,
+                data: { ...route, error },
+              });
+            },
+          }
+        );
+      }
 
-    // Store agent result
-    const agentResult = {
-      agent,
-      task,
-      result: formattedResponse,
-      completedAt: new Date().toISOString(),
-    };
+      // The run may have been cancelled while the agent was working
+      if (await isCancelled()) {
+        logger.info('Discarding agent output of cancelled workflow', { workflowId, agent, stepIndex });
+        return;
+      }
+
+      if (outcome.status === 'skipped') {
+        // The definition allows continuing without this perspective; the summary lists it as missing
+        logger.warn('Agent step skipped after failing', { workflowId, agent, stepIndex, error: outcome.error });
+        agentResult = {
+          agent,
+          task,
+          result: [`_The ${agent} analysis is unavailable: ${outcome.error}_`, outcome.note].filter(Boolean).join('\n\n'),
+          skipped: { error: outcome.error, note: outcome.note },
+          completedAt: new Date().toISOString(),
+        };
+      } else {
+        // Render the report from the structured output (or the raw text if validation failed)
+        const report = ReportFormatterService.formatAgentResponse(agent, outcome.value.output || outcome.value.content);
+        agentResult = {
+          agent,
+          task,
+          result: step?.type === 'debate'
+            ? `${ReportFormatterService.toMarkdown(report)}## 🗣️ Debate Transcript\n\n${outcome.value.content}\n`
+            : ReportFormatterService.toMarkdown(report),
+          output: outcome.value.output,
+          completedAt: new Date().toISOString(),
+        };
+      }
+    }
 
     await state.set('workflows', `${workflowId}:result:${stepIndex}`, agentResult);
 
-    // Update workflow with this agent's result
-    const updatedResults = [...previousResults, agentResult];
-    await state.set('workflows', workflowId, {
-      ...workflow,
-      results: updatedResults,
-      currentStep: stepIndex + 1,
-      lastUpdated: new Date().toISOString(),
-    });
+    // The full result is persisted so the run can be rebuilt after a restart
+    if (step && agentResult.skipped) {
+      await workflowExecutionService.skipStep(workflowId, step.id, agentResult, agentResult.skipped.error, Date.now() - startedAt);
+    } else if (step) {
+      await workflowExecutionService.completeStep(workflowId, step.id, agentResult, Date.now() - startedAt);
+    }
+    if (step) {
+      await workflowTelemetryService.recordStep(state, {
+        workflowId,
+        workflowKey: workflow.workflowId || 'adhoc',
+        stepId: step.id,
+        agent,
+        status: agentResult.skipped ? 'skipped' : 'completed',
+        durationMs: Date.now() - startedAt,
+      });
+    }
 
     // Log agent completion
     logger.info('Agent completed', {
       agent,
       stepIndex,
-      totalSteps: workflow.steps?.length || workflow.agents?.length || 1,
-      completedSteps: stepIndex + 1,
+      totalSteps: steps.length,
     });
 
     // Emit agent completed event
@@ -243,95 +490,89 @@ export const handler: Handlers['AgentExecutor'] = async (input, { logger, emit,
         stepIndex,
         agent,
         task,
-        result: agentResponse,
+        result: agentResult.result,
+        output: agentResult.output,
+        skipped: agentResult.skipped,
+        attempts: outcome?.attempts ?? 0,
+        fallback: outcome?.status === 'completed' ? outcome.fallback : undefined,
+        // Time left and spend so far, from what the finished steps took
+        estimate: await workflowTelemetryService.estimateRun(state, workflowId),
         timestamp: new Date().toISOString(),
       },
     } as any);
 
-    // Check if this was the last agent or trigger the next one
-    const totalSteps = workflow.steps?.length || workflow.agents?.length || 1;
-    if (stepIndex >= totalSteps - 1) {
-      // This was the last agent - generate executive summary
-      logger.info('All agents completed, generating executive summary', {
-        workflowId,
-        resultsCount: updatedResults.length,
-      });
-
-      // Generate executive summary from all agent results
-      const executiveSummary = await SummaryGeneratorService.generateExecutiveSummary(
-        updatedResults,
-        workflow.message
-      );
-
-      // Add summary as a final result
-      const summaryResult = {
-        agent: 'summary',
-        task: 'Executive Summary and Synthesis',
-        result: executiveSummary,
+    // The rest of the workflow is not needed: steps not started yet are left out
+    if (step?.endIf && !agentResult.skipped &&
+      evaluateCondition(step.endIf, await workflowExecutionService.getOutputs(state, workflowId, steps))) {
+      const reason = `Skipped: workflow ended early after ${step.id} (${step.endIf})`;
+      const ended = await workflowExecutionService.skipUnstarted(state, workflowId, steps, ({ agent: skippedAgent, task: skippedTask }) => ({
+        agent: skippedAgent,
+        task: skippedTask,
+        result: `_${reason}_`,
+        skipped: { error: reason, condition: step.endIf },
         completedAt: new Date().toISOString(),
-      };
-
-      const finalResults = [...updatedResults, summaryResult];
+      }));
+      logger.info('Workflow ending early', { workflowId, stepIndex, condition: step.endIf, skippedSteps: ended.map(({ index }) => index) });
+
+      for (const { index, result } of ended) {
+        await emit({
+          topic: 'workflow.agent.completed' as any,
+          data: {
+            type: 'workflow.agent.completed',
+            workflowId,
+            userId: workflow.userId,
+            stepIndex: index,
+            agent: result.agent,
+            task: result.task,
+            result: result.result,
+            skipped: result.skipped,
+            timestamp: new Date().toISOString(),
+          },
+        } as any);
+      }
+    }
 
-      // Store the summary
-      await state.set('workflows', `${workflowId}:summary`, summaryResult);
-      await state.set('workflows', workflowId, {
-        ...workflow,
-        results: finalResults,
-        summary: executiveSummary,
-        completedAt: new Date().toISOString(),
-      });
+    // Start every step this one unblocked; parallel branches may finish in any order.
+    // Paused and failed runs start nothing new but still complete once every step is done.
+    const { ready, complete } = await workflowExecutionService.advance(state, workflowId, steps, {
+      startReady: canStartSteps(await state.get('workflows', workflowId) || workflow),
+    });
 
-      logger.info('Workflow completed with executive summary', {
-        workflowId,
-        resultsCount: finalResults.length,
-        message: 'Multi-agent analysis complete with executive summary',
-      });
+    if (complete) {
+      // Every step finished - the finalizer writes the executive summary
+      logger.info('All agents completed, finalizing workflow', { workflowId });
+      await emit({ topic: 'workflow.finalize', data: { workflowId } });
+    }
 
-      await emit({
-        topic: 'workflow.completed' as any,
-        data: {
-          type: 'workflow.completed',
-          workflowId,
-          userId: workflow.userId,
-          results: finalResults,
-          summary: executiveSummary,
-          completedAt: new Date().toISOString(),
-        },
-      } as any);
-    } else {
-      // Trigger the next agent in sequence
-      const nextStep = workflow.steps?.[stepIndex + 1] || workflow.agents?.[stepIndex + 1];
-      const nextAgent = typeof nextStep === 'string' ? nextStep : nextStep?.agent;
-      const nextTask = typeof nextStep === 'string' ? `Process with ${nextStep}` : nextStep?.task;
-      
+    for (const { step: nextStep, index: nextIndex } of ready) {
       // Log next agent starting
       logger.info('Starting next agent', {
-        agent: nextAgent,
-        task: nextTask,
-        stepIndex: stepIndex + 1,
-        totalSteps,
-        message: `Starting ${nextAgent}...`,
+        agent: nextStep.agent,
+        task: nextStep.task,
+        stepIndex: nextIndex,
+        dependsOn: nextStep.dependsOn,
+        totalSteps: steps.length,
+        message: `Starting ${nextStep.agent}...`,
       });
-      
+
+      // Update workflow state for next step
+      await state.set('workflows', `${workflowId}:step:${nextIndex}`, {
+        agent: nextStep.agent,
+        task: nextStep.task,
+        status: 'processing',
+        startedAt: new Date().toISOString(),
+      });
+
       // Emit the next agent without the 'type' field (not needed for internal events)
       await emit({
         topic: 'workflow.agent.started' as any,
         data: {
           workflowId,
-          stepIndex: stepIndex + 1,
-          agent: nextAgent,
-          task: nextTask,
+          stepIndex: nextIndex,
+          agent: nextStep.agent,
+          task: nextStep.task,
         },
       } as any);
-      
-      // Update workflow state for next step
-      await state.set('workflows', `${workflowId}:step:${stepIndex + 1}`, {
-        agent: nextStep.agent,
-        task: nextStep.task,
-        status: 'processing',
-        startedAt: new Date().toISOString(),
-      });
     }
 
     logger.info('Agent executor completed', { 
@@ -349,6 +590,55 @@ export const handler: Handlers['AgentExecutor'] = async (input, { logger, emit,
       agent,
       traceId 
     });
+
+    // Cancelling already closed the step
+    const latest: any = workflow && await state.get('workflows', workflowId);
+    if (latest && getStatus(latest) === 'cancelled') return;
+
+    if (stepId) {
+      await workflowExecutionService.failStep(workflowId, stepId, errorMessage, Date.now() - startedAt);
+      await workflowTelemetryService.recordStep(state, {
+        workflowId,
+        workflowKey: workflow?.workflowId || 'adhoc',
+        stepId,
+        agent,
+        status: 'failed',
+        durationMs: Date.now() - startedAt,
+      });
+    }
+
+    // Failed steps stop the run until they are retried (POST /api/workflow/:id/steps/:index/retry)
+    if (workflow) {
+      try {
+        await state.set('workflows', `${workflowId}:step:${stepIndex}`, {
+          agent,
+          task,
+          status: 'failed',
+          error: errorMessage,
+          failedAt: new Date().toISOString(),
+        });
+        const { transition } = await workflowControlService.setStatus(state, workflow, 'failed', { stepIndex, reason: errorMessage });
+        await emit({
+          topic: 'workflow.status.changed',
+          data: {
+            type: 'workflow.status.changed',
+            workflowId,
+            userId: workflow.userId,
+            status: transition.to,
+            previousStatus: transition.from,
+            stepIndex,
+            message: errorMessage,
+            timestamp: transition.at,
+          },
+        });
+      } catch (stateError) {
+        logger.error('Failed to record step failure', {
+          workflowId,
+          stepIndex,
+          error: stateError instanceof Error ? stateError.message : 'Unknown error',
+        });
+      }
+    }
     
     await emit({
       topic: 'workflow.agent.completed' as any,
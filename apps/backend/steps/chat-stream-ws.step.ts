@@ -1,8 +1,15 @@
 import type { ApiRouteConfig, Handlers } from 'motia'
 import { z } from 'zod'
 import { LLMService } from '../services/llm-service'
-import { WorkflowDetector } from '../services/workflow-detector'
-import { agentPrompts } from '../src/mastra/config'
+import { agentRunner } from '../services/agent-runner.service'
+import { personaService } from '../services/persona.service'
+import { ErrorCode } from '../services/error.service'
+import { promptInjectionService } from '../services/prompt-injection.service'
+import { memoryService } from '../services/memory.service'
+import { intentRouterService } from '../services/intent-router.service'
+import { prepareWorkflowRun } from '../services/workflow-inputs'
+import { workflowRegistry } from '../services/workflow-registry.service'
+import { workflowTelemetryService } from '../services/workflow-telemetry.service'
 
 export const config: ApiRouteConfig = {
   type: 'api',
@@ -14,6 +21,7 @@ export const config: ApiRouteConfig = {
     assistantType: z.enum(['general', 'analyst', 'trader', 'advisor', 'riskManager', 'economist']).optional(),
     userId: z.string(),
     streamId: z.string().optional(), // Optional stream ID for specific channel
+    personaId: z.string().uuid().optional(), // Custom persona; replaces the assistant type's prompt
     context: z.object({
       symbols: z.array(z.string()).optional(),
       timeframe: z.string().optional(),
@@ -24,11 +32,12 @@ export const config: ApiRouteConfig = {
     'chat.started',
     'workflow.trigger',
     'chat.completed',
+    'memory.extract',
   ],
 }
 
 export const handler: Handlers['ChatStreamWS'] = async (req, { logger, emit, state, streams, traceId }) => {
-  const { message, assistantType = 'general', userId, streamId, context } = req.body
+  const { message, userId, streamId, personaId, context } = req.body
   
   // Use provided streamId or default to user-specific stream
   const chatStreamKey = streamId || `chat-${userId}`
@@ -47,21 +56,40 @@ export const handler: Handlers['ChatStreamWS'] = async (req, { logger, emit, sta
       }
     }
 
-    // Detect if this should trigger a workflow
-    const workflowDetector = new WorkflowDetector()
-    const shouldTriggerWorkflow = await workflowDetector.analyze(message, context)
+    // Blocks or neutralizes attempts to override the assistant's instructions (policy per route)
+    const { text: safeMessage } = await promptInjectionService.screen(message, { source: 'user', route: 'chat', userId, traceId })
 
-    if (shouldTriggerWorkflow) {
+    // Goals, holdings and preferences stated here are remembered for later conversations
+    await emit({ topic: 'memory.extract', data: { userId, message: safeMessage } })
+
+    // Start a workflow when the message asks for one; otherwise pick the assistant unless the user chose one
+    const decision = await intentRouterService.route(safeMessage, { userId, traceId })
+    const workflow = decision.workflowId ? workflowRegistry.get(decision.workflowId) : undefined
+    const assistantType = req.body.assistantType || decision.assistantType
+
+    if (workflow) {
       // Workflow path
-      logger.info('Workflow detected, triggering multi-agent analysis', { traceId })
+      logger.info('Workflow detected, triggering multi-agent analysis', {
+        workflowKey: workflow.id,
+        confidence: decision.confidence,
+        method: decision.method,
+        traceId,
+      })
       
+      // Invalid inputs are reported now; the run itself starts after this response
+      const { steps } = prepareWorkflowRun(workflow, context)
+
+      // Duration and cost from recent runs of the definition
+      const estimate = await workflowTelemetryService.estimateFor(workflow.id, steps, { summary: workflow.output.summary })
+
       // Send initial workflow detection via WebSocket
       await streams.set(chatStreamKey, {
         type: 'workflow_detected',
         workflowId: traceId,
-        message: 'Initiating multi-agent analysis...',
-        agents: shouldTriggerWorkflow.agents,
-        estimatedTime: shouldTriggerWorkflow.estimatedTime,
+        message: `Initiating ${workflow.name}...`,
+        agents: workflow.agents,
+        estimatedTime: Math.round(estimate.durationMs.p50 / 1000), // seconds, median of recent runs
+        estimate,
         timestamp: new Date().toISOString(),
       })
 
@@ -70,10 +98,11 @@ export const handler: Handlers['ChatStreamWS'] = async (req, { logger, emit, sta
         topic: 'workflow.trigger',
         data: {
           workflowId: traceId,
+          workflowKey: workflow.id,
           userId,
-          message,
+          message: safeMessage,
           context,
-          agents: shouldTriggerWorkflow.agents,
+          agents: workflow.agents,
           streamKey: chatStreamKey, // Pass stream key for workflow updates
         },
       })
@@ -103,20 +132,11 @@ export const handler: Handlers['ChatStreamWS'] = async (req, { logger, emit, sta
     // Emit chat started event
     await emit({
       topic: 'chat.started',
-      data: { traceId, userId, message, assistantType },
+      data: { traceId, userId, message: safeMessage, assistantType },
     })
 
-    // Initialize LLM service with streaming callback
+    // Provider switches are reported on the same stream as the tokens
     const llmService = new LLMService({
-      streamCallback: async (token, metadata) => {
-        // Send each token via WebSocket
-        await streams.set(chatStreamKey, {
-          type: 'token',
-          content: token,
-          metadata,
-          timestamp: new Date().toISOString(),
-        })
-      },
       providerSwitchCallback: async (from, to, reason) => {
         // Notify about provider switch
         await streams.set(chatStreamKey, {
@@ -129,15 +149,46 @@ export const handler: Handlers['ChatStreamWS'] = async (req, { logger, emit, sta
       },
     })
 
-    // Get system prompt
-    const systemPrompt = agentPrompts[assistantType] || agentPrompts.general
-
-    // Process message with streaming
-    const response = await llmService.processWithStreaming(
-      message,
+    const { agentId, systemPrompt } = await personaService.resolveAssistant({
+      userId,
       assistantType,
-      { traceId, userId }
-    )
+      personaId,
+      variables: context,
+    })
+
+    // Run the assistant's agent with its tools, streaming the answer
+    const response = await agentRunner.run(agentId, {
+      llm: llmService,
+      messages: [
+        { role: 'system', content: await memoryService.withMemories(systemPrompt, userId, safeMessage) },
+        { role: 'user', content: safeMessage },
+      ],
+      metering: { userId, feature: 'chat' },
+      cacheable: true,
+      onToken: async (token, metadata) => {
+        // Send each token via WebSocket
+        await streams.set(chatStreamKey, {
+          type: 'token',
+          content: token,
+          metadata,
+          timestamp: new Date().toISOString(),
+        })
+      },
+      onToolEvent: async (event) => {
+        // e.g. "Fetching AAPL quote" followed by "Fetched AAPL quote"
+        await streams.set(chatStreamKey, {
+          type: event.type,
+          traceId,
+          toolCallId: event.toolCallId,
+          tool: event.tool,
+          args: event.args,
+          summary: event.summary,
+          error: event.error,
+          durationMs: event.durationMs,
+          timestamp: new Date().toISOString(),
+        })
+      },
+    })
 
     // Store complete response in state
     await state.set('chats', traceId, {
@@ -157,6 +208,9 @@ export const handler: Handlers['ChatStreamWS'] = async (req, { logger, emit, sta
       provider: response.provider,
       model: response.model,
       tokensUsed: response.tokensUsed,
+      costUsd: response.costUsd,
+      toolCalls: response.toolResults.length,
+      cached: response.cacheHit,
       timestamp: new Date().toISOString(),
     })
 
@@ -199,6 +253,38 @@ export const handler: Handlers['ChatStreamWS'] = async (req, { logger, emit, sta
         timestamp: new Date().toISOString(),
       })
     }
+
+    if ((error as any)?.code === ErrorCode.VALIDATION_ERROR) {
+      return {
+        status: 400,
+        body: { error: 'Invalid workflow inputs', message: (error as Error).message, ...(error as any).details },
+      }
+    }
+
+    if ((error as any)?.code === ErrorCode.FORBIDDEN) {
+      return {
+        status: 403,
+        body: { error: 'Message blocked', message: (error as Error).message, ...(error as any).details },
+      }
+    }
+
+    if ((error as any)?.code === ErrorCode.NOT_FOUND) {
+      return {
+        status: 404,
+        body: { error: 'Persona not found', message: (error as Error).message },
+      }
+    }
+
+    if ((error as any)?.code === ErrorCode.BUDGET_EXCEEDED) {
+      return {
+        status: 429,
+        body: {
+          error: 'LLM budget exceeded',
+          message: (error as Error).message,
+          ...(error as any).details,
+        },
+      }
+    }
     
     return {
       status: 500,
@@ -1,7 +1,13 @@
 import type { ApiRouteConfig, Handlers } from 'motia'
 import { z } from 'zod'
-import { LLMService } from '../services/llm-service'
-import { WorkflowDetector } from '../services/workflow-detector'
+import { agentRunner } from '../services/agent-runner.service'
+import { ErrorCode } from '../services/error.service'
+import { promptInjectionService } from '../services/prompt-injection.service'
+import { memoryService } from '../services/memory.service'
+import { intentRouterService } from '../services/intent-router.service'
+import { prepareWorkflowRun } from '../services/workflow-inputs'
+import { workflowRegistry } from '../services/workflow-registry.service'
+import { workflowTelemetryService } from '../services/workflow-telemetry.service'
 import { agentPrompts } from '../src/mastra/config'
 
 // Inline chart functions to avoid import issues
@@ -130,6 +136,7 @@ export const config: ApiRouteConfig = {
     message: z.string(),
     assistantType: z.enum(['general', 'analyst', 'trader', 'advisor', 'riskManager', 'economist']).optional(),
     userId: z.string(),
+    routed: z.boolean().optional(), // The caller already routed the message to chat
     context: z.object({
       symbols: z.array(z.string()).optional(),
       timeframe: z.string().optional(),
@@ -142,11 +149,12 @@ export const config: ApiRouteConfig = {
     'chat.completed',
     'chart.requested',
     'symbol.detected',
+    'memory.extract',
   ],
 }
 
 export const handler: Handlers['ChatStream'] = async (req: any, { logger, emit, state, traceId }: any) => {
-  const { message, assistantType = 'general', userId, context } = req.body
+  const { message, userId, context, routed } = req.body
   
   try {
     // Log the incoming message
@@ -202,7 +210,7 @@ export const handler: Handlers['ChatStream'] = async (req: any, { logger, emit,
         body: {
           traceId,
           response: `Here's the interactive chart for ${detectedSymbol.toUpperCase()}:`,
-          assistantType,
+          assistantType: req.body.assistantType || 'general',
           llmProvider: 'groq',
           model: 'chart-display',
           chartHtml,
@@ -219,23 +227,42 @@ export const handler: Handlers['ChatStream'] = async (req: any, { logger, emit,
         },
       }
     }
-    // Detect if this should trigger a workflow
-    const workflowDetector = new WorkflowDetector()
-    const shouldTriggerWorkflow = await workflowDetector.analyze(message, context)
+    // Blocks or neutralizes attempts to override the assistant's instructions (policy per route)
+    const { text: safeMessage } = await promptInjectionService.screen(message, { source: 'user', route: 'chat', userId, traceId })
+
+    // Goals, holdings and preferences stated here are remembered for later conversations
+    await emit({ topic: 'memory.extract', data: { userId, message: safeMessage } })
 
-    if (shouldTriggerWorkflow) {
+    // Start a workflow when the message asks for one; otherwise pick the assistant unless the user chose one
+    const decision = routed ? undefined : await intentRouterService.route(safeMessage, { userId, traceId })
+    const workflow = decision?.workflowId ? workflowRegistry.get(decision.workflowId) : undefined
+    const assistantType = req.body.assistantType || decision?.assistantType || 'general'
+
+    if (workflow) {
       // Workflow path - return JSON response with workflowId
-      logger.info('Workflow detected, triggering multi-agent analysis', { traceId })
+      logger.info('Workflow detected, triggering multi-agent analysis', {
+        workflowKey: workflow.id,
+        confidence: decision?.confidence,
+        method: decision?.method,
+        traceId,
+      })
       
+      // Invalid inputs are reported now; the run itself starts after this response
+      const { steps } = prepareWorkflowRun(workflow, context)
+
+      // Duration and cost from recent runs of the definition
+      const estimate = await workflowTelemetryService.estimateFor(workflow.id, steps, { summary: workflow.output.summary })
+
       // Emit workflow trigger event
       await emit({
         topic: 'workflow.trigger',
         data: {
           workflowId: traceId,
+          workflowKey: workflow.id,
           userId,
-          message,
+          message: safeMessage,
           context,
-          agents: shouldTriggerWorkflow.agents,
+          agents: workflow.agents,
         },
       })
 
@@ -245,8 +272,11 @@ export const handler: Handlers['ChatStream'] = async (req: any, { logger, emit,
         body: {
           workflowId: traceId,
           message: 'Workflow initiated successfully',
-          agents: shouldTriggerWorkflow.agents,
-          estimatedTime: shouldTriggerWorkflow.estimatedTime,
+          workflow: { id: workflow.id, name: workflow.name },
+          agents: workflow.agents,
+          estimatedTime: Math.round(estimate.durationMs.p50 / 1000), // seconds, median of recent runs
+          estimate,
+          decisionId: decision?.decisionId,
         },
       }
     } else {
@@ -256,19 +286,25 @@ export const handler: Handlers['ChatStream'] = async (req: any, { logger, emit,
       // Emit chat started event
       await emit({
         topic: 'chat.started',
-        data: { traceId, userId, message, assistantType },
+        data: { traceId, userId, message: safeMessage, assistantType },
       })
 
       try {
-        // Initialize LLM service
-        const llmService = new LLMService()
-
-        // Process message (without streaming since Motia doesn't support it)
-        const response = await llmService.process(
-          message,
-          assistantType,
-          { traceId, userId }
-        )
+        // Run the assistant's agent with its tools (without streaming since Motia doesn't support it)
+        const response = await agentRunner.run(assistantType, {
+          messages: [
+            {
+              role: 'system',
+              content: await memoryService.withMemories(await agentRunner.getInstructions(assistantType, context), userId, safeMessage),
+            },
+            { role: 'user', content: safeMessage },
+          ],
+          metering: { userId, feature: 'chat' },
+          cacheable: true,
+          onToolEvent: ({ result: _result, ...event }) => {
+            logger.info('Agent tool event', { ...event, traceId })
+          },
+        })
 
         // Store complete response in state
         await state.set('chats', traceId, {
@@ -334,6 +370,9 @@ export const handler: Handlers['ChatStream'] = async (req: any, { logger, emit,
             assistantType,
             llmProvider: response.provider,
             model: response.model,
+            tokensUsed: response.tokensUsed,
+            costUsd: response.costUsd,
+            toolCalls: response.toolResults.map(({ result: _result, ...event }) => event),
             chartHtml: chartHtml || undefined,
             symbol: symbolInResponse || undefined,
             hasChart: !!chartHtml,
@@ -346,6 +385,31 @@ export const handler: Handlers['ChatStream'] = async (req: any, { logger, emit,
     }
   } catch (error) {
     logger.error('Error in chat stream', { error: error instanceof Error ? error.message : 'Unknown error', traceId })
+
+    if ((error as any)?.code === ErrorCode.VALIDATION_ERROR) {
+      return {
+        status: 400,
+        body: { error: 'Invalid workflow inputs', message: (error as Error).message, ...(error as any).details },
+      }
+    }
+
+    if ((error as any)?.code === ErrorCode.FORBIDDEN) {
+      return {
+        status: 403,
+        body: { error: 'Message blocked', message: (error as Error).message, ...(error as any).details },
+      }
+    }
+
+    if ((error as any)?.code === ErrorCode.BUDGET_EXCEEDED) {
+      return {
+        status: 429,
+        body: {
+          error: 'LLM budget exceeded',
+          message: (error as Error).message,
+          ...(error as any).details,
+        },
+      }
+    }
     
     return {
       status: 500,
@@ -1,9 +1,12 @@
 import { z } from 'zod';
 import type { ApiRouteConfig, Handlers } from 'motia';
-import { OpenAI } from 'openai';
-import { azureOpenAI } from '../services/azure-openai.service';
-import { groqService } from '../services/groq.service';
-import { agentPrompts } from '../src/mastra/config';
+import { llmService } from '../services/llm-service';
+import { agentRunner, type AgentToolEvent } from '../services/agent-runner.service';
+import { conversationContextService } from '../services/conversation-context.service';
+import { personaService } from '../services/persona.service';
+import { memoryService } from '../services/memory.service';
+import { promptInjectionService } from '../services/prompt-injection.service';
+import { ErrorCode } from '../services/error.service';
 import { generateTradingViewChart, extractSymbolFromQuery } from '../services/chart.service';
 
 export const config: ApiRouteConfig = {
@@ -16,9 +19,12 @@ export const config: ApiRouteConfig = {
     assistantType: z.enum(['general', 'analyst', 'trader', 'advisor', 'riskManager', 'economist']),
     userId: z.string(),
     sessionId: z.string().uuid().optional(), // Add optional session ID
+    personaId: z.string().uuid().optional(), // Custom persona; replaces the assistant type's prompt
     symbols: z.array(z.string()).optional(),
+    timeframe: z.string().optional(),
+    riskTolerance: z.string().optional(),
   }),
-  emits: ['chat.message.created', 'chart.requested', 'symbol.detected'],
+  emits: ['chat.message.created', 'chart.requested', 'symbol.detected', 'memory.extract'],
 };
 
 export const handler: Handlers['ChatWithAgent'] = async (req, { logger, state, traceId, emit }) => {
@@ -88,6 +94,21 @@ export const handler: Handlers['ChatWithAgent'] = async (req, { logger, state, t
       };
     }
 
+    // Blocks or neutralizes attempts to override the assistant's instructions (policy per route)
+    const screened = await promptInjectionService.screen(req.body.message, {
+      source: 'user',
+      route: 'chat',
+      userId: req.body.userId,
+      traceId,
+    });
+    const message = screened.text;
+
+    // Goals, holdings and preferences stated here are remembered for later conversations
+    await emit({
+      topic: 'memory.extract',
+      data: { userId: req.body.userId, message, sessionId },
+    });
+
     // Store the chat message
     await state.set('chats', traceId, {
       message: req.body.message,
@@ -97,126 +118,71 @@ export const handler: Handlers['ChatWithAgent'] = async (req, { logger, state, t
       timestamp: new Date().toISOString(),
     });
 
-    // Get the appropriate system prompt for the assistant type
-    const systemPrompt = agentPrompts[req.body.assistantType] || agentPrompts.general;
-
-    let response: string;
-    let llmProvider = 'none';
-    let model = 'unknown';
-    
-    // Priority 1: Try Groq with Llama (fastest, primary provider)
-    if (groqService.isConfigured()) {
-      logger.info('Using Groq with Llama 3 for ultra-fast inference');
-      try {
-        const completion = await groqService.createChatCompletion({
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: req.body.message }
-          ],
-          model: 'llama-3.3-70b-versatile', // Use latest Llama 3.3 70B
-          temperature: 0.7,
-          max_tokens: 1500,
-        });
-        
-        // Type guard for streaming vs non-streaming response
-        if ('choices' in completion) {
-          response = completion.choices[0]?.message?.content || 'No response generated';
-        } else {
-          response = 'Streaming response not supported in this context';
-        }
-        llmProvider = 'groq';
-        model = 'llama-3.3-70b-versatile';
-        logger.info('Groq response received successfully', { llmProvider, model });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        logger.warn('Groq failed, falling back to Azure', { error: errorMessage });
-        throw error; // Will be caught and trigger fallback
-      }
-    } 
-    // Priority 2: Azure OpenAI with Model Router (GPT-4/5)
-    else if (azureOpenAI.isConfigured()) {
-      logger.info('Using Azure OpenAI Model Router (GPT-4/5)');
-      try {
-        const completion = await azureOpenAI.createChatCompletion({
-          model: 'model-router', // Intelligent model selection
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: req.body.message }
-          ],
-          temperature: 0.7,
-          max_tokens: 1500,
-        });
-        
-        response = completion.choices[0]?.message?.content || 'No response generated';
-        llmProvider = 'azure';
-        model = 'gpt-4';
-        logger.info('Azure OpenAI response received', { llmProvider, model });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        logger.error('Azure OpenAI failed', { error: errorMessage });
-        throw error;
-      }
-    }
-    // Priority 3: Standard OpenAI (fallback)
-    else if (process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY !== 'your-openai-api-key-here') {
-      logger.info('Using standard OpenAI API');
-      try {
-        const openai = new OpenAI({
-          apiKey: process.env.OPENAI_API_KEY,
-        });
-        
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4-turbo-preview',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: req.body.message }
-          ],
-          temperature: 0.7,
-          max_tokens: 1500,
-        });
-        
-        response = completion.choices[0]?.message?.content || 'No response generated';
-        llmProvider = 'openai';
-        model = 'gpt-4-turbo-preview';
-        logger.info('OpenAI response received', { llmProvider, model });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        logger.error('OpenAI API error', { error: errorMessage });
-        
-        if (errorMessage.includes('API key')) {
-          response = `Please configure your LLM providers. Add one of these to backend/.env.local:
+    // The assistant type (or persona) selects the agent's tools and the prompt template
+    const { agentId, systemPrompt, persona } = await personaService.resolveAssistant({
+      userId: req.body.userId,
+      assistantType: req.body.assistantType,
+      personaId: req.body.personaId,
+      variables: {
+        symbols: req.body.symbols,
+        timeframe: req.body.timeframe,
+        riskTolerance: req.body.riskTolerance,
+      },
+    });
 
-**Recommended Setup:**
-1. **Groq (Fastest)**: GROQ_API_KEY=gsk-... (Get from https://console.groq.com)
-2. **Azure OpenAI**: Already configured with model router
-3. **OpenAI**: OPENAI_API_KEY=sk-... (Get from https://platform.openai.com)`;
-        } else {
-          throw error;
-        }
-      }
-    } 
-    // No LLM configured - provide instructions
-    else {
-      logger.warn('No LLM provider configured');
-      response = `I'm your ${req.body.assistantType} assistant. To enable AI responses:
+    // What the user told us in earlier conversations that bears on this question
+    const promptWithMemories = await memoryService.withMemories(systemPrompt, req.body.userId, message);
 
-**Priority 1 - Groq (Recommended for speed):**
-- Add to backend/.env.local: GROQ_API_KEY=gsk-...
-- Get your key from: https://console.groq.com/keys
-- Features: Ultra-fast Llama 3 70B responses
+    const metering = { userId: req.body.userId, sessionId, feature: 'chat' };
+    const maxTokens = 1500;
 
-**Priority 2 - Azure OpenAI (Already configured):**
-- Endpoint and key are set for model router (GPT-4/5)
-- Just needs to be activated
+    // Prior turns of the session (plus a rolling summary of older ones) so follow-ups resolve
+    const context = await conversationContextService.buildContext({
+      userId: req.body.userId,
+      sessionId,
+      systemPrompt: promptWithMemories,
+      message,
+      model: llmService.getExpectedModel(),
+      maxTokens,
+      metering,
+    });
+    logger.info('Conversation context built', {
+      historyMessages: context.historyMessages,
+      historyTokens: context.historyTokens,
+      summarizedMessages: context.summarizedMessages,
+      hasSummary: !!context.summary,
+      traceId,
+    });
 
-**Priority 3 - OpenAI:**
-- Add: OPENAI_API_KEY=sk-...
-- Get from: https://platform.openai.com/api-keys
+    // Tool-calling loop; provider selection and fallback (Groq -> Azure -> OpenAI -> ...) live in LLMService
+    const toolEvents: Array<Omit<AgentToolEvent, 'result'>> = [];
+    const completion = await agentRunner.run(agentId, {
+      messages: context.messages,
+      temperature: 0.7,
+      maxTokens,
+      metering,
+      // Only single-turn, non-personal questions are served from or stored in the cache
+      cacheable: true,
+      onToolEvent: ({ result: _result, ...event }) => {
+        logger.info('Agent tool event', { ...event, traceId });
+        if (event.type === 'tool_result') {
+          toolEvents.push(event);
+        }
+      },
+    });
 
-Your message: "${req.body.message}"`;
-      model = 'none';
-      llmProvider = 'none';
-    }
+    const response = completion.content || 'No response generated';
+    const llmProvider = completion.provider;
+    const model = completion.model;
+    logger.info('LLM response received', {
+      llmProvider,
+      model,
+      tokensUsed: completion.tokensUsed,
+      costUsd: completion.costUsd,
+      toolCalls: toolEvents.length,
+      iterations: completion.iterations,
+      cacheHit: completion.cacheHit,
+    });
 
     // Store the response with metadata
     await state.set('chats', `${traceId}:response`, {
@@ -262,8 +228,15 @@ Your message: "${req.body.message}"`;
         traceId,
         response,
         assistantType: req.body.assistantType,
+        personaId: persona?.id,
         llmProvider,
         model,
+        tokensUsed: completion.tokensUsed,
+        usage: completion.usage,
+        costUsd: completion.costUsd,
+        downgraded: completion.downgraded || undefined,
+        cached: completion.cacheHit,
+        toolCalls: toolEvents,
         chartHtml: chartHtml || undefined,
         symbol: symbolInResponse || undefined,
         hasChart: !!chartHtml,
@@ -275,43 +248,37 @@ Your message: "${req.body.message}"`;
       error: errorMessage,
       traceId 
     });
-    
-    // Try fallback chain if primary provider fails
-    if (groqService.isConfigured() && !errorMessage.includes('Groq')) {
-      // Already tried Groq, now try Azure
-      if (azureOpenAI.isConfigured()) {
-        logger.info('Attempting Azure OpenAI fallback');
-        try {
-          const systemPrompt = agentPrompts[req.body.assistantType] || agentPrompts.general;
-          const completion = await azureOpenAI.createChatCompletion({
-            model: 'model-router',
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: req.body.message }
-            ],
-            temperature: 0.7,
-            max_tokens: 1500,
-          });
-          
-          const response = completion.choices[0]?.message?.content || 'No response generated';
-          
-          return {
-            status: 200,
-            body: {
-              traceId,
-              response,
-              assistantType: req.body.assistantType,
-              llmProvider: 'azure',
-              model: 'gpt-4',
-              chartHtml: undefined,
-              symbol: undefined,
-              hasChart: false,
-            },
-          };
-        } catch (azureError) {
-          logger.error('Azure fallback also failed', { error: azureError });
-        }
-      }
+
+    if ((error as any)?.code === ErrorCode.FORBIDDEN) {
+      return {
+        status: 403,
+        body: { error: 'Message blocked', message: errorMessage, ...(error as any).details },
+      };
+    }
+
+    if ((error as any)?.code === ErrorCode.RESOURCE_NOT_FOUND) {
+      return {
+        status: 404,
+        body: { error: 'Chat session not found', message: errorMessage },
+      };
+    }
+
+    if ((error as any)?.code === ErrorCode.NOT_FOUND) {
+      return {
+        status: 404,
+        body: { error: 'Persona not found', message: errorMessage },
+      };
+    }
+
+    if ((error as any)?.code === ErrorCode.BUDGET_EXCEEDED) {
+      return {
+        status: 429,
+        body: {
+          error: 'LLM budget exceeded',
+          message: errorMessage,
+          ...(error as any).details,
+        },
+      };
     }
     
     return {
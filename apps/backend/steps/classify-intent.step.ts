@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorService, ErrorCode } from '../services/error.service';
+import { intentRouterService } from '../services/intent-router.service';
+import { promptInjectionService } from '../services/prompt-injection.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'ClassifyIntent',
+  method: 'POST',
+  path: '/api/intent/classify',
+  bodySchema: z.object({
+    message: z.string().min(1),
+    userId: z.string(),
+  }),
+  emits: [],
+};
+
+export const handler: Handlers['ClassifyIntent'] = async (req, { logger, traceId }) => {
+  const { userId } = req.body;
+
+  try {
+    // The message may reach the model when the closest intents tie
+    const { text: message } = await promptInjectionService.screen(req.body.message, {
+      source: 'user',
+      route: 'chat',
+      userId,
+      traceId,
+    });
+
+    const decision = await intentRouterService.route(message, { userId, traceId });
+
+    logger.info('Message routed', {
+      route: decision.route,
+      workflowId: decision.workflowId,
+      assistantType: decision.assistantType,
+      confidence: decision.confidence,
+      method: decision.method,
+      traceId,
+    });
+
+    return {
+      status: 200,
+      body: decision,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to classify intent', { error: errorMessage, traceId });
+
+    if ((error as any)?.code === ErrorCode.FORBIDDEN) {
+      return {
+        status: 403,
+        body: { error: 'Message blocked', message: errorMessage, ...(error as any).details },
+      };
+    }
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to classify intent', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { orderSchema } from '../schemas/agent-output.schemas';
+import { workflowApprovalService } from '../services/workflow-approval.service';
+import { errorService } from '../services/error.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'DecideWorkflowApproval',
+  description: 'Approve, edit or reject what a workflow proposes at an approval step',
+  method: 'POST',
+  path: '/api/workflow/:workflowId/approvals/:stepId',
+  bodySchema: z.object({
+    userId: z.string(),
+    decision: z.enum(['approve', 'reject', 'edit']),
+    // Required for 'edit': what to do instead of (or on top of) the proposal
+    changes: z.string().max(4000).optional(),
+    // Required for 'edit' when the proposal has orders: the orders to place instead
+    orders: z.array(orderSchema).max(50).optional(),
+    comment: z.string().max(1000).optional(),
+  }),
+  emits: ['workflow.approval.decided', 'workflow.status.changed', 'workflow.agent.started', 'workflow.finalize'],
+};
+
+export const handler: Handlers['DecideWorkflowApproval'] = async (req, { logger, emit, state }) => {
+  const { workflowId, stepId } = req.pathParams;
+  const { userId, decision, changes, orders, comment } = req.body;
+
+  try {
+    const { approval, change, ready, complete } = await workflowApprovalService.decide(state, workflowId, stepId, {
+      userId,
+      decision,
+      changes,
+      orders,
+      comment,
+    });
+
+    await emit({
+      topic: 'workflow.approval.decided',
+      data: {
+        type: 'workflow.approval.decided',
+        workflowId,
+        userId,
+        stepIndex: approval.stepIndex,
+        task: approval.title,
+        message: `${approval.title}: ${approval.status}`,
+        data: approval,
+        timestamp: approval.decidedAt,
+      },
+    });
+
+    if (change) {
+      await emit({
+        topic: 'workflow.status.changed',
+        data: {
+          type: 'workflow.status.changed',
+          workflowId,
+          userId,
+          status: change.transition.to,
+          previousStatus: change.transition.from,
+          stepIndex: approval.stepIndex,
+          message: change.transition.reason,
+          timestamp: change.transition.at,
+        },
+      });
+    }
+
+    if (complete) {
+      await emit({ topic: 'workflow.finalize', data: { workflowId } });
+    }
+    for (const { step, index } of ready) {
+      await emit({
+        topic: 'workflow.agent.started',
+        data: {
+          workflowId,
+          stepIndex: index,
+          agent: step.agent,
+          task: step.task,
+        },
+      });
+    }
+
+    logger.info('Workflow approval decided', { workflowId, stepId, decision, startedSteps: ready.length });
+
+    return {
+      status: 200,
+      body: {
+        workflowId,
+        approval,
+        status: change?.workflow.status,
+        startedSteps: ready.map(({ index }) => index),
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to decide workflow approval', { workflowId, stepId, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to decide workflow approval', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { memoryService } from '../services/memory.service';
+import { errorService } from '../services/error.service';
+
+const querySchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'DeleteMemory',
+  method: 'DELETE',
+  path: '/api/memories/:id',
+  queryParams: [
+    { name: 'userId', description: 'Owner of the memory' },
+  ],
+  emits: [],
+};
+
+export const handler: Handlers['DeleteMemory'] = async (req, { logger }) => {
+  const { id } = req.pathParams;
+  const query = querySchema.safeParse(req.queryParams);
+  if (!query.success) {
+    return {
+      status: 400,
+      body: { error: 'Invalid query parameters', details: query.error.errors },
+    };
+  }
+
+  try {
+    await memoryService.forget(query.data.userId, id);
+
+    logger.info('Memory forgotten', { userId: query.data.userId, memoryId: id });
+
+    return {
+      status: 200,
+      body: { id, deleted: true },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to delete memory', { memoryId: id, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to delete memory', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { personaService } from '../services/persona.service';
+import { errorService } from '../services/error.service';
+
+const querySchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'DeletePersona',
+  method: 'DELETE',
+  path: '/api/personas/:id',
+  queryParams: [
+    { name: 'userId', description: 'Owner of the persona' },
+  ],
+  emits: [],
+};
+
+export const handler: Handlers['DeletePersona'] = async (req, { logger }) => {
+  const { id } = req.pathParams;
+  const query = querySchema.safeParse(req.queryParams);
+  if (!query.success) {
+    return {
+      status: 400,
+      body: { error: 'Invalid query parameters', details: query.error.errors },
+    };
+  }
+
+  try {
+    await personaService.delete(query.data.userId, id);
+
+    logger.info('Persona deleted', { userId: query.data.userId, personaId: id });
+
+    return {
+      status: 200,
+      body: { id, deleted: true },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to delete persona', { personaId: id, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to delete persona', message: errorMessage },
+    };
+  }
+};
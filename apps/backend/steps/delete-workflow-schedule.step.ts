@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { workflowScheduleService } from '../services/workflow-schedule.service';
+import { errorService } from '../services/error.service';
+
+const querySchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'DeleteWorkflowSchedule',
+  method: 'DELETE',
+  path: '/api/workflow-schedules/:id',
+  queryParams: [
+    { name: 'userId', description: 'Owner of the schedule' },
+  ],
+  emits: [],
+};
+
+export const handler: Handlers['DeleteWorkflowSchedule'] = async (req, { logger }) => {
+  const { id } = req.pathParams;
+  const query = querySchema.safeParse(req.queryParams);
+  if (!query.success) {
+    return {
+      status: 400,
+      body: { error: 'Invalid query parameters', details: query.error.errors },
+    };
+  }
+
+  try {
+    await workflowScheduleService.delete(query.data.userId, id);
+
+    logger.info('Workflow schedule deleted', { userId: query.data.userId, scheduleId: id });
+
+    return {
+      status: 200,
+      body: { id, deleted: true },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to delete workflow schedule', { scheduleId: id, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to delete workflow schedule', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { workflowReportService, REPORT_FORMATS } from '../services/workflow-report.service';
+import { errorService } from '../services/error.service';
+
+const querySchema = z.object({
+  format: z.enum(REPORT_FORMATS).default('pdf'),
+  userId: z.string().uuid().optional(),
+});
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'ExportWorkflow',
+  method: 'GET',
+  path: '/api/workflow/:workflowId/export',
+  queryParams: [
+    { name: 'format', description: 'pdf (default), html, md or json' },
+    { name: 'userId', description: 'Owner of the run; needed once it is no longer in state' },
+  ],
+  emits: [],
+};
+
+/**
+ * Responses are JSON, so the file comes back in an envelope: PDFs base64
+ * encoded, the text formats as is. The web app serves it as a download.
+ */
+export const handler: Handlers['ExportWorkflow'] = async (req, { logger, state }) => {
+  const { workflowId } = req.pathParams;
+  const query = querySchema.safeParse(req.queryParams);
+  if (!query.success) {
+    return {
+      status: 400,
+      body: { error: 'Invalid query parameters', details: query.error.errors },
+    };
+  }
+
+  try {
+    const { format, userId } = query.data;
+    const source = await workflowReportService.load(state, workflowId, userId);
+    const file = workflowReportService.render(workflowReportService.build(source), format);
+
+    logger.info('Workflow report exported', { workflowId, format, sections: source.results.length });
+
+    return {
+      status: 200,
+      body: {
+        workflowId,
+        format,
+        filename: file.filename,
+        contentType: file.contentType,
+        encoding: Buffer.isBuffer(file.content) ? 'base64' : 'utf8',
+        content: Buffer.isBuffer(file.content) ? file.content.toString('base64') : file.content,
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to export workflow', { workflowId, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to export workflow', message: errorMessage },
+    };
+  }
+};
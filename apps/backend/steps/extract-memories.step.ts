@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import type { EventConfig, Handlers } from 'motia';
+import { memoryService } from '../services/memory.service';
+
+const inputSchema = z.object({
+  userId: z.string(),
+  message: z.string(),
+  sessionId: z.string().optional(),
+});
+
+export const config: EventConfig = {
+  type: 'event',
+  name: 'ExtractMemories',
+  description: 'Stores durable facts (goals, risk tolerance, holdings, preferences) from chat messages',
+  subscribes: ['memory.extract'],
+  emits: [],
+  input: inputSchema,
+};
+
+export const handler: Handlers['ExtractMemories'] = async (input, { logger, traceId }) => {
+  try {
+    const memories = await memoryService.extract(input.userId, input.message, { sessionId: input.sessionId });
+
+    if (memories.length > 0) {
+      logger.info('Memories extracted', {
+        userId: input.userId,
+        memories: memories.map(memory => `${memory.category}/${memory.key}`),
+        traceId,
+      });
+    }
+  } catch (error) {
+    // Extraction is best effort; the chat answer has already been sent
+    logger.warn('Memory extraction failed', {
+      userId: input.userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      traceId,
+    });
+  }
+};
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { memoryService } from '../services/memory.service';
+import { errorService } from '../services/error.service';
+import { MEMORY_CATEGORIES } from '../config/memory.config';
+
+const querySchema = z.object({
+  userId: z.string().uuid(),
+  category: z.enum(MEMORY_CATEGORIES).optional(),
+});
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'ForgetMemories',
+  method: 'DELETE',
+  path: '/api/memories',
+  queryParams: [
+    { name: 'userId', description: 'Owner of the memories' },
+    { name: 'category', description: 'Only forget this category (default: everything)' },
+  ],
+  emits: [],
+};
+
+export const handler: Handlers['ForgetMemories'] = async (req, { logger }) => {
+  const query = querySchema.safeParse(req.queryParams);
+  if (!query.success) {
+    return {
+      status: 400,
+      body: { error: 'Invalid query parameters', details: query.error.errors },
+    };
+  }
+
+  try {
+    const deleted = await memoryService.forgetAll(query.data.userId, query.data.category);
+
+    logger.info('Memories forgotten', { userId: query.data.userId, category: query.data.category, deleted });
+
+    return {
+      status: 200,
+      body: { deleted },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to forget memories', { error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to forget memories', message: errorMessage },
+    };
+  }
+};
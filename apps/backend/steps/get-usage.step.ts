@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { usageService } from '../services/usage.service';
+
+const querySchema = z.object({
+  userId: z.string().uuid(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'GetLLMUsage',
+  method: 'GET',
+  path: '/api/usage',
+  queryParams: [
+    { name: 'userId', description: 'User to report on' },
+    { name: 'from', description: 'ISO start of the range (defaults to the start of the month)' },
+    { name: 'to', description: 'ISO end of the range (defaults to now)' },
+  ],
+  emits: [],
+};
+
+export const handler: Handlers['GetLLMUsage'] = async (req, { logger }) => {
+  const query = querySchema.safeParse(req.queryParams);
+  if (!query.success) {
+    return {
+      status: 400,
+      body: { error: 'Invalid query parameters', details: query.error.errors },
+    };
+  }
+
+  try {
+    const { userId, from, to } = query.data;
+
+    logger.info('Fetching LLM usage', { userId, from, to });
+
+    const [summary, budget] = await Promise.all([
+      usageService.getUsageSummary(userId, {
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+      }),
+      usageService.checkBudget(userId),
+    ]);
+
+    return {
+      status: 200,
+      body: {
+        ...summary,
+        budget: {
+          ...budget.limits,
+          spentTodayUsd: budget.spentTodayUsd,
+          spentThisMonthUsd: budget.spentThisMonthUsd,
+          status: budget.action,
+          reason: budget.reason,
+        },
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to fetch LLM usage', { error: errorMessage });
+
+    return {
+      status: errorMessage === 'Database service not configured' ? 503 : 500,
+      body: { error: 'Failed to fetch LLM usage', message: errorMessage },
+    };
+  }
+};
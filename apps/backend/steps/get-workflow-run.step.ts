@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { workflowExecutionService } from '../services/workflow-execution.service';
+import { errorService } from '../services/error.service';
+
+const querySchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'GetWorkflowRun',
+  method: 'GET',
+  path: '/api/workflow-runs/:runId',
+  queryParams: [
+    { name: 'userId', description: 'Owner of the run' },
+  ],
+  emits: [],
+};
+
+export const handler: Handlers['GetWorkflowRun'] = async (req, { logger }) => {
+  const { runId } = req.pathParams;
+  const query = querySchema.safeParse(req.queryParams);
+  if (!query.success) {
+    return {
+      status: 400,
+      body: { error: 'Invalid query parameters', details: query.error.errors },
+    };
+  }
+
+  try {
+    const run = await workflowExecutionService.getRun(query.data.userId, runId);
+
+    return {
+      status: 200,
+      body: { run },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to get workflow run', { runId, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to get workflow run', message: errorMessage },
+    };
+  }
+};
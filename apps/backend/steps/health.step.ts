@@ -1,4 +1,5 @@
 import type { ApiRouteConfig } from 'motia';
+import { LLMService } from '../services/llm-service';
 
 export const config: ApiRouteConfig = {
   type: 'api',
@@ -10,17 +11,26 @@ export const config: ApiRouteConfig = {
 
 export const handler = async (_req: any, { logger }: any) => {
   logger.info('Health check requested');
+
+  // Circuit breaker state per LLM provider so ops can see which one is tripped
+  const providers = LLMService.listProviders().filter(p => p.name !== 'mock');
+  const trippedProviders = providers.filter(p => p.configured && p.circuit.state !== 'closed');
   
   return {
     status: 200,
     body: {
-      status: 'healthy',
+      status: trippedProviders.length > 0 ? 'degraded' : 'healthy',
       timestamp: new Date().toISOString(),
       services: {
         backend: 'running',
         groq: process.env.GROQ_API_KEY ? 'configured' : 'not configured',
         azure: process.env.AZURE_OPENAI_API_KEY ? 'configured' : 'not configured',
-      }
+      },
+      llmProviders: providers.map(p => ({
+        configured: p.configured,
+        defaultModel: p.defaultModel,
+        ...p.circuit,
+      })),
     },
   };
-};
\ No newline at end of file
+};
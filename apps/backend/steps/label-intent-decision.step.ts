@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorService } from '../services/error.service';
+import { intentRouterService } from '../services/intent-router.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'LabelIntentDecision',
+  method: 'POST',
+  path: '/api/intent/decisions/:id/label',
+  bodySchema: z.object({
+    userId: z.string(),
+    label: z.string(), // The correct intent: workflow:<definition id> or chat:<assistant type>
+  }),
+  emits: [],
+};
+
+export const handler: Handlers['LabelIntentDecision'] = async (req, { logger }) => {
+  const { id } = req.pathParams;
+  const { userId, label } = req.body;
+
+  try {
+    // Reviewer labels for the evaluation set are not taken from end users
+    await intentRouterService.label(userId, id, label, 'user');
+
+    logger.info('Intent decision labeled', { decisionId: id, userId, label });
+
+    return {
+      status: 200,
+      body: { id, label },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to label intent decision', { decisionId: id, userId, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to label intent decision', message: errorMessage },
+    };
+  }
+};
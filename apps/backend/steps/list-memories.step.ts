@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { memoryService } from '../services/memory.service';
+import { errorService } from '../services/error.service';
+import { MEMORY_CATEGORIES } from '../config/memory.config';
+
+const querySchema = z.object({
+  userId: z.string().uuid(),
+  category: z.enum(MEMORY_CATEGORIES).optional(),
+});
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'ListMemories',
+  method: 'GET',
+  path: '/api/memories',
+  queryParams: [
+    { name: 'userId', description: 'Owner of the memories' },
+    { name: 'category', description: 'Optional filter: goal, risk_tolerance, holding or preference' },
+  ],
+  emits: [],
+};
+
+export const handler: Handlers['ListMemories'] = async (req, { logger }) => {
+  const query = querySchema.safeParse(req.queryParams);
+  if (!query.success) {
+    return {
+      status: 400,
+      body: { error: 'Invalid query parameters', details: query.error.errors },
+    };
+  }
+
+  try {
+    const memories = await memoryService.list(query.data.userId, query.data.category);
+
+    return {
+      status: 200,
+      body: { memories },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to list memories', { error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to list memories', message: errorMessage },
+    };
+  }
+};
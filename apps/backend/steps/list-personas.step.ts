@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { personaService } from '../services/persona.service';
+import { errorService } from '../services/error.service';
+
+const querySchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'ListPersonas',
+  method: 'GET',
+  path: '/api/personas',
+  queryParams: [
+    { name: 'userId', description: 'Owner of the custom personas' },
+  ],
+  emits: [],
+};
+
+export const handler: Handlers['ListPersonas'] = async (req, { logger }) => {
+  const query = querySchema.safeParse(req.queryParams);
+  if (!query.success) {
+    return {
+      status: 400,
+      body: { error: 'Invalid query parameters', details: query.error.errors },
+    };
+  }
+
+  try {
+    const custom = await personaService.list(query.data.userId);
+
+    return {
+      status: 200,
+      body: {
+        builtIn: personaService.getBuiltInPersonas(),
+        custom,
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to list personas', { error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to list personas', message: errorMessage },
+    };
+  }
+};
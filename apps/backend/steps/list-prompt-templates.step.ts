@@ -0,0 +1,30 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { promptRegistry } from '../services/prompt-registry.service';
+import { errorService } from '../services/error.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'ListPromptTemplates',
+  method: 'GET',
+  path: '/api/prompts',
+  emits: [],
+};
+
+export const handler: Handlers['ListPromptTemplates'] = async (_req, { logger }) => {
+  try {
+    const templates = await promptRegistry.listTemplates();
+
+    return {
+      status: 200,
+      body: { templates },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to list prompt templates', { error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to list prompt templates', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,35 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { promptRegistry } from '../services/prompt-registry.service';
+import { errorService } from '../services/error.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'ListPromptVersions',
+  method: 'GET',
+  path: '/api/prompts/:name/versions',
+  emits: [],
+};
+
+export const handler: Handlers['ListPromptVersions'] = async (req, { logger }) => {
+  const { name } = req.pathParams;
+
+  try {
+    const [versions, active] = await Promise.all([
+      promptRegistry.listVersions(name),
+      promptRegistry.getActive(name),
+    ]);
+
+    return {
+      status: 200,
+      body: { name, activeVersion: active.version, versions },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to list prompt versions', { name, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to list prompt versions', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { workflowExecutionService } from '../services/workflow-execution.service';
+import { errorService } from '../services/error.service';
+
+const querySchema = z.object({
+  userId: z.string().uuid(),
+  status: z.enum(['started', 'running', 'paused', 'awaiting_approval', 'cancelled', 'failed', 'completed']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  before: z.string().datetime().optional(),
+});
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'ListWorkflowRuns',
+  method: 'GET',
+  path: '/api/workflow-runs',
+  queryParams: [
+    { name: 'userId', description: 'Owner of the runs' },
+    { name: 'status', description: 'Optional filter: started, running, paused, awaiting_approval, cancelled, failed or completed' },
+    { name: 'limit', description: 'Page size, 1-100 (default 20)' },
+    { name: 'before', description: 'Only runs started before this ISO timestamp (for paging)' },
+  ],
+  emits: [],
+};
+
+export const handler: Handlers['ListWorkflowRuns'] = async (req, { logger }) => {
+  const query = querySchema.safeParse(req.queryParams);
+  if (!query.success) {
+    return {
+      status: 400,
+      body: { error: 'Invalid query parameters', details: query.error.errors },
+    };
+  }
+
+  try {
+    const { userId, ...options } = query.data;
+    const runs = await workflowExecutionService.listRuns(userId, options);
+
+    return {
+      status: 200,
+      body: {
+        runs,
+        // Pass as `before` to fetch the next page
+        nextBefore: runs.length === options.limit ? runs[runs.length - 1].startedAt : undefined,
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to list workflow runs', { error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to list workflow runs', message: errorMessage },
+    };
+  }
+};
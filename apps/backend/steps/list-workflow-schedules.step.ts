@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { workflowScheduleService } from '../services/workflow-schedule.service';
+import { errorService } from '../services/error.service';
+
+const querySchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'ListWorkflowSchedules',
+  method: 'GET',
+  path: '/api/workflow-schedules',
+  queryParams: [
+    { name: 'userId', description: 'Owner of the schedules' },
+  ],
+  emits: [],
+};
+
+export const handler: Handlers['ListWorkflowSchedules'] = async (req, { logger }) => {
+  const query = querySchema.safeParse(req.queryParams);
+  if (!query.success) {
+    return {
+      status: 400,
+      body: { error: 'Invalid query parameters', details: query.error.errors },
+    };
+  }
+
+  try {
+    const schedules = await workflowScheduleService.list(query.data.userId);
+
+    return {
+      status: 200,
+      body: {
+        schedules: schedules.map(schedule => ({
+          ...schedule,
+          upcomingRuns: workflowScheduleService.getUpcomingRuns(schedule, 3),
+        })),
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to list workflow schedules', { error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to list workflow schedules', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,35 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { workflowRegistry } from '../services/workflow-registry.service';
+import { workflowTelemetryService } from '../services/workflow-telemetry.service';
+import { errorService } from '../services/error.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'ListWorkflows',
+  method: 'GET',
+  path: '/api/workflows',
+  emits: [],
+};
+
+export const handler: Handlers['ListWorkflows'] = async (_req, { logger }) => {
+  try {
+    // With the duration and cost a run is expected to take, from recent runs
+    const workflows = await Promise.all(workflowRegistry.list().map(async ({ file: _file, ...workflow }) => ({
+      ...workflow,
+      estimate: await workflowTelemetryService.estimateFor(workflow.id, workflow.steps, { summary: workflow.output.summary }),
+    })));
+
+    return {
+      status: 200,
+      body: { workflows },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to list workflows', { error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to list workflows', message: errorMessage },
+    };
+  }
+};
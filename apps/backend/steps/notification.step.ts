@@ -23,8 +23,9 @@ export const handler: Handlers['Notification'] = async (input, { traceId, logger
 
   /*
    * This represents a call to some sort of
-   * notification service to indicate that a
-   * new order has been placed
+   * notification service (e-mail, push) that
+   * renders the template, e.g. an order
+   * confirmation or a scheduled workflow report
    */
   logger.info('New notification sent', {
     templateId: data.templateId,
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { workflowControlService } from '../services/workflow-control.service';
+import { errorService } from '../services/error.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'PauseWorkflow',
+  method: 'POST',
+  path: '/api/workflow/:workflowId/pause',
+  bodySchema: z.object({
+    userId: z.string(),
+    reason: z.string().max(500).optional(),
+  }),
+  emits: ['workflow.status.changed'],
+};
+
+export const handler: Handlers['PauseWorkflow'] = async (req, { logger, emit, state }) => {
+  const { workflowId } = req.pathParams;
+  const { userId, reason } = req.body;
+
+  try {
+    const { workflow, transition } = await workflowControlService.apply(state, workflowId, 'pause', { userId, reason });
+
+    await emit({
+      topic: 'workflow.status.changed',
+      data: {
+        type: 'workflow.status.changed',
+        workflowId,
+        userId,
+        status: transition.to,
+        previousStatus: transition.from,
+        message: reason,
+        timestamp: transition.at,
+      },
+    });
+
+    logger.info('Workflow paused', { workflowId, userId, from: transition.from });
+
+    return {
+      status: 200,
+      body: { workflowId, status: workflow.status, transition },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to pause workflow', { workflowId, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to pause workflow', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { promptRegistry, type PromptVariables } from '../services/prompt-registry.service';
+import { errorService } from '../services/error.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'PreviewPrompt',
+  method: 'POST',
+  path: '/api/prompts/:name/preview',
+  bodySchema: z.object({
+    variables: z.record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])).optional(),
+    version: z.number().min(1).optional(), // Defaults to the live version
+  }),
+  emits: [],
+};
+
+export const handler: Handlers['PreviewPrompt'] = async (req, { logger }) => {
+  const { name } = req.pathParams;
+
+  try {
+    const preview = await promptRegistry.preview(name, req.body.variables as PromptVariables, req.body.version);
+
+    return {
+      status: 200,
+      body: preview,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to preview prompt', { name, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to preview prompt', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { promptRegistry } from '../services/prompt-registry.service';
+import { errorService } from '../services/error.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'PublishPromptVersion',
+  method: 'POST',
+  path: '/api/prompts/:name/versions',
+  bodySchema: z.object({
+    template: z.string().min(1),
+    description: z.string().max(500).optional(),
+    userId: z.string().uuid().optional(), // Recorded as the author
+  }),
+  emits: [],
+};
+
+export const handler: Handlers['PublishPromptVersion'] = async (req, { logger }) => {
+  const { name } = req.pathParams;
+
+  try {
+    const published = await promptRegistry.publish(name, req.body);
+
+    logger.info('Prompt version published', { name, version: published.version, userId: req.body.userId });
+
+    return {
+      status: 201,
+      body: published,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to publish prompt version', { name, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to publish prompt version', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { workflowControlService } from '../services/workflow-control.service';
+import { workflowExecutionService } from '../services/workflow-execution.service';
+import { toGraphSteps } from '../services/workflow-graph';
+import { errorService } from '../services/error.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'ResumeWorkflow',
+  method: 'POST',
+  path: '/api/workflow/:workflowId/resume',
+  bodySchema: z.object({
+    userId: z.string(),
+    reason: z.string().max(500).optional(),
+  }),
+  emits: ['workflow.status.changed', 'workflow.agent.started'],
+};
+
+export const handler: Handlers['ResumeWorkflow'] = async (req, { logger, emit, state }) => {
+  const { workflowId } = req.pathParams;
+  const { userId, reason } = req.body;
+
+  try {
+    const { workflow, transition } = await workflowControlService.apply(state, workflowId, 'resume', { userId, reason });
+
+    await emit({
+      topic: 'workflow.status.changed',
+      data: {
+        type: 'workflow.status.changed',
+        workflowId,
+        userId,
+        status: transition.to,
+        previousStatus: transition.from,
+        message: reason,
+        timestamp: transition.at,
+      },
+    });
+
+    // Start the steps that became ready while the run was paused
+    const steps = toGraphSteps(workflow.steps || workflow.agents || []);
+    const { ready } = await workflowExecutionService.advance(state, workflowId, steps);
+
+    for (const { step, index } of ready) {
+      await state.set('workflows', `${workflowId}:step:${index}`, {
+        agent: step.agent,
+        task: step.task,
+        status: 'processing',
+        startedAt: new Date().toISOString(),
+      });
+
+      await emit({
+        topic: 'workflow.agent.started',
+        data: {
+          workflowId,
+          stepIndex: index,
+          agent: step.agent,
+          task: step.task,
+        },
+      });
+    }
+
+    logger.info('Workflow resumed', { workflowId, userId, startedSteps: ready.length });
+
+    return {
+      status: 200,
+      body: {
+        workflowId,
+        status: workflow.status,
+        transition,
+        startedSteps: ready.map(({ index }) => index),
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to resume workflow', { workflowId, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to resume workflow', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { workflowControlService } from '../services/workflow-control.service';
+import { errorService } from '../services/error.service';
+
+const pathSchema = z.object({
+  workflowId: z.string(),
+  stepIndex: z.coerce.number().int().min(0),
+});
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'RetryWorkflowStep',
+  method: 'POST',
+  path: '/api/workflow/:workflowId/steps/:stepIndex/retry',
+  bodySchema: z.object({
+    userId: z.string(),
+    reason: z.string().max(500).optional(),
+  }),
+  emits: ['workflow.status.changed', 'workflow.agent.started'],
+};
+
+export const handler: Handlers['RetryWorkflowStep'] = async (req, { logger, emit, state }) => {
+  const params = pathSchema.safeParse(req.pathParams);
+  if (!params.success) {
+    return {
+      status: 400,
+      body: { error: 'Invalid path parameters', details: params.error.errors },
+    };
+  }
+
+  const { workflowId, stepIndex } = params.data;
+  const { userId, reason } = req.body;
+
+  try {
+    const { workflow, transition, step } = await workflowControlService.retryStep(state, workflowId, stepIndex, { userId, reason });
+
+    await emit({
+      topic: 'workflow.status.changed',
+      data: {
+        type: 'workflow.status.changed',
+        workflowId,
+        userId,
+        status: transition.to,
+        previousStatus: transition.from,
+        stepIndex,
+        message: reason,
+        timestamp: transition.at,
+      },
+    });
+
+    await emit({
+      topic: 'workflow.agent.started',
+      data: {
+        workflowId,
+        stepIndex,
+        agent: step.agent,
+        task: step.task,
+      },
+    });
+
+    logger.info('Workflow step retried', { workflowId, userId, stepIndex, agent: step.agent });
+
+    return {
+      status: 202,
+      body: { workflowId, status: workflow.status, transition, step: { index: stepIndex, id: step.id, agent: step.agent } },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to retry workflow step', { workflowId, stepIndex, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to retry workflow step', message: errorMessage },
+    };
+  }
+};
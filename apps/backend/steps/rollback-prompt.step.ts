@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { promptRegistry } from '../services/prompt-registry.service';
+import { errorService } from '../services/error.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'RollbackPrompt',
+  method: 'POST',
+  path: '/api/prompts/:name/rollback',
+  bodySchema: z.object({
+    version: z.number().min(1), // 1 = built-in
+    userId: z.string().uuid().optional(),
+  }),
+  emits: [],
+};
+
+export const handler: Handlers['RollbackPrompt'] = async (req, { logger }) => {
+  const { name } = req.pathParams;
+
+  try {
+    const active = await promptRegistry.rollback(name, req.body.version, req.body.userId);
+
+    logger.info('Prompt rolled back', { name, version: active.version, userId: req.body.userId });
+
+    return {
+      status: 200,
+      body: { name, activeVersion: active.version, template: active },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to roll back prompt', { name, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to roll back prompt', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { personaService } from '../services/persona.service';
+import { errorService } from '../services/error.service';
+import { ASSISTANT_TYPES } from '../config/prompt-templates.config';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'SavePersona',
+  method: 'POST',
+  path: '/api/personas',
+  bodySchema: z.object({
+    userId: z.string().uuid(),
+    id: z.string().uuid().optional(), // Update an existing persona
+    name: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+    baseAssistantType: z.enum(ASSISTANT_TYPES).optional(), // Defaults to general
+    instructions: z.string().min(1),
+    variables: z.object({
+      riskTolerance: z.string().optional(),
+      timeframe: z.string().optional(),
+      symbols: z.array(z.string()).optional(),
+    }).optional(),
+  }),
+  emits: [],
+};
+
+export const handler: Handlers['SavePersona'] = async (req, { logger }) => {
+  const { userId, ...input } = req.body;
+
+  try {
+    const persona = await personaService.save(userId, input);
+
+    logger.info('Persona saved', { userId, personaId: persona.id, updated: !!input.id });
+
+    return {
+      status: input.id ? 200 : 201,
+      body: persona,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to save persona', { userId, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to save persona', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { workflowScheduleService } from '../services/workflow-schedule.service';
+import { errorService } from '../services/error.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'SaveWorkflowSchedule',
+  method: 'POST',
+  path: '/api/workflow-schedules',
+  bodySchema: z.object({
+    userId: z.string().uuid(),
+    id: z.string().uuid().optional(), // Update an existing schedule
+    workflowKey: z.string().min(1), // Definition id, e.g. portfolioAnalysis
+    name: z.string().max(100).optional(),
+    cron: z.string().min(1).max(100), // e.g. '0 7 * * MON'
+    timezone: z.string().optional(), // IANA name; defaults to UTC
+    message: z.string().max(2000).optional(), // Defaults to the workflow's description
+    // Inputs of the workflow, validated against its definition
+    context: z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])).optional(),
+    email: z.string().email().optional(), // Where finished reports are sent; must be the account's confirmed address
+    enabled: z.boolean().optional(),
+  }),
+  emits: [],
+};
+
+export const handler: Handlers['SaveWorkflowSchedule'] = async (req, { logger }) => {
+  const { userId, ...input } = req.body;
+
+  try {
+    const schedule = await workflowScheduleService.save(userId, input);
+
+    logger.info('Workflow schedule saved', { userId, scheduleId: schedule.id, updated: !!input.id });
+
+    return {
+      status: input.id ? 200 : 201,
+      body: {
+        ...schedule,
+        upcomingRuns: workflowScheduleService.getUpcomingRuns(schedule),
+      },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to save workflow schedule', { userId, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to save workflow schedule', message: errorMessage },
+    };
+  }
+};
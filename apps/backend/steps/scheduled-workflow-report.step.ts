@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import type { EventConfig, Handlers } from 'motia';
+import type { AgentResult } from '../services/summary-generator.service';
+import { workflowScheduleService } from '../services/workflow-schedule.service';
+
+const inputSchema = z.object({
+  workflowId: z.string(),
+  type: z.string().optional(),
+  status: z.string().optional(), // workflow.status.changed
+  message: z.string().optional(),
+  summary: z.string().optional(), // workflow.completed
+  results: z.any().optional(),
+});
+
+interface ScheduledRecord {
+  schedule?: { id: string; name: string; email?: string; scheduledFor: string; mergedRuns?: number };
+  results?: AgentResult[];
+  summary?: string;
+}
+
+export const config: EventConfig = {
+  type: 'event',
+  name: 'ScheduledWorkflowReport',
+  description: 'Sends the report of a finished scheduled workflow run and updates its schedule',
+  subscribes: ['workflow.completed', 'workflow.status.changed'],
+  emits: ['notification'],
+  input: inputSchema,
+};
+
+export const handler: Handlers['ScheduledWorkflowReport'] = async (input, { logger, emit, state }) => {
+  const { workflowId } = input;
+  const status = input.type === 'workflow.completed' ? 'completed' : input.status;
+  if (status !== 'completed' && status !== 'failed' && status !== 'cancelled') return;
+
+  const record = await state.get<ScheduledRecord>('workflows', workflowId);
+  const schedule = record?.schedule;
+  if (!schedule) return;
+
+  try {
+    await workflowScheduleService.recordRun(schedule.id, { workflowRunId: workflowId, status });
+
+    // Cancelled runs were stopped by the user, who needs no email about it
+    if (!schedule.email || status === 'cancelled') return;
+
+    const results = (input.results as AgentResult[] | undefined) || record.results || [];
+    const report = results
+      .filter(result => result.agent !== 'summary')
+      .map(result => result.result)
+      .join('\n\n---\n\n');
+
+    await emit({
+      topic: 'notification',
+      data: {
+        templateId: status === 'completed' ? 'workflow-report' : 'workflow-failed',
+        email: schedule.email,
+        templateData: {
+          workflowName: schedule.name,
+          workflowId,
+          scheduledFor: schedule.scheduledFor,
+          summary: input.summary ?? record.summary,
+          report,
+          error: status === 'failed' ? input.message : undefined,
+        },
+      },
+    });
+
+    logger.info('Scheduled workflow report sent', { workflowId, scheduleId: schedule.id, status });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to report scheduled workflow', { workflowId, scheduleId: schedule.id, error: errorMessage });
+  }
+};
@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import type { EventConfig, Handlers } from 'motia';
+import { promptInjectionService } from '../services/prompt-injection.service';
+import { workflowExecutionService } from '../services/workflow-execution.service';
+import { prepareWorkflowRun } from '../services/workflow-inputs';
+import { workflowRegistry } from '../services/workflow-registry.service';
+import { workflowScheduleService } from '../services/workflow-schedule.service';
+
+const inputSchema = z.object({
+  scheduleId: z.string(),
+  userId: z.string(),
+  workflowKey: z.string(),
+  name: z.string().optional(),
+  message: z.string(),
+  context: z.record(z.string(), z.any()).optional(),
+  email: z.string().optional(),
+  scheduledFor: z.string(),
+  mergedRuns: z.number(),
+});
+
+export const config: EventConfig = {
+  type: 'event',
+  name: 'StartScheduledWorkflow',
+  description: 'Starts one run of a scheduled workflow',
+  subscribes: ['workflow.schedule.triggered'],
+  emits: ['workflow.started', 'workflow.agent.started'],
+  input: inputSchema,
+};
+
+export const handler: Handlers['StartScheduledWorkflow'] = async (input, { logger, emit, state, traceId }) => {
+  const { scheduleId, userId, workflowKey, email, scheduledFor } = input;
+  // One id per occurrence, so a redelivered trigger finds the run it already started
+  const workflowInstanceId = `${workflowKey}-${scheduleId}-${Date.parse(scheduledFor)}`;
+
+  try {
+    // Only started runs are in state: a failed start is removed again, so a redelivery retries it
+    if (await state.get('workflows', workflowInstanceId)) {
+      logger.info('Scheduled workflow run already started', { scheduleId, workflowId: workflowInstanceId });
+      return;
+    }
+
+    const workflow = workflowRegistry.get(workflowKey);
+    if (!workflow) {
+      throw new Error(`Workflow definition not found: ${workflowKey}`);
+    }
+
+    // Stored messages are screened on every run, as the policy may have changed since
+    const { text: message } = await promptInjectionService.screen(input.message, {
+      source: 'user',
+      route: 'workflow',
+      userId,
+      traceId,
+    });
+
+    // The definition may have changed since the schedule was saved; invalid inputs fail the run
+    const { context, steps } = prepareWorkflowRun(workflow, input.context);
+
+    logger.info('Starting scheduled workflow', { scheduleId, workflowId: workflowInstanceId, scheduledFor, traceId });
+
+    await workflowExecutionService.startRun({ state, emit }, {
+      workflowId: workflowInstanceId,
+      workflowKey,
+      definitionVersion: workflow.version,
+      name: workflow.name,
+      agents: workflow.agents,
+      userId,
+      message,
+      steps,
+      record: {
+        id: workflowInstanceId,
+        workflowId: workflowKey,
+        definitionVersion: workflow.version,
+        status: 'started',
+        userId,
+        message,
+        context,
+        agents: workflow.agents,
+        steps,
+        prefetch: workflow.prefetch,
+        timeoutMs: workflow.timeoutMs,
+        output: workflow.output,
+        // Read when the run finishes to notify the user and update the schedule
+        schedule: {
+          id: scheduleId,
+          name: input.name || workflow.name,
+          email,
+          scheduledFor,
+          mergedRuns: input.mergedRuns,
+        },
+        startedAt: new Date().toISOString(),
+        currentStep: 0,
+        results: [],
+      },
+    });
+    await workflowScheduleService.recordRun(scheduleId, { workflowRunId: workflowInstanceId, status: 'started' });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to start scheduled workflow', { scheduleId, workflowKey, error: errorMessage, traceId });
+
+    await workflowScheduleService.recordRun(scheduleId, { status: 'failed' }).catch(() => undefined);
+  }
+};
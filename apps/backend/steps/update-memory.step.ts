@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { memoryService } from '../services/memory.service';
+import { errorService } from '../services/error.service';
+import { MEMORY_CATEGORIES, memoryConfig } from '../config/memory.config';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'UpdateMemory',
+  method: 'PUT',
+  path: '/api/memories/:id',
+  bodySchema: z.object({
+    userId: z.string().uuid(),
+    text: z.string().min(1).max(memoryConfig.maxTextLength).optional(),
+    category: z.enum(MEMORY_CATEGORIES).optional(),
+    key: z.string().min(1).max(60).optional(),
+  }),
+  emits: [],
+};
+
+export const handler: Handlers['UpdateMemory'] = async (req, { logger }) => {
+  const { id } = req.pathParams;
+  const { userId, ...input } = req.body;
+
+  try {
+    const memory = await memoryService.update(userId, id, input);
+
+    logger.info('Memory updated', { userId, memoryId: id });
+
+    return {
+      status: 200,
+      body: memory,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to update memory', { memoryId: id, error: errorMessage });
+
+    return {
+      status: errorService.sanitizeError(error).statusCode,
+      body: { error: 'Failed to update memory', message: errorMessage },
+    };
+  }
+};
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { ErrorCode } from '../services/error.service';
+import { usageService } from '../services/usage.service';
+
+export const config: ApiRouteConfig = {
+  type: 'api',
+  name: 'UpdateLLMBudget',
+  method: 'POST',
+  path: '/api/usage/budget',
+  bodySchema: z.object({
+    userId: z.string().uuid(),
+    // Users can only tighten their budget; raising it is up to operators
+    dailyLimitUsd: z.number().positive().optional(),
+    monthlyLimitUsd: z.number().positive().optional(),
+    onExceeded: z.enum(['reject', 'downgrade']).optional(),
+  }),
+  emits: [],
+};
+
+export const handler: Handlers['UpdateLLMBudget'] = async (req, { logger }) => {
+  try {
+    const { userId, ...budget } = req.body;
+
+    logger.info('Updating LLM budget', { userId, ...budget });
+
+    const limits = await usageService.tightenBudget(userId, budget);
+
+    return {
+      status: 200,
+      body: { userId, ...limits },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to update LLM budget', { error: errorMessage });
+
+    if ((error as any)?.code === ErrorCode.VALIDATION_ERROR) {
+      return {
+        status: 400,
+        body: { error: 'Invalid LLM budget', message: errorMessage, ...(error as any).details },
+      };
+    }
+
+    return {
+      status: errorMessage === 'Database service not configured' ? 503 : 500,
+      body: { error: 'Failed to update LLM budget', message: errorMessage },
+    };
+  }
+};
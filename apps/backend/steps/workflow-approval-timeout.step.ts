@@ -0,0 +1,64 @@
+import type { CronConfig, Handlers } from 'motia';
+import { workflowApprovalService } from '../services/workflow-approval.service';
+
+export const config: CronConfig = {
+  type: 'cron',
+  cron: '* * * * *', // every minute
+  name: 'WorkflowApprovalTimeout',
+  description: 'Rejects workflow approvals nobody decided before they expired',
+  emits: ['workflow.approval.decided', 'workflow.status.changed', 'workflow.agent.started', 'workflow.finalize'],
+};
+
+export const handler: Handlers['WorkflowApprovalTimeout'] = async ({ logger, state, emit }) => {
+  const resolutions = await workflowApprovalService.expireDue(state);
+
+  for (const { approval, change, ready, complete } of resolutions) {
+    const { workflowId, userId } = approval;
+    logger.warn('Workflow approval expired', { workflowId, stepId: approval.stepId, expiresAt: approval.expiresAt });
+
+    await emit({
+      topic: 'workflow.approval.decided',
+      data: {
+        type: 'workflow.approval.decided',
+        workflowId,
+        userId,
+        stepIndex: approval.stepIndex,
+        task: approval.title,
+        message: `${approval.title}: no decision in time, not approved`,
+        data: approval,
+        timestamp: approval.decidedAt,
+      },
+    });
+
+    if (change) {
+      await emit({
+        topic: 'workflow.status.changed',
+        data: {
+          type: 'workflow.status.changed',
+          workflowId,
+          userId,
+          status: change.transition.to,
+          previousStatus: change.transition.from,
+          stepIndex: approval.stepIndex,
+          message: change.transition.reason,
+          timestamp: change.transition.at,
+        },
+      });
+    }
+
+    if (complete) {
+      await emit({ topic: 'workflow.finalize', data: { workflowId } });
+    }
+    for (const { step, index } of ready) {
+      await emit({
+        topic: 'workflow.agent.started',
+        data: {
+          workflowId,
+          stepIndex: index,
+          agent: step.agent,
+          task: step.task,
+        },
+      });
+    }
+  }
+};
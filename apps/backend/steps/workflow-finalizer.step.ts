@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import type { EventConfig, Handlers } from 'motia';
+import { SummaryGeneratorService } from '../services/summary-generator.service';
+import { getStatus, workflowControlService } from '../services/workflow-control.service';
+import { workflowExecutionService } from '../services/workflow-execution.service';
+import { workflowTelemetryService } from '../services/workflow-telemetry.service';
+import { SUMMARY_NODE_ID, toGraphSteps } from '../services/workflow-graph';
+
+const inputSchema = z.object({
+  workflowId: z.string(),
+});
+
+export const config: EventConfig = {
+  type: 'event',
+  name: 'WorkflowFinalizer',
+  description: 'Writes the executive summary once every step of a workflow run has finished',
+  subscribes: ['workflow.finalize'],
+  emits: ['workflow.completed'],
+  input: inputSchema,
+};
+
+export const handler: Handlers['WorkflowFinalizer'] = async (input, { logger, emit, state, traceId }) => {
+  const { workflowId } = input;
+
+  try {
+    const workflow: any = await state.get('workflows', workflowId);
+    if (!workflow) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+    if (['cancelled', 'completed'].includes(getStatus(workflow))) {
+      logger.info('Workflow already finished, nothing to finalize', { workflowId, status: workflow.status });
+      return;
+    }
+
+    const steps = toGraphSteps(workflow.steps || workflow.agents || []);
+    const updatedResults = await workflowExecutionService.getResults(state, workflowId, steps);
+    const summaryStartedAt = Date.now();
+
+    logger.info('All agents completed, generating executive summary', {
+      workflowId,
+      resultsCount: updatedResults.length,
+      traceId,
+    });
+
+    // Generate executive summary from all agent results (definitions may opt out)
+    const executiveSummary = workflow.output?.summary === false
+      ? undefined
+      : await SummaryGeneratorService.generateExecutiveSummary(
+        updatedResults,
+        workflow.message,
+        { userId: workflow.userId, workflowId, stepId: SUMMARY_NODE_ID, feature: 'summary' }
+      );
+
+    // Add summary as a final result
+    const summaryResult = executiveSummary && {
+      agent: 'summary',
+      task: 'Executive Summary and Synthesis',
+      result: executiveSummary,
+      completedAt: new Date().toISOString(),
+    };
+
+    const finalResults = summaryResult ? [...updatedResults, summaryResult] : updatedResults;
+
+    // Store the summary
+    if (summaryResult) await state.set('workflows', `${workflowId}:summary`, summaryResult);
+    await workflowExecutionService.completeStep(workflowId, SUMMARY_NODE_ID, executiveSummary ?? null, Date.now() - summaryStartedAt);
+    if (summaryResult) {
+      await workflowTelemetryService.recordStep(state, {
+        workflowId,
+        workflowKey: workflow.workflowId || 'adhoc',
+        stepId: SUMMARY_NODE_ID,
+        agent: 'summary',
+        status: 'completed',
+        durationMs: Date.now() - summaryStartedAt,
+      });
+    }
+    await workflowExecutionService.updateRun(workflowId, { summary: executiveSummary });
+    await state.set('workflows', workflowId, {
+      ...(await state.get('workflows', workflowId) || workflow),
+      results: finalResults,
+      summary: executiveSummary,
+      currentStep: steps.length,
+      completedAt: new Date().toISOString(),
+      lastUpdated: new Date().toISOString(),
+    });
+    await workflowControlService.setStatus(state, workflow, 'completed');
+
+    logger.info('Workflow completed with executive summary', {
+      workflowId,
+      resultsCount: finalResults.length,
+      message: 'Multi-agent analysis complete with executive summary',
+    });
+
+    await emit({
+      topic: 'workflow.completed' as any,
+      data: {
+        type: 'workflow.completed',
+        workflowId,
+        userId: workflow.userId,
+        results: finalResults,
+        summary: executiveSummary,
+        completedAt: new Date().toISOString(),
+      },
+    } as any);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Workflow finalization failed', {
+      error: errorMessage,
+      workflowId,
+      traceId,
+    });
+  }
+};
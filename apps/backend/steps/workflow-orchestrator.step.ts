@@ -1,5 +1,12 @@
 import { z } from 'zod';
 import type { ApiRouteConfig, Handlers } from 'motia';
+import { ErrorCode } from '../services/error.service';
+import { intentRouterService } from '../services/intent-router.service';
+import { promptInjectionService } from '../services/prompt-injection.service';
+import { workflowExecutionService } from '../services/workflow-execution.service';
+import { prepareWorkflowRun } from '../services/workflow-inputs';
+import { workflowRegistry } from '../services/workflow-registry.service';
+import { workflowTelemetryService } from '../services/workflow-telemetry.service';
 
 export const config: ApiRouteConfig = {
   type: 'api',
@@ -9,129 +16,23 @@ export const config: ApiRouteConfig = {
   bodySchema: z.object({
     message: z.string(),
     userId: z.string(),
-    context: z.object({
-      symbols: z.array(z.string()).optional(),
-      timeframe: z.string().optional(),
-      riskTolerance: z.enum(['conservative', 'moderate', 'aggressive']).optional(),
-    }).optional(),
+    workflowId: z.string().optional(), // Start this definition instead of routing the message
+    // Inputs of the workflow (symbols, timeframe, riskTolerance...), validated against its definition
+    context: z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])).optional(),
   }),
   emits: ['workflow.started', 'workflow.agent.started', 'workflow.agent.completed', 'workflow.completed'],
 };
 
-// Workflow definitions with trigger patterns
-const workflows = {
-  portfolioAnalysis: {
-    name: 'Portfolio Analysis',
-    description: 'Comprehensive portfolio review with multiple agent perspectives',
-    triggers: [
-      'analyze my portfolio',
-      'review my investments',
-      'portfolio performance',
-      'how are my investments doing',
-      'portfolio health check',
-    ],
-    agents: ['analyst', 'riskManager', 'advisor'],
-    steps: [
-      { agent: 'analyst', task: 'Analyze portfolio composition and performance metrics' },
-      { agent: 'riskManager', task: 'Assess portfolio risks and correlations' },
-      { agent: 'advisor', task: 'Provide recommendations for portfolio optimization' },
-    ],
-  },
-  marketOpportunity: {
-    name: 'Market Opportunity Scanner',
-    description: 'Identify trading opportunities across markets',
-    triggers: [
-      'find trading opportunities',
-      'what should i buy',
-      'market opportunities',
-      'best stocks to trade',
-      'trading ideas',
-    ],
-    agents: ['trader', 'analyst', 'economist'],
-    steps: [
-      { agent: 'economist', task: 'Analyze current market conditions and trends' },
-      { agent: 'analyst', task: 'Screen for undervalued or momentum stocks' },
-      { agent: 'trader', task: 'Identify specific entry points and trading setups' },
-    ],
-  },
-  riskAssessment: {
-    name: 'Risk Assessment',
-    description: 'Comprehensive risk analysis and mitigation strategies',
-    triggers: [
-      'assess my risk',
-      'portfolio risk',
-      'am i too exposed',
-      'hedge my portfolio',
-      'protect my investments',
-    ],
-    agents: ['riskManager', 'economist', 'advisor'],
-    steps: [
-      { agent: 'riskManager', task: 'Calculate portfolio risk metrics and stress tests' },
-      { agent: 'economist', task: 'Identify macro risks and market conditions' },
-      { agent: 'advisor', task: 'Recommend hedging strategies and adjustments' },
-    ],
-  },
-  investmentResearch: {
-    name: 'Investment Research',
-    description: 'Deep dive research on specific investments',
-    triggers: [
-      'research',
-      'tell me about',
-      'should i invest in',
-      'analyze this stock',
-      'deep dive',
-    ],
-    agents: ['analyst', 'economist', 'trader'],
-    steps: [
-      { agent: 'analyst', task: 'Perform fundamental analysis and valuation' },
-      { agent: 'economist', task: 'Analyze sector and macro factors' },
-      { agent: 'trader', task: 'Assess technical setup and timing' },
-    ],
-  },
-  marketDebate: {
-    name: 'Market Debate',
-    description: 'Multi-perspective debate on market direction',
-    triggers: [
-      'market debate',
-      'bull vs bear',
-      'market outlook',
-      'where is the market heading',
-      'recession coming',
-    ],
-    agents: ['economist', 'trader', 'analyst', 'riskManager'],
-    steps: [
-      { agent: 'economist', task: 'Present macro economic view' },
-      { agent: 'trader', task: 'Share technical and sentiment analysis' },
-      { agent: 'analyst', task: 'Provide fundamental market valuation' },
-      { agent: 'riskManager', task: 'Assess systemic risks and tail events' },
-    ],
-  },
-};
-
-// Function to detect workflow from user message
-function detectWorkflow(message: string): string | null {
-  const lowerMessage = message.toLowerCase();
-  
-  for (const [workflowId, workflow] of Object.entries(workflows)) {
-    for (const trigger of workflow.triggers) {
-      if (lowerMessage.includes(trigger)) {
-        return workflowId;
-      }
-    }
-  }
-  
-  // Check for explicit workflow requests
-  if (lowerMessage.includes('workflow') || lowerMessage.includes('multi-agent')) {
-    // Default to portfolio analysis for generic requests
-    return 'portfolioAnalysis';
-  }
-  
-  return null;
-}
-
 export const handler: Handlers['WorkflowOrchestrator'] = async (req, { logger, emit, state, traceId }) => {
   try {
-    const { message, userId, context } = req.body;
+    const { userId } = req.body;
+    // Suspicious spans are cut out before the message reaches any agent (policy per route)
+    const { text: message } = await promptInjectionService.screen(req.body.message, {
+      source: 'user',
+      route: 'workflow',
+      userId,
+      traceId,
+    });
     
     logger.info('Processing workflow trigger request', { 
       message: message.substring(0, 50) + '...',
@@ -139,17 +40,29 @@ export const handler: Handlers['WorkflowOrchestrator'] = async (req, { logger, e
       traceId 
     });
 
-    // Detect which workflow to trigger
-    const workflowId = detectWorkflow(message);
-    
-    if (!workflowId) {
+    // Route the message to a workflow (definitions live in workflows/*.json) unless the caller chose one
+    const decision = req.body.workflowId
+      ? intentRouterService.explicit(req.body.workflowId)
+      : await intentRouterService.route(message, { userId, traceId });
+    const workflow = decision.workflowId ? workflowRegistry.get(decision.workflowId) : undefined;
+    logger.info('Message routed', {
+      route: decision.route,
+      workflowId: decision.workflowId,
+      confidence: decision.confidence,
+      method: decision.method,
+      traceId,
+    });
+
+    if (!workflow) {
       return {
         status: 200,
         body: {
           triggered: false,
           message: 'No workflow detected. Processing as regular chat.',
-          suggestions: Object.entries(workflows).map(([id, w]) => ({
-            id,
+          assistantType: decision.assistantType,
+          decisionId: decision.decisionId,
+          suggestions: workflowRegistry.list().map(w => ({
+            id: w.id,
             name: w.name,
             description: w.description,
             samplePrompts: w.triggers.slice(0, 2),
@@ -158,62 +71,43 @@ export const handler: Handlers['WorkflowOrchestrator'] = async (req, { logger, e
       };
     }
 
-    const workflow = workflows[workflowId as keyof typeof workflows];
+    const workflowId = workflow.id;
     const workflowInstanceId = `${workflowId}-${traceId}`;
+    // Defaults applied, and the values filled into the step tasks
+    const { context, steps } = prepareWorkflowRun(workflow, req.body.context);
+    // Duration and cost from recent runs of the definition
+    const estimate = await workflowTelemetryService.estimateFor(workflowId, steps, { summary: workflow.output.summary });
 
-    // Store workflow state
-    await state.set('workflows', workflowInstanceId, {
-      id: workflowInstanceId,
-      workflowId,
-      status: 'started',
+    // Store workflow state, then start every step without dependencies
+    await workflowExecutionService.startRun({ state, emit }, {
+      workflowId: workflowInstanceId,
+      workflowKey: workflowId,
+      definitionVersion: workflow.version,
+      name: workflow.name,
+      agents: workflow.agents,
       userId,
       message,
-      context,
-      agents: workflow.agents,
-      steps: workflow.steps,
-      startedAt: new Date().toISOString(),
-      currentStep: 0,
-      results: [],
-    });
-
-    // Emit workflow started event
-    await emit({
-      topic: 'workflow.started',
-      data: {
-        type: 'workflow.started',
-        workflowId: workflowInstanceId,
+      steps,
+      record: {
+        id: workflowInstanceId,
+        workflowId,
+        definitionVersion: workflow.version,
+        status: 'started',
         userId,
-        name: workflow.name,
-        agents: workflow.agents,
-        steps: workflow.steps,
         message,
+        context,
+        agents: workflow.agents,
+        steps,
+        prefetch: workflow.prefetch,
+        timeoutMs: workflow.timeoutMs,
+        output: workflow.output,
+        startedAt: new Date().toISOString(),
+        currentStep: 0,
+        results: [],
       },
+      event: { estimate },
     });
 
-    // Start the first agent only (sequential processing)
-    if (workflow.steps.length > 0) {
-      const firstStep = workflow.steps[0];
-      
-      // Emit first agent started event
-      await emit({
-        topic: 'workflow.agent.started',
-        data: {
-          workflowId: workflowInstanceId,
-          stepIndex: 0,
-          agent: firstStep.agent,
-          task: firstStep.task,
-        },
-      });
-
-      // Update workflow state for first step
-      await state.set('workflows', `${workflowInstanceId}:step:0`, {
-        agent: firstStep.agent,
-        task: firstStep.task,
-        status: 'processing',
-        startedAt: new Date().toISOString(),
-      });
-    }
-
     return {
       status: 200,
       body: {
@@ -223,9 +117,11 @@ export const handler: Handlers['WorkflowOrchestrator'] = async (req, { logger, e
           name: workflow.name,
           description: workflow.description,
           agents: workflow.agents,
-          steps: workflow.steps,
+          steps,
         },
         message: `Workflow "${workflow.name}" initiated with ${workflow.agents.length} agents`,
+        estimate,
+        intent: { confidence: decision.confidence, method: decision.method, decisionId: decision.decisionId },
       },
     };
   } catch (error) {
@@ -234,6 +130,20 @@ export const handler: Handlers['WorkflowOrchestrator'] = async (req, { logger, e
       error: errorMessage,
       traceId 
     });
+
+    if ((error as any)?.code === ErrorCode.VALIDATION_ERROR) {
+      return {
+        status: 400,
+        body: { error: 'Invalid workflow inputs', message: errorMessage, ...(error as any).details },
+      };
+    }
+
+    if ((error as any)?.code === ErrorCode.FORBIDDEN) {
+      return {
+        status: 403,
+        body: { error: 'Message blocked', message: errorMessage, ...(error as any).details },
+      };
+    }
     
     return {
       status: 500,
@@ -0,0 +1,56 @@
+import type { CronConfig, Handlers } from 'motia';
+import { workflowsConfig } from '../config/workflows.config';
+import { workflowRecoveryService } from '../services/workflow-recovery.service';
+
+export const config: CronConfig = {
+  type: 'cron',
+  cron: '*/2 * * * *', // every two minutes; the first run after a restart picks up its orphans
+  name: 'WorkflowRecovery',
+  description: 'Resumes or fails workflow runs left running by a restart',
+  emits: ['workflow.agent.started', 'workflow.finalize', 'workflow.status.changed'],
+};
+
+export const handler: Handlers['WorkflowRecovery'] = async ({ logger, state, emit }) => {
+  if (!workflowsConfig.recovery.enabled) return;
+
+  const outcomes = await workflowRecoveryService.recover(state);
+
+  for (const outcome of outcomes) {
+    const { workflowId, userId } = outcome;
+
+    if (outcome.action === 'failed') {
+      const { transition } = outcome.change;
+      logger.warn('Orphaned workflow failed', { workflowId, reason: transition.reason });
+
+      await emit({
+        topic: 'workflow.status.changed',
+        data: {
+          type: 'workflow.status.changed',
+          workflowId,
+          userId,
+          status: transition.to,
+          previousStatus: transition.from,
+          message: transition.reason,
+          timestamp: transition.at,
+        },
+      });
+    } else if (outcome.action === 'finalize') {
+      logger.info('Finalizing orphaned workflow', { workflowId });
+      await emit({ topic: 'workflow.finalize', data: { workflowId } });
+    } else {
+      logger.info('Resuming orphaned workflow', { workflowId, restartedSteps: outcome.restart.map(({ index }) => index) });
+
+      for (const { step, index } of outcome.restart) {
+        await emit({
+          topic: 'workflow.agent.started',
+          data: {
+            workflowId,
+            stepIndex: index,
+            agent: step.agent,
+            task: step.task,
+          },
+        });
+      }
+    }
+  }
+};
@@ -0,0 +1,51 @@
+import type { CronConfig, Handlers } from 'motia';
+import { workflowsConfig } from '../config/workflows.config';
+import { workflowScheduleService } from '../services/workflow-schedule.service';
+
+export const config: CronConfig = {
+  type: 'cron',
+  cron: '* * * * *', // every minute; schedules are at most minute-precise
+  name: 'WorkflowScheduler',
+  description: 'Starts the workflows users scheduled whose next run is due',
+  emits: ['workflow.schedule.triggered'],
+};
+
+export const handler: Handlers['WorkflowScheduler'] = async ({ logger, emit }) => {
+  if (!workflowsConfig.schedules.enabled) return;
+
+  const due = await workflowScheduleService.claimDue();
+
+  for (const { schedule, plan } of due) {
+    if (!plan.scheduledFor) {
+      logger.warn('Scheduled workflow skipped: every missed run is older than the catch-up window', {
+        scheduleId: schedule.id,
+        missedSince: schedule.nextRunAt,
+        nextRunAt: plan.nextRunAt?.toISOString(),
+      });
+      continue;
+    }
+
+    if (plan.mergedRuns > 0 || plan.dropped) {
+      logger.info('Missed scheduled runs merged into one', {
+        scheduleId: schedule.id,
+        mergedRuns: plan.mergedRuns,
+        dropped: plan.dropped,
+      });
+    }
+
+    await emit({
+      topic: 'workflow.schedule.triggered',
+      data: {
+        scheduleId: schedule.id,
+        userId: schedule.userId,
+        workflowKey: schedule.workflowKey,
+        name: schedule.name,
+        message: schedule.message,
+        context: schedule.context,
+        email: schedule.email,
+        scheduledFor: plan.scheduledFor.toISOString(),
+        mergedRuns: plan.mergedRuns,
+      },
+    });
+  }
+};
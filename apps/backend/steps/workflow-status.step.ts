@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import type { ApiRouteConfig, Handlers } from 'motia';
+import { workflowTelemetryService } from '../services/workflow-telemetry.service';
 
 export const config: ApiRouteConfig = {
   type: 'api',
@@ -31,8 +32,8 @@ export const handler: Handlers['WorkflowStatus'] = async (req, { logger, state,
       };
     }
 
-    // Get agents from workflow (it can be either 'agents' or 'steps')
-    const agents = workflow.agents || workflow.steps || [];
+    // Get agents from workflow (it can be either 'steps' or 'agents')
+    const agents = workflow.steps || workflow.agents || [];
     const totalSteps = agents.length;
     
     // Get all step statuses
@@ -49,21 +50,45 @@ export const handler: Handlers['WorkflowStatus'] = async (req, { logger, state,
       
       stepStatuses.push({
         index: i,
+        id: agents[i].id,
+        dependsOn: agents[i].dependsOn,
         agent: agentName,
         task: agentTask,
-        status: resultData ? 'completed' : stepData ? 'processing' : 'pending',
+        status: resultData?.skipped
+          ? 'skipped'
+          : resultData
+            ? 'completed'
+            : stepData?.status === 'failed' || stepData?.status === 'awaiting_approval'
+              ? stepData.status
+              : stepData ? 'processing' : 'pending',
         result: resultData?.result,
+        error: stepData?.error ?? resultData?.skipped?.error,
+        // Branches: the step's conditions, and the one that left it out
+        when: agents[i].when,
+        endIf: agents[i].endIf,
+        skippedBy: resultData?.skipped?.condition,
         startedAt: stepData?.startedAt,
         completedAt: resultData?.completedAt,
+        // Approval steps: the proposal, and the decision once made
+        approval: agents[i].type === 'approval'
+          ? await state.get('workflows', `${workflowId}:approval:${agents[i].id}`) ?? undefined
+          : undefined,
+        // Debate steps: every round's arguments, then the verdict
+        debate: agents[i].type === 'debate'
+          ? await state.get('workflows', `${workflowId}:debate:${agents[i].id}`) ?? undefined
+          : undefined,
       });
     }
 
     // Determine overall status
-    const completedSteps = stepStatuses.filter(s => s.status === 'completed').length;
+    const completedSteps = stepStatuses.filter(s => s.status === 'completed' || s.status === 'skipped').length;
     const processingSteps = stepStatuses.filter(s => s.status === 'processing').length;
     
     let overallStatus = 'pending';
-    if (completedSteps === totalSteps) {
+    if (['paused', 'awaiting_approval', 'cancelled', 'failed'].includes(workflow.status)) {
+      // Set by the cancel/pause/resume/retry endpoints, approval steps and failed steps
+      overallStatus = workflow.status;
+    } else if (completedSteps === totalSteps) {
       overallStatus = 'completed';
     } else if (processingSteps > 0 || completedSteps > 0) {
       overallStatus = 'processing';
@@ -81,9 +106,12 @@ export const handler: Handlers['WorkflowStatus'] = async (req, { logger, state,
           percentage: Math.round((completedSteps / totalSteps) * 100),
         },
         steps: stepStatuses,
+        // Time left and spend so far while the run is going
+        estimate: overallStatus === 'completed' ? undefined : await workflowTelemetryService.estimateRun(state, workflowId),
         startedAt: workflow.startedAt,
         lastUpdated: workflow.lastUpdated,
         results: workflow.results || [],
+        transitions: workflow.transitions || [],
       },
     };
   } catch (error) {
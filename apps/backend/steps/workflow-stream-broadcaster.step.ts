@@ -25,6 +25,9 @@ export const config: EventConfig = {
     'workflow.agent.progress',
     'workflow.agent.completed',
     'workflow.completed',
+    'workflow.status.changed',
+    'workflow.approval.requested',
+    'workflow.approval.decided',
   ],
   emits: [],
   input: workflowEventSchema,
@@ -1,15 +1,18 @@
 import { z } from 'zod';
 import type { EventConfig, Handlers } from 'motia';
+import { workflowExecutionService } from '../services/workflow-execution.service';
+import { toGraphSteps } from '../services/workflow-graph';
+import { prepareWorkflowRun } from '../services/workflow-inputs';
+import { workflowRegistry } from '../services/workflow-registry.service';
+import { workflowTelemetryService } from '../services/workflow-telemetry.service';
 
 const inputSchema = z.object({
   workflowId: z.string(),
+  workflowKey: z.string().optional(), // Definition to run; without one the agents run one after another
   userId: z.string(),
   message: z.string(),
-  context: z.object({
-    symbols: z.array(z.string()).optional(),
-    timeframe: z.string().optional(),
-    riskTolerance: z.string().optional(),
-  }).optional(),
+  // Validated against the definition's inputs; ad-hoc runs keep it as is
+  context: z.record(z.string(), z.any()).optional(),
   agents: z.array(z.string()),
 });
 
@@ -21,17 +24,10 @@ export const config: EventConfig = {
   input: inputSchema,
 };
 
-// Workflow definitions
-const workflowSteps = {
-  analyst: 'Analyze market data and financial metrics',
-  trader: 'Identify trading opportunities and entry/exit points',
-  advisor: 'Provide personalized investment recommendations',
-  riskManager: 'Assess portfolio risks and suggest hedging strategies',
-  economist: 'Analyze macroeconomic trends and impacts',
-};
-
 export const handler: Handlers['WorkflowTriggerHandler'] = async (input, { logger, emit, state }) => {
-  const { workflowId, userId, message, agents, context } = input;
+  const { workflowId, workflowKey, userId, message } = input;
+  const definition = workflowKey ? workflowRegistry.get(workflowKey) : undefined;
+  const agents = definition?.agents || input.agents;
   
   logger.info('Handling workflow trigger', { 
     workflowId, 
@@ -41,87 +37,55 @@ export const handler: Handlers['WorkflowTriggerHandler'] = async (input, { logge
   });
 
   try {
-    // Store workflow state
-    await state.set('workflows', workflowId, {
-      id: workflowId,
-      status: 'started',
-      userId,
-      message,
-      context,
-      agents,
-      startedAt: new Date().toISOString(),
-      currentStep: 0,
-      results: [],
+    // Ad-hoc agent lists run one agent after another
+    const { context, steps } = definition
+      ? prepareWorkflowRun(definition, input.context)
+      : {
+          context: input.context,
+          steps: toGraphSteps(agents.map(agent => ({ agent, task: 'Process request' }))),
+        };
+
+    // Duration and cost from recent runs of the definition (or of the agents, for ad-hoc lists)
+    const estimate = await workflowTelemetryService.estimateFor(definition?.id || 'adhoc', steps, {
+      summary: definition?.output.summary,
     });
 
-    // Log workflow started
-    logger.info('Workflow started', {
+    // Store workflow state, then start every step without dependencies
+    await workflowExecutionService.startRun({ state, emit }, {
       workflowId,
+      workflowKey: definition?.id || 'adhoc',
+      definitionVersion: definition?.version,
+      name: definition?.name,
       agents,
-      totalSteps: agents.length,
-      message: 'Starting multi-agent analysis...',
-    });
-
-    // Emit workflow started event
-    await emit({
-      topic: 'workflow.started',
-      data: {
-        type: 'workflow.started',
-        workflowId,
+      userId,
+      message,
+      steps,
+      record: {
+        id: workflowId,
+        workflowId: definition?.id,
+        definitionVersion: definition?.version,
+        timeoutMs: definition?.timeoutMs,
+        output: definition?.output,
+        prefetch: definition?.prefetch,
+        status: 'started',
         userId,
-        agents,
         message,
-        timestamp: new Date().toISOString(),
+        context,
+        agents,
+        steps,
+        startedAt: new Date().toISOString(),
+        currentStep: 0,
+        results: [],
       },
+      event: { estimate, timestamp: new Date().toISOString() },
     });
 
-    // Start the first agent
-    if (agents.length > 0) {
-      const firstAgent = agents[0];
-      const task = workflowSteps[firstAgent as keyof typeof workflowSteps] || 'Process request';
-      
-      logger.info('Starting first agent', { 
-        workflowId, 
-        agent: firstAgent,
-        task 
-      });
-
-      // Log agent starting
-      logger.info('Agent starting', {
-        workflowId,
-        agent: firstAgent,
-        task,
-        stepIndex: 0,
-        totalSteps: agents.length,
-      });
-
-      // Emit agent started event (this triggers the agent-executor)
-      await emit({
-        topic: 'workflow.agent.started',
-        data: {
-          workflowId,
-          stepIndex: 0,
-          agent: firstAgent,
-          task,
-        },
-      });
-
-      // Store step state
-      await state.set('workflows', `${workflowId}:step:0`, {
-        agent: firstAgent,
-        task,
-        status: 'processing',
-        startedAt: new Date().toISOString(),
-      });
-    } else {
-      // No agents, complete immediately
-      logger.warn('No agents specified for workflow', { workflowId });
-      
-      logger.warn('Workflow completed with no agents', {
-        workflowId,
-      });
-    }
-
+    logger.info('Workflow started', {
+      workflowId,
+      agents,
+      totalSteps: steps.length,
+      message: 'Starting multi-agent analysis...',
+    });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Failed to handle workflow trigger', {
@@ -130,13 +94,6 @@ export const handler: Handlers['WorkflowTriggerHandler'] = async (input, { logge
       userId,
     });
 
-    // Log error
-    logger.error('Workflow error', {
-      workflowId,
-      error: errorMessage,
-      message: 'Failed to start workflow',
-    });
-
     throw error;
   }
 };
\ No newline at end of file
@@ -11,6 +11,9 @@ export const config: EventRouteConfig = {
     'workflow.agent.completed',
     'workflow.completed',
     'workflow.error',
+    'workflow.status.changed',
+    'workflow.approval.requested',
+    'workflow.approval.decided',
   ],
   input: z.object({
     workflowId: z.string(),
@@ -24,7 +27,10 @@ export const config: EventRouteConfig = {
     results: z.any().optional(),
     message: z.string().optional(),
     progress: z.number().optional(),
+    kind: z.string().optional(), // workflow.agent.progress: tool_call, tool_result, tokens, section, retry, fallback, debate_*
     error: z.string().optional(),
+    status: z.string().optional(), // workflow.status.changed
+    previousStatus: z.string().optional(),
     timestamp: z.string().optional(),
   }),
   emits: [],
@@ -0,0 +1,72 @@
+-- LLM usage metering and budgets
+
+-- One row per LLM call
+CREATE TABLE llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  chat_session_id UUID REFERENCES chat_sessions(id) ON DELETE SET NULL,
+  workflow_id TEXT,
+  feature TEXT NOT NULL DEFAULT 'chat', -- chat, agent, summary, ...
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  tokens_estimated BOOLEAN DEFAULT false, -- true when the provider did not report usage
+  cost_usd DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  downgraded BOOLEAN DEFAULT false, -- request was moved to a cheaper model by a budget
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Per-user budget overrides (defaults come from LLM_*_BUDGET_USD)
+CREATE TABLE llm_budgets (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  daily_limit_usd DECIMAL(12, 4), -- NULL = use the default, 0 = unlimited
+  monthly_limit_usd DECIMAL(12, 4),
+  on_exceeded TEXT NOT NULL DEFAULT 'downgrade' CHECK (on_exceeded IN ('reject', 'downgrade')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_llm_usage_user_created ON llm_usage(user_id, created_at DESC);
+CREATE INDEX idx_llm_usage_session_id ON llm_usage(chat_session_id);
+CREATE INDEX idx_llm_usage_workflow_id ON llm_usage(workflow_id);
+CREATE INDEX idx_llm_usage_provider ON llm_usage(provider);
+
+CREATE TRIGGER update_llm_budgets_updated_at BEFORE UPDATE ON llm_budgets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Spend and tokens for a user since a point in time (used for budget checks)
+CREATE OR REPLACE FUNCTION get_llm_usage_totals(p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (total_tokens BIGINT, cost_usd DECIMAL) AS $$
+  SELECT COALESCE(SUM(total_tokens), 0)::BIGINT, COALESCE(SUM(cost_usd), 0)
+  FROM llm_usage
+  WHERE user_id = p_user_id AND created_at >= p_since;
+$$ LANGUAGE sql STABLE;
+
+-- Atomically roll a call into chat_metadata.total_tokens / providers_used
+CREATE OR REPLACE FUNCTION record_chat_llm_usage(p_session_id UUID, p_tokens INTEGER, p_provider TEXT)
+RETURNS void AS $$
+BEGIN
+  UPDATE chat_metadata
+  SET
+    total_tokens = total_tokens + p_tokens,
+    providers_used = CASE
+      WHEN providers_used @> to_jsonb(ARRAY[p_provider]) THEN providers_used
+      ELSE providers_used || to_jsonb(ARRAY[p_provider])
+    END
+  WHERE chat_session_id = p_session_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row Level Security
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE llm_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own LLM usage"
+  ON llm_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own LLM budget"
+  ON llm_budgets FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,9 @@
+-- Rolling conversation summaries used to keep long chats inside the model context window
+
+ALTER TABLE chat_metadata
+  ADD COLUMN context_summary TEXT, -- Summary of every message up to summarized_through
+  ADD COLUMN summarized_through TIMESTAMPTZ, -- created_at of the newest summarized message
+  ADD COLUMN summary_updated_at TIMESTAMPTZ;
+
+-- History is always read per session in chronological order
+CREATE INDEX idx_chat_messages_session_created ON chat_messages(chat_session_id, created_at);
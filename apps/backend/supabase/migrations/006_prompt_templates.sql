@@ -0,0 +1,68 @@
+-- Versioned prompt templates and per-user assistant personas
+
+-- Published template versions. Version 1 of every template is built into the
+-- backend (config/prompt-templates.config.ts), so stored versions start at 2.
+CREATE TABLE prompt_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL, -- e.g. agent.analyst, workflow.agent-task
+  version INTEGER NOT NULL CHECK (version > 1),
+  template TEXT NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(name, version)
+);
+
+-- Live version per template; rolling back only moves this pointer
+CREATE TABLE prompt_template_active (
+  name TEXT PRIMARY KEY,
+  version INTEGER NOT NULL CHECK (version >= 1), -- 1 = built-in
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Custom assistants saved by users alongside the built-in assistant types
+CREATE TABLE user_personas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- Built-in assistant whose tools the persona uses
+  base_assistant_type TEXT NOT NULL DEFAULT 'general'
+    CHECK (base_assistant_type IN ('general', 'analyst', 'trader', 'advisor', 'riskManager', 'economist')),
+  instructions TEXT NOT NULL, -- Prompt template
+  variables JSONB NOT NULL DEFAULT '{}', -- Default template variables
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX idx_prompt_templates_name_version ON prompt_templates(name, version DESC);
+CREATE INDEX idx_user_personas_user_id ON user_personas(user_id);
+
+CREATE TRIGGER update_prompt_template_active_updated_at BEFORE UPDATE ON prompt_template_active
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_user_personas_updated_at BEFORE UPDATE ON user_personas
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (templates are managed by the backend only)
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_template_active ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_personas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own personas"
+  ON user_personas FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own personas"
+  ON user_personas FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own personas"
+  ON user_personas FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own personas"
+  ON user_personas FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,40 @@
+-- Long-term user memory: similarity search over agent_memory embeddings
+
+-- Vectors are only comparable within one embedding model (e.g. text-embedding-3-small, local-hash-1536)
+ALTER TABLE agent_memory ADD COLUMN embedding_model TEXT;
+
+CREATE INDEX idx_agent_memory_embedding ON agent_memory
+  USING hnsw (embedding vector_cosine_ops);
+
+-- Most similar memories of one user, for recall into agent prompts
+CREATE OR REPLACE FUNCTION match_agent_memory(
+  p_user_id UUID,
+  p_embedding VECTOR(1536),
+  p_embedding_model TEXT,
+  p_match_count INTEGER DEFAULT 6,
+  p_min_similarity FLOAT DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  category TEXT,
+  key TEXT,
+  value JSONB,
+  embedding_model TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    m.id, m.user_id, m.category, m.key, m.value, m.embedding_model, m.created_at, m.updated_at,
+    1 - (m.embedding <=> p_embedding) AS similarity
+  FROM agent_memory m
+  WHERE m.user_id = p_user_id
+    AND m.embedding IS NOT NULL
+    AND m.embedding_model = p_embedding_model
+    AND 1 - (m.embedding <=> p_embedding) >= p_min_similarity
+  ORDER BY m.embedding <=> p_embedding
+  LIMIT p_match_count;
+$$;
@@ -0,0 +1,30 @@
+-- Workflow steps as a dependency graph: one agent_executions row per step,
+-- agent_dependencies rows for the edges
+
+ALTER TABLE agent_executions
+  ADD COLUMN workflow_id TEXT, -- workflow run, e.g. marketDebate-<traceId>
+  ADD COLUMN step_id TEXT, -- step id from the workflow definition; 'summary' joins the sinks
+  ADD COLUMN step_index INTEGER,
+  ADD COLUMN task TEXT,
+  ADD COLUMN started_at TIMESTAMPTZ;
+
+-- Steps are claimed by flipping pending -> running on this row, so every step starts once
+CREATE UNIQUE INDEX idx_agent_executions_workflow_step ON agent_executions(workflow_id, step_id)
+  WHERE workflow_id IS NOT NULL;
+
+ALTER TABLE agent_dependencies
+  ADD CONSTRAINT agent_dependencies_unique UNIQUE (execution_id, depends_on_execution_id);
+
+CREATE INDEX idx_agent_dependencies_execution_id ON agent_dependencies(execution_id);
+CREATE INDEX idx_agent_dependencies_depends_on ON agent_dependencies(depends_on_execution_id);
+
+ALTER TABLE agent_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own agent dependencies" ON agent_dependencies
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM agent_executions
+      WHERE agent_executions.id = agent_dependencies.execution_id
+      AND agent_executions.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,5 @@
+-- Cancelled workflow runs leave their unfinished steps cancelled
+
+ALTER TABLE agent_executions DROP CONSTRAINT agent_executions_status_check;
+ALTER TABLE agent_executions ADD CONSTRAINT agent_executions_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled'));
@@ -0,0 +1,38 @@
+-- Durable workflow runs: survive backend restarts and back the per-user run history
+
+CREATE TABLE workflow_runs (
+  id TEXT PRIMARY KEY, -- e.g. marketDebate-<traceId>
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  workflow_key TEXT NOT NULL, -- definition id, or 'adhoc' for agent lists picked by chat
+  definition_version INTEGER,
+  name TEXT,
+  status TEXT NOT NULL DEFAULT 'started'
+    CHECK (status IN ('started', 'running', 'paused', 'cancelled', 'failed', 'completed')),
+  query TEXT NOT NULL,
+  -- The run as first stored in Motia state; recovery rebuilds state from it
+  record JSONB NOT NULL,
+  summary TEXT,
+  error_message TEXT,
+  recovery_attempts INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_workflow_runs_user_started ON workflow_runs(user_id, started_at DESC);
+CREATE INDEX idx_workflow_runs_active ON workflow_runs(status) WHERE status IN ('started', 'running');
+
+CREATE TRIGGER update_workflow_runs_updated_at BEFORE UPDATE ON workflow_runs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Step executions belong to a run
+ALTER TABLE agent_executions
+  ADD CONSTRAINT agent_executions_workflow_run_fkey
+  FOREIGN KEY (workflow_id) REFERENCES workflow_runs(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_agent_executions_workflow_id ON agent_executions(workflow_id);
+
+ALTER TABLE workflow_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own workflow runs" ON workflow_runs
+  FOR SELECT USING (auth.uid() = user_id);
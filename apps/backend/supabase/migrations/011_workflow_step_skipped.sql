@@ -0,0 +1,5 @@
+-- Steps whose retries and fallback failed may be skipped instead of failing the run
+
+ALTER TABLE agent_executions DROP CONSTRAINT agent_executions_status_check;
+ALTER TABLE agent_executions ADD CONSTRAINT agent_executions_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'skipped', 'failed', 'cancelled'));
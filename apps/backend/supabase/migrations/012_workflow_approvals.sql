@@ -0,0 +1,35 @@
+-- Approval steps: the user approves, edits or rejects what earlier steps propose.
+-- Rows are the audit trail of every request and decision.
+
+ALTER TABLE workflow_runs DROP CONSTRAINT workflow_runs_status_check;
+ALTER TABLE workflow_runs ADD CONSTRAINT workflow_runs_status_check
+  CHECK (status IN ('started', 'running', 'paused', 'awaiting_approval', 'cancelled', 'failed', 'completed'));
+
+CREATE TABLE workflow_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workflow_id TEXT NOT NULL REFERENCES workflow_runs(id) ON DELETE CASCADE,
+  step_id TEXT NOT NULL,
+  step_index INTEGER NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  -- Results of the steps being approved, as shown to the user
+  proposal JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'expired')),
+  decision TEXT CHECK (decision IN ('approve', 'reject', 'edit', 'timeout')),
+  changes TEXT, -- the user's edits for 'edit' decisions
+  comment TEXT,
+  decided_by TEXT, -- 'user', or 'system' for timeouts
+  requested_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  decided_at TIMESTAMPTZ,
+  UNIQUE (workflow_id, step_id)
+);
+
+CREATE INDEX idx_workflow_approvals_pending ON workflow_approvals(expires_at) WHERE status = 'pending';
+CREATE INDEX idx_workflow_approvals_user ON workflow_approvals(user_id, requested_at DESC);
+
+ALTER TABLE workflow_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own workflow approvals" ON workflow_approvals
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,31 @@
+-- Recurring workflow runs users schedule with cron expressions in their timezone
+
+CREATE TABLE workflow_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  workflow_key TEXT NOT NULL, -- definition id in workflows/*.json
+  name TEXT,
+  cron TEXT NOT NULL, -- e.g. '0 7 * * MON'
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA name, e.g. 'America/New_York'
+  message TEXT NOT NULL, -- the request each run starts with
+  context JSONB,
+  email TEXT, -- where finished reports are sent; none means no notification
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMPTZ, -- null once the expression never fires again
+  last_run_at TIMESTAMPTZ,
+  last_workflow_run_id TEXT REFERENCES workflow_runs(id) ON DELETE SET NULL,
+  last_status TEXT CHECK (last_status IN ('started', 'completed', 'failed', 'cancelled', 'skipped')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_workflow_schedules_due ON workflow_schedules(next_run_at) WHERE enabled;
+CREATE INDEX idx_workflow_schedules_user ON workflow_schedules(user_id, created_at);
+
+CREATE TRIGGER update_workflow_schedules_updated_at BEFORE UPDATE ON workflow_schedules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE workflow_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own workflow schedules" ON workflow_schedules
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,28 @@
+-- Intent router decisions: what each chat message was routed to and why.
+-- Labels record the correct intent so the router can be evaluated offline.
+
+CREATE TABLE intent_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  trace_id TEXT,
+  message TEXT NOT NULL, -- PII replaced with placeholders
+  route TEXT NOT NULL CHECK (route IN ('workflow', 'chat')),
+  intent TEXT NOT NULL, -- 'workflow:<definition id>' or 'chat:<assistant type>'
+  confidence REAL NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('embedding', 'llm', 'explicit', 'default')),
+  -- Top ranked intents with their scores and closest examples
+  intents JSONB NOT NULL,
+  embedding_model TEXT,
+  label TEXT, -- the correct intent, same format as intent
+  label_source TEXT,
+  labeled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_intent_decisions_created ON intent_decisions(created_at DESC);
+CREATE INDEX idx_intent_decisions_labeled ON intent_decisions(labeled_at) WHERE label IS NOT NULL;
+
+ALTER TABLE intent_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own intent decisions" ON intent_decisions
+  FOR SELECT USING (auth.uid() = user_id);
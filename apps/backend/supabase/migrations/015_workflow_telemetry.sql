@@ -0,0 +1,55 @@
+-- Workflow step telemetry: latency, tokens, cost and provider of every finished step.
+-- Percentiles over recent runs back the duration and cost estimates shown before a run starts.
+
+CREATE TABLE workflow_step_telemetry (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workflow_id TEXT NOT NULL, -- workflow run, e.g. marketDebate-<traceId>
+  workflow_key TEXT NOT NULL, -- definition id, or 'adhoc' for agent lists picked by chat
+  step_id TEXT NOT NULL, -- 'summary' for the executive summary
+  agent TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'skipped', 'failed')),
+  duration_ms INTEGER NOT NULL,
+  llm_calls INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  -- Provider and model of the step's last LLM call (fallbacks and downgrades change them)
+  provider TEXT,
+  model TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_workflow_step_telemetry_key_created ON workflow_step_telemetry(workflow_key, created_at DESC);
+CREATE INDEX idx_workflow_step_telemetry_agent_created ON workflow_step_telemetry(agent, created_at DESC);
+
+-- Percentiles of completed steps since a point in time: per step of one definition,
+-- or per agent across every definition when p_workflow_key is NULL
+CREATE OR REPLACE FUNCTION get_workflow_step_stats(p_workflow_key TEXT, p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  step_id TEXT,
+  agent TEXT,
+  samples BIGINT,
+  duration_p50_ms DOUBLE PRECISION,
+  duration_p90_ms DOUBLE PRECISION,
+  cost_p50_usd DOUBLE PRECISION,
+  cost_p90_usd DOUBLE PRECISION,
+  tokens_p50 DOUBLE PRECISION
+) AS $$
+  SELECT
+    CASE WHEN p_workflow_key IS NULL THEN NULL ELSE t.step_id END,
+    t.agent,
+    COUNT(*),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY t.duration_ms),
+    percentile_cont(0.9) WITHIN GROUP (ORDER BY t.duration_ms),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY t.cost_usd),
+    percentile_cont(0.9) WITHIN GROUP (ORDER BY t.cost_usd),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY t.prompt_tokens + t.completion_tokens)
+  FROM workflow_step_telemetry t
+  WHERE t.status = 'completed'
+    AND t.created_at >= p_since
+    AND (p_workflow_key IS NULL OR t.workflow_key = p_workflow_key)
+  GROUP BY 1, 2;
+$$ LANGUAGE sql STABLE;
+
+-- Aggregates only; the backend reads and writes with the service key
+ALTER TABLE workflow_step_telemetry ENABLE ROW LEVEL SECURITY;
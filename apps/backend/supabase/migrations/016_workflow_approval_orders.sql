@@ -0,0 +1,4 @@
+-- Orders an approval covers: proposed by the steps before it, then the ones the user approved
+-- (their edited list for 'edit' decisions). Steps after the approval place exactly these.
+
+ALTER TABLE workflow_approvals ADD COLUMN orders JSONB;
@@ -0,0 +1,51 @@
+import { AgentProgressReporter, PartialJsonText, type AgentProgressEvent } from '../services/agent-progress'
+
+describe('PartialJsonText', () => {
+  it('should show string values and report finished top-level sections', () => {
+    const stream = new PartialJsonText()
+
+    expect(stream.push('{"summary": "Rates are hi')).toEqual([])
+    expect(stream.text).toBe('Rates are hi')
+    expect(stream.currentSection).toBe('summary')
+
+    expect(stream.push('gh\\nfor now", "risks": [{"name": "Duration", "level": 3}')).toEqual(['summary'])
+    expect(stream.push(']}')).toEqual(['risks'])
+    expect(stream.text).toBe('Rates are high\nfor now\nDuration')
+  })
+
+  it('should pass prose through when the model ignores JSON mode', () => {
+    const stream = new PartialJsonText()
+    stream.push('  Markets look ')
+    stream.push('calm.')
+    expect(stream.text).toBe('Markets look calm.')
+  })
+})
+
+describe('AgentProgressReporter', () => {
+  it('should throttle streamed text and ignore attempts that were replaced', async () => {
+    const events: AgentProgressEvent[] = []
+    let now = 0
+    const reporter = new AgentProgressReporter(async event => { events.push(event) }, {
+      sections: ['summary', 'risks'],
+      flushIntervalMs: 100,
+      now: () => now,
+    })
+
+    const stale = reporter.startAttempt()
+    const { onToken } = reporter.startAttempt()
+    await stale.onToken('{"summary": "old')
+
+    now = 100
+    await onToken('{"summary": "Calm')
+    now = 150
+    await onToken(' markets",')
+    await reporter.flush()
+
+    expect(events.map(({ kind, progress }) => [kind, progress])).toEqual([
+      ['tokens', 5],
+      ['tokens', 50],
+      ['section', 50],
+    ])
+    expect(events[1].data).toMatchObject({ text: 'Calm markets', tokens: 2 })
+  })
+})
@@ -0,0 +1,164 @@
+import { AgentRunner, describeToolCall } from '../services/agent-runner.service'
+import { responseCache } from '../services/response-cache.service'
+import type { LLMResponse } from '../services/llm-providers'
+
+// Keep the provider registry (and its SDK clients) out of these tests
+jest.mock('../services/llm-service', () => ({ llmService: { complete: jest.fn() } }))
+jest.mock('../services/cache.service', () => ({ cacheService: {} }))
+jest.mock('../services/response-cache.service', () => ({
+  responseCache: { lookup: jest.fn(async () => null), store: jest.fn(async () => true) },
+}))
+
+// Stand-in agent; the real ones need a Mastra model to construct
+jest.mock('../src/mastra/agents', () => {
+  const { z } = jest.requireActual('zod')
+  const tools = {
+    'risk-assessment': {
+      id: 'risk-assessment',
+      description: 'Assess portfolio risk',
+      inputSchema: z.object({ portfolioId: z.string() }),
+      execute: async () => ({ var: 0 }),
+    },
+    'plaid-integration': {
+      id: 'plaid-integration',
+      description: 'Access bank accounts',
+      inputSchema: z.object({ action: z.enum(['getAccounts', 'exchangeToken']), userId: z.string() }),
+      execute: async ({ context }: any) => ({ userId: context.userId }),
+    },
+    'alpaca-trading': {
+      id: 'alpaca-trading',
+      description: 'Execute trades via Alpaca',
+      inputSchema: z.object({ action: z.enum(['buy', 'sell']), symbol: z.string() }),
+      execute: async () => ({ success: true }),
+    },
+  }
+  return {
+    selectAgent: () => ({
+      name: 'Risk Manager',
+      getInstructions: async () => 'You are a risk manager.',
+      getTools: async () => tools,
+    }),
+  }
+})
+
+const reply = (overrides: Partial<LLMResponse>): LLMResponse => ({
+  content: '',
+  provider: 'openai',
+  model: 'gpt-4',
+  usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+  costUsd: 0.001,
+  ...overrides,
+})
+
+describe('AgentRunner', () => {
+  const runner = new AgentRunner()
+
+  it('should hide injected arguments from tool definitions', async () => {
+    const definitions = runner.getToolDefinitions(await runner.getTools('riskManager'))
+    const plaid = definitions.find(definition => definition.name === 'plaid-integration')!
+
+    expect(plaid.parameters.properties).not.toHaveProperty('userId')
+    expect(plaid.parameters.required).not.toContain('userId')
+  })
+
+  it('should offer only read-only tools and actions unless all tools are allowed', async () => {
+    const readOnly = runner.getToolDefinitions(await runner.getTools('riskManager'))
+    expect(readOnly.map(definition => definition.name)).toEqual(['risk-assessment', 'plaid-integration'])
+    expect((readOnly[1].parameters.properties as any).action.enum).toEqual(['getAccounts', 'getTransactions', 'getHoldings'])
+
+    const all = await runner.getTools('riskManager', 'all')
+    expect(Object.keys(all)).toContain('alpaca-trading')
+  })
+
+  it('should execute requested tools and feed the results back', async () => {
+    const complete = jest.fn()
+      .mockResolvedValueOnce(reply({
+        toolCalls: [{ id: 'call-1', name: 'risk-assessment', arguments: '{"portfolioId":"p1"}' }],
+      }))
+      .mockResolvedValueOnce(reply({ content: 'Your portfolio risk is low.' }))
+    const events: string[] = []
+
+    const result = await runner.run('riskManager', {
+      llm: { complete } as any,
+      messages: [{ role: 'user', content: 'How risky is p1?' }],
+      onToolEvent: event => { events.push(`${event.type}:${event.summary}`) },
+    })
+
+    expect(result.content).toBe('Your portfolio risk is low.')
+    expect(result.iterations).toBe(2)
+    expect(result.tokensUsed).toBe(30)
+    expect(events).toEqual(['tool_call:Running risk assessment for p1', 'tool_result:Ran risk assessment for p1'])
+
+    const followUp = complete.mock.calls[1][0].messages
+    expect(followUp[followUp.length - 1]).toMatchObject({ role: 'tool', toolCallId: 'call-1' })
+  })
+
+  it('should report invalid arguments to the model instead of throwing', async () => {
+    const complete = jest.fn()
+      .mockResolvedValueOnce(reply({
+        toolCalls: [{ id: 'call-1', name: 'risk-assessment', arguments: '{}' }],
+      }))
+      .mockResolvedValueOnce(reply({ content: 'Which portfolio?' }))
+
+    const result = await runner.run('riskManager', {
+      llm: { complete } as any,
+      messages: [{ role: 'user', content: 'How risky am I?' }],
+    })
+
+    expect(result.toolResults[0].error).toMatch(/Invalid arguments: portfolioId/)
+  })
+
+  it('should inject the caller\'s userId over model-supplied values', async () => {
+    const complete = jest.fn()
+      .mockResolvedValueOnce(reply({
+        toolCalls: [{ id: 'call-1', name: 'plaid-integration', arguments: '{"action":"getAccounts","userId":"someone-else"}' }],
+      }))
+      .mockResolvedValueOnce(reply({ content: 'Here are your accounts.' }))
+
+    const result = await runner.run('riskManager', {
+      llm: { complete } as any,
+      messages: [{ role: 'user', content: 'Show my accounts' }],
+      metering: { userId: 'user-1' },
+    })
+
+    expect(result.toolResults[0].result).toEqual({ userId: 'user-1' })
+  })
+
+  it('should stop offering tools after the iteration cap', async () => {
+    const complete = jest.fn().mockResolvedValue(reply({
+      content: 'Done',
+      toolCalls: [{ id: 'call-1', name: 'risk-assessment', arguments: '{"portfolioId":"p1"}' }],
+    }))
+
+    const result = await runner.run('riskManager', {
+      llm: { complete } as any,
+      messages: [{ role: 'user', content: 'Loop forever' }],
+      maxIterations: 2,
+    })
+
+    expect(complete).toHaveBeenCalledTimes(3)
+    expect(complete.mock.calls[2][0].tools).toBeUndefined()
+    expect(result.hitIterationLimit).toBe(true)
+  })
+
+  it('should store cached answers under the looked-up model and skip fallback answers', async () => {
+    const store = responseCache.store as jest.Mock
+    const llm = (provider: string) => ({
+      getProviderChain: () => [{ name: 'groq', defaultModel: 'llama-3.3-70b-versatile' }],
+      complete: jest.fn().mockResolvedValue(reply({ content: 'An ETF is a fund.', provider, model: 'versioned-model' })),
+    })
+    const options = { messages: [{ role: 'user' as const, content: 'What is an ETF?' }], cacheable: true }
+
+    await runner.run('riskManager', { ...options, llm: llm('groq') as any })
+    expect((responseCache.lookup as jest.Mock).mock.calls[0][0].model).toBe('llama-3.3-70b-versatile')
+    expect(store.mock.calls[0][0].model).toBe('llama-3.3-70b-versatile')
+
+    store.mockClear()
+    await runner.run('riskManager', { ...options, llm: llm('openai') as any })
+    expect(store).not.toHaveBeenCalled()
+  })
+
+  it('should describe market data calls by symbol', () => {
+    expect(describeToolCall('market-data', { symbol: 'aapl', dataType: 'quote' }, true)).toBe('Fetched AAPL quote')
+  })
+})
@@ -0,0 +1,98 @@
+import { CircuitBreaker } from '../services/circuit-breaker'
+
+describe('CircuitBreaker', () => {
+  let now: number
+  let breaker: CircuitBreaker
+
+  beforeEach(() => {
+    now = 1_000_000
+    breaker = new CircuitBreaker('groq', {
+      windowMs: 60_000,
+      minRequests: 4,
+      errorRateThreshold: 0.5,
+      latencyThresholdMs: 10_000,
+      openDurationMs: 30_000,
+      halfOpenMaxProbes: 1,
+    }, () => now)
+  })
+
+  it('should stay closed below the minimum sample size', () => {
+    breaker.recordFailure(100, new Error('boom'))
+    breaker.recordFailure(100, new Error('boom'))
+
+    expect(breaker.getState()).toBe('closed')
+    expect(breaker.isAvailable()).toBe(true)
+  })
+
+  it('should open once the error rate crosses the threshold', () => {
+    breaker.recordSuccess(100)
+    breaker.recordSuccess(100)
+    breaker.recordFailure(100, new Error('503 Service Unavailable'))
+    breaker.recordFailure(100, new Error('503 Service Unavailable'))
+
+    expect(breaker.getState()).toBe('open')
+    expect(breaker.isAvailable()).toBe(false)
+    expect(breaker.getHealthScore()).toBe(0)
+    expect(breaker.getSnapshot().lastError).toBe('503 Service Unavailable')
+  })
+
+  it('should open when calls succeed but are too slow', () => {
+    for (let i = 0; i < 4; i++) {
+      breaker.recordSuccess(12_000)
+    }
+
+    expect(breaker.getState()).toBe('open')
+  })
+
+  it('should forget samples that fall out of the rolling window', () => {
+    breaker.recordFailure(100)
+    breaker.recordFailure(100)
+    breaker.recordFailure(100)
+    now += 61_000
+    breaker.recordFailure(100)
+
+    expect(breaker.getState()).toBe('closed')
+    expect(breaker.getSnapshot().requests).toBe(1)
+  })
+
+  describe('half-open probing', () => {
+    beforeEach(() => {
+      for (let i = 0; i < 4; i++) {
+        breaker.recordFailure(100)
+      }
+      now += 30_000
+    })
+
+    it('should allow a single probe after the open duration', () => {
+      expect(breaker.getState()).toBe('half-open')
+      expect(breaker.tryAcquire()).toBe(true)
+      expect(breaker.tryAcquire()).toBe(false)
+    })
+
+    it('should close after a successful probe', () => {
+      breaker.tryAcquire()
+      breaker.recordSuccess(200)
+
+      expect(breaker.getState()).toBe('closed')
+      expect(breaker.getHealthScore()).toBeGreaterThan(0.9)
+    })
+
+    it('should re-open after a failed probe', () => {
+      breaker.tryAcquire()
+      breaker.recordFailure(200, new Error('still down'))
+
+      expect(breaker.getState()).toBe('open')
+      expect(breaker.getSnapshot().nextProbeAt).toBe(new Date(now + 30_000).toISOString())
+    })
+  })
+
+  it('should score degraded providers between 0 and 1', () => {
+    breaker.recordSuccess(5_000)
+    breaker.recordSuccess(5_000)
+    breaker.recordFailure(5_000)
+
+    const score = breaker.getHealthScore()
+    expect(score).toBeGreaterThan(0)
+    expect(score).toBeLessThan(1)
+  })
+})
@@ -0,0 +1,79 @@
+import { ConversationContextService } from '../services/conversation-context.service'
+
+// Keep the provider registry (and its SDK clients) out of these pure sizing tests
+jest.mock('../services/llm-service', () => ({ llmService: { complete: jest.fn() } }))
+
+// chat_sessions lookups resolve to `mockSession`; every other table is empty
+let mockSession: { id: string } | null = null
+const mockTables: string[] = []
+jest.mock('../services/supabase-admin', () => ({
+  getSupabaseAdmin: () => ({
+    from: (table: string) => {
+      mockTables.push(table)
+      const query: any = {
+        select: () => query,
+        eq: () => query,
+        in: () => query,
+        gt: () => query,
+        order: () => query,
+        limit: () => query,
+        maybeSingle: async () => ({ data: table === 'chat_sessions' ? mockSession : null, error: null }),
+        then: (resolve: (value: unknown) => void) => resolve({ data: [], error: null }),
+      }
+      return query
+    },
+  }),
+}))
+
+const turn = (role: 'user' | 'assistant', tokens: number) => ({ role, content: 'x'.repeat(tokens * 4) })
+
+describe('ConversationContextService', () => {
+  const service = new ConversationContextService()
+
+  it('should keep the whole history when it fits', () => {
+    const history = [turn('user', 100), turn('assistant', 200)]
+
+    const { keep, overflow } = service.fitHistory(history, 1000)
+    expect(keep).toEqual(history)
+    expect(overflow).toEqual([])
+  })
+
+  it('should fold the oldest turns into the summary on overflow', () => {
+    const history = [
+      turn('user', 300), turn('assistant', 300),
+      turn('user', 300), turn('assistant', 300),
+      turn('user', 100), turn('assistant', 100),
+    ]
+
+    const { keep, overflow } = service.fitHistory(history, 1000)
+    expect(overflow).toHaveLength(4)
+    expect(keep).toEqual(history.slice(4))
+  })
+
+  it('should not start the kept history with an assistant reply', () => {
+    const history = [turn('user', 500), turn('assistant', 100), turn('user', 100), turn('assistant', 100)]
+
+    const { keep } = service.fitHistory(history, 500)
+    expect(keep[0].role).toBe('user')
+  })
+
+  it('should size the history budget from the model window', () => {
+    expect(service.getHistoryBudget('gpt-4', 2000, 1500)).toBe(4692)
+    expect(service.getHistoryBudget('llama-3.3-70b-versatile', 2000, 1500)).toBe(6000)
+    expect(service.getHistoryBudget('gpt-4', 8000, 1500)).toBe(0)
+  })
+
+  it('should not load the history of a session the user does not own', async () => {
+    mockSession = null
+    mockTables.length = 0
+    const options = { userId: 'user-1', sessionId: 'session-1', systemPrompt: 'You help.', message: 'Hi', maxTokens: 500 }
+
+    await expect(service.buildContext(options)).rejects.toMatchObject({ code: 'RESOURCE_NOT_FOUND' })
+    expect(mockTables).toEqual(['chat_sessions'])
+
+    mockSession = { id: 'session-1' }
+    const context = await service.buildContext(options)
+    expect(context.messages).toHaveLength(2)
+    expect(mockTables).toContain('chat_messages')
+  })
+})
@@ -0,0 +1,57 @@
+import { getNextRun, getNextRuns, isValidTimeZone, parseCron } from '../services/cron-schedule'
+
+const runs = (expression: string, timeZone: string, after: string, count = 2) =>
+  getNextRuns(expression, timeZone, new Date(after), count).map(run => run.toISOString())
+
+describe('cron schedules', () => {
+  it('should parse lists, ranges, steps, names and shorthands', () => {
+    expect(parseCron('*/20 9-17/4 1,15 JAN-MAR mon-fri')).toMatchObject({
+      minutes: [0, 20, 40],
+      hours: [9, 13, 17],
+      daysOfMonth: [1, 15],
+      months: [1, 2, 3],
+      daysOfWeek: [1, 2, 3, 4, 5],
+    })
+    expect(parseCron('@weekly')).toMatchObject({ minutes: [0], hours: [0], daysOfWeek: [0] })
+    expect(parseCron('0 0 * * 7').daysOfWeek).toEqual([0])
+  })
+
+  it('should report the invalid field', () => {
+    expect(() => parseCron('61 * * * *')).toThrow('Invalid minute "61": 61 is outside 0-59')
+    expect(() => parseCron('0 7 * * FOO')).toThrow('Invalid day of week "FOO": "FOO" is not a number or name')
+    expect(() => parseCron('0 7 * *')).toThrow('Cron expressions have 5 fields')
+  })
+
+  it('should fire at wall clock times in the timezone across daylight saving changes', () => {
+    // Monday 7am New York, before and after clocks go back on November 1
+    expect(runs('0 7 * * MON', 'America/New_York', '2026-10-19T12:00:00Z')).toEqual([
+      '2026-10-26T11:00:00.000Z',
+      '2026-11-02T12:00:00.000Z',
+    ])
+    expect(runs('0 7 * * MON', 'Asia/Tokyo', '2026-10-19T12:00:00Z', 1)).toEqual(['2026-10-25T22:00:00.000Z'])
+  })
+
+  it('should run skipped times after the gap and repeated times once', () => {
+    // 2:30 does not exist on March 8 in New York
+    expect(runs('30 2 * * *', 'America/New_York', '2026-03-07T12:00:00Z')).toEqual([
+      '2026-03-08T07:30:00.000Z',
+      '2026-03-09T06:30:00.000Z',
+    ])
+    // 1:30 happens twice on November 1
+    expect(runs('30 1 * * *', 'America/New_York', '2026-10-31T12:00:00Z')).toEqual([
+      '2026-11-01T05:30:00.000Z',
+      '2026-11-02T06:30:00.000Z',
+    ])
+  })
+
+  it('should match either day field when both are restricted, and never match impossible dates', () => {
+    expect(runs('0 9 13 * FRI', 'UTC', '2026-10-01T00:00:00Z', 3)).toEqual([
+      '2026-10-02T09:00:00.000Z',
+      '2026-10-09T09:00:00.000Z',
+      '2026-10-13T09:00:00.000Z',
+    ])
+    expect(getNextRun('0 0 30 2 *', 'UTC', new Date('2026-01-01T00:00:00Z'))).toBeUndefined()
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false)
+  })
+})
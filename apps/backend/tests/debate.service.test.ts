@@ -0,0 +1,118 @@
+import { checkConvergence, DebateService, type DebateTurn } from '../services/debate.service'
+import { agentRunner } from '../services/agent-runner.service'
+import { llmService } from '../services/llm-service'
+import { getStepPolicy } from '../services/workflow-step-runner'
+
+jest.mock('../services/supabase-admin', () => ({ getSupabaseAdmin: () => null }))
+jest.mock('../services/llm-service', () => ({ llmService: { complete: jest.fn() } }))
+jest.mock('../services/agent-runner.service', () => ({
+  agentRunner: {
+    getInstructions: async (agentId: string) => `You are the ${agentId}.`,
+    run: jest.fn(),
+  },
+}))
+// The real agents need a Mastra model to construct
+jest.mock('../src/mastra/agents', () => ({ selectDebateParticipants: jest.fn() }))
+
+const turn = (participant: string, stance: DebateTurn['stance'], confidence: number): DebateTurn => ({
+  round: 1,
+  participant,
+  stance,
+  confidence,
+  argument: `${participant} is ${stance}`,
+  keyPoints: [],
+  rebuttals: [],
+})
+
+const argument = (stance: string, confidence: number, rebuttals: Array<{ participant: string; point: string }> = []) => ({
+  content: JSON.stringify({ stance, confidence, argument: `Argument for ${stance}`, keyPoints: ['Earnings are strong'], rebuttals }),
+  provider: 'openai',
+  model: 'gpt-4',
+})
+
+const verdict = {
+  summary: 'The bull case had better evidence.',
+  metrics: [],
+  recommendations: [],
+  risks: [],
+  verdict: 'bull',
+  confidence: 0.65,
+  scores: [
+    { participant: 'economist', score: 8, strongestPoint: 'Disinflation' },
+    { participant: 'trader', score: 6, strongestPoint: 'Breadth is weak' },
+  ],
+}
+
+describe('debate convergence', () => {
+  it('should never converge after the first round', () => {
+    expect(checkConvergence(undefined, [turn('economist', 'bull', 0.7), turn('trader', 'bull', 0.7)])).toBeUndefined()
+  })
+
+  it('should converge on consensus or once nobody moves', () => {
+    const previous = [turn('economist', 'bull', 0.7), turn('trader', 'bear', 0.6)]
+
+    expect(checkConvergence(previous, [turn('economist', 'bull', 0.8), turn('trader', 'bull', 0.5)])).toBe('consensus')
+    expect(checkConvergence(previous, [turn('economist', 'bull', 0.75), turn('trader', 'bear', 0.6)], 0.1)).toBe('stable')
+    expect(checkConvergence(previous, [turn('economist', 'bull', 0.9), turn('trader', 'bear', 0.6)], 0.1)).toBeUndefined()
+    expect(checkConvergence(previous, [turn('economist', 'neutral', 0.7), turn('trader', 'bear', 0.6)], 0.1)).toBeUndefined()
+  })
+})
+
+describe('DebateService', () => {
+  const run = agentRunner.run as jest.Mock
+  const complete = llmService.complete as jest.Mock
+
+  beforeEach(() => {
+    run.mockReset()
+    complete.mockReset()
+  })
+
+  it('should run rounds with rebuttals until the debate converges, then ask the judge', async () => {
+    const replies: Record<string, ReturnType<typeof argument>[]> = {
+      economist: [argument('bull', 0.7), argument('bull', 0.75, [{ participant: 'trader', point: 'Breadth lags in every early cycle' }])],
+      trader: [argument('bear', 0.6), argument('bear', 0.6, [{ participant: 'economist', point: 'Disinflation is priced in' }])],
+    }
+    run.mockImplementation(async (agentId: string) => replies[agentId].shift())
+    complete.mockResolvedValue({ content: JSON.stringify(verdict), provider: 'openai', model: 'gpt-4' })
+    const onTurn = jest.fn()
+    const onRound = jest.fn()
+
+    const result = await new DebateService().run({
+      question: 'Where is the market heading?',
+      participants: ['economist', 'trader'],
+      rounds: 4,
+      metering: { userId: 'user-1', feature: 'agent' },
+      policy: getStepPolicy({ maxRetries: 0 }),
+      hooks: { onTurn, onRound },
+    })
+
+    expect(result.convergence).toBe('stable')
+    expect(result.rounds.map(round => round.turns.map(({ participant, stance }) => `${participant}:${stance}`))).toEqual([
+      ['economist:bull', 'trader:bear'],
+      ['economist:bull', 'trader:bear'],
+    ])
+    expect(result.rounds[1].turns[0].rebuttals).toEqual([{ participant: 'trader', point: 'Breadth lags in every early cycle' }])
+    expect(result.verdict).toMatchObject({ verdict: 'bull', confidence: 0.65 })
+    expect(onTurn).toHaveBeenCalledTimes(4)
+    expect(onRound).toHaveBeenLastCalledWith(expect.objectContaining({ round: 2 }), 'stable')
+
+    // The second round sees the first; the judge sees both
+    expect(run.mock.calls[2][1].messages[0].content).toContain('**trader** (bear, 60% confident): Argument for bear')
+    expect(complete.mock.calls[0][0].messages[0].content).toContain('### Round 2')
+  })
+
+  it('should end the debate when failed turns leave too few participants', async () => {
+    run.mockImplementation(async (agentId: string) => {
+      if (agentId === 'trader') throw new Error('Provider unavailable')
+      return argument('neutral', 0.5)
+    })
+
+    await expect(new DebateService().run({
+      question: 'Where is the market heading?',
+      participants: ['economist', 'trader'],
+      metering: { userId: 'user-1', feature: 'agent' },
+      policy: getStepPolicy({ maxRetries: 0 }),
+    })).rejects.toThrow('Debate ended in round 1 with too few participants: trader (Failed after 1 attempt: Provider unavailable)')
+    expect(complete).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,107 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { EmbeddingService } from '../services/embedding.service'
+import { IntentRouterService } from '../services/intent-router.service'
+import { structuredOutputService } from '../services/structured-output.service'
+import { WorkflowRegistry } from '../services/workflow-registry.service'
+
+jest.mock('../services/supabase-admin', () => ({ getSupabaseAdmin: () => null }))
+jest.mock('../services/structured-output.service', () => ({ structuredOutputService: { generate: jest.fn() } }))
+
+const definition = (id: string, triggers: string[]) => ({
+  id,
+  version: 1,
+  name: id,
+  description: `${id} workflow`,
+  triggers,
+  steps: [{ id: 'review', agent: 'analyst', task: 'Review' }],
+})
+
+describe('IntentRouterService', () => {
+  const generate = structuredOutputService.generate as jest.Mock
+  let directory: string
+  let router: IntentRouterService
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'intents-'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    generate.mockReset()
+
+    const write = (file: string, content: unknown) => fs.writeFileSync(path.join(directory, file), JSON.stringify(content))
+    write('portfolio-analysis.json', definition('portfolioAnalysis', ['analyze my portfolio', 'portfolio health check']))
+    write('market-debate.json', definition('marketDebate', ['market debate', 'bull vs bear']))
+    router = new IntentRouterService(new WorkflowRegistry(directory, false))
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+    jest.restoreAllMocks()
+  })
+
+  it('should start the closest workflow and rank every intent', async () => {
+    const decision = await router.route('Can you ANALYZE MY PORTFOLIO please?')
+
+    expect(decision).toMatchObject({ route: 'workflow', workflowId: 'portfolioAnalysis', method: 'embedding' })
+    expect(decision.confidence).toBeCloseTo(1)
+    expect(decision.intents[0]).toMatchObject({ id: 'workflow:portfolioAnalysis', example: 'analyze my portfolio' })
+    expect(decision.intents.map(intent => intent.id)).toEqual(expect.arrayContaining(['workflow:marketDebate', 'chat:economist']))
+    expect(generate).not.toHaveBeenCalled()
+  })
+
+  it('should answer other messages in chat with the closest assistant', async () => {
+    expect(await router.route('What is a bond?')).toMatchObject({ route: 'chat', assistantType: 'general' })
+    expect(await router.route('Will the Fed cut interest rates next month?')).toMatchObject({ route: 'chat', assistantType: 'economist' })
+    // Mentions of a trigger word alone are not enough
+    expect(await router.route('Tell me about the history of portfolio theory')).toMatchObject({ route: 'chat' })
+  })
+
+  it('should start the default workflow for generic workflow requests', async () => {
+    expect(await router.route('Run a multi-agent review')).toMatchObject({
+      route: 'workflow',
+      workflowId: 'portfolioAnalysis',
+      method: 'default',
+    })
+  })
+
+  it('should let the model break ties between a workflow and chat', async () => {
+    fs.writeFileSync(path.join(directory, 'rates.json'), JSON.stringify(definition('ratesOutlook', ['will the fed cut interest rates'])))
+    router = new IntentRouterService(new WorkflowRegistry(directory, false))
+    generate.mockResolvedValueOnce({ data: { intent: 'chat:economist', confidence: 0.8 } })
+
+    const decision = await router.route('will the fed cut interest rates')
+
+    expect(decision).toMatchObject({ route: 'chat', assistantType: 'economist', confidence: 0.8, method: 'llm' })
+    expect(generate.mock.calls[0][1].messages[0].content).toContain('- workflow:ratesOutlook: start the "ratesOutlook" workflow')
+
+    // Without an answer from the model the closest match wins
+    generate.mockRejectedValueOnce(new Error('Provider unavailable'))
+    expect(await router.route('will the fed cut interest rates')).toMatchObject({ route: 'workflow', method: 'embedding' })
+  })
+
+  it('should embed examples in one batch and re-embed only changed triggers on reload', async () => {
+    const embeddings = new EmbeddingService()
+    const embedMany = jest.spyOn(embeddings, 'embedMany')
+    const registry = new WorkflowRegistry(directory, false)
+    router = new IntentRouterService(registry, embeddings)
+
+    await router.route('analyze my portfolio')
+    await router.route('bull vs bear')
+    // One batch for the examples; the messages themselves are embedded one by one
+    expect(embedMany.mock.calls.filter(([texts]) => texts.length > 1)).toHaveLength(1)
+
+    embedMany.mockClear()
+    fs.rmSync(path.join(directory, 'market-debate.json'))
+    fs.writeFileSync(path.join(directory, 'rates.json'), JSON.stringify(definition('ratesOutlook', ['rates outlook'])))
+    registry.load()
+    await router.warm()
+
+    expect(embedMany).toHaveBeenCalledWith(['rates outlook'])
+    expect((router as any).exampleEmbeddings.has('bull vs bear')).toBe(false)
+  })
+
+  it('should only accept labels naming an intent', async () => {
+    await expect(router.label('user-1', 'decision-1', 'portfolio')).rejects.toThrow('Invalid label "portfolio"')
+    await expect(router.label('user-1', 'decision-1', 'workflow:portfolioAnalysis')).rejects.toThrow('require Supabase')
+  })
+})
@@ -0,0 +1,192 @@
+import { LLMService } from '../services/llm-service'
+import { usageService } from '../services/usage.service'
+import type { LLMProviderAdapter, LLMRequest } from '../services/llm-providers'
+
+// Fake adapters only; the built-in ones would construct SDK clients
+jest.mock('../services/llm-providers', () => ({ builtInProviders: [] }))
+jest.mock('../src/mastra/config', () => ({ agentPrompts: { general: 'You are helpful.' } }))
+jest.mock('../services/supabase-admin', () => ({ getSupabaseAdmin: () => null }))
+jest.mock('../services/workflow-telemetry.service', () => ({ workflowTelemetryService: { track: jest.fn() } }))
+jest.mock('../services/usage.service', () => ({
+  usageService: {
+    checkBudget: jest.fn(async () => ({ action: 'allow' })),
+    estimateUsage: () => ({ promptTokens: 1, completionTokens: 1, totalTokens: 2 }),
+    calculateCost: () => 0,
+    record: jest.fn(async () => undefined),
+  },
+}))
+
+interface FakeOptions {
+  configured?: boolean
+  fail?: boolean
+  tokens?: string[]
+  model?: string
+}
+
+const fake = (name: string, options: FakeOptions = {}) => {
+  const respond = (request: LLMRequest) => {
+    if (options.fail) {
+      throw new Error(`${name} is down`)
+    }
+    return { content: `from ${name}`, provider: name, model: request.model || options.model || `${name}-default` }
+  }
+
+  const adapter = {
+    name,
+    defaultModel: options.model || `${name}-default`,
+    isConfigured: () => options.configured !== false,
+    complete: jest.fn(async (request: LLMRequest) => respond(request)),
+    stream: jest.fn(async (request: LLMRequest, onToken: (token: string, metadata: any) => Promise<void>) => {
+      for (const token of options.tokens || []) {
+        await onToken(token, { provider: name, model: adapter.defaultModel })
+      }
+      return respond(request)
+    }),
+  }
+  return adapter satisfies LLMProviderAdapter
+}
+
+describe('LLMService', () => {
+  const registered: string[] = []
+  const register = (...adapters: LLMProviderAdapter[]) => {
+    adapters.forEach(adapter => {
+      LLMService.registerProvider(adapter)
+      registered.push(adapter.name)
+    })
+  }
+  const names = (chain: LLMProviderAdapter[]) => chain.map(provider => provider.name)
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER_ORDER = 'beta,alpha'
+  })
+
+  afterEach(() => {
+    registered.splice(0).forEach(name => LLMService.unregisterProvider(name))
+    delete process.env.LLM_PROVIDER_ORDER
+  })
+
+  it('should order the chain by priority and put the preferred provider first', () => {
+    register(fake('alpha'), fake('beta'), fake('gamma'), fake('delta', { configured: false }))
+    const service = new LLMService()
+
+    expect(names(service.getProviderChain())).toEqual(['beta', 'alpha', 'gamma'])
+    expect(names(service.getProviderChain('gamma'))).toEqual(['gamma', 'beta', 'alpha'])
+    expect(names(service.getProviderChain('delta'))).toEqual(['beta', 'alpha', 'gamma'])
+  })
+
+  it('should skip providers whose circuit is open', () => {
+    register(fake('alpha'), fake('beta'))
+    const breaker = LLMService.getCircuitBreaker('beta')
+    for (let i = 0; i < 5; i++) breaker.recordFailure(100, new Error('boom'))
+
+    expect(names(new LLMService().getProviderChain())).toEqual(['alpha'])
+  })
+
+  it('should use the mock provider only when nothing is configured', () => {
+    register(fake('mock'), fake('alpha', { configured: false }))
+    const service = new LLMService()
+
+    expect(names(service.getProviderChain())).toEqual(['mock'])
+
+    register(fake('beta'))
+    expect(names(service.getProviderChain())).toEqual(['beta'])
+  })
+
+  it('should fall back to the next provider when one fails', async () => {
+    const beta = fake('beta', { fail: true })
+    const alpha = fake('alpha')
+    register(alpha, beta)
+    const switches: string[] = []
+    const service = new LLMService({ providerSwitchCallback: async (from, to) => { switches.push(`${from}->${to}`) } })
+
+    const response = await service.complete({ messages: [{ role: 'user', content: 'Hi' }] })
+
+    expect(response.provider).toBe('alpha')
+    expect(beta.complete).toHaveBeenCalledTimes(1)
+    expect(switches).toEqual(['beta->alpha'])
+  })
+
+  it('should apply a model override only to the provider it names', async () => {
+    const beta = fake('beta', { fail: true })
+    const alpha = fake('alpha')
+    register(alpha, beta)
+
+    const response = await new LLMService().complete({
+      messages: [{ role: 'user', content: 'Hi' }],
+      provider: 'beta',
+      model: 'beta-large',
+    })
+
+    expect(beta.complete.mock.calls[0][0].model).toBe('beta-large')
+    expect(alpha.complete.mock.calls[0][0].model).toBeUndefined()
+    expect(response.model).toBe('alpha-default')
+  })
+
+  it('should not fall back once a stream has emitted tokens', async () => {
+    const beta = fake('beta', { fail: true, tokens: ['Hel', 'lo'] })
+    const alpha = fake('alpha', { tokens: ['Hi'] })
+    register(alpha, beta)
+    const tokens: string[] = []
+
+    await expect(new LLMService().stream(
+      { messages: [{ role: 'user', content: 'Hi' }] },
+      async token => { tokens.push(token) }
+    )).rejects.toThrow('beta is down')
+
+    expect(alpha.stream).not.toHaveBeenCalled()
+    expect(tokens.join('')).toBe('Hello')
+  })
+
+  it('should fall back when a stream fails before its first token', async () => {
+    register(fake('alpha', { tokens: ['Hi'] }), fake('beta', { fail: true }))
+    const tokens: string[] = []
+
+    const response = await new LLMService().stream(
+      { messages: [{ role: 'user', content: 'Hi' }] },
+      async token => { tokens.push(token) }
+    )
+
+    expect(response.provider).toBe('alpha')
+    expect(tokens).toEqual(['Hi'])
+  })
+
+  it('should not try other providers once the caller aborted', async () => {
+    const controller = new AbortController()
+    const beta = fake('beta')
+    beta.complete.mockImplementationOnce(async () => {
+      controller.abort()
+      throw new Error('Request was aborted.')
+    })
+    const alpha = fake('alpha')
+    register(alpha, beta)
+
+    await expect(new LLMService().complete({ messages: [{ role: 'user', content: 'Hi' }], signal: controller.signal }))
+      .rejects.toThrow('Request was aborted.')
+    expect(alpha.complete).not.toHaveBeenCalled()
+    expect(LLMService.getCircuitBreaker('beta').getSnapshot().failures).toBe(0)
+  })
+
+  it('should downgrade to the cheapest available model when the configured target is unavailable', async () => {
+    const budget = { action: 'downgrade', reason: 'Daily LLM budget exhausted' }
+    ;(usageService.checkBudget as jest.Mock).mockResolvedValueOnce(budget).mockResolvedValueOnce(budget)
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const alpha = fake('alpha', { model: 'gpt-4o' })
+    const beta = fake('beta', { model: 'gpt-4' })
+    const gamma = fake('gamma', { model: 'gpt-4o-mini', fail: true })
+    register(alpha, beta, gamma)
+    const request = { messages: [{ role: 'user' as const, content: 'Hi' }], metering: { userId: 'user-1' } }
+
+    const response = await new LLMService().complete(request)
+
+    // groq (the configured target) is not registered, so gpt-4o-mini is tried first, then the next cheapest
+    expect(gamma.complete.mock.calls[0][0]).toMatchObject({ provider: 'gamma', model: 'gpt-4o-mini' })
+    expect(beta.complete).not.toHaveBeenCalled()
+    expect(response).toMatchObject({ provider: 'alpha', model: 'gpt-4o', downgraded: true })
+
+    LLMService.unregisterProvider('alpha')
+    LLMService.unregisterProvider('beta')
+    const breaker = LLMService.getCircuitBreaker('gamma')
+    for (let i = 0; i < 5; i++) breaker.recordFailure(100, new Error('boom'))
+    await expect(new LLMService().complete(request)).rejects.toThrow('no cheaper model is available')
+  })
+})
@@ -0,0 +1,56 @@
+jest.mock('../src/mastra/tools/marketData', () => ({ marketDataTool: { execute: jest.fn() } }))
+
+import { MarketDataService, type MarketDataFetcher } from '../services/market-data.service'
+
+const now = new Date('2026-10-19T14:00:00Z')
+
+const fetcher: jest.MockedFunction<MarketDataFetcher> = jest.fn(async ({ symbol, dataType }) => {
+  if (symbol === 'NOPE') throw new Error('All data providers failed')
+  if (dataType === 'quote') return { source: 'yahoo', data: { symbol, price: 190.5, change: 2.1, changePercent: 1.114 } }
+  return {
+    source: 'yahoo',
+    data: [
+      { timestamp: '2026-09-21T00:00:00Z', open: 170, high: 176, low: 168, close: 175 },
+      { timestamp: '2026-10-16T00:00:00Z', open: 188, high: 195, low: 186, close: 192.5 },
+    ],
+  }
+})
+
+describe('MarketDataService', () => {
+  beforeEach(() => fetcher.mockClear())
+
+  it('should summarize quotes and history per symbol and record failures', async () => {
+    const service = new MarketDataService(fetcher)
+    const snapshot = await service.prefetch(['aapl', 'AAPL', 'NOPE'], ['quote', 'history'], now)
+
+    expect(fetcher).toHaveBeenCalledWith({ symbol: 'AAPL', dataType: 'historical', startDate: '2026-09-19', endDate: '2026-10-19' })
+    expect(snapshot.symbols.map(s => s.symbol)).toEqual(['AAPL', 'NOPE'])
+    expect(service.format(snapshot)).toBe([
+      'Market data as of 2026-10-19T14:00:00.000Z:',
+      '- AAPL: $190.50 (+1.11% today); 2026-09-21 to 2026-10-16: $175.00 to $192.50 (+10.00%), range $168.00-$195.00',
+      '- NOPE: unavailable: quote (All data providers failed); history (All data providers failed)',
+    ].join('\n'))
+  })
+
+  it('should fetch once per run and keep the data in state', async () => {
+    const service = new MarketDataService(fetcher)
+    const stored = new Map<string, unknown>()
+    const state = {
+      get: jest.fn(async (_group: string, key: string) => stored.get(key) ?? null),
+      set: jest.fn(async (_group: string, key: string, value: unknown) => { stored.set(key, value) }),
+    } as any
+
+    const [first, second] = await Promise.all([
+      service.getForRun(state, 'run-1', ['MSFT'], ['quote']),
+      service.getForRun(state, 'run-1', ['MSFT'], ['quote']),
+    ])
+    const third = await service.getForRun(state, 'run-1', ['MSFT'], ['quote'])
+
+    expect(first).toContain('- MSFT: $190.50')
+    expect(second).toBe(first)
+    expect(third).toBe(first)
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(stored.has('run-1:market-data')).toBe(true)
+    expect(await service.getForRun(state, 'run-2', [], ['quote'])).toBeUndefined()
+  })
+})
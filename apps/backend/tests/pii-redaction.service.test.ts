@@ -0,0 +1,65 @@
+import { PiiRedactionService, RedactionSession, isLuhnValid, isRoutingNumberValid } from '../services/pii-redaction.service'
+
+jest.mock('../services/supabase-admin', () => ({ getSupabaseAdmin: () => null }))
+
+describe('PiiRedactionService', () => {
+  const service = new PiiRedactionService()
+
+  it('should replace each kind of PII with a placeholder', () => {
+    const session = new RedactionSession()
+    const redacted = service.redact(
+      'Email jane.doe@example.com or call (415) 555-0132. SSN 123-45-6789, card 4111 1111 1111 1111, ' +
+      'routing number 021000021, account number 000123456789. I live at 221 Baker Street, Apt 4B.',
+      session
+    )
+
+    expect(redacted).toBe(
+      'Email [EMAIL_1] or call [PHONE_1]. SSN [SSN_1], card [CARD_1], ' +
+      'routing number [ROUTING_NUMBER_1], account number [ACCOUNT_NUMBER_1]. I live at [ADDRESS_1].'
+    )
+    expect(session.counts).toEqual({ email: 1, ssn: 1, card: 1, routing: 1, account: 1, phone: 1, address: 1 })
+  })
+
+  it('should leave amounts, dates and invalid numbers alone', () => {
+    const text = 'I invested $150,000 on 2024-01-15 and hold 4111 1111 1111 1112 shares worth 12.5%.'
+    expect(service.containsPii(text)).toBe(false)
+    expect(isLuhnValid('4111111111111111')).toBe(true)
+    expect(isRoutingNumberValid('021000022')).toBe(false)
+  })
+
+  it('should reuse placeholders for repeated values and restore them in responses', () => {
+    const session = new RedactionSession()
+    const { request } = service.redactRequest({
+      messages: [
+        { role: 'system', content: 'You are a banker.' },
+        { role: 'user', content: 'Move money from account 12345678 to account 87654321, then back to account 12345678.' },
+      ],
+    })
+    expect(request.messages[1].content).toBe(
+      'Move money from account [ACCOUNT_NUMBER_1] to account [ACCOUNT_NUMBER_2], then back to account [ACCOUNT_NUMBER_1].'
+    )
+
+    service.redact('account 12345678', session)
+    const restored = service.restoreResponse(
+      { content: 'Done: [ACCOUNT_NUMBER_1] and [UNKNOWN_1].', provider: 'groq', model: 'llama' },
+      session
+    )
+    expect(restored.content).toBe('Done: 12345678 and [UNKNOWN_1].')
+  })
+
+  it('should restore placeholders split across streamed tokens', async () => {
+    const session = new RedactionSession()
+    service.redact('jane@example.com', session)
+    const tokens: string[] = []
+    const restorer = service.createStreamRestorer(session, token => { tokens.push(token) })
+    const metadata = { provider: 'groq', model: 'llama' }
+
+    for (const token of ['Sent to [EM', 'AIL_', '1] ', 'today [see', ' note]']) {
+      await restorer.onToken(token, metadata)
+    }
+    await restorer.flush()
+
+    expect(tokens.join('')).toBe('Sent to jane@example.com today [see note]')
+    expect(tokens).not.toContain('[EM')
+  })
+})
@@ -0,0 +1,48 @@
+import { PromptRegistryService, renderPromptTemplate } from '../services/prompt-registry.service'
+
+jest.mock('../services/supabase-admin', () => ({ getSupabaseAdmin: () => null }))
+
+describe('renderPromptTemplate', () => {
+  const template = 'Advise the user.{{#riskTolerance}} Risk tolerance: {{riskTolerance}}.{{/riskTolerance}}{{#symbols}} Symbols: {{symbols}}.{{/symbols}}'
+
+  it('should fill variables and keep blocks whose variable is set', () => {
+    expect(renderPromptTemplate(template, { riskTolerance: 'conservative', symbols: ['AAPL', 'MSFT'] }))
+      .toBe('Advise the user. Risk tolerance: conservative. Symbols: AAPL, MSFT.')
+  })
+
+  it('should drop blocks for missing or empty variables', () => {
+    expect(renderPromptTemplate(template, { symbols: [] })).toBe('Advise the user.')
+  })
+})
+
+describe('PromptRegistryService', () => {
+  const registry = new PromptRegistryService()
+
+  it('should serve the built-in version without a database', async () => {
+    const active = await registry.getActive('agent.trader')
+
+    expect(active).toMatchObject({ version: 1, builtIn: true })
+    expect(await registry.renderAgentPrompt('trader', { timeframe: '3 months' }))
+      .toContain("The user's investment timeframe is 3 months.")
+  })
+
+  it('should fall back to the general prompt for unknown assistant types', async () => {
+    expect(await registry.renderAgentPrompt('astrologer')).toBe(await registry.render('agent.general'))
+  })
+
+  it('should report variables missing from a preview', async () => {
+    const preview = await registry.preview('workflow.agent-task', { task: 'Assess risk', userMessage: 'Am I diversified?' })
+
+    expect(preview.missingVariables).toEqual(['marketData', 'previousInsights'])
+    expect(preview.prompt).not.toContain('Previous agent insights')
+  })
+
+  it('should reject templates with unknown variables before storing them', async () => {
+    await expect(registry.publish('agent.analyst', { template: 'Hello {{accountNumber}}' }))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' })
+  })
+
+  it('should 404 on unknown templates', async () => {
+    await expect(registry.getActive('agent.missing')).rejects.toMatchObject({ code: 'NOT_FOUND' })
+  })
+})
@@ -0,0 +1,84 @@
+import { ResponseCacheService } from '../services/response-cache.service'
+import { EmbeddingService } from '../services/embedding.service'
+import { embeddingConfig, responseCacheConfig } from '../config/response-cache.config'
+import type { CacheService } from '../services/cache.service'
+import type { LLMResponse } from '../services/llm-service'
+
+jest.mock('../services/llm-service', () => ({ llmService: { complete: jest.fn() } }))
+jest.mock('../services/cache.service', () => ({ cacheService: {} }))
+
+function createMemoryCache() {
+  const entries = new Map<string, { value: unknown; ttl: number }>()
+  const cache = {
+    get: jest.fn(async (key: string) => entries.get(key)?.value ?? null),
+    set: jest.fn(async (key: string, value: unknown, ttl: number) => {
+      entries.set(key, { value, ttl })
+    }),
+  }
+  return { cache: cache as unknown as CacheService, entries }
+}
+
+const scope = (question: string, systemPrompt = 'You are a helpful financial assistant.') => ({
+  agentId: 'general',
+  model: 'llama-3.3-70b-versatile',
+  messages: [
+    { role: 'system' as const, content: systemPrompt },
+    { role: 'user' as const, content: question },
+  ],
+})
+
+const response: LLMResponse = {
+  content: 'A Roth IRA is a retirement account funded with after-tax dollars.',
+  provider: 'groq',
+  model: 'llama-3.3-70b-versatile',
+}
+
+describe('ResponseCacheService', () => {
+  beforeEach(() => {
+    responseCacheConfig.semantic.enabled = false
+    embeddingConfig.provider = 'local'
+  })
+
+  it('should bypass personal and time-sensitive questions', () => {
+    const service = new ResponseCacheService(createMemoryCache().cache, new EmbeddingService())
+
+    expect(service.shouldBypass('What is a Roth IRA?')).toBe(false)
+    expect(service.shouldBypass('Is my portfolio too risky?')).toBe(true)
+    expect(service.shouldBypass('What is the AAPL price today?')).toBe(true)
+    expect(service.shouldBypass('How did markets do in 2008?')).toBe(true)
+  })
+
+  it('should store with the TTL of the question intent', async () => {
+    const { cache, entries } = createMemoryCache()
+    const service = new ResponseCacheService(cache, new EmbeddingService())
+
+    await service.store(scope('What is a Roth IRA?'), response)
+    await service.store(scope('Why do bond prices fall when rates rise?'), response)
+
+    expect([...entries.values()].map(entry => entry.ttl)).toEqual([
+      responseCacheConfig.intentTtls.definition,
+      responseCacheConfig.intentTtls.education,
+    ])
+  })
+
+  it('should serve exact matches after normalization and skip unsafe answers', async () => {
+    const service = new ResponseCacheService(createMemoryCache().cache, new EmbeddingService())
+
+    expect(await service.store(scope('What is a Roth IRA?'), { ...response, downgraded: true })).toBe(false)
+    expect(await service.store(scope('What is a Roth IRA?'), response)).toBe(true)
+
+    expect(await service.lookup(scope('  what is a roth ira  '))).toMatchObject({ content: response.content, similarity: 1 })
+    expect(await service.lookup(scope('What is a Roth IRA?', 'You are a cautious advisor.'))).toBeNull()
+    expect(await service.lookup(scope('Should I open a Roth IRA?'))).toBeNull()
+  })
+
+  it('should match rephrased questions by embedding similarity when enabled', async () => {
+    responseCacheConfig.semantic.enabled = true
+    const service = new ResponseCacheService(createMemoryCache().cache, new EmbeddingService())
+
+    await service.store(scope('What is a Roth IRA?'), response)
+
+    expect(await service.lookup(scope('Can you explain what a Roth IRA is, please?'))).toMatchObject({ content: response.content })
+    expect(await service.lookup(scope('What is a traditional IRA?'))).toBeNull()
+  })
+})
@@ -0,0 +1,74 @@
+import { StructuredOutputService } from '../services/structured-output.service'
+import { ReportFormatterService } from '../services/report-formatter.service'
+import { riskManagerOutputSchema } from '../schemas/agent-output.schemas'
+import type { LLMResponse } from '../services/llm-providers'
+
+// Keep the provider registry (and its SDK clients) out of these tests
+jest.mock('../services/llm-service', () => ({ llmService: { complete: jest.fn() } }))
+
+const valid = {
+  summary: 'Concentration in tech is the main risk.',
+  metrics: [{ label: 'Portfolio beta', value: 1.2, unit: 'ratio' }],
+  recommendations: [{ action: 'Trim NVDA to 5%', rationale: 'Single name is 18% of assets', confidence: 0.8 }],
+  risks: [{ title: 'Concentration', severity: 'high', description: 'Tech is 45% of holdings' }],
+  stressTests: [{ scenario: '2008-style crash', impactPct: -32 }],
+}
+
+const reply = (content: string): LLMResponse => ({ content, provider: 'openai', model: 'gpt-4' })
+
+describe('StructuredOutputService', () => {
+  const service = new StructuredOutputService()
+
+  it('should accept JSON wrapped in code fences', () => {
+    const result = service.parse(riskManagerOutputSchema, `Here you go:\n\`\`\`json\n${JSON.stringify(valid)}\n\`\`\``)
+    expect(result.success).toBe(true)
+  })
+
+  it('should send validation issues back and retry without the first call', async () => {
+    const invoke = jest.fn()
+      .mockResolvedValueOnce(reply(JSON.stringify({ ...valid, risks: [{ title: 'Concentration', severity: 'extreme' }] })))
+    const repair = jest.fn().mockResolvedValueOnce(reply(JSON.stringify(valid)))
+
+    const result = await service.generate(riskManagerOutputSchema, {
+      messages: [{ role: 'system', content: 'You are a risk manager.' }, { role: 'user', content: 'Assess my risk' }],
+      invoke,
+      repair,
+    })
+
+    expect(result.attempts).toBe(2)
+    expect(result.data.stressTests[0].impactPct).toBe(-32)
+    // Repairs must not repeat the first attempt's tool calls
+    expect(invoke).toHaveBeenCalledTimes(1)
+
+    const repairPrompt = repair.mock.calls[0][0].at(-1).content
+    expect(repairPrompt).toContain('risks.0.severity')
+    expect(repairPrompt).toContain('risks.0.description')
+    expect(invoke.mock.calls[0][0][0].content).toContain('"stressTests"')
+  })
+
+  it('should give up with the last answer after the repair budget', async () => {
+    const invoke = jest.fn().mockResolvedValue(reply('I think your risk is moderate.'))
+    const repair = jest.fn().mockResolvedValue(reply('Still moderate.'))
+
+    await expect(service.generate(riskManagerOutputSchema, {
+      messages: [{ role: 'user', content: 'Assess my risk' }],
+      invoke,
+      repair,
+      maxRepairAttempts: 1,
+    })).rejects.toMatchObject({ details: { content: 'Still moderate.' } })
+    expect(invoke).toHaveBeenCalledTimes(1)
+    expect(repair).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('ReportFormatterService', () => {
+  it('should render reports from structured output', () => {
+    const report = ReportFormatterService.formatAgentResponse('riskManager', riskManagerOutputSchema.parse(valid))
+    const markdown = ReportFormatterService.toMarkdown(report)
+
+    expect(report.recommendations).toEqual(['Trim NVDA to 5%'])
+    expect(markdown).toContain('**Portfolio beta**: 1.2')
+    expect(markdown).toContain('🔴 **2008-style crash**: -32% portfolio impact')
+    expect(markdown).toContain('confidence 80%')
+  })
+})
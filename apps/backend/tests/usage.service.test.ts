@@ -0,0 +1,87 @@
+import { UsageService } from '../services/usage.service'
+import { budgetConfig } from '../config/llm-pricing.config'
+
+describe('UsageService', () => {
+  const originalBudget = { ...budgetConfig }
+  let now: number
+  let service: UsageService
+
+  beforeEach(() => {
+    delete process.env.SUPABASE_URL
+    now = Date.UTC(2025, 0, 15, 12)
+    service = new UsageService(() => now)
+  })
+
+  afterEach(() => {
+    Object.assign(budgetConfig, originalBudget)
+  })
+
+  it('should price calls per model', () => {
+    expect(service.calculateCost('llama-3.3-70b-versatile', { promptTokens: 1_000_000, completionTokens: 1_000_000 }))
+      .toBeCloseTo(1.38)
+    expect(service.calculateCost('none', { promptTokens: 5000, completionTokens: 5000 })).toBe(0)
+  })
+
+  it('should charge unknown models at the default rate', () => {
+    expect(service.calculateCost('some-new-model', { promptTokens: 1_000_000, completionTokens: 0 })).toBe(2.5)
+  })
+
+  it('should estimate usage when the provider does not report it', () => {
+    const usage = service.estimateUsage([{ role: 'user', content: 'a'.repeat(40) }], 'b'.repeat(20))
+
+    expect(usage).toEqual({ promptTokens: 10, completionTokens: 5, totalTokens: 15, estimated: true })
+  })
+
+  it('should allow everything when no budget is set', async () => {
+    budgetConfig.dailyLimitUsd = 0
+    budgetConfig.monthlyLimitUsd = 0
+
+    const decision = await service.checkBudget('user-1')
+    expect(decision.action).toBe('allow')
+  })
+
+  it('should apply the configured action once the daily budget is spent', async () => {
+    budgetConfig.dailyLimitUsd = 1
+    budgetConfig.onExceeded = 'reject'
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+
+    await service.record({ userId: 'user-1', provider: 'openai', model: 'gpt-4', usage, costUsd: 0.6 })
+    expect((await service.checkBudget('user-1')).action).toBe('allow')
+
+    await service.record({ userId: 'user-1', provider: 'openai', model: 'gpt-4', usage, costUsd: 0.6 })
+    const decision = await service.checkBudget('user-1')
+    expect(decision.action).toBe('reject')
+    expect(decision.spentTodayUsd).toBeCloseTo(1.2)
+    expect(decision.reason).toMatch(/Daily/)
+  })
+
+  it('should reset the daily spend at UTC midnight but keep the monthly total', async () => {
+    budgetConfig.dailyLimitUsd = 1
+    budgetConfig.monthlyLimitUsd = 2
+    budgetConfig.onExceeded = 'downgrade'
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+
+    await service.record({ userId: 'user-1', provider: 'openai', model: 'gpt-4', usage, costUsd: 1.5 })
+    expect((await service.checkBudget('user-1')).action).toBe('downgrade')
+
+    now += 24 * 60 * 60 * 1000
+    expect((await service.checkBudget('user-1')).action).toBe('allow')
+
+    await service.record({ userId: 'user-1', provider: 'openai', model: 'gpt-4', usage, costUsd: 0.6 })
+    const decision = await service.checkBudget('user-1')
+    expect(decision.action).toBe('downgrade')
+    expect(decision.reason).toMatch(/Monthly/)
+  })
+
+  it('should only let users tighten their own budget', async () => {
+    budgetConfig.dailyLimitUsd = 1
+    budgetConfig.monthlyLimitUsd = 0
+    budgetConfig.onExceeded = 'reject'
+
+    await expect(service.tightenBudget('user-1', { dailyLimitUsd: 2 })).rejects.toThrow('only be lowered: dailyLimitUsd')
+    await expect(service.tightenBudget('user-1', { dailyLimitUsd: 0 })).rejects.toThrow('only be lowered')
+    await expect(service.tightenBudget('user-1', { onExceeded: 'downgrade' })).rejects.toThrow('cannot be switched')
+    // Lower limits, and a first monthly limit, go through to storage
+    await expect(service.tightenBudget('user-1', { dailyLimitUsd: 0.5, monthlyLimitUsd: 20 })).rejects.toThrow('Database service not configured')
+  })
+})
@@ -0,0 +1,170 @@
+import type { InternalStateManager } from 'motia'
+import { WorkflowApprovalService } from '../services/workflow-approval.service'
+import { toGraphSteps } from '../services/workflow-graph'
+
+// Set per test; the conditional update on workflow_approvals matches `mockClaimedRows` rows
+let mockDb: unknown = null
+let mockClaimedRows: Array<{ id: string }> = []
+const mockUpdates: Array<{ filters: string[] }> = []
+jest.mock('../services/supabase-admin', () => ({ getSupabaseAdmin: () => mockDb }))
+
+// Run bookkeeping (workflow_runs, workflow_steps) accepts anything
+const inertQuery = (): any => new Proxy(() => undefined, {
+  get: (_, prop) => prop === 'then'
+    ? (resolve: (value: unknown) => void) => resolve({ data: null, error: null })
+    : () => inertQuery(),
+})
+
+const createDb = () => ({
+  from: (table: string) => table !== 'workflow_approvals' ? inertQuery() : ({
+    upsert: async () => ({ error: null }),
+    update: () => {
+      const filters: string[] = []
+      mockUpdates.push({ filters })
+      const query: any = {
+        eq: (column: string, value: string) => { filters.push(`${column}=${value}`); return query },
+        gt: (column: string) => { filters.push(`${column}>now`); return query },
+        select: async () => ({ data: mockClaimedRows, error: null }),
+      }
+      return query
+    },
+  }),
+})
+
+const createState = (): InternalStateManager => {
+  const values = new Map<string, unknown>()
+  return {
+    get: async <T>(group: string, key: string) => (values.get(`${group}/${key}`) as T) ?? null,
+    set: async <T>(group: string, key: string, value: T) => {
+      values.set(`${group}/${key}`, value)
+      return value
+    },
+    delete: async <T>(group: string, key: string) => {
+      const value = values.get(`${group}/${key}`) as T
+      values.delete(`${group}/${key}`)
+      return value ?? null
+    },
+    getGroup: async <T>(group: string) =>
+      Array.from(values.entries()).filter(([key]) => key.startsWith(`${group}/`)).map(([, value]) => value as T),
+    clear: async () => {},
+  }
+}
+
+const workflow = {
+  id: 'run-1',
+  userId: 'user-1',
+  status: 'running' as const,
+  steps: [
+    { id: 'plan', agent: 'advisor', task: 'Propose orders', dependsOn: [] },
+    { id: 'approve-orders', type: 'approval', agent: 'approval', task: 'Place the orders', dependsOn: ['plan'] },
+    { id: 'execute', agent: 'trader', task: 'Place approved orders', dependsOn: ['approve-orders'] },
+  ],
+}
+const steps = toGraphSteps(workflow.steps)
+const plan = { agent: 'advisor', task: 'Propose orders', result: 'Sell 10 AAPL, buy 20 VTI', completedAt: '2026-01-01T10:00:00.000Z' }
+
+describe('WorkflowApprovalService', () => {
+  let service: WorkflowApprovalService
+  let state: InternalStateManager
+
+  beforeEach(async () => {
+    mockDb = null
+    mockUpdates.length = 0
+    service = new WorkflowApprovalService()
+    state = createState()
+    await state.set('workflows', 'run-1', workflow)
+    await state.set('workflows', 'run-1:result:0', plan)
+    await state.set('workflows', 'run-1:step:1', { status: 'processing' })
+  })
+
+  it('should hold the run until the owner approves, then start the next step', async () => {
+    const { approval, change } = await service.request(state, workflow, steps[1], 1, [plan])
+    expect(approval).toMatchObject({ status: 'pending', title: 'Place the orders', proposal: [{ result: 'Sell 10 AAPL, buy 20 VTI' }] })
+    expect(change?.transition).toMatchObject({ from: 'running', to: 'awaiting_approval' })
+
+    await expect(service.decide(state, 'run-1', 'approve-orders', { userId: 'user-2', decision: 'approve' }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' })
+
+    const resolution = await service.decide(state, 'run-1', 'approve-orders', {
+      userId: 'user-1',
+      decision: 'edit',
+      changes: 'Only sell 5 AAPL',
+    })
+
+    expect(resolution.approval).toMatchObject({ status: 'approved', decision: 'edit', decidedBy: 'user' })
+    expect(resolution.change?.transition).toMatchObject({ from: 'awaiting_approval', to: 'running' })
+    expect(resolution.ready.map(({ step }) => step.id)).toEqual(['execute'])
+    const result = await state.get<{ result: string }>('workflows', 'run-1:result:1')
+    expect(result?.result).toContain('Only sell 5 AAPL')
+    expect(result?.result).toContain('Sell 10 AAPL, buy 20 VTI')
+
+    await expect(service.decide(state, 'run-1', 'approve-orders', { userId: 'user-1', decision: 'reject' }))
+      .rejects.toMatchObject({ code: 'CONFLICT' })
+  })
+
+  it('should reject approvals that expire and skip the steps after them', async () => {
+    const { approval } = await service.request(state, workflow, steps[1], 1, [plan], 60_000)
+
+    expect(await service.expireDue(state, Date.parse(approval.requestedAt) + 30_000)).toEqual([])
+    const [resolution] = await service.expireDue(state, Date.parse(approval.requestedAt) + 60_000)
+
+    expect(resolution.approval).toMatchObject({ status: 'expired', decision: 'timeout', decidedBy: 'system' })
+    expect(resolution.ready).toEqual([])
+    expect(resolution.complete).toBe(true)
+    expect(await state.get('workflows', 'run-1:result:2')).toMatchObject({ skipped: { error: 'Not run: "Place the orders" was expired' } })
+    expect(await state.get('workflows', 'run-1')).toMatchObject({ status: 'running' })
+  })
+
+  it('should require the changes for edit decisions', async () => {
+    await service.request(state, workflow, steps[1], 1, [plan])
+
+    await expect(service.decide(state, 'run-1', 'approve-orders', { userId: 'user-1', decision: 'edit' }))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' })
+  })
+
+  it('should pass the approved orders on as the user listed them', async () => {
+    const orders = [
+      { symbol: 'AAPL', side: 'sell' as const, quantity: 10, orderType: 'market' as const },
+      { symbol: 'VTI', side: 'buy' as const, quantity: 20, orderType: 'limit' as const, limitPrice: 250 },
+    ]
+    const { approval } = await service.request(state, workflow, steps[1], 1, [{ ...plan, output: { summary: 'Rebalance', metrics: [], recommendations: [], risks: [], orders } }])
+    expect(approval.orders).toEqual(orders)
+
+    // Free text cannot change what is placed
+    await expect(service.decide(state, 'run-1', 'approve-orders', { userId: 'user-1', decision: 'edit', changes: 'Only sell 5 AAPL' }))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' })
+
+    await service.decide(state, 'run-1', 'approve-orders', {
+      userId: 'user-1',
+      decision: 'edit',
+      orders: [{ ...orders[0], quantity: 5 }],
+    })
+
+    expect(await service.getApprovedOrders(state, 'run-1', steps, 'execute')).toEqual([{ ...orders[0], quantity: 5 }])
+    expect((await state.get<{ result: string }>('workflows', 'run-1:result:1'))?.result).toContain('- sell 5 AAPL (market)')
+  })
+
+  it('should refuse decisions on expired approvals', async () => {
+    await service.request(state, workflow, steps[1], 1, [plan], -1)
+
+    await expect(service.decide(state, 'run-1', 'approve-orders', { userId: 'user-1', decision: 'approve' }))
+      .rejects.toMatchObject({ code: 'CONFLICT', details: { status: 'expired' } })
+    expect((await service.get(state, 'run-1', 'approve-orders'))?.status).toBe('pending')
+  })
+
+  it('should only continue the run when its decision claimed the pending approval', async () => {
+    mockDb = createDb()
+    await service.request(state, workflow, steps[1], 1, [plan])
+
+    // Another request decided (or the expiry job expired) it first
+    mockClaimedRows = []
+    await expect(service.decide(state, 'run-1', 'approve-orders', { userId: 'user-1', decision: 'approve' }))
+      .rejects.toMatchObject({ code: 'CONFLICT' })
+    expect(await state.get('workflows', 'run-1:result:1')).toBeNull()
+    expect(mockUpdates[0].filters).toEqual(expect.arrayContaining(['status=pending', 'expires_at>now']))
+
+    mockClaimedRows = [{ id: 'approval-1' }]
+    const resolution = await service.decide(state, 'run-1', 'approve-orders', { userId: 'user-1', decision: 'approve' })
+    expect(resolution.ready.map(({ step }) => step.id)).toEqual(['execute'])
+  })
+})
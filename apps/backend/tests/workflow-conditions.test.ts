@@ -0,0 +1,46 @@
+import { evaluateCondition, findConditionErrors, parseCondition } from '../services/workflow-conditions'
+
+const outputs = {
+  metrics: {
+    summary: 'Concentrated in tech',
+    metrics: [{ label: 'Risk score', value: 8, unit: 'count' }],
+    risks: [{ title: 'Concentration', severity: 'High' }],
+    recommendations: [],
+  },
+  screen: { summary: 'Nothing cheap', recommendations: [] },
+}
+
+describe('workflow conditions', () => {
+  it('should evaluate comparisons, functions and boolean operators on step outputs', () => {
+    expect(evaluateCondition('metric(metrics, "risk score") > 7', outputs)).toBe(true)
+    expect(evaluateCondition('metric(metrics, "Risk score") > 7 && count(screen.recommendations) > 0', outputs)).toBe(false)
+    expect(evaluateCondition('count(screen.recommendations) == 0 or false', outputs)).toBe(true)
+    expect(evaluateCondition('has(metrics.risks, "severity", "high") and not (metrics.summary == "")', outputs)).toBe(true)
+    expect(evaluateCondition('metrics.risks[0].title == "concentration"', outputs)).toBe(true)
+  })
+
+  it('should treat missing values as never matching', () => {
+    expect(evaluateCondition('metric(macro, "risk score") > 7', outputs)).toBe(false)
+    expect(evaluateCondition('metric(macro, "risk score") <= 7', outputs)).toBe(false)
+    expect(evaluateCondition('macro.summary != "calm"', outputs)).toBe(false)
+    expect(evaluateCondition('!has(macro.risks, "severity", "high")', outputs)).toBe(false)
+  })
+
+  it('should report syntax errors with their position', () => {
+    expect(() => parseCondition('count(screen.recommendations) ==')).toThrow('Unexpected end of condition at position 33')
+    expect(() => parseCondition('metrics.summary = "x"')).toThrow('Unexpected "=" at position 17')
+  })
+
+  it('should only allow known functions and steps in scope', () => {
+    const scope = new Map([['metrics', ['summary', 'metrics', 'risks']]])
+
+    expect(findConditionErrors('metric(metrics, "risk score") > 7', scope)).toEqual([])
+    expect(findConditionErrors('count(metrics.stressTests) > 0', scope)).toEqual([
+      'Step "metrics" has no output field "stressTests" (has summary, metrics, risks)',
+    ])
+    expect(findConditionErrors('avg(hedging.metrics) > 1', scope)).toEqual([
+      'Unknown function "avg" (use count(list), metric(step, "label"), has(list, "field", value))',
+      '"hedging" is not a step that finishes before this condition is checked',
+    ])
+  })
+})
@@ -0,0 +1,70 @@
+import type { InternalStateManager } from 'motia'
+import { canStartSteps, WorkflowControlService, type WorkflowRecord } from '../services/workflow-control.service'
+
+jest.mock('../services/supabase-admin', () => ({ getSupabaseAdmin: () => null }))
+
+const createState = (): InternalStateManager => {
+  const values = new Map<string, unknown>()
+  return {
+    get: async <T>(group: string, key: string) => (values.get(`${group}/${key}`) as T) ?? null,
+    set: async <T>(group: string, key: string, value: T) => {
+      values.set(`${group}/${key}`, value)
+      return value
+    },
+    delete: async () => null,
+    getGroup: async () => [],
+    clear: async () => {},
+  }
+}
+
+describe('WorkflowControlService', () => {
+  let service: WorkflowControlService
+  let state: InternalStateManager
+
+  beforeEach(async () => {
+    service = new WorkflowControlService()
+    state = createState()
+    await state.set<WorkflowRecord>('workflows', 'run-1', {
+      id: 'run-1',
+      userId: 'user-1',
+      status: 'started',
+      steps: [
+        { id: 'macro', agent: 'economist', task: 'Macro view', dependsOn: [] },
+        { id: 'risk', agent: 'riskManager', task: 'Risks', dependsOn: ['macro'] },
+      ],
+    })
+  })
+
+  it('should pause and resume a run and record each transition', async () => {
+    const paused = await service.apply(state, 'run-1', 'pause', { userId: 'user-1', reason: 'Checking numbers' })
+    expect(paused.transition).toMatchObject({ from: 'started', to: 'paused', action: 'pause', reason: 'Checking numbers' })
+    expect(canStartSteps(paused.workflow)).toBe(false)
+
+    const resumed = await service.apply(state, 'run-1', 'resume', { userId: 'user-1' })
+    expect(resumed.workflow.status).toBe('running')
+    expect(resumed.workflow.transitions?.map(t => t.to)).toEqual(['paused', 'running'])
+  })
+
+  it('should reject transitions that do not apply to the current status', async () => {
+    await service.apply(state, 'run-1', 'cancel', { userId: 'user-1' })
+
+    await expect(service.apply(state, 'run-1', 'resume', { userId: 'user-1' })).rejects.toMatchObject({ code: 'CONFLICT' })
+    await expect(service.apply(state, 'run-1', 'pause', { userId: 'user-1' })).rejects.toMatchObject({ code: 'CONFLICT' })
+  })
+
+  it("should hide other users' runs", async () => {
+    await expect(service.apply(state, 'run-1', 'cancel', { userId: 'user-2' })).rejects.toMatchObject({ code: 'NOT_FOUND' })
+  })
+
+  it('should retry only failed steps and put the run back to running', async () => {
+    await expect(service.retryStep(state, 'run-1', 0, { userId: 'user-1' })).rejects.toMatchObject({ code: 'CONFLICT' })
+
+    await state.set('workflows', 'run-1:step:0', { status: 'failed', error: 'Provider timeout' })
+    await service.setStatus(state, (await service.get(state, 'run-1')), 'failed', { stepIndex: 0 })
+
+    const { step, workflow } = await service.retryStep(state, 'run-1', 0, { userId: 'user-1' })
+    expect(step).toMatchObject({ id: 'macro', agent: 'economist' })
+    expect(workflow.status).toBe('running')
+    expect(await state.get('workflows', 'run-1:step:0')).toMatchObject({ status: 'processing' })
+  })
+})
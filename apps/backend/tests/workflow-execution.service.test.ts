@@ -0,0 +1,116 @@
+import type { InternalStateManager } from 'motia'
+import { WorkflowExecutionService } from '../services/workflow-execution.service'
+import { findGraphErrors, toGraphSteps } from '../services/workflow-graph'
+
+jest.mock('../services/supabase-admin', () => ({ getSupabaseAdmin: () => null }))
+
+const createState = (): InternalStateManager => {
+  const values = new Map<string, unknown>()
+  return {
+    get: async <T>(group: string, key: string) => (values.get(`${group}/${key}`) as T) ?? null,
+    set: async <T>(group: string, key: string, value: T) => {
+      values.set(`${group}/${key}`, value)
+      return value
+    },
+    delete: async <T>(group: string, key: string) => {
+      const value = (values.get(`${group}/${key}`) as T) ?? null
+      values.delete(`${group}/${key}`)
+      return value
+    },
+    getGroup: async () => [],
+    clear: async () => {},
+  }
+}
+
+// Three independent perspectives joined by the risk manager
+const steps = toGraphSteps([
+  { id: 'macro', agent: 'economist', task: 'Macro view', dependsOn: [] },
+  { id: 'sentiment', agent: 'trader', task: 'Sentiment', dependsOn: [] },
+  { id: 'valuation', agent: 'analyst', task: 'Valuation', dependsOn: [] },
+  { id: 'tail-risk', agent: 'riskManager', task: 'Tail risks', dependsOn: ['macro', 'sentiment', 'valuation'] },
+])
+
+describe('WorkflowExecutionService', () => {
+  let service: WorkflowExecutionService
+  let state: InternalStateManager
+
+  const finish = async (index: number) => {
+    await state.set('workflows', `run-1:step:${index}`, { status: 'processing' })
+    await state.set('workflows', `run-1:result:${index}`, {
+      agent: steps[index].agent,
+      task: steps[index].task,
+      result: `${steps[index].id} done`,
+      completedAt: '2026-01-01T00:00:00Z',
+    })
+  }
+
+  beforeEach(() => {
+    service = new WorkflowExecutionService()
+    state = createState()
+  })
+
+  it('should start independent steps together and each only once', async () => {
+    const first = await service.advance(state, 'run-1', steps)
+    expect(first.ready.map(({ step }) => step.id)).toEqual(['macro', 'sentiment', 'valuation'])
+    expect(first.complete).toBe(false)
+
+    // A second caller sees the same graph but every root is claimed already
+    expect((await service.advance(state, 'run-1', steps)).ready).toEqual([])
+  })
+
+  it('should start a join once all of its dependencies finished', async () => {
+    await service.advance(state, 'run-1', steps)
+    await finish(0)
+    await finish(1)
+    expect((await service.advance(state, 'run-1', steps)).ready).toEqual([])
+
+    await finish(2)
+    // Two branches finishing together both try to start the join
+    const [a, b] = await Promise.all([service.advance(state, 'run-1', steps), service.advance(state, 'run-1', steps)])
+    expect([...a.ready, ...b.ready].map(({ step, index }) => [step.id, index])).toEqual([['tail-risk', 3]])
+
+    await finish(3)
+    expect((await service.advance(state, 'run-1', steps)).complete).toBe(true)
+    expect((await service.advance(state, 'run-1', steps)).complete).toBe(false)
+  })
+
+  it('should start the root steps of a run and leave no state behind when starting fails', async () => {
+    const start = { workflowId: 'run-1', workflowKey: 'analysis', name: 'Analysis', agents: [], userId: 'user-1', message: 'Go', steps, record: { id: 'run-1' } }
+    const emit = jest.fn().mockRejectedValueOnce(new Error('Event bus down'))
+
+    await expect(service.startRun({ state, emit }, start)).rejects.toThrow('Event bus down')
+    expect(await state.get('workflows', 'run-1')).toBeNull()
+
+    emit.mockResolvedValue(undefined)
+    await service.startRun({ state, emit }, start)
+    expect(await state.get('workflows', 'run-1')).toEqual({ id: 'run-1' })
+    expect(emit.mock.calls.slice(1).map(([event]) => event.data.agent ?? event.topic))
+      .toEqual(['workflow.started', 'economist', 'trader', 'analyst'])
+  })
+
+  it('should pass on only the requested upstream results in step order', async () => {
+    await finish(2)
+    await finish(0)
+
+    const results = await service.getResults(state, 'run-1', steps, ['valuation', 'macro'])
+    expect(results.map(r => r.result)).toEqual(['macro done', 'valuation done'])
+  })
+})
+
+describe('workflow graph', () => {
+  it('should default to running steps in sequence', () => {
+    expect(toGraphSteps(['analyst', { agent: 'advisor', task: 'Advise' }]).map(s => [s.id, s.dependsOn])).toEqual([
+      ['step-0', []],
+      ['step-1', ['step-0']],
+    ])
+  })
+
+  it('should reject unknown dependencies and cycles', () => {
+    expect(findGraphErrors([{ id: 'a', dependsOn: ['missing'] }])).toEqual(['Step "a" depends on unknown step "missing"'])
+    expect(findGraphErrors([
+      { id: 'a', dependsOn: [] },
+      { id: 'b', dependsOn: ['a', 'c'] },
+      { id: 'c', dependsOn: ['b'] },
+    ])).toEqual(['Dependency cycle between steps: b, c'])
+  })
+})
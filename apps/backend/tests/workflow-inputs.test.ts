@@ -0,0 +1,72 @@
+import { prepareWorkflowRun, resolveWorkflowInputs } from '../services/workflow-inputs'
+import type { WorkflowInput } from '../schemas/workflow.schemas'
+
+const inputs: Record<string, WorkflowInput> = {
+  symbols: { type: 'string[]', description: 'Tickers', required: false, default: [] },
+  timeframe: { type: 'string', description: 'Timeframe', required: false, default: '1d' },
+  riskTolerance: {
+    type: 'string',
+    description: 'Risk tolerance',
+    required: false,
+    enum: ['conservative', 'moderate', 'aggressive'],
+    default: 'moderate',
+  },
+  horizonYears: { type: 'number', description: 'Years', required: true },
+  includeCrypto: { type: 'boolean', description: 'Crypto too', required: false },
+}
+
+describe('workflow inputs', () => {
+  it('should apply defaults, coerce strings and drop undeclared values', () => {
+    expect(resolveWorkflowInputs(inputs, {
+      symbols: ' AAPL, msft ,',
+      horizonYears: '5',
+      includeCrypto: 'false',
+      portfolioId: 'abc',
+    })).toEqual({
+      symbols: ['AAPL', 'msft'],
+      timeframe: '1d',
+      riskTolerance: 'moderate',
+      horizonYears: 5,
+      includeCrypto: false,
+    })
+  })
+
+  it('should list every invalid input', () => {
+    let error: unknown
+    try {
+      resolveWorkflowInputs(inputs, { riskTolerance: 'reckless', includeCrypto: 'maybe', symbols: [1] })
+    } catch (caught) {
+      error = caught
+    }
+
+    expect(error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: {
+        issues: [
+          'symbols must be a list of strings',
+          'riskTolerance must be one of conservative, moderate, aggressive (got reckless)',
+          'horizonYears is required',
+          'includeCrypto must be true or false',
+        ],
+      },
+    })
+  })
+
+  it('should fill the values into step tasks', () => {
+    const { context, steps } = prepareWorkflowRun({
+      inputs,
+      steps: [
+        { id: 'screen', task: 'Screen stocks{{#symbols}}, starting with {{symbols}}{{/symbols}}, for a {{riskTolerance}} investor' },
+        { id: 'setups', task: 'Find setups on a {{timeframe}} timeframe' },
+      ],
+    }, { symbols: ['NVDA', 'AMD'], horizonYears: 10 })
+
+    expect(context.symbols).toEqual(['NVDA', 'AMD'])
+    expect(steps).toEqual([
+      { id: 'screen', task: 'Screen stocks, starting with NVDA, AMD, for a moderate investor' },
+      { id: 'setups', task: 'Find setups on a 1d timeframe' },
+    ])
+    expect(prepareWorkflowRun({ inputs, steps: [{ task: 'Screen stocks{{#symbols}} in {{symbols}}{{/symbols}}' }] }, { horizonYears: 1 }).steps)
+      .toEqual([{ task: 'Screen stocks' }])
+  })
+})
@@ -0,0 +1,134 @@
+import type { InternalStateManager } from 'motia'
+import { workflowExecutionService, type StepExecution } from '../services/workflow-execution.service'
+import { WorkflowRecoveryService } from '../services/workflow-recovery.service'
+
+jest.mock('../services/supabase-admin', () => ({ getSupabaseAdmin: () => null }))
+
+const createState = (): InternalStateManager => {
+  const values = new Map<string, unknown>()
+  return {
+    get: async <T>(group: string, key: string) => (values.get(`${group}/${key}`) as T) ?? null,
+    set: async <T>(group: string, key: string, value: T) => {
+      values.set(`${group}/${key}`, value)
+      return value
+    },
+    delete: async () => null,
+    getGroup: async () => [],
+    clear: async () => {},
+  }
+}
+
+const startedAt = '2026-01-01T10:00:00.000Z'
+const now = Date.parse('2026-01-01T10:03:00.000Z')
+const options = { staleAfterMs: 60_000, maxAttempts: 2, batchSize: 10, now }
+
+const run = (recoveryAttempts = 0) => ({
+  id: 'run-1',
+  workflowKey: 'riskAssessment',
+  status: 'running' as const,
+  query: 'How risky is my portfolio?',
+  recoveryAttempts,
+  startedAt,
+  updatedAt: startedAt,
+  record: {
+    id: 'run-1',
+    userId: 'user-1',
+    message: 'How risky is my portfolio?',
+    timeoutMs: 600_000,
+    steps: [
+      { id: 'metrics', agent: 'riskManager', task: 'Risk metrics', dependsOn: [] },
+      { id: 'macro', agent: 'economist', task: 'Macro risks', dependsOn: [] },
+      { id: 'hedging', agent: 'advisor', task: 'Hedges', dependsOn: ['metrics', 'macro'] },
+    ],
+  },
+})
+
+const executions: StepExecution[] = [
+  {
+    stepId: 'metrics',
+    stepIndex: 0,
+    agent: 'riskManager',
+    status: 'completed',
+    result: { agent: 'riskManager', task: 'Risk metrics', result: 'Beta 1.2', completedAt: startedAt },
+    startedAt,
+    completedAt: startedAt,
+  },
+  { stepId: 'macro', stepIndex: 1, agent: 'economist', status: 'running', startedAt },
+  { stepId: 'hedging', stepIndex: 2, agent: 'advisor', status: 'pending' },
+  { stepId: 'summary', stepIndex: 3, agent: 'summary', status: 'pending' },
+]
+
+describe('WorkflowRecoveryService', () => {
+  let service: WorkflowRecoveryService
+  let state: InternalStateManager
+
+  beforeEach(() => {
+    service = new WorkflowRecoveryService()
+    state = createState()
+    jest.spyOn(workflowExecutionService, 'getExecutions').mockResolvedValue(executions)
+    jest.spyOn(workflowExecutionService, 'updateRun').mockResolvedValue()
+    jest.spyOn(workflowExecutionService, 'restartStep').mockResolvedValue()
+    jest.spyOn(workflowExecutionService, 'abortRun').mockResolvedValue()
+  })
+
+  afterEach(() => jest.restoreAllMocks())
+
+  it('should rebuild a run missing from state and restart its interrupted step', async () => {
+    jest.spyOn(workflowExecutionService, 'getActiveRuns').mockResolvedValue([run()])
+
+    const [outcome] = await service.recover(state, options)
+
+    expect(outcome).toMatchObject({ action: 'resumed', userId: 'user-1' })
+    expect(outcome.action === 'resumed' && outcome.restart.map(({ step }) => step.id)).toEqual(['macro'])
+    expect(await state.get('workflows', 'run-1:result:0')).toMatchObject({ result: 'Beta 1.2' })
+    expect(workflowExecutionService.updateRun).toHaveBeenCalledWith('run-1', { recoveryAttempts: 1 })
+  })
+
+  it('should leave runs alone that are in state and still active', async () => {
+    jest.spyOn(workflowExecutionService, 'getActiveRuns').mockResolvedValue([run()])
+    await state.set('workflows', 'run-1', run().record)
+
+    expect(await service.recover(state, { ...options, now: Date.parse(startedAt) + 30_000 })).toEqual([])
+  })
+
+  it('should fail runs that were recovered too often', async () => {
+    jest.spyOn(workflowExecutionService, 'getActiveRuns').mockResolvedValue([run(2)])
+
+    const [outcome] = await service.recover(state, options)
+
+    expect(outcome.action).toBe('failed')
+    expect(await state.get('workflows', 'run-1')).toMatchObject({ status: 'failed' })
+    expect(workflowExecutionService.abortRun).toHaveBeenCalledWith('run-1', 'failed', 'Interrupted 3 times')
+  })
+
+  it('should leave a debate alone while it is within the run timeout', async () => {
+    const debate = run()
+    debate.record.steps[1] = { id: 'macro', type: 'debate', agent: 'debate', task: 'Debate macro risks', dependsOn: [] } as any
+    jest.spyOn(workflowExecutionService, 'getActiveRuns').mockResolvedValue([debate])
+    await state.set('workflows', 'run-1', debate.record)
+
+    // Six minutes without activity, well past staleAfterMs but not the 10 minute timeout
+    expect(await service.recover(state, { ...options, now: Date.parse(startedAt) + 6 * 60_000 })).toEqual([])
+  })
+
+  it('should fail runs interrupted in a step after an approval instead of running it again', async () => {
+    const gated = run()
+    gated.record.steps = [
+      { id: 'metrics', agent: 'riskManager', task: 'Risk metrics', dependsOn: [] },
+      { id: 'approve', type: 'approval', agent: 'approval', task: 'Place the orders', dependsOn: ['metrics'] } as any,
+      { id: 'execute', agent: 'trader', task: 'Place approved orders', dependsOn: ['approve'] },
+    ]
+    jest.spyOn(workflowExecutionService, 'getActiveRuns').mockResolvedValue([gated])
+    jest.spyOn(workflowExecutionService, 'getExecutions').mockResolvedValue([
+      executions[0],
+      { stepId: 'approve', stepIndex: 1, agent: 'approval', status: 'completed', startedAt, completedAt: startedAt },
+      { stepId: 'execute', stepIndex: 2, agent: 'trader', status: 'running', startedAt },
+    ])
+
+    const [outcome] = await service.recover(state, options)
+
+    expect(outcome.action).toBe('failed')
+    expect(workflowExecutionService.restartStep).not.toHaveBeenCalled()
+    expect(workflowExecutionService.abortRun).toHaveBeenCalledWith('run-1', 'failed', expect.stringContaining('"Place approved orders" acted on an approval'))
+  })
+})
@@ -0,0 +1,113 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { WorkflowRegistry } from '../services/workflow-registry.service'
+
+const definition = (overrides: Record<string, unknown> = {}) => ({
+  id: 'portfolioAnalysis',
+  version: 1,
+  name: 'Portfolio Analysis',
+  description: 'Portfolio review',
+  triggers: ['Analyze my portfolio'],
+  steps: [
+    { id: 'composition', agent: 'analyst', task: 'Analyze composition' },
+    { id: 'risk', agent: 'riskManager', task: 'Assess risks' },
+    { id: 'follow-up', agent: 'analyst', task: 'Check the risk findings' },
+  ],
+  ...overrides,
+})
+
+describe('WorkflowRegistry', () => {
+  let directory: string
+
+  const write = (file: string, content: unknown) =>
+    fs.writeFileSync(path.join(directory, file), typeof content === 'string' ? content : JSON.stringify(content))
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'workflows-'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+    jest.restoreAllMocks()
+  })
+
+  it('should load definitions with defaults and derived agents', () => {
+    write('portfolio-analysis.json', definition())
+    const registry = new WorkflowRegistry(directory, false)
+
+    const workflow = registry.get('portfolioAnalysis')
+    expect(workflow).toMatchObject({
+      version: 1,
+      triggers: ['analyze my portfolio'],
+      agents: ['analyst', 'riskManager'],
+      inputs: {},
+      output: { summary: true },
+      file: 'portfolio-analysis.json',
+    })
+    expect(workflow?.timeoutMs).toBeGreaterThan(0)
+  })
+
+  it('should reject step conditions that read steps which have not finished', () => {
+    write('a.json', definition({
+      steps: [
+        { id: 'composition', agent: 'analyst', task: 'Analyze composition', dependsOn: [] },
+        { id: 'risk', agent: 'riskManager', task: 'Assess risks', dependsOn: [], when: 'count(composition.risks) > 0' },
+        { id: 'hedges', agent: 'advisor', task: 'Hedge', dependsOn: ['risk'], when: 'has(risk.risks, "severity", "high")' },
+      ],
+    }))
+    const registry = new WorkflowRegistry(directory, false)
+
+    expect(registry.list()).toEqual([])
+    expect(registry.getErrors()[0].message).toContain('"composition" is not a step that finishes before this condition is checked')
+  })
+
+  it('should skip invalid and duplicate definitions without dropping the others', () => {
+    write('a.json', definition())
+    write('b.json', definition({ name: 'Copy' }))
+    write('c.json', definition({ id: 'badAgent', steps: [{ id: 'x', agent: 'astrologer', task: 'Read the stars' }] }))
+    write('d.json', '{ not json')
+    const registry = new WorkflowRegistry(directory, false)
+
+    expect(registry.list().map(w => w.id)).toEqual(['portfolioAnalysis'])
+    expect(registry.get('portfolioAnalysis')?.name).toBe('Portfolio Analysis')
+    expect(registry.getErrors().map(e => e.file)).toEqual(['b.json', 'c.json', 'd.json'])
+  })
+
+  it('should keep the last valid version when a reload finds a broken file', () => {
+    write('portfolio-analysis.json', definition())
+    const registry = new WorkflowRegistry(directory, false)
+    expect(registry.get('portfolioAnalysis')?.version).toBe(1)
+
+    write('portfolio-analysis.json', definition({ version: 2, steps: [] }))
+    registry.load()
+    expect(registry.get('portfolioAnalysis')?.version).toBe(1)
+
+    write('portfolio-analysis.json', definition({ version: 2 }))
+    registry.load()
+    expect(registry.get('portfolioAnalysis')?.version).toBe(2)
+  })
+
+  it('should reject tasks using undeclared inputs and prefetching without symbols', () => {
+    write('a.json', definition({
+      inputs: { timeframe: { type: 'string', description: 'Timeframe' } },
+      prefetch: ['quote'],
+      steps: [{ id: 'composition', agent: 'analyst', task: 'Analyze {{symbols}} on a {{timeframe}} timeframe' }],
+    }))
+    const registry = new WorkflowRegistry(directory, false)
+
+    expect(registry.get('portfolioAnalysis')).toBeUndefined()
+    expect(registry.getErrors()[0].message).toContain('Task uses undeclared inputs: symbols')
+    expect(registry.getErrors()[0].message).toContain('Prefetching market data needs a "symbols" input of type string[]')
+  })
+
+  it('should validate the bundled definitions', () => {
+    const registry = new WorkflowRegistry(path.join(__dirname, '..', 'workflows'), false)
+
+    expect(registry.getErrors()).toEqual([])
+    expect(registry.list().map(w => w.id).sort()).toEqual([
+      'investmentResearch', 'marketDebate', 'marketOpportunity', 'portfolioAnalysis', 'portfolioRebalance', 'riskAssessment',
+    ])
+  })
+})
@@ -0,0 +1,91 @@
+jest.mock('../services/supabase-admin', () => ({ getSupabaseAdmin: () => null }))
+
+import { WorkflowReportService, parseMarkdown, type WorkflowReportSource } from '../services/workflow-report.service'
+
+const now = new Date('2026-10-19T14:00:00Z')
+
+const source: WorkflowReportSource = {
+  workflowId: 'riskAssessment-trace-1',
+  name: 'Risk Assessment',
+  query: 'How risky is my <tech> portfolio?',
+  status: 'completed',
+  results: [
+    {
+      agent: 'riskManager',
+      task: 'Assess portfolio risk',
+      result: '',
+      output: {
+        summary: 'Concentration in tech is the **main** risk.',
+        metrics: [{ label: 'Beta', value: 1.3, unit: 'ratio' }],
+        recommendations: [{ action: 'Trim NVDA', rationale: 'Overweight', confidence: 0.8 }],
+        risks: [{ title: 'Concentration', severity: 'high', description: '60% in one sector' }],
+        stressTests: [
+          { scenario: '2008 crash', impactPct: -35 },
+          { scenario: 'Rate cut rally', impactPct: 8 },
+        ],
+      },
+      completedAt: '2026-10-19T13:59:00Z',
+    },
+    { agent: 'economist', task: 'Macro outlook', result: '', skipped: { error: 'Timed out after 120000ms' } },
+  ],
+  summary: '## Key Findings\n\n- Trim tech\n- Add bonds\n\n| Action | Priority |\n| --- | --- |\n| Trim NVDA | High |',
+}
+
+describe('WorkflowReportService', () => {
+  const service = new WorkflowReportService()
+
+  it('should parse summary markdown into blocks', () => {
+    expect(parseMarkdown(source.summary as string)).toEqual([
+      { type: 'heading', level: 2, text: 'Key Findings' },
+      { type: 'list', ordered: false, items: ['Trim tech', 'Add bonds'] },
+      { type: 'table', columns: ['Action', 'Priority'], rows: [['Trim NVDA', 'High']] },
+    ])
+  })
+
+  it('should render structured outputs as tables and charts', () => {
+    const report = service.build(source, now)
+    expect(report.sections.map(section => [section.title, section.status])).toEqual([
+      ['Risk Assessment', 'completed'],
+      ['Macroeconomic Analysis', 'skipped'],
+    ])
+    expect(report.sections[0].blocks).toContainEqual({
+      type: 'chart',
+      title: 'Stress test impact',
+      unit: '%',
+      bars: [{ label: '2008 crash', value: -35 }, { label: 'Rate cut rally', value: 8 }],
+    })
+
+    const markdown = service.render(report, 'md')
+    expect(markdown.filename).toBe('risk-assessment-2026-10-19.md')
+    expect(markdown.content).toContain('| Concentration | High | 60% in one sector |  |')
+    expect(markdown.content).toContain('_Timed out after 120000ms_')
+
+    const html = service.render(report, 'html').content as string
+    expect(html).toContain('How risky is my &lt;tech&gt; portfolio?')
+    expect(html).toContain('Concentration in tech is the <strong>main</strong> risk.')
+    expect(html).toContain('<svg role="img" aria-label="Stress test impact"')
+  })
+
+  it('should write a PDF without any network access', () => {
+    const pdf = service.render(service.build(source, now), 'pdf')
+    const content = (pdf.content as Buffer).toString('latin1')
+
+    expect(pdf.contentType).toBe('application/pdf')
+    expect(content.startsWith('%PDF-1.4')).toBe(true)
+    expect(content).toContain('(Trim NVDA)')
+    expect(content.trimEnd().endsWith('%%EOF')).toBe(true)
+  })
+
+  it('should load runs from state only for their owner', async () => {
+    const stored = new Map<string, unknown>([
+      ['wf-1', { workflowId: 'riskAssessment', userId: 'user-1', message: 'Assess my risk', steps: [{ agent: 'riskManager', task: 'Assess' }] }],
+      ['wf-1:result:0', source.results[0]],
+    ])
+    const state = { get: jest.fn(async (_group: string, key: string) => stored.get(key) ?? null) } as any
+
+    const loaded = await service.load(state, 'wf-1', 'user-1')
+    expect(loaded.query).toBe('Assess my risk')
+    expect(loaded.results).toEqual([source.results[0]])
+    await expect(service.load(state, 'wf-2')).rejects.toMatchObject({ message: 'Workflow not found: wf-2' })
+  })
+})
@@ -0,0 +1,105 @@
+import { planScheduleRun, WorkflowScheduleService } from '../services/workflow-schedule.service'
+
+let mockDb: any = null
+jest.mock('../services/supabase-admin', () => ({ getSupabaseAdmin: () => mockDb }))
+
+const HOUR = 60 * 60 * 1000
+
+describe('planScheduleRun', () => {
+  it('should run a due schedule once and move to the next occurrence', () => {
+    const plan = planScheduleRun(
+      { cron: '0 7 * * MON', timezone: 'America/New_York', nextRunAt: '2026-10-26T11:00:00.000Z' },
+      new Date('2026-10-26T11:00:30Z'),
+      12 * HOUR
+    )
+
+    expect(plan).toEqual({
+      scheduledFor: new Date('2026-10-26T11:00:00Z'),
+      mergedRuns: 0,
+      dropped: false,
+      nextRunAt: new Date('2026-11-02T12:00:00Z'),
+    })
+  })
+
+  it('should merge runs missed during downtime into the latest and drop ones outside the window', () => {
+    // Down from midnight to 15:30: only 04:00 to 15:00 are inside the 12 hour window
+    const plan = planScheduleRun(
+      { cron: '0 * * * *', timezone: 'UTC', nextRunAt: '2026-10-19T00:00:00.000Z' },
+      new Date('2026-10-19T15:30:00Z'),
+      12 * HOUR
+    )
+
+    expect(plan).toEqual({
+      scheduledFor: new Date('2026-10-19T15:00:00Z'),
+      mergedRuns: 11,
+      dropped: true,
+      nextRunAt: new Date('2026-10-19T16:00:00Z'),
+    })
+  })
+
+  it('should skip a schedule whose every missed run is too old', () => {
+    const plan = planScheduleRun(
+      { cron: '0 7 * * *', timezone: 'UTC', nextRunAt: '2026-10-10T07:00:00.000Z' },
+      new Date('2026-10-19T06:00:00Z'),
+      12 * HOUR
+    )
+
+    expect(plan.scheduledFor).toBeUndefined()
+    expect(plan.dropped).toBe(true)
+    expect(plan.nextRunAt).toEqual(new Date('2026-10-19T07:00:00Z'))
+  })
+})
+
+describe('WorkflowScheduleService', () => {
+  const service = new WorkflowScheduleService()
+  const save = (input: Record<string, unknown>) =>
+    service.save('user-1', { workflowKey: 'portfolioAnalysis', cron: '0 7 * * MON', ...input })
+
+  afterEach(() => { mockDb = null })
+
+  it('should keep a disabled schedule disabled when an update leaves enabled out', async () => {
+    const updates: any[] = []
+    const query: any = {
+      select: () => query,
+      eq: () => query,
+      update: (row: any) => { updates.push(row); return query },
+      maybeSingle: async () => updates.length
+        ? { data: { ...updates[0], id: 'schedule-1', created_at: '', updated_at: '' }, error: null }
+        : { data: { enabled: false }, error: null },
+    }
+    mockDb = { from: () => query }
+
+    const schedule = await save({ id: 'schedule-1', cron: '0 8 * * MON' })
+
+    expect(updates[0]).toMatchObject({ enabled: false, next_run_at: null })
+    expect(schedule.enabled).toBe(false)
+  })
+
+  it('should only send reports to the account\'s confirmed address', async () => {
+    const query: any = {
+      insert: (row: any) => ({ select: () => ({ single: async () => ({ data: { ...row, id: 'schedule-1' }, error: null }) }) }),
+      select: () => query,
+      eq: async () => ({ count: 0, error: null }),
+    }
+    const account = { email: 'Owner@example.com', email_confirmed_at: '2026-01-01T00:00:00Z' }
+    mockDb = {
+      from: () => query,
+      auth: { admin: { getUserById: async () => ({ data: { user: account }, error: null }) } },
+    }
+
+    await expect(save({ email: 'someone@example.com' })).rejects.toThrow('confirmed email address of your account')
+    expect((await save({ email: 'owner@example.com' })).email).toBe('Owner@example.com')
+
+    account.email_confirmed_at = ''
+    await expect(save({ email: 'owner@example.com' })).rejects.toThrow('confirmed email address')
+  })
+
+  it('should validate the workflow, expression, timezone and frequency before saving', async () => {
+    await expect(save({ workflowKey: 'nope' })).rejects.toThrow('Unknown workflow: nope')
+    await expect(save({ cron: '0 25 * * *' })).rejects.toThrow('Invalid hour "25"')
+    await expect(save({ timezone: 'Mars/Olympus' })).rejects.toThrow('Unknown timezone: Mars/Olympus')
+    await expect(save({ cron: '0 0 30 2 *' })).rejects.toThrow('never runs')
+    await expect(save({ cron: '*/30 * * * *' })).rejects.toThrow('at most once every 60 minutes')
+    await expect(save({ timezone: 'Europe/Berlin' })).rejects.toThrow('Workflow schedules require Supabase')
+  })
+})
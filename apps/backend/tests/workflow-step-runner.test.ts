@@ -0,0 +1,74 @@
+import { ErrorCode, errorService } from '../services/error.service'
+import { getBackoffDelay, getStepPolicy, runStep, type StepPolicy } from '../services/workflow-step-runner'
+
+const policy: StepPolicy = { timeoutMs: 50, maxRetries: 2, retryBackoffMs: 1 }
+
+describe('runStep', () => {
+  it('should retry failed attempts with doubling backoff', async () => {
+    const attempt = jest.fn()
+      .mockRejectedValueOnce(new Error('Provider error'))
+      .mockRejectedValueOnce(new Error('Provider error'))
+      .mockResolvedValueOnce('analysis')
+    const onRetry = jest.fn()
+
+    const outcome = await runStep(attempt, policy, { onRetry })
+
+    expect(outcome).toEqual({ status: 'completed', value: 'analysis', attempts: 3 })
+    expect(onRetry.mock.calls.map(([failure]) => [failure.attempt, failure.delayMs])).toEqual([[1, 1], [2, 2]])
+    expect(getBackoffDelay({ retryBackoffMs: 1000 }, 10)).toBe(30_000)
+  })
+
+  it('should time out attempts and skip the step when allowed', async () => {
+    const never = () => new Promise<string>(() => {})
+
+    const outcome = await runStep(never, { ...policy, maxRetries: 1, fallback: { type: 'skip', note: 'Continuing without macro' } })
+
+    expect(outcome).toEqual({
+      status: 'skipped',
+      attempts: 2,
+      error: 'Failed after 2 attempts: Timed out after 50ms',
+      note: 'Continuing without macro',
+    })
+  })
+
+  it('should abort a timed-out attempt before the retry starts', async () => {
+    const signals: AbortSignal[] = []
+    const attempt = jest.fn((_route: unknown, signal: AbortSignal) => {
+      signals.push(signal)
+      return signals.length === 1 ? new Promise<string>(() => {}) : Promise.resolve(`retry saw aborted=${signals[0].aborted}`)
+    })
+
+    const outcome = await runStep(attempt, policy)
+
+    expect(outcome).toMatchObject({ status: 'completed', value: 'retry saw aborted=true', attempts: 2 })
+    expect(signals[0].reason).toEqual(new Error('Timed out after 50ms'))
+    expect(signals[1].aborted).toBe(false)
+  })
+
+  it('should make one last attempt on the fallback model', async () => {
+    const attempt = jest.fn(async (route: { provider?: string }) => {
+      if (!route.provider) throw new Error('Provider error')
+      return `answer from ${route.provider}`
+    })
+
+    const outcome = await runStep(attempt, { ...policy, fallback: { type: 'model', provider: 'anthropic' } })
+
+    expect(outcome).toMatchObject({ status: 'completed', value: 'answer from anthropic', attempts: 4, fallback: { provider: 'anthropic' } })
+  })
+
+  it('should not retry errors a retry cannot fix', async () => {
+    const attempt = jest.fn().mockRejectedValue(errorService.createError(ErrorCode.BUDGET_EXCEEDED, 'Monthly budget exceeded'))
+
+    await expect(runStep(attempt, policy)).rejects.toThrow('Failed after 1 attempt: Monthly budget exceeded')
+    expect(attempt).toHaveBeenCalledTimes(1)
+  })
+
+  it('should run steps after an approval once, whatever their definition says', async () => {
+    const attempt = jest.fn().mockRejectedValue(new Error('Broker unavailable'))
+    const gated = getStepPolicy({ maxRetries: 3, fallback: { type: 'skip' } }, { approvalGated: true })
+
+    expect(gated).toMatchObject({ maxRetries: 0, fallback: undefined })
+    await expect(runStep(attempt, gated)).rejects.toThrow('Failed after 1 attempt: Broker unavailable')
+    expect(attempt).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,79 @@
+jest.mock('../services/supabase-admin', () => ({ getSupabaseAdmin: () => null }))
+
+import { WorkflowTelemetryService, type WorkflowStats } from '../services/workflow-telemetry.service'
+import type { GraphStep } from '../services/workflow-graph'
+
+// Analyst and economist run in parallel, the advisor after both
+const steps: GraphStep[] = [
+  { id: 'analysis', agent: 'analyst', task: 'Analyze', dependsOn: [] },
+  { id: 'macro', agent: 'economist', task: 'Macro outlook', dependsOn: [] },
+  { id: 'advice', agent: 'advisor', task: 'Advise', dependsOn: ['analysis', 'macro'] },
+]
+
+describe('WorkflowTelemetryService', () => {
+  const now = Date.UTC(2026, 9, 19, 12)
+  let service: WorkflowTelemetryService
+
+  beforeEach(() => {
+    service = new WorkflowTelemetryService(() => now)
+  })
+
+  it('should estimate from step history, then agent history, then per-call defaults', () => {
+    const stats: WorkflowStats = {
+      steps: new Map([['analysis', { samples: 5, durationMs: { p50: 10000, p90: 20000 }, costUsd: { p50: 0.01, p90: 0.02 }, tokens: 4000 }]]),
+      agents: new Map([
+        ['economist', { samples: 4, durationMs: { p50: 30000, p90: 50000 }, costUsd: { p50: 0.02, p90: 0.03 }, tokens: 5000 }],
+        // Too few runs to go by
+        ['advisor', { samples: 1, durationMs: { p50: 1000, p90: 1000 }, costUsd: { p50: 1, p90: 1 }, tokens: 100 }],
+      ]),
+    }
+
+    const estimate = service.estimate(steps, stats)
+
+    expect(estimate.steps.map(step => [step.stepId, step.source])).toEqual([
+      ['analysis', 'workflow'],
+      ['macro', 'agent'],
+      ['advice', 'default'],
+      ['summary', 'default'],
+    ])
+    // The economist's 30s is the longer branch; advisor and summary take 15s each by default
+    expect(estimate.durationMs).toEqual({ p50: 60000, p90: 110000 })
+    // One default call is 3000 prompt and 800 completion tokens on llama-3.3-70b
+    expect(estimate.costUsd).toEqual({ p50: 0.034804, p90: 0.059608 })
+    expect(estimate.source).toBe('partial')
+    expect(service.estimate(steps, stats, { summary: false }).durationMs).toEqual({ p50: 45000, p90: 80000 })
+  })
+
+  it('should record step usage and update run estimates as steps finish', async () => {
+    const stored = new Map<string, unknown>([
+      ['wf-1', { workflowId: 'portfolioAnalysis', startedAt: new Date(now - 40000).toISOString(), steps }],
+      ['wf-1:step:1', { status: 'processing', startedAt: new Date(now - 35000).toISOString() }],
+    ])
+    const state = {
+      get: jest.fn(async (_group: string, key: string) => stored.get(key) ?? null),
+      set: jest.fn(async (_group: string, key: string, value: unknown) => { stored.set(key, value) }),
+    } as any
+    const usage = { promptTokens: 1000, completionTokens: 200, totalTokens: 1200 }
+
+    service.track({ workflowId: 'wf-1', stepId: 'analysis', feature: 'agent' }, { provider: 'groq', model: 'llama', usage, costUsd: 0.01 })
+    service.track({ workflowId: 'wf-1', stepId: 'analysis', feature: 'agent' }, { provider: 'openai', model: 'gpt-4o', usage, costUsd: 0.005 })
+    service.track({ feature: 'chat' }, { provider: 'groq', model: 'llama', usage, costUsd: 1 })
+
+    const telemetry = await service.recordStep(state, {
+      workflowId: 'wf-1',
+      workflowKey: 'portfolioAnalysis',
+      stepId: 'analysis',
+      agent: 'analyst',
+      status: 'completed',
+      durationMs: 12000,
+    })
+    expect(telemetry).toMatchObject({ llmCalls: 2, promptTokens: 2000, completionTokens: 400, costUsd: 0.015, provider: 'openai', model: 'gpt-4o' })
+
+    const estimate = await service.estimateRun(state, 'wf-1')
+    expect(estimate?.steps[0]).toMatchObject({ durationMs: { p50: 12000, p90: 12000 }, actual: true })
+    // The economist has been running for 35s, longer than its default estimate
+    expect(estimate?.durationMs).toEqual({ p50: 65000, p90: 95000 })
+    expect(estimate?.remainingMs).toEqual({ p50: 25000, p90: 55000 })
+    expect(estimate?.spentUsd).toBe(0.015)
+  })
+})
@@ -12,32 +12,66 @@ declare module 'motia' {
   }
 
   interface Handlers {
-    'WorkflowWSRelay': EventHandler<{ workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string }, never>
-    'WorkflowTriggerHandler': EventHandler<{ workflowId: string; userId: string; message: string; context?: { symbols?: string[]; timeframe?: string; riskTolerance?: string }; agents: string[] }, { topic: 'workflow.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string } } | { topic: 'workflow.agent.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex: number; agent: string; task: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string } }>
+    'WorkflowWSRelay': EventHandler<{ workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string }, never>
+    'WorkflowTriggerHandler': EventHandler<{ workflowId: string; workflowKey?: string; userId: string; message: string; context?: Record<string, unknown>; agents: string[] }, { topic: 'workflow.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.agent.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex: number; agent: string; task: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } }>
     'WorkflowStream': ApiRouteHandler<Record<string, unknown>, unknown, never>
     'WorkflowStreamBroadcaster': EventHandler<{ workflowId?: string; userId?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string }, never>
     'WorkflowStatus': ApiRouteHandler<Record<string, unknown>, unknown, never>
     'WorkflowSSERelay': EventHandler<{ workflowId: string; stepIndex: number; agent: string; task: string }, never>
+    'WorkflowScheduler': CronHandler<{ topic: 'workflow.schedule.triggered'; data: { scheduleId: string; userId: string; workflowKey: string; name?: string; message: string; context?: Record<string, unknown>; email?: string; scheduledFor: string; mergedRuns: number } }>
     'WorkflowResult': ApiRouteHandler<Record<string, unknown>, unknown, never>
-    'WorkflowOrchestrator': ApiRouteHandler<{ message: string; userId: string; context?: { symbols?: string[]; timeframe?: string; riskTolerance?: 'conservative' | 'moderate' | 'aggressive' } }, unknown, { topic: 'workflow.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string } } | { topic: 'workflow.agent.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex: number; agent: string; task: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string } } | { topic: 'workflow.agent.completed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string } } | { topic: 'workflow.completed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string } }>
+    'WorkflowRecovery': CronHandler<{ topic: 'workflow.agent.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex: number; agent: string; task: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.finalize'; data: { workflowId: string } } | { topic: 'workflow.status.changed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string; summary?: string } }>
+    'WorkflowOrchestrator': ApiRouteHandler<{ message: string; userId: string; workflowId?: string; context?: Record<string, unknown> }, unknown, { topic: 'workflow.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.agent.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex: number; agent: string; task: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.agent.completed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.completed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string; summary?: string } }>
+    'WorkflowFinalizer': EventHandler<{ workflowId: string }, { topic: 'workflow.completed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string; summary?: string } }>
+    'WorkflowApprovalTimeout': CronHandler<{ topic: 'workflow.approval.decided'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.status.changed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string; summary?: string } } | { topic: 'workflow.agent.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex: number; agent: string; task: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.finalize'; data: { workflowId: string } }>
+    'UpdateLLMBudget': ApiRouteHandler<{ userId: string; dailyLimitUsd?: number; monthlyLimitUsd?: number; onExceeded?: 'reject' | 'downgrade' }, unknown, never>
+    'UpdateMemory': ApiRouteHandler<{ userId: string; text?: string; category?: 'goal' | 'risk_tolerance' | 'holding' | 'preference'; key?: string }, unknown, never>
     'GetTradingViewChart': ApiRouteHandler<{ symbol: string; theme?: 'light' | 'dark'; height?: number; interval?: string; showToolbar?: boolean; allowSymbolChange?: boolean; studies?: string[]; embedType?: 'iframe' | 'widget' | 'config' }, unknown, { topic: 'chart.requested'; data: unknown }>
     'GetSymbolChartResponse': ApiRouteHandler<{ query: string; preferences?: { theme?: 'light' | 'dark'; defaultInterval?: string; preferredIndicators?: string[] } }, unknown, never>
-    'StateAuditJob': CronHandler<{ topic: 'notification'; data: { templateId: string; email: string; templateData: Record<string, unknown> } }>
+    'StartScheduledWorkflow': EventHandler<{ scheduleId: string; userId: string; workflowKey: string; name?: string; message: string; context?: Record<string, unknown>; email?: string; scheduledFor: string; mergedRuns: number }, { topic: 'workflow.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.agent.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex: number; agent: string; task: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } }>
     'SSEBroadcaster': EventHandler<{ workflowId?: string; userId?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string }, never>
+    'ScheduledWorkflowReport': EventHandler<{ workflowId: string; type?: string; status?: string; message?: string; summary?: string; results?: unknown }, { topic: 'notification'; data: { templateId: string; email: string; templateData: Record<string, unknown> } }>
+    'SaveWorkflowSchedule': ApiRouteHandler<{ userId: string; id?: string; workflowKey: string; name?: string; cron: string; timezone?: string; message?: string; context?: Record<string, unknown>; email?: string; enabled?: boolean }, unknown, never>
+    'SavePersona': ApiRouteHandler<{ userId: string; id?: string; name: string; description?: string; baseAssistantType?: 'general' | 'analyst' | 'trader' | 'advisor' | 'riskManager' | 'economist'; instructions: string; variables?: { riskTolerance?: string; timeframe?: string; symbols?: string[] } }, unknown, never>
     'SaveChatMessage': ApiRouteHandler<{ sessionId: string; role: 'user' | 'assistant' | 'system'; content: string; threadId?: string; parentMessageId?: string; metadata?: { provider?: string; model?: string; tokens?: number; assistantType?: string; workflowId?: string } }, unknown, never>
+    'RollbackPrompt': ApiRouteHandler<{ version: number; userId?: string }, unknown, never>
+    'RetryWorkflowStep': ApiRouteHandler<{ userId: string; reason?: string }, unknown, { topic: 'workflow.status.changed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string; summary?: string } } | { topic: 'workflow.agent.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex: number; agent: string; task: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } }>
+    'ResumeWorkflow': ApiRouteHandler<{ userId: string; reason?: string }, unknown, { topic: 'workflow.status.changed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string; summary?: string } } | { topic: 'workflow.agent.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex: number; agent: string; task: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } }>
     'QuickChart': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'PublishPromptVersion': ApiRouteHandler<{ template: string; description?: string; userId?: string }, unknown, never>
     'ProcessFoodOrder': EventHandler<{ email: string; quantity: number; petId: number }, { topic: 'notification'; data: { templateId: string; email: string; templateData: Record<string, unknown> } }>
     'ProcessChartRequest': EventHandler<unknown, never>
+    'PreviewPrompt': ApiRouteHandler<{ variables?: Record<string, unknown>; version?: number }, unknown, never>
     'CreatePlaidLinkToken': ApiRouteHandler<{ userId: string }, unknown, never>
     'ExchangePlaidToken': ApiRouteHandler<{ publicToken: string; userId: string; institution?: unknown; accounts?: unknown[] }, unknown, never>
+    'PauseWorkflow': ApiRouteHandler<{ userId: string; reason?: string }, unknown, { topic: 'workflow.status.changed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string; summary?: string } }>
     'Notification': EventHandler<{ templateId: string; email: string; templateData: Record<string, unknown> }, never>
     'GetMarketData': ApiRouteHandler<{ symbol: string; dataType: 'quote' | 'historical' | 'options' | 'sentiment' | 'news'; timeframe?: string; startDate?: string; endDate?: string }, unknown, never>
+    'ListWorkflows': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'ListWorkflowSchedules': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'ListWorkflowRuns': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'ListPromptVersions': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'ListPromptTemplates': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'ListPersonas': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'ListMemories': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'LabelIntentDecision': ApiRouteHandler<{ userId: string; label: string }, unknown, never>
     'HealthCheck': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'GetWorkflowRun': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'GetLLMUsage': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'ForgetMemories': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'ExtractMemories': EventHandler<{ userId: string; message: string; sessionId?: string }, never>
+    'ExportWorkflow': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'DeleteWorkflowSchedule': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'DeletePersona': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'DeleteMemory': ApiRouteHandler<Record<string, unknown>, unknown, never>
+    'DecideWorkflowApproval': ApiRouteHandler<{ userId: string; decision: 'approve' | 'reject' | 'edit'; changes?: string; orders?: { symbol: string; side: 'buy' | 'sell'; quantity: number; orderType: 'market' | 'limit' | 'stop' | 'stop_limit'; limitPrice?: number; stopPrice?: number }[]; comment?: string }, unknown, { topic: 'workflow.approval.decided'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.status.changed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string; summary?: string } } | { topic: 'workflow.agent.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex: number; agent: string; task: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.finalize'; data: { workflowId: string } }>
     'CreateChatSession': ApiRouteHandler<{ userId: string; assistantType?: 'general' | 'analyst' | 'trader' | 'advisor' | 'riskManager' | 'economist'; initialMessage?: string }, unknown, never>
-    'ChatWithAgent': ApiRouteHandler<{ message: string; assistantType: 'general' | 'analyst' | 'trader' | 'advisor' | 'riskManager' | 'economist'; userId: string; sessionId?: string; symbols?: string[] }, unknown, { topic: 'chart.requested'; data: unknown }>
-    'ChatStream': ApiRouteHandler<{ message: string; assistantType?: 'general' | 'analyst' | 'trader' | 'advisor' | 'riskManager' | 'economist'; userId: string; context?: { symbols?: string[]; timeframe?: string; riskTolerance?: string } }, unknown, { topic: 'workflow.trigger'; data: { workflowId: string; userId: string; message: string; context?: { symbols?: string[]; timeframe?: string; riskTolerance?: string }; agents: string[] } } | { topic: 'chart.requested'; data: unknown }>
-    'ChatStreamWS': ApiRouteHandler<{ message: string; assistantType?: 'general' | 'analyst' | 'trader' | 'advisor' | 'riskManager' | 'economist'; userId: string; streamId?: string; context?: { symbols?: string[]; timeframe?: string; riskTolerance?: string } }, unknown, { topic: 'workflow.trigger'; data: { workflowId: string; userId: string; message: string; context?: { symbols?: string[]; timeframe?: string; riskTolerance?: string }; agents: string[] } }>
+    'ClassifyIntent': ApiRouteHandler<{ message: string; userId: string }, unknown, never>
+    'ChatWithAgent': ApiRouteHandler<{ message: string; assistantType: 'general' | 'analyst' | 'trader' | 'advisor' | 'riskManager' | 'economist'; userId: string; sessionId?: string; personaId?: string; symbols?: string[]; timeframe?: string; riskTolerance?: string }, unknown, { topic: 'chart.requested'; data: unknown } | { topic: 'memory.extract'; data: { userId: string; message: string; sessionId?: string } }>
+    'ChatStream': ApiRouteHandler<{ message: string; assistantType?: 'general' | 'analyst' | 'trader' | 'advisor' | 'riskManager' | 'economist'; userId: string; routed?: boolean; context?: { symbols?: string[]; timeframe?: string; riskTolerance?: string } }, unknown, { topic: 'workflow.trigger'; data: { workflowId: string; workflowKey?: string; userId: string; message: string; context?: Record<string, unknown>; agents: string[] } } | { topic: 'chart.requested'; data: unknown } | { topic: 'memory.extract'; data: { userId: string; message: string; sessionId?: string } }>
+    'ChatStreamWS': ApiRouteHandler<{ message: string; assistantType?: 'general' | 'analyst' | 'trader' | 'advisor' | 'riskManager' | 'economist'; userId: string; streamId?: string; personaId?: string; context?: { symbols?: string[]; timeframe?: string; riskTolerance?: string } }, unknown, { topic: 'workflow.trigger'; data: { workflowId: string; workflowKey?: string; userId: string; message: string; context?: Record<string, unknown>; agents: string[] } } | { topic: 'memory.extract'; data: { userId: string; message: string; sessionId?: string } }>
+    'CancelWorkflow': ApiRouteHandler<{ userId: string; reason?: string }, unknown, { topic: 'workflow.status.changed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string; summary?: string } }>
     'ApiTrigger': ApiRouteHandler<{ pet: { name: string; photoUrl: string }; foodOrder?: { id: string; quantity: number } }, ApiResponse<200, { id: number; name: string; photoUrl: string }>, { topic: 'process-food-order'; data: { email: string; quantity: number; petId: number } }>
-    'AgentExecutor': EventHandler<{ workflowId: string; stepIndex: number; agent: string; task: string }, { topic: 'workflow.agent.completed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string } } | { topic: 'workflow.agent.progress'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string } } | { topic: 'workflow.completed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string } } | { topic: 'workflow.agent.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex: number; agent: string; task: string; data?: unknown; results?: unknown; message?: string; progress?: number; error?: string; timestamp?: string } }>
+    'AgentExecutor': EventHandler<{ workflowId: string; stepIndex: number; agent: string; task: string }, { topic: 'workflow.agent.completed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.agent.progress'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.finalize'; data: { workflowId: string } } | { topic: 'workflow.agent.started'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex: number; agent: string; task: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } } | { topic: 'workflow.status.changed'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string; summary?: string } } | { topic: 'workflow.approval.requested'; data: { workflowId: string; userId?: string; streamKey?: string; type?: string; stepIndex?: number; agent?: string; task?: string; data?: unknown; results?: unknown; message?: string; progress?: number; kind?: string; error?: string; status?: string; previousStatus?: string; timestamp?: string } }>
   }
 }
\ No newline at end of file
@@ -1,78 +1,30 @@
 import { NextResponse } from 'next/server';
 
-// Workflow definitions with trigger patterns (matching backend)
-const workflows = {
-  portfolioAnalysis: {
-    name: 'Portfolio Analysis',
-    triggers: [
-      'analyze my portfolio',
-      'review my investments',
-      'portfolio performance',
-      'how are my investments doing',
-      'portfolio health check',
-    ],
-  },
-  marketOpportunity: {
-    name: 'Market Opportunity Scanner',
-    triggers: [
-      'find trading opportunities',
-      'what should i buy',
-      'market opportunities',
-      'best stocks to trade',
-      'trading ideas',
-    ],
-  },
-  riskAssessment: {
-    name: 'Risk Assessment',
-    triggers: [
-      'assess my risk',
-      'portfolio risk',
-      'am i too exposed',
-      'hedge my portfolio',
-      'protect my investments',
-    ],
-  },
-  investmentResearch: {
-    name: 'Investment Research',
-    triggers: [
-      'research',
-      'tell me about',
-      'should i invest in',
-      'analyze this stock',
-      'deep dive',
-    ],
-  },
-  marketDebate: {
-    name: 'Market Debate',
-    triggers: [
-      'market debate',
-      'bull vs bear',
-      'market outlook',
-      'where is the market heading',
-      'recession coming',
-    ],
-  },
-};
+const backendUrl = () => process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
 
-// Function to detect workflow from user message
-function detectWorkflow(message: string): boolean {
-  const lowerMessage = message.toLowerCase();
-  
-  // Check each workflow's triggers
-  for (const workflow of Object.values(workflows)) {
-    for (const trigger of workflow.triggers) {
-      if (lowerMessage.includes(trigger)) {
-        return true;
-      }
-    }
-  }
-  
-  // Check for explicit workflow requests
-  if (lowerMessage.includes('workflow') || lowerMessage.includes('multi-agent')) {
-    return true;
+// The backend's intent router decides between starting a workflow and answering in chat
+interface IntentDecision {
+  route: 'workflow' | 'chat';
+  workflowId?: string;
+  assistantType: string;
+  confidence: number;
+  decisionId?: string;
+}
+
+async function classifyIntent(message: string, userId: string): Promise<IntentDecision | null> {
+  try {
+    const response = await fetch(`${backendUrl()}/api/intent/classify`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message, userId }),
+    });
+    if (!response.ok) throw new Error(`Backend returned ${response.status}`);
+    return await response.json();
+  } catch (error) {
+    // Answer in chat with the selected assistant while the router is unreachable
+    console.error('Failed to classify message:', error);
+    return null;
   }
-  
-  return false;
 }
 
 export async function POST(request: Request) {
@@ -84,29 +36,37 @@ export async function POST(request: Request) {
     console.log('Backend URL:', process.env.NEXT_PUBLIC_API_URL);
     
     // Detect if this should trigger a workflow
-    const isWorkflow = detectWorkflow(body.message);
+    const decision = await classifyIntent(body.message, body.userId);
+    const isWorkflow = decision?.route === 'workflow';
     
     // Choose the appropriate endpoint
-    const backendUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
     const endpoint = isWorkflow ? '/api/workflow/trigger' : '/api/chat/stream';
     
-    console.log(`Routing to ${endpoint} - Workflow detected: ${isWorkflow}`);
+    console.log(`Routing to ${endpoint} - Workflow detected: ${isWorkflow} (confidence ${decision?.confidence ?? 'n/a'})`);
     
-    // Prepare the request body based on endpoint
+    // Prepare the request body based on endpoint; the backend does not route the message again
     const requestBody = isWorkflow 
       ? {
           message: body.message,
           userId: body.userId,
+          workflowId: decision?.workflowId,
           context: {
             symbols: body.symbols || [],
             timeframe: body.timeframe || '1d',
             riskTolerance: body.riskTolerance || 'moderate',
           }
         }
-      : body;
+      : {
+          ...body,
+          routed: !!decision,
+          // The general assistant hands questions to the specialist they match best
+          assistantType: !body.assistantType || body.assistantType === 'general'
+            ? decision?.assistantType || body.assistantType
+            : body.assistantType,
+        };
     
     // Forward to backend
-    const response = await fetch(`${backendUrl}${endpoint}`, {
+    const response = await fetch(`${backendUrl()}${endpoint}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -121,18 +81,21 @@ export async function POST(request: Request) {
     }
     
     const data = await response.json();
+    // The backend did not route the message itself, so only the classification can be labeled later
+    const decisionId = decision?.decisionId;
     
     // If workflow was triggered, add metadata for the frontend
     if (isWorkflow && data.triggered) {
       return NextResponse.json({
         ...data,
+        decisionId,
         isWorkflow: true,
         workflowType: data.workflow?.name,
       });
     }
     
     // Pass through all fields including chart data
-    return NextResponse.json(data);
+    return NextResponse.json({ ...data, decisionId });
   } catch (error) {
     console.error('Proxy error:', error);
     return NextResponse.json({ 
@@ -145,6 +108,6 @@ export async function POST(request: Request) {
 export async function GET() {
   return NextResponse.json({ 
     status: 'ok',
-    backendUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'
+    backendUrl: backendUrl()
   });
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ workflowId: string }> }
+) {
+  const { workflowId } = await params;
+  const { search } = new URL(request.url);
+
+  try {
+    const backendUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3004';
+
+    // Forward to backend (format and userId pass through)
+    const response = await fetch(`${backendUrl}/api/workflow/${workflowId}/export${search}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('Backend error:', error);
+      return NextResponse.json({ error: 'Backend error', details: error }, { status: response.status });
+    }
+
+    // The backend wraps the file in JSON; serve it as a download
+    const file: { filename: string; contentType: string; encoding: 'base64' | 'utf8'; content: string } =
+      await response.json();
+    return new Response(Buffer.from(file.content, file.encoding), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Proxy error:', error);
+    return NextResponse.json(
+      { error: 'Backend service unavailable. Please ensure the Motia backend is running on port 3004.' },
+      { status: 503 }
+    );
+  }
+}
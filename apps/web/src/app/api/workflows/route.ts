@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+
+export async function GET() {
+  try {
+    const backendUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3004';
+
+    // Forward to backend (definitions with their duration and cost estimates)
+    const response = await fetch(`${backendUrl}/api/workflows`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('Backend error:', error);
+      return NextResponse.json({ error: 'Backend error', details: error }, { status: response.status });
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Proxy error:', error);
+
+    // Without the backend the workflows show without estimates
+    return NextResponse.json({ workflows: [] });
+  }
+}
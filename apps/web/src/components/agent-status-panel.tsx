@@ -23,6 +23,8 @@ interface AgentStatus {
   startTime?: Date;
   endTime?: Date;
   currentAction?: string;
+  /** Readable text the agent has streamed so far */
+  liveOutput?: string;
 }
 
 interface AgentStatusPanelProps {
@@ -48,6 +50,9 @@ const agentColors: Record<string, string> = {
   economist: 'from-indigo-500 to-indigo-600',
 };
 
+// Only the tail of long answers is shown while streaming
+const LIVE_OUTPUT_CHARS = 600;
+
 export function AgentStatusPanel({ 
   agents, 
   workflowId, 
@@ -173,6 +178,17 @@ export function AgentStatusPanel({
                   )}
                 </div>
 
+                {/* Live Output (latest part of the streamed answer) */}
+                {agent.status === 'processing' && agent.liveOutput && (
+                  <div className="mt-3 max-h-32 overflow-y-auto rounded bg-gray-50 dark:bg-gray-800 p-2">
+                    <p className="text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap font-mono">
+                      {agent.liveOutput.length > LIVE_OUTPUT_CHARS
+                        ? `…${agent.liveOutput.slice(-LIVE_OUTPUT_CHARS)}`
+                        : agent.liveOutput}
+                    </p>
+                  </div>
+                )}
+
                 {/* Individual Progress Bar */}
                 {agent.status === 'processing' && agent.progress !== undefined && (
                   <div className="mt-3">
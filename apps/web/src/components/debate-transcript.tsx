@@ -0,0 +1,181 @@
+'use client';
+
+import React from 'react';
+import { Gavel, Loader2, MessageSquareReply, Scale } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+
+export type DebateStance = 'bull' | 'bear' | 'neutral';
+
+export interface DebateTurn {
+  round: number;
+  participant: string;
+  stance: DebateStance;
+  /** 0 to 1 */
+  confidence: number;
+  argument: string;
+  keyPoints: string[];
+  rebuttals: Array<{ participant: string; point: string }>;
+}
+
+export interface DebateRound {
+  round: number;
+  turns: DebateTurn[];
+  /** Participants whose turn failed and who sat out the rest of the debate */
+  dropped?: Array<{ participant: string; error: string }>;
+}
+
+export interface DebateVerdict {
+  verdict: DebateStance;
+  confidence: number;
+  summary: string;
+  scores: Array<{ participant: string; score: number; strongestPoint: string; weakestPoint?: string }>;
+}
+
+export type DebateConvergence = 'consensus' | 'stable' | 'max_rounds';
+
+export interface DebateState {
+  rounds: DebateRound[];
+  /** Set once the last round finished */
+  convergence?: DebateConvergence;
+  verdict?: DebateVerdict;
+}
+
+const stanceStyles: Record<DebateStance, string> = {
+  bull: 'bg-green-100 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-400',
+  bear: 'bg-red-100 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-400',
+  neutral: 'bg-gray-100 text-gray-700 border-gray-200 dark:bg-gray-800 dark:text-gray-300',
+};
+
+const convergenceLabels: Record<DebateConvergence, string> = {
+  consensus: 'Ended early: every participant agreed',
+  stable: 'Ended early: nobody changed their position',
+  max_rounds: 'All rounds argued',
+};
+
+/**
+ * Add a streamed debate event (workflow.agent.progress with a debate_* kind)
+ * to what has been shown so far
+ */
+export function applyDebateEvent(
+  state: DebateState | undefined,
+  kind: string | undefined,
+  data: { turn?: DebateTurn; round?: DebateRound; verdict?: DebateVerdict; convergence?: DebateConvergence } = {}
+): DebateState | undefined {
+  const current: DebateState = state ?? { rounds: [] };
+
+  switch (kind) {
+    case 'debate_turn': {
+      const { turn } = data;
+      if (!turn) return state;
+      const round = current.rounds.find(r => r.round === turn.round) ?? { round: turn.round, turns: [] };
+      const updated = { ...round, turns: [...round.turns.filter(t => t.participant !== turn.participant), turn] };
+      return { ...current, rounds: [...current.rounds.filter(r => r.round !== turn.round), updated].sort((a, b) => a.round - b.round) };
+    }
+    case 'debate_round': {
+      const { round } = data;
+      if (!round) return state;
+      // The finished round has every turn in order, plus who dropped out
+      return {
+        ...current,
+        rounds: [...current.rounds.filter(r => r.round !== round.round), round].sort((a, b) => a.round - b.round),
+        convergence: data.convergence ?? current.convergence,
+      };
+    }
+    case 'debate_verdict':
+      return { ...current, verdict: data.verdict, convergence: data.convergence ?? current.convergence };
+    default:
+      return state;
+  }
+}
+
+export function DebateTranscript({ rounds, convergence, verdict }: DebateState) {
+  const judging = !!convergence && !verdict;
+
+  return (
+    <div className="space-y-4">
+      {rounds.map(round => (
+        <div key={round.round}>
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+            Round {round.round}
+          </h4>
+          <div className="space-y-2">
+            {round.turns.map(turn => (
+              <div key={turn.participant} className="border rounded-lg p-3 bg-white dark:bg-gray-900">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-medium capitalize text-sm">{turn.participant}</span>
+                  <Badge variant="outline" className={cn('capitalize', stanceStyles[turn.stance])}>
+                    {turn.stance}
+                  </Badge>
+                  <span className="text-xs text-gray-500">{Math.round(turn.confidence * 100)}% confident</span>
+                </div>
+                <p className="text-sm text-gray-700 dark:text-gray-300">{turn.argument}</p>
+                {turn.keyPoints.length > 0 && (
+                  <ul className="list-disc list-inside text-xs text-gray-600 dark:text-gray-400 mt-2 space-y-0.5">
+                    {turn.keyPoints.map(point => (
+                      <li key={point}>{point}</li>
+                    ))}
+                  </ul>
+                )}
+                {turn.rebuttals.map(rebuttal => (
+                  <p key={rebuttal.participant} className="text-xs text-gray-600 dark:text-gray-400 mt-2 flex gap-1">
+                    <MessageSquareReply className="h-3 w-3 mt-0.5 shrink-0" />
+                    <span>
+                      <span className="font-medium capitalize">Re {rebuttal.participant}:</span> {rebuttal.point}
+                    </span>
+                  </p>
+                ))}
+              </div>
+            ))}
+            {round.dropped?.map(({ participant, error }) => (
+              <p key={participant} className="text-xs text-gray-500 italic">
+                <span className="capitalize">{participant}</span> dropped out: {error}
+              </p>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {convergence && (
+        <p className="text-xs text-gray-500 flex items-center gap-1">
+          <Scale className="h-3 w-3" />
+          {convergenceLabels[convergence]}
+        </p>
+      )}
+
+      {judging && (
+        <p className="text-sm text-gray-500 flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          The judge is scoring the arguments...
+        </p>
+      )}
+
+      {verdict && (
+        <div className="border-2 rounded-lg p-4 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20">
+          <div className="flex items-center gap-2 mb-2">
+            <Gavel className="h-5 w-5 text-purple-600" />
+            <span className="font-semibold">Verdict</span>
+            <Badge variant="outline" className={cn('capitalize', stanceStyles[verdict.verdict])}>
+              {verdict.verdict}
+            </Badge>
+            <span className="text-sm text-gray-500">{Math.round(verdict.confidence * 100)}% confidence</span>
+          </div>
+          <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">{verdict.summary}</p>
+          <div className="space-y-2">
+            {[...verdict.scores].sort((a, b) => b.score - a.score).map(score => (
+              <div key={score.participant}>
+                <div className="flex items-center justify-between text-xs mb-1">
+                  <span className="font-medium capitalize">{score.participant}</span>
+                  <span className="text-gray-500">{score.score}/10</span>
+                </div>
+                <Progress value={score.score * 10} className="h-1.5" />
+                <p className="text-xs text-gray-500 mt-1">{score.strongestPoint}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
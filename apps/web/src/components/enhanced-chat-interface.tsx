@@ -7,6 +7,8 @@ import { cn } from '@/lib/utils';
 import { AssistantProfile } from './assistant-selector';
 import { WorkflowVisualizer } from './workflow-visualizer';
 import { WorkflowTrigger } from './workflow-trigger';
+import { applyDebateEvent, type DebateState } from './debate-transcript';
+import type { WorkflowEstimate } from './workflow-estimate';
 
 interface Message {
   id: string;
@@ -22,10 +24,17 @@ interface WorkflowStep {
   index: number;
   agent: string;
   task: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'completed' | 'skipped' | 'error';
   result?: string;
+  when?: string;
+  endIf?: string;
+  skippedBy?: string;
+  error?: string;
+  debate?: DebateState;
 }
 
+type StepDefinition = { agent: string; task: string; when?: string; endIf?: string };
+
 interface ActiveWorkflow {
   workflowId: string;
   name: string;
@@ -35,6 +44,7 @@ interface ActiveWorkflow {
     total: number;
     percentage: number;
   };
+  estimate?: WorkflowEstimate;
 }
 
 interface ChatResponse {
@@ -74,13 +84,17 @@ export function EnhancedChatInterface({ assistant }: EnhancedChatInterfaceProps)
     data: {
       workflowId: string;
       name?: string;
-      steps?: Array<{ agent: string; task: string }>;
+      steps?: StepDefinition[];
       stepIndex?: number;
       agent?: string;
       task?: string;
       result?: string;
       error?: string;
+      skipped?: { error: string; condition?: string };
       results?: Array<{ agent: string; result: string }>;
+      kind?: string;
+      data?: Parameters<typeof applyDebateEvent>[2];
+      estimate?: WorkflowEstimate;
     };
   }) => {
     switch (event.type) {
@@ -92,6 +106,8 @@ export function EnhancedChatInterface({ assistant }: EnhancedChatInterfaceProps)
             index: i,
             agent: s.agent,
             task: s.task,
+            when: s.when,
+            endIf: s.endIf,
             status: 'pending' as const,
           })) || [],
           progress: {
@@ -99,6 +115,7 @@ export function EnhancedChatInterface({ assistant }: EnhancedChatInterfaceProps)
             total: event.data.steps?.length || 0,
             percentage: 0,
           },
+          estimate: event.data.estimate,
         });
         break;
 
@@ -115,17 +132,34 @@ export function EnhancedChatInterface({ assistant }: EnhancedChatInterfaceProps)
         }
         break;
 
+      case 'workflow.agent.progress':
+        // Debate steps stream every argument, each finished round and the verdict
+        if (activeWorkflow?.workflowId === event.data.workflowId && event.data.kind?.startsWith('debate_')) {
+          setActiveWorkflow(prev => {
+            const step = event.data.stepIndex !== undefined ? prev?.steps[event.data.stepIndex] : undefined;
+            if (!prev || !step) return prev;
+            const steps = [...prev.steps];
+            steps[step.index] = { ...step, debate: applyDebateEvent(step.debate, event.data.kind, event.data.data) };
+            return { ...prev, steps };
+          });
+        }
+        break;
+
       case 'workflow.agent.completed':
         if (activeWorkflow?.workflowId === event.data.workflowId) {
           setActiveWorkflow(prev => {
             if (!prev) return null;
             const steps = [...prev.steps];
             if (event.data.stepIndex !== undefined) {
-              steps[event.data.stepIndex].status = event.data.error ? 'error' : 'completed';
-              steps[event.data.stepIndex].result = event.data.result;
+              const step = steps[event.data.stepIndex];
+              step.status = event.data.error ? 'error' : event.data.skipped ? 'skipped' : 'completed';
+              step.result = event.data.result;
+              step.skippedBy = event.data.skipped?.condition;
+              step.error = event.data.error ?? event.data.skipped?.error;
             }
 
-            const completed = steps.filter(s => s.status === 'completed').length;
+            // Skipped steps (failed with a fallback, or branches not taken) are done too
+            const completed = steps.filter(s => s.status === 'completed' || s.status === 'skipped').length;
             return {
               ...prev,
               steps,
@@ -134,6 +168,8 @@ export function EnhancedChatInterface({ assistant }: EnhancedChatInterfaceProps)
                 total: prev.progress.total,
                 percentage: Math.round((completed / prev.progress.total) * 100),
               },
+              // Recomputed from what the finished steps took
+              estimate: event.data.estimate ?? prev.estimate,
             };
           });
         }
@@ -325,10 +361,12 @@ export function EnhancedChatInterface({ assistant }: EnhancedChatInterfaceProps)
           const workflow: ActiveWorkflow = {
             workflowId: data.workflowId,
             name: data.workflow.name,
-            steps: data.workflow.steps.map((step: { agent: string; task: string }, index: number) => ({
+            steps: data.workflow.steps.map((step: StepDefinition, index: number) => ({
               index,
               agent: step.agent,
               task: step.task,
+              when: step.when,
+              endIf: step.endIf,
               status: 'pending',
             })),
             progress: {
@@ -360,7 +398,8 @@ export function EnhancedChatInterface({ assistant }: EnhancedChatInterfaceProps)
           role: 'assistant',
           content: data.response,
           timestamp: new Date(),
-          assistantType: assistant.id,
+          // The general assistant may have handed the question to a specialist
+          assistantType: data.assistantType || assistant.id,
         };
         setMessages((prev) => [...prev, assistantMessage]);
       }
@@ -428,6 +467,7 @@ export function EnhancedChatInterface({ assistant }: EnhancedChatInterfaceProps)
             workflowName={activeWorkflow.name}
             steps={activeWorkflow.steps}
             progress={activeWorkflow.progress}
+            estimate={activeWorkflow.estimate}
             onClose={() => setActiveWorkflow(null)}
           />
         </div>
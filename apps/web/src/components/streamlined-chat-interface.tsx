@@ -28,6 +28,7 @@ interface AgentStatus {
   startTime?: Date;
   endTime?: Date;
   currentAction?: string;
+  liveOutput?: string;
 }
 
 interface ActiveWorkflow {
@@ -119,8 +120,10 @@ export function StreamlinedChatInterface({ assistant }: StreamlinedChatInterface
                 agent.id === data.data.agent
                   ? { 
                       ...agent, 
-                      progress: data.data.progress,
-                      currentAction: data.data.message
+                      progress: data.data.progress ?? agent.progress,
+                      currentAction: data.data.message,
+                      // 'tokens' events carry everything streamed so far
+                      liveOutput: data.data.kind === 'tokens' ? data.data.data?.text : agent.liveOutput,
                     }
                   : agent
               ),
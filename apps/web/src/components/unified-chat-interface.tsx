@@ -34,6 +34,7 @@ interface AgentStatus {
   startTime?: Date;
   endTime?: Date;
   currentAction?: string;
+  liveOutput?: string;
 }
 
 interface ActiveWorkflow {
@@ -118,8 +119,10 @@ export function UnifiedChatInterface({ assistant }: UnifiedChatInterfaceProps) {
                   agent.id === data.agent
                     ? { 
                         ...agent, 
-                        progress: data.progress,
-                        currentAction: data.message
+                        progress: data.progress ?? agent.progress,
+                        currentAction: data.message,
+                        // 'tokens' events carry everything streamed so far
+                        liveOutput: data.kind === 'tokens' ? data.data?.text : agent.liveOutput,
                       }
                     : agent
                 ),
@@ -146,6 +149,10 @@ export function UnifiedChatInterface({ assistant }: UnifiedChatInterfaceProps) {
                       }
                     : agent
                 ),
+                // Time left, recomputed from what the finished steps took
+                estimatedTime: data.estimate?.remainingMs
+                  ? Math.round(data.estimate.remainingMs.p50 / 1000)
+                  : prev.estimatedTime,
               };
             });
           }
@@ -369,6 +376,7 @@ export function UnifiedChatInterface({ assistant }: UnifiedChatInterfaceProps) {
                   <WorkflowReportDisplay 
                     results={message.workflowResults}
                     workflowName={activeWorkflow?.name}
+                    workflowId={message.workflowId}
                   />
                 </div>
               ) : (
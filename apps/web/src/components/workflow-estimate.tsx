@@ -0,0 +1,74 @@
+'use client';
+
+import React from 'react';
+import { Clock, DollarSign } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export interface EstimateRange {
+  p50: number;
+  p90: number;
+}
+
+/** Duration and cost of a run, from the percentiles of recent runs */
+export interface WorkflowEstimate {
+  durationMs: EstimateRange;
+  costUsd: EstimateRange;
+  /** Live estimates only, updated as steps finish */
+  remainingMs?: EstimateRange;
+  spentUsd?: number;
+  source: 'history' | 'partial' | 'default';
+  updatedAt: string;
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return seconds % 60 ? `${minutes}m ${seconds % 60}s` : `${minutes}m`;
+}
+
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return '<$0.01';
+  return `$${usd.toFixed(2)}`;
+}
+
+const sourceLabels: Record<WorkflowEstimate['source'], string> = {
+  history: 'Based on recent runs',
+  partial: 'Partly based on recent runs',
+  default: 'Rough estimate, no runs yet',
+};
+
+interface WorkflowEstimateSummaryProps {
+  estimate: WorkflowEstimate;
+  className?: string;
+}
+
+/**
+ * Typical (median) duration and cost, with the 90th percentile as the upper
+ * bound; live estimates show the time left and what was spent so far
+ */
+export function WorkflowEstimateSummary({ estimate, className }: WorkflowEstimateSummaryProps) {
+  const live = estimate.remainingMs !== undefined;
+  const time = live
+    ? `~${formatDuration(estimate.remainingMs!.p50)} left (up to ${formatDuration(estimate.remainingMs!.p90)})`
+    : `~${formatDuration(estimate.durationMs.p50)} (up to ${formatDuration(estimate.durationMs.p90)})`;
+  const cost = live
+    ? `${formatCost(estimate.spentUsd ?? 0)} spent of ~${formatCost(estimate.costUsd.p50)}`
+    : `~${formatCost(estimate.costUsd.p50)} (up to ${formatCost(estimate.costUsd.p90)})`;
+
+  return (
+    <div
+      className={cn('flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-gray-400', className)}
+      title={sourceLabels[estimate.source]}
+    >
+      <span className="inline-flex items-center gap-1">
+        <Clock className="h-3 w-3" />
+        {time}
+      </span>
+      <span className="inline-flex items-center gap-1">
+        <DollarSign className="h-3 w-3" />
+        {cost}
+      </span>
+    </div>
+  );
+}
@@ -13,7 +13,8 @@ import {
   DollarSign,
   Globe,
   Activity,
-  Sparkles
+  Sparkles,
+  Download
 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
@@ -26,8 +27,17 @@ interface WorkflowReportDisplayProps {
     completedAt?: string;
   }>;
   workflowName?: string;
+  /** Shows download links for the report when set */
+  workflowId?: string;
 }
 
+const exportFormats = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'html', label: 'HTML' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+];
+
 const agentIcons: Record<string, React.ReactNode> = {
   analyst: <BarChart3 className="h-5 w-5" />,
   trader: <LineChart className="h-5 w-5" />,
@@ -48,7 +58,7 @@ const agentColors: Record<string, string> = {
   summary: 'bg-gradient-to-r from-purple-500 to-pink-500',
 };
 
-export function WorkflowReportDisplay({ results, workflowName }: WorkflowReportDisplayProps) {
+export function WorkflowReportDisplay({ results, workflowName, workflowId }: WorkflowReportDisplayProps) {
   // Ensure results is an array
   const safeResults = Array.isArray(results) ? results : [];
   
@@ -110,6 +120,21 @@ export function WorkflowReportDisplay({ results, workflowName }: WorkflowReportD
           <p className="text-sm text-muted-foreground">
             Generated: {new Date().toLocaleString()}
           </p>
+          {workflowId && (
+            <div className="flex flex-wrap items-center gap-2 pt-2">
+              <Download className="h-4 w-4 text-muted-foreground" />
+              {exportFormats.map(({ format, label }) => (
+                <a
+                  key={format}
+                  href={`/api/workflow/${workflowId}/export?format=${format}`}
+                  download
+                  className="text-sm px-3 py-1 rounded-md border hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                >
+                  {label}
+                </a>
+              ))}
+            </div>
+          )}
         </CardHeader>
       </Card>
 
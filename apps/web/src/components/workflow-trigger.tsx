@@ -1,6 +1,6 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   Sparkles, 
   TrendingUp, 
@@ -11,6 +11,7 @@ import {
 } from 'lucide-react';
 import { Card } from './ui/card';
 import { cn } from '@/lib/utils';
+import { WorkflowEstimateSummary, type WorkflowEstimate } from './workflow-estimate';
 
 interface WorkflowPrompt {
   id: string;
@@ -78,7 +79,7 @@ const workflowPrompts: WorkflowPrompt[] = [
   {
     id: 'marketDebate',
     name: 'Market Debate',
-    description: 'Multi-perspective debate on market direction',
+    description: 'Agents argue and rebut over several rounds; a judge gives the verdict',
     icon: MessageSquare,
     color: 'from-teal-500 to-cyan-500',
     prompts: [
@@ -96,6 +97,25 @@ interface WorkflowTriggerProps {
 }
 
 export function WorkflowTrigger({ onTriggerWorkflow, isLoading }: WorkflowTriggerProps) {
+  // Duration and cost per workflow, from the backend's telemetry of recent runs
+  const [estimates, setEstimates] = useState<Record<string, WorkflowEstimate>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/workflows')
+      .then(response => response.json())
+      .then((data: { workflows?: Array<{ id: string; estimate?: WorkflowEstimate }> }) => {
+        if (cancelled) return;
+        setEstimates(Object.fromEntries(
+          (data.workflows || []).filter(w => w.estimate).map(w => [w.id, w.estimate as WorkflowEstimate])
+        ));
+      })
+      .catch(error => console.error('Failed to load workflow estimates:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   return (
     <div className="w-full max-w-6xl mx-auto p-4">
       <div className="text-center mb-8">
@@ -142,6 +162,9 @@ export function WorkflowTrigger({ onTriggerWorkflow, isLoading }: WorkflowTrigge
                     </span>
                   ))}
                 </div>
+                {estimates[workflow.id] && (
+                  <WorkflowEstimateSummary estimate={estimates[workflow.id]} className="mt-2" />
+                )}
               </div>
 
               <div className="space-y-2">
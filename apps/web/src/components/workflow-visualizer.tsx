@@ -14,19 +14,35 @@ import {
   AlertCircle,
   ChevronDown,
   ChevronUp,
-  Sparkles
+  Sparkles,
+  GitBranch,
+  SkipForward,
+  Flag,
+  Scale
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Card } from './ui/card';
 import { Progress } from './ui/progress';
 import { Badge } from './ui/badge';
+import { DebateTranscript, type DebateState } from './debate-transcript';
+import { WorkflowEstimateSummary, type WorkflowEstimate } from './workflow-estimate';
 
 interface AgentStep {
   index: number;
   agent: string;
   task: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'completed' | 'skipped' | 'error';
   result?: string;
+  /** Condition the step runs under */
+  when?: string;
+  /** Condition that ends the workflow after this step */
+  endIf?: string;
+  /** Condition that left this step out (branch not taken) */
+  skippedBy?: string;
+  /** Why the step was skipped */
+  error?: string;
+  /** Debate steps: the rounds argued so far and the verdict */
+  debate?: DebateState;
   startedAt?: string;
   completedAt?: string;
 }
@@ -40,6 +56,8 @@ interface WorkflowVisualizerProps {
     total: number;
     percentage: number;
   };
+  /** Time left and cost, updated as steps finish */
+  estimate?: WorkflowEstimate;
   onClose?: () => void;
 }
 
@@ -50,6 +68,7 @@ const agentIcons: Record<string, React.ComponentType<{ className?: string }>> =
   advisor: BarChart3,
   riskManager: Shield,
   economist: Globe,
+  debate: Scale,
 };
 
 const agentColors: Record<string, string> = {
@@ -59,6 +78,7 @@ const agentColors: Record<string, string> = {
   advisor: 'bg-indigo-500',
   riskManager: 'bg-orange-500',
   economist: 'bg-teal-500',
+  debate: 'bg-rose-500',
 };
 
 export function WorkflowVisualizer({ 
@@ -66,6 +86,7 @@ export function WorkflowVisualizer({
   workflowName = 'Multi-Agent Workflow',
   steps,
   progress,
+  estimate,
   onClose 
 }: WorkflowVisualizerProps) {
   const [expandedSteps, setExpandedSteps] = useState<Set<number>>(new Set());
@@ -97,6 +118,8 @@ export function WorkflowVisualizer({
         return <Loader2 className="h-5 w-5 text-blue-500 animate-spin" />;
       case 'error':
         return <AlertCircle className="h-5 w-5 text-red-500" />;
+      case 'skipped':
+        return <SkipForward className="h-5 w-5 text-gray-400" />;
       default:
         return <Circle className="h-5 w-5 text-gray-400" />;
     }
@@ -110,6 +133,8 @@ export function WorkflowVisualizer({
         return 'text-blue-600 bg-blue-50 dark:bg-blue-900/20 animate-pulse';
       case 'error':
         return 'text-red-600 bg-red-50 dark:bg-red-900/20';
+      case 'skipped':
+        return 'text-gray-400 bg-gray-50 dark:bg-gray-900/20';
       default:
         return 'text-gray-600 bg-gray-50 dark:bg-gray-900/20';
     }
@@ -160,6 +185,7 @@ export function WorkflowVisualizer({
                 </span>
               </div>
               <Progress value={progress.percentage} className="h-2" />
+              {estimate && <WorkflowEstimateSummary estimate={estimate} className="mt-2" />}
             </div>
           )}
 
@@ -170,6 +196,9 @@ export function WorkflowVisualizer({
               const color = agentColors[step.agent] || 'bg-gray-500';
               const isExpanded = expandedSteps.has(index);
               const isActive = step.status === 'processing';
+              const branchSkipped = step.status === 'skipped' && !!step.skippedBy;
+              // This step's endIf held and left the remaining steps out
+              const endedHere = !!step.endIf && steps.some(s => s.skippedBy === step.endIf);
 
               return (
                 <div
@@ -177,6 +206,7 @@ export function WorkflowVisualizer({
                   className={cn(
                     'border rounded-lg transition-all duration-200',
                     isActive && 'ring-2 ring-blue-500 ring-opacity-50',
+                    branchSkipped && 'border-dashed opacity-60',
                     'hover:shadow-md'
                   )}
                 >
@@ -197,9 +227,39 @@ export function WorkflowVisualizer({
                         <span className="font-medium capitalize">{step.agent} Agent</span>
                         {getStatusIcon(step.status)}
                       </div>
-                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                      <p className={cn(
+                        'text-sm text-gray-600 dark:text-gray-400 mt-1',
+                        branchSkipped && 'line-through'
+                      )}>
                         {step.task}
                       </p>
+                      {step.when && (
+                        <p className="text-xs mt-1 flex items-center gap-1">
+                          <GitBranch className="h-3 w-3" />
+                          <code>if {step.when}</code>
+                          {step.status === 'completed' && (
+                            <span className="text-green-600">branch taken</span>
+                          )}
+                          {branchSkipped && (
+                            <span className="text-gray-500">branch skipped</span>
+                          )}
+                        </p>
+                      )}
+                      {!step.when && branchSkipped && (
+                        <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                          <GitBranch className="h-3 w-3" />
+                          {step.error || `Skipped because of ${step.skippedBy}`}
+                        </p>
+                      )}
+                      {step.endIf && (
+                        <p className="text-xs mt-1 flex items-center gap-1">
+                          <Flag className="h-3 w-3" />
+                          <code>end if {step.endIf}</code>
+                          {endedHere && (
+                            <span className="text-amber-600">workflow ended here</span>
+                          )}
+                        </p>
+                      )}
                     </div>
 
                     <div className="flex items-center gap-2">
@@ -217,8 +277,15 @@ export function WorkflowVisualizer({
                     </div>
                   </div>
 
+                  {/* Debates stream their transcript while the agents argue */}
+                  {(isExpanded || isActive) && step.debate && (
+                    <div className="p-4 border-t bg-gray-50 dark:bg-gray-900/50">
+                      <DebateTranscript {...step.debate} />
+                    </div>
+                  )}
+
                   {/* Step Content */}
-                  {isExpanded && step.result && (
+                  {isExpanded && step.result && !step.debate && (
                     <div className="p-4 border-t bg-white dark:bg-gray-900">
                       <div className="prose prose-sm dark:prose-invert max-w-none">
                         <pre className="whitespace-pre-wrap text-sm font-sans">
@@ -238,7 +305,8 @@ export function WorkflowVisualizer({
                     <div className="flex justify-center -mb-3 relative z-10">
                       <div className={cn(
                         'w-0.5 h-6',
-                        step.status === 'completed' ? 'bg-green-500' : 'bg-gray-300'
+                        step.status === 'completed' ? 'bg-green-500' : 'bg-gray-300',
+                        step.status === 'skipped' && 'bg-transparent border-l-2 border-dashed border-gray-300'
                       )} />
                     </div>
                   )}
@@ -248,11 +316,16 @@ export function WorkflowVisualizer({
           </div>
 
           {/* Footer */}
-          {steps.every(s => s.status === 'completed') && (
+          {steps.every(s => s.status === 'completed' || s.status === 'skipped') && (
             <div className="p-4 border-t bg-green-50 dark:bg-green-900/20">
               <div className="flex items-center gap-2 text-green-600 dark:text-green-400">
                 <CheckCircle className="h-5 w-5" />
                 <span className="font-medium">Workflow completed successfully!</span>
+                {steps.some(s => s.skippedBy) && (
+                  <span className="text-sm text-gray-500">
+                    ({steps.filter(s => s.skippedBy).length} skipped by branch conditions)
+                  </span>
+                )}
               </div>
             </div>
           )}
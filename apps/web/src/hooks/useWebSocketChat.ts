@@ -1,5 +1,5 @@
 import { useEffect, useRef, useState, useCallback } from 'react'
-import { WebSocketService, ChatTokenMessage, WorkflowUpdateMessage, ChatStatusMessage } from '../lib/websocket.service'
+import { WebSocketService, ChatTokenMessage, ChatToolMessage, WorkflowUpdateMessage, ChatStatusMessage } from '../lib/websocket.service'
 
 export interface ChatMessage {
   id: string
@@ -11,9 +11,17 @@ export interface ChatMessage {
     model?: string
     assistantType?: string
     workflowId?: string
+    toolCalls?: ChatToolActivity[]
   }
 }
 
+export interface ChatToolActivity {
+  id: string
+  tool: string
+  summary: string
+  status: 'running' | 'done' | 'failed'
+}
+
 export interface WorkflowStatus {
   workflowId: string
   agents: string[]
@@ -102,6 +110,24 @@ export function useWebSocketChat(options: UseWebSocketChatOptions = {}) {
         }
       })
 
+      wsRef.current.on('tool', (data: ChatToolMessage) => {
+        if (!streamMessageIdRef.current) return
+
+        const activity: ChatToolActivity = {
+          id: data.toolCallId,
+          tool: data.tool,
+          summary: data.summary,
+          status: data.type === 'tool_call' ? 'running' : data.error ? 'failed' : 'done',
+        }
+
+        // Replace the "running" entry once its result arrives
+        setMessages(prev => prev.map(msg => {
+          if (msg.id !== streamMessageIdRef.current) return msg
+          const toolCalls = (msg.metadata?.toolCalls || []).filter(call => call.id !== activity.id)
+          return { ...msg, metadata: { ...msg.metadata, toolCalls: [...toolCalls, activity] } }
+        }))
+      })
+
       wsRef.current.on('chat_completed', (data: ChatStatusMessage) => {
         setIsStreaming(false)
         
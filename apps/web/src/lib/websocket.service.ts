@@ -26,12 +26,22 @@ export interface WorkflowUpdateMessage {
   timestamp?: string
 }
 
+export interface ChatToolMessage {
+  type: 'tool_call' | 'tool_result'
+  toolCallId: string
+  tool: string
+  args?: Record<string, any>
+  summary: string
+  error?: string
+  durationMs?: number
+}
+
 export interface ChatStatusMessage {
   type: 'chat_started' | 'chat_completed' | 'workflow_detected' | 'provider_switch' | 'error'
   [key: string]: any
 }
 
-export type StreamMessage = ChatTokenMessage | WorkflowUpdateMessage | ChatStatusMessage
+export type StreamMessage = ChatTokenMessage | ChatToolMessage | WorkflowUpdateMessage | ChatStatusMessage
 
 type EventListener = (data: any) => void
 
@@ -134,6 +144,11 @@ export class WebSocketService {
       case 'token':
         this.emit('token', message as ChatTokenMessage)
         break
+
+      case 'tool_call':
+      case 'tool_result':
+        this.emit('tool', message as ChatToolMessage)
+        break
       
       case 'workflow_update':
         this.emit('workflow_update', message as WorkflowUpdateMessage)